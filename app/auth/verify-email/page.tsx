@@ -16,6 +16,7 @@ import LanguageSelector from '@/components/language-selector';
 import ErrorBoundary from '@/components/error-boundary';
 import { useLanguagePersistence } from '@/hooks/use-language-persistence';
 import '@/i18n';
+import { isSelectableLocale } from '@/lib/locale-registry';
 
 // Create QueryClient instance
 const queryClient = new QueryClient({
@@ -49,7 +50,7 @@ function VerifyEmailContent() {
   useEffect(() => {
     if (mounted) {
       // Initialize language from localStorage or URL parameter
-      if (langFromUrl && (langFromUrl === 'fa' || langFromUrl === 'ar')) {
+      if (isSelectableLocale(langFromUrl)) {
         // Change language based on URL parameter from email
         changeLanguage(langFromUrl);
       } else {
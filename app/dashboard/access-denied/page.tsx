@@ -0,0 +1,9 @@
+'use client';
+
+import React from 'react';
+import AccessDenied from '@/components/access-denied';
+import '@/i18n';
+
+export default function AccessDeniedPage() {
+  return <AccessDenied />;
+}
@@ -7,46 +7,11 @@ import { Shield } from 'lucide-react';
 import AuditTrailList from '@/components/audit-trail-list';
 import DashboardHeader from '@/components/dashboard-header';
 import DashboardNavigation from '@/components/dashboard-navigation';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { useUser } from '@/hooks/use-user';
-import { hasPermission } from '@/lib/role-utils';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
 import '@/i18n';
 
 function AuditContent() {
   const { t } = useTranslation();
-  const { user } = useUser();
-
-  // Check if user has audit permissions (? - BR01)
-  if (!user || !hasPermission(user.roleName, 'audit')) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
-        {/* Header */}
-        <DashboardHeader companyName="" />
-
-        {/* Navigation */}
-        <DashboardNavigation />
-
-        {/* Main Content */}
-        <main className="lg:mr-64 pt-16">
-          <div className="max-w-screen-2xl mx-auto p-6">
-            <div className="flex items-center justify-center min-h-[400px]">
-              <Card className="dashboard-card max-w-md w-full">
-                <CardContent className="p-8 text-center">
-                  <Shield className="w-16 h-16 text-gray-400 mx-auto mb-4" />
-                  <h2 className="text-2xl font-bold dashboard-text-primary mb-2">
-                    {t('audit.accessDenied.title')}
-                  </h2>
-                  <p className="dashboard-text-secondary">
-                    {t('audit.accessDenied.message')}
-                  </p>
-                </CardContent>
-              </Card>
-            </div>
-          </div>
-        </main>
-      </div>
-    );
-  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
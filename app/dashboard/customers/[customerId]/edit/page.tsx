@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft } from 'lucide-react';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import EditCustomerForm from '@/components/customers/edit-customer-form';
+import { customersService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+
+export default function EditCustomerPage() {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { canUpdate } = useClientPermissions();
+  const params = useParams();
+  const router = useRouter();
+  const customerId = params.customerId as string;
+
+  // Check if user has permission to update customers
+  const canUpdateCustomers = canUpdate('customers');
+
+  // Fetch customer details
+  const {
+    data: customerData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['customer', customerId],
+    queryFn: () => customersService.getCustomer(customerId),
+    enabled: canUpdateCustomers,
+    retry: 1,
+  });
+
+  const customer = customerData?.data;
+
+  // Return to the details page after saving or cancelling
+  const handleBack = () => {
+    router.push(`/dashboard/customers/${customerId}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <DashboardHeader companyName="" />
+      <DashboardNavigation />
+
+      <main className="pt-16 lg:mr-64">
+        <div className="max-w-screen-2xl mx-auto p-6">
+          {/* Breadcrumb Navigation */}
+          <div className="mb-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBack}
+              className="dashboard-text-secondary hover:dashboard-text-primary"
+            >
+              <ArrowLeft className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('customers.edit.backToDetails')}
+            </Button>
+          </div>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex justify-center items-center py-12">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Alert className="mb-6">
+              <AlertDescription>
+                {t('customers.details.errors.loadFailed')}
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => refetch()}
+                  className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+                >
+                  {t('common.retry')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Edit Form */}
+          {!isLoading && !error && customer && (
+            <div className="dashboard-card rounded-2xl p-8">
+              <EditCustomerForm
+                customer={customer}
+                onSuccess={handleBack}
+                onCancel={handleBack}
+              />
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowLeft,
+  User,
+  Calendar,
+  CreditCard,
+  Phone,
+  Mail,
+  MapPin,
+  FileText,
+  AlertCircle,
+  Edit,
+  Trash2
+} from 'lucide-react';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getCustomerStatusVariant } from '@/components/customers/customers-list';
+import DeleteCustomerDialog from '@/components/customers/delete-customer-dialog';
+import { customersService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { formatNationalId, getNationalIdLabelKey } from '@/lib/national-id';
+
+export default function CustomerDetailsPage() {
+  const { t, i18n } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { config } = useGlobalLocaleFormatting();
+  const { canRead, canUpdate, canDelete } = useClientPermissions();
+  const params = useParams();
+  const router = useRouter();
+  const customerId = params.customerId as string;
+
+  const [showDeleteDialog, setShowDeleteDialog] = React.useState(false);
+
+  // Check permissions
+  const canViewCustomers = canRead('customers');
+  const canUpdateCustomers = canUpdate('customers');
+  const canDeleteCustomers = canDelete('customers');
+
+  // Memoize the date formatting function to re-compute when language changes
+  const formatDate = React.useCallback((dateString: string) => {
+    // Create a locale-specific config based on current language
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  // Fetch customer details
+  const {
+    data: customerData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['customer', customerId],
+    queryFn: () => customersService.getCustomer(customerId),
+    enabled: canViewCustomers,
+    retry: 1,
+  });
+
+  const customer = customerData?.data;
+
+  // Handle back navigation
+  const handleBack = () => {
+    router.push('/dashboard/customers');
+  };
+
+  // Handle edit
+  const handleEdit = () => {
+    router.push(`/dashboard/customers/${customerId}/edit`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <DashboardHeader companyName="" />
+      <DashboardNavigation />
+
+      <main className="pt-16 lg:mr-64">
+        <div className="max-w-screen-2xl mx-auto p-6">
+          {/* Breadcrumb Navigation */}
+          <div className="mb-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBack}
+              className="dashboard-text-secondary hover:dashboard-text-primary"
+            >
+              <ArrowLeft className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('customers.details.backToList')}
+            </Button>
+          </div>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex justify-center items-center py-12">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Alert className="mb-6">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {t('customers.details.errors.loadFailed')}
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => refetch()}
+                  className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+                >
+                  {t('common.retry')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Customer Details */}
+          {!isLoading && !error && customer && (
+            <>
+              {/* Page Header */}
+              <div className="dashboard-card rounded-2xl p-6 mb-8">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+                      <User className="w-6 h-6 text-white" />
+                    </div>
+                    <div>
+                      <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                        {customer.fullName}
+                      </h1>
+                      <div className="mt-1">
+                        <Badge variant={getCustomerStatusVariant(customer.status)} className="text-sm">
+                          {t(`customers.status.${customer.status}`)}
+                        </Badge>
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {canDeleteCustomers && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowDeleteDialog(true)}
+                        className="min-h-[44px] text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                        {t('customers.details.actions.delete')}
+                      </Button>
+                    )}
+                    {canUpdateCustomers && (
+                      <Button
+                        variant="default"
+                        size="sm"
+                        onClick={handleEdit}
+                        className="dashboard-button-primary min-h-[44px]"
+                      >
+                        <Edit className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                        {t('customers.details.actions.edit')}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Customer Information Grid */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Identity and Contact */}
+                <div className="dashboard-card rounded-2xl p-6">
+                  <h2 className="text-xl font-bold dashboard-text-primary mb-6 flex items-center gap-3">
+                    <CreditCard className="w-5 h-5" />
+                    {t('customers.details.sections.identity')}
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* National ID */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t(getNationalIdLabelKey(config.locale))}
+                      </label>
+                      <p className="font-mono dashboard-text-primary font-medium mt-1" dir="ltr">
+                        {formatNationalId(customer.nationalId, config.locale)}
+                      </p>
+                    </div>
+
+                    {/* Phone Number */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('customers.form.fields.phoneNumber.label')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Phone className="w-4 h-4 dashboard-text-muted" />
+                        <span className="dashboard-text-primary font-medium" dir="ltr">
+                          {customer.phoneNumber}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Email */}
+                    {customer.email && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('customers.form.fields.email.label')}
+                        </label>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Mail className="w-4 h-4 dashboard-text-muted" />
+                          <span className="dashboard-text-primary" dir="ltr">
+                            {customer.email}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Address */}
+                    {customer.address && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('customers.form.fields.address.label')}
+                        </label>
+                        <div className="flex items-start gap-2 mt-1">
+                          <MapPin className="w-4 h-4 mt-1 dashboard-text-muted" />
+                          <p className="dashboard-text-primary whitespace-pre-wrap">
+                            {customer.address}
+                          </p>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {/* Account Information */}
+                <div className="dashboard-card rounded-2xl p-6">
+                  <h2 className="text-xl font-bold dashboard-text-primary mb-6 flex items-center gap-3">
+                    <FileText className="w-5 h-5" />
+                    {t('customers.details.sections.account')}
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Active Rentals */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('customers.details.fields.activeRentals')}
+                      </label>
+                      <p className="dashboard-text-primary font-medium mt-1">
+                        {customer.activeRentalsCount ?? 0}
+                      </p>
+                    </div>
+
+                    {/* Notes */}
+                    {customer.notes && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('customers.form.fields.notes.label')}
+                        </label>
+                        <p className="dashboard-text-primary mt-1 whitespace-pre-wrap">
+                          {customer.notes}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Created Date */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('customers.details.fields.createdAt')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-4 h-4 dashboard-text-muted" />
+                        <span className="dashboard-text-primary">
+                          {formatDate(customer.createdAt)}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Last Updated */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('customers.details.fields.updatedAt')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-4 h-4 dashboard-text-muted" />
+                        <span className="dashboard-text-primary">
+                          {formatDate(customer.updatedAt)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Delete Dialog */}
+          {showDeleteDialog && customer && (
+            <DeleteCustomerDialog
+              customer={customer}
+              isOpen={showDeleteDialog}
+              onClose={() => setShowDeleteDialog(false)}
+              onDeleted={handleBack}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
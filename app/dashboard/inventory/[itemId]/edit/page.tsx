@@ -16,21 +16,16 @@ import UpdateSerializedForm from '@/components/inventory/update-serialized-form'
 import UpdateQuantityForm from '@/components/inventory/update-quantity-form';
 import { inventoryService } from '@/services/api';
 import { useDirection } from '@/hooks/use-direction';
-import { useClientPermissions } from '@/hooks/use-permissions';
 import { ItemType } from '@/types';
 
 export default function EditInventoryItemPage() {
   const { t } = useTranslation();
   const direction = useDirection();
   const isRTL = direction === 'rtl';
-  const { canUpdate } = useClientPermissions();
   const params = useParams();
   const router = useRouter();
   const itemId = params.itemId as string;
 
-  // Check if user has permission to update inventory
-  const canUpdateInventory = canUpdate('inventory');
-
   // Fetch inventory item details
   const {
     data: itemData,
@@ -60,40 +55,6 @@ export default function EditInventoryItemPage() {
     router.push(`/dashboard/inventory/${itemId}`);
   };
 
-  // Check permissions
-  if (!canUpdateInventory) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
-        <DashboardHeader companyName="" />
-        <DashboardNavigation />
-        
-        <main className="pt-16 lg:mr-64">
-          <div className="max-w-screen-2xl mx-auto p-6">
-            <div className="text-center py-12">
-              <div className="dashboard-card max-w-md mx-auto p-8">
-                <Package className="h-16 w-16 text-gray-400 mx-auto mb-6" />
-                <h1 className="text-3xl font-bold dashboard-text-primary mb-4">
-                  {t('inventory.edit.accessDenied')}
-                </h1>
-                <p className="dashboard-text-secondary mb-8">
-                  {t('inventory.edit.accessDeniedDescription')}
-                </p>
-                <Button
-                  onClick={() => router.back()}
-                  variant="outline"
-                  className="w-full"
-                >
-                  <ArrowLeft className="h-4 w-4 mr-2" />
-                  {t('common.goBack')}
-                </Button>
-              </div>
-            </div>
-          </div>
-        </main>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
       <DashboardHeader companyName="" />
@@ -132,7 +93,7 @@ export default function EditInventoryItemPage() {
                   onClick={() => refetch()}
                   className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
                 >
-                  {t('common.tryAgain')}
+                  {t('common.retry')}
                 </Button>
               </AlertDescription>
             </Alert>
@@ -29,12 +29,11 @@ import { inventoryService } from '@/services/api';
 import { useDirection } from '@/hooks/use-direction';
 import { useClientPermissions } from '@/hooks/use-permissions';
 import { useLocaleFormatting as useGlobalLocaleFormatting } from '@/hooks/use-locale-formatting';
-import { formatDate as formatDateUtil } from '@/lib/locale-formatting';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
 import type { 
   AvailabilityStatus,
   InventoryItemStatus,
-  TenantLocale,
-  TenantLanguage
 } from '@/types';
 import { ExportType } from '@/types';
 
@@ -43,34 +42,21 @@ export default function InventoryItemDetailsPage() {
   const direction = useDirection();
   const isRTL = direction === 'rtl';
   const { config } = useGlobalLocaleFormatting();
-  const { canRead, canUpdate, canExport } = useClientPermissions();
+  const { canUpdate, canExport } = useClientPermissions();
   const params = useParams();
   const router = useRouter();
   const itemId = params.itemId as string;
 
   const [showExportDialog, setShowExportDialog] = React.useState(false);
 
-  // Check if user has permission to view inventory
-  const canViewInventory = canRead('inventory');
+  // Actions offered on the item
   const canUpdateInventory = canUpdate('inventory');
   const canExportInventory = canExport('inventory');
 
   // Memoize the date formatting function to re-compute when language changes
   const formatDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDateUtil(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -125,40 +111,6 @@ export default function InventoryItemDetailsPage() {
     router.push(`/dashboard/inventory/${itemId}/edit`);
   };
 
-  // Check permissions
-  if (!canViewInventory) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
-        <DashboardHeader companyName="" />
-        <DashboardNavigation />
-        
-        <main className="pt-16 lg:mr-64">
-          <div className="max-w-screen-2xl mx-auto p-6">
-            <div className="text-center py-12">
-              <div className="dashboard-card max-w-md mx-auto p-8">
-                <Shield className="h-16 w-16 text-gray-400 mx-auto mb-6" />
-                <h1 className="text-3xl font-bold dashboard-text-primary mb-4">
-                  {t('inventory.accessDenied')}
-                </h1>
-                <p className="dashboard-text-secondary mb-8">
-                  {t('inventory.accessDeniedDescription')}
-                </p>
-                <Button
-                  onClick={() => router.back()}
-                  variant="outline"
-                  className="w-full"
-                >
-                  <ArrowLeft className="h-4 w-4 mr-2" />
-                  {t('common.goBack')}
-                </Button>
-              </div>
-            </div>
-          </div>
-        </main>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
       <DashboardHeader companyName="" />
@@ -198,7 +150,7 @@ export default function InventoryItemDetailsPage() {
                   onClick={() => refetch()}
                   className="ml-2 p-0 h-auto"
                 >
-                  {t('common.tryAgain')}
+                  {t('common.retry')}
                 </Button>
               </AlertDescription>
             </Alert>
@@ -3,6 +3,11 @@
 import React from 'react';
 import { LocaleFormattingProvider } from '@/providers/locale-formatting-provider';
 import { I18nProvider } from '@/providers/i18n-provider';
+import SessionExpiryDialog from '@/components/session-expiry-dialog';
+import SessionReloginDialog from '@/components/session-relogin-dialog';
+import RouteGuard from '@/components/route-guard';
+import ViewAsBanner from '@/components/view-as-banner';
+import { ViewAsProvider } from '@/hooks/use-view-as';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -12,12 +17,20 @@ interface DashboardLayoutProps {
  * Dashboard Layout
  * Provides locale formatting context to all dashboard pages
  * Ensures consistent formatting data availability across navigation
+ * Hosts the session-expiry warning and in-place re-login dialogs
+ * Pages render behind the route guard, which applies the permissions of lib/route-manifest.ts
+ * Holds the read-only "view as" session and its banner
  */
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   return (
     <I18nProvider>
       <LocaleFormattingProvider>
-        {children}
+        <ViewAsProvider>
+          <RouteGuard>{children}</RouteGuard>
+          <ViewAsBanner />
+          <SessionExpiryDialog />
+          <SessionReloginDialog />
+        </ViewAsProvider>
       </LocaleFormattingProvider>
     </I18nProvider>
   );
@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import { PermissionAuditAnalytics } from '@/components/permissions/permission-audit-analytics';
+
+// Force dynamic rendering to avoid SSR issues
+export const dynamic = 'force-dynamic';
+
+export default function PermissionAuditAnalyticsPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      {/* Header */}
+      <DashboardHeader companyName="" />
+
+      {/* Navigation */}
+      <DashboardNavigation />
+
+      {/* Main Content */}
+      <main className="lg:mr-64 pt-16">
+        <div className="max-w-screen-2xl mx-auto p-6">
+          <div className="mb-6">
+            <Button
+              onClick={() => router.push('/dashboard/permissions')}
+              variant="outline"
+              className="bg-white/90 backdrop-blur-sm border-white/30"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t('permissions.backToOverview')}
+            </Button>
+          </div>
+          <Card className="bg-white/95 backdrop-blur-sm border-white/30 shadow-xl rounded-2xl">
+            <CardContent className="p-8">
+              <PermissionAuditAnalytics />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
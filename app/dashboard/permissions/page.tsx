@@ -2,20 +2,25 @@
 
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Shield, Users, History, ArrowLeft, Settings } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { Shield, Users, History, ArrowLeft, Settings, Plus, Pencil, Copy, Trash2, Eye, Grid3x3, BarChart3 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
 import DashboardHeader from '@/components/dashboard-header';
 import DashboardNavigation from '@/components/dashboard-navigation';
 import { RolePermissionsManager } from '@/components/role-permissions-manager';
 import { PermissionsAuditList } from '@/components/permissions-audit-list';
+import { RoleEditorDialog, type RoleEditorMode } from '@/components/permissions/role-editor-dialog';
+import { DeleteRoleDialog } from '@/components/permissions/delete-role-dialog';
+import ViewAsDialog from '@/components/view-as-dialog';
 import { useClientPermissions } from '@/hooks/use-permissions';
-import { getRoleDisplayName } from '@/lib/role-utils';
+import { useViewAs } from '@/hooks/use-view-as';
+import { getRoleLabel, sortRoles } from '@/lib/role-utils';
 import { userService } from '@/services/api';
 import { useQuery } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
 import type { Role } from '@/types';
 
 // Force dynamic rendering to avoid SSR issues
@@ -24,8 +29,12 @@ export const dynamic = 'force-dynamic';
 function PermissionsContent() {
   const { t } = useTranslation();
   const router = useRouter();
-  const { canManagePermissions } = useClientPermissions();
+  const { canManagePermissions, canViewAudit } = useClientPermissions();
   const [selectedRole, setSelectedRole] = useState<Role | null>(null);
+  const [roleEditor, setRoleEditor] = useState<{ mode: RoleEditorMode; role?: Role } | null>(null);
+  const [roleToDelete, setRoleToDelete] = useState<Role | null>(null);
+  const [roleToViewAs, setRoleToViewAs] = useState<Role | null>(null);
+  const { canViewAs, isViewingAs } = useViewAs();
   
   const { data: rolesData, isLoading: rolesLoading } = useQuery({
     queryKey: ['roles'],
@@ -33,46 +42,13 @@ function PermissionsContent() {
     enabled: canManagePermissions,
   });
 
-  const roles = rolesData?.data || [];
-
-  if (!canManagePermissions) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
-        {/* Header */}
-        <DashboardHeader companyName="" />
+  const roles = sortRoles(rolesData?.data || []);
 
-        {/* Navigation */}
-        <DashboardNavigation />
-
-        {/* Main Content */}
-        <main className="lg:mr-64 pt-16">
-          <div className="max-w-screen-2xl mx-auto p-6">
-            <div className="text-center py-12">
-              <Card className="dashboard-card max-w-md mx-auto">
-                <CardContent className="p-8">
-                  <Shield className="h-16 w-16 text-gray-400 mx-auto mb-6" />
-                  <h1 className="text-3xl font-bold dashboard-text-primary mb-4">
-                    {t('permissions.accessDenied')}
-                  </h1>
-                  <p className="dashboard-text-secondary mb-8">
-                    {t('permissions.accessDeniedDescription')}
-                  </p>
-                  <Button
-                    onClick={() => router.back()}
-                    variant="outline"
-                    className="w-full"
-                  >
-                    <ArrowLeft className="h-4 w-4 mr-2" />
-                    {t('common.goBack')}
-                  </Button>
-                </CardContent>
-              </Card>
-            </div>
-          </div>
-        </main>
-      </div>
-    );
-  }
+  // Card actions sit inside the clickable card
+  const handleRoleAction = (event: React.MouseEvent, action: () => void) => {
+    event.stopPropagation();
+    action();
+  };
 
   if (selectedRole) {
     return (
@@ -159,13 +135,42 @@ function PermissionsContent() {
                 </TabsList>
 
             <TabsContent value="roles" className="space-y-6">
-              <div className="text-right">
-                <h2 className="text-2xl font-bold text-gray-900 mb-4">
-                  {t('permissions.roleManagement.title')}
-                </h2>
-                <p className="text-gray-600 mb-6">
-                  {t('permissions.roleManagement.description')}
-                </p>
+              <div className="flex items-start justify-between gap-4 flex-row-reverse">
+                <div className="text-right">
+                  <h2 className="text-2xl font-bold text-gray-900 mb-4">
+                    {t('permissions.roleManagement.title')}
+                  </h2>
+                  <p className="text-gray-600 mb-6">
+                    {t('permissions.roleManagement.description')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => router.push('/dashboard/permissions/matrix')}
+                    className="rounded-xl"
+                  >
+                    <Grid3x3 className="h-4 w-4 mr-2" />
+                    {t('permissions.matrix.open')}
+                  </Button>
+                  {canViewAudit && (
+                    <Button
+                      variant="outline"
+                      onClick={() => router.push('/dashboard/permissions/analytics')}
+                      className="rounded-xl"
+                    >
+                      <BarChart3 className="h-4 w-4 mr-2" />
+                      {t('permissions.analytics.open')}
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => setRoleEditor({ mode: 'create' })}
+                    className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-xl"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    {t('permissions.createRole')}
+                  </Button>
+                </div>
               </div>
 
               {rolesLoading ? (
@@ -184,15 +189,8 @@ function PermissionsContent() {
                 </div>
               ) : (
                 <div className="flex flex-wrap gap-6 justify-start flex-row-reverse">
-                  {roles
-                    .slice() // Create a copy to avoid mutating the original array
-                    .sort((a, b) => {
-                      // Define the correct RTL visual order (from right to left in RTL layout)
-                      // This ensures tenant_owner appears first on the right, followed by admin, manager, etc.
-                      const roleOrder = ['tenant_owner', 'admin', 'manager', 'employee', 'staff'];
-                      return roleOrder.indexOf(a.name) - roleOrder.indexOf(b.name);
-                    })
-                    .map((role) => (
+                  {/* Built-in roles first (tenant_owner on the right in RTL), then custom roles */}
+                  {roles.map((role) => (
                     <Card 
                       key={role.id} 
                       className="bg-white/95 backdrop-blur-sm border-white/30 hover:shadow-xl hover:scale-105 transition-all duration-300 cursor-pointer w-full md:w-[calc(50%-12px)] lg:w-[calc(33.333%-16px)]"
@@ -201,19 +199,74 @@ function PermissionsContent() {
                       <CardHeader className="text-center">
                         <CardTitle className="flex items-center justify-center gap-3">
                           <Shield className="h-5 w-5 text-blue-600" />
-                          {getRoleDisplayName(role.name, t)}
+                          {getRoleLabel(role, t)}
                         </CardTitle>
                         <CardDescription className="text-center">
-                          {t(`permissions.roleDescriptions.${role.name}`, getRoleDisplayName(role.name, t))}
+                          {role.isCustom
+                            ? role.description || t('permissions.customRoleDescription')
+                            : t(`permissions.roleDescriptions.${role.name}`, getRoleLabel(role, t))}
                         </CardDescription>
+                        <div className="flex items-center justify-center gap-2">
+                          {role.isCustom && (
+                            <Badge variant="secondary">{t('permissions.customRole')}</Badge>
+                          )}
+                          {role.userCount !== undefined && (
+                            <Badge variant="outline">{t('permissions.assignedUsers', { count: role.userCount })}</Badge>
+                          )}
+                        </div>
                       </CardHeader>
-                      <CardContent className="text-center">
+                      <CardContent className="text-center space-y-3">
                         <Button 
                           variant="outline" 
                           className="w-full bg-gradient-to-r from-blue-600 to-purple-600 text-white border-0 hover:from-blue-700 hover:to-purple-700"
                         >
                           {t('permissions.managePermissions')}
                         </Button>
+                        <div className="flex items-center justify-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title={t('permissions.cloneRole')}
+                            onClick={(event) => handleRoleAction(event, () => setRoleEditor({ mode: 'clone', role }))}
+                          >
+                            <Copy className="h-4 w-4 mr-1" />
+                            {t('permissions.cloneRole')}
+                          </Button>
+                          {canViewAs && !isViewingAs && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={t('viewAs.action')}
+                              onClick={(event) => handleRoleAction(event, () => setRoleToViewAs(role))}
+                            >
+                              <Eye className="h-4 w-4 mr-1" />
+                              {t('viewAs.action')}
+                            </Button>
+                          )}
+                          {role.isCustom && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title={t('permissions.renameRole')}
+                                onClick={(event) => handleRoleAction(event, () => setRoleEditor({ mode: 'rename', role }))}
+                              >
+                                <Pencil className="h-4 w-4 mr-1" />
+                                {t('permissions.renameRole')}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title={t('permissions.deleteRole.action')}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                onClick={(event) => handleRoleAction(event, () => setRoleToDelete(role))}
+                              >
+                                <Trash2 className="h-4 w-4 mr-1" />
+                                {t('permissions.deleteRole.action')}
+                              </Button>
+                            </>
+                          )}
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -240,6 +293,35 @@ function PermissionsContent() {
           </Card>
         </div>
       </main>
+
+      {roleEditor && (
+        <RoleEditorDialog
+          mode={roleEditor.mode}
+          role={roleEditor.role}
+          isOpen
+          onClose={() => setRoleEditor(null)}
+          onSaved={(role) => {
+            // New roles open straight in the permissions manager for fine-tuning
+            if (roleEditor.mode !== 'rename') setSelectedRole(role);
+          }}
+        />
+      )}
+
+      {roleToDelete && (
+        <DeleteRoleDialog
+          role={roleToDelete}
+          isOpen
+          onClose={() => setRoleToDelete(null)}
+        />
+      )}
+
+      {roleToViewAs && (
+        <ViewAsDialog
+          target={{ type: 'role', role: roleToViewAs }}
+          isOpen
+          onClose={() => setRoleToViewAs(null)}
+        />
+      )}
     </div>
   );
 }
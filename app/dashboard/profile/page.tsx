@@ -157,7 +157,7 @@ function ProfileContent() {
                 <CardContent className="p-8">
                   <Alert className="border-yellow-200 bg-yellow-50">
                     <AlertDescription>
-                      {t('profile.messages.notFound')}
+                      {t('profile.errors.loadProfile')}
                     </AlertDescription>
                   </Alert>
                 </CardContent>
@@ -0,0 +1,433 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useParams, useRouter } from 'next/navigation';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowLeft,
+  ClipboardList,
+  Calendar,
+  User,
+  Package,
+  FileText,
+  AlertCircle,
+  AlertTriangle,
+  PackageCheck,
+  PackageOpen
+} from 'lucide-react';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { getRentalStatusVariant } from '@/components/rentals/rentals-list';
+import CheckoutRentalDialog from '@/components/rentals/checkout-rental-dialog';
+import ReturnRentalDialog from '@/components/rentals/return-rental-dialog';
+import { rentalsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil, formatDateTime as formatDateTimeUtil } from '@/lib/date-formatting';
+import { getOverdueDays, getRentalDays, hasReturnTime } from '@/lib/rental-utils';
+import { getTimeZone } from '@/lib/timezone';
+import { RentalStatus } from '@/types';
+
+export default function RentalDetailsPage() {
+  const { t, i18n } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { config } = useGlobalLocaleFormatting();
+  const timeZone = getTimeZone(config);
+  const { canRead, canUpdate } = useClientPermissions();
+  const params = useParams();
+  const router = useRouter();
+  const rentalId = params.rentalId as string;
+
+  const [showCheckoutDialog, setShowCheckoutDialog] = React.useState(false);
+  const [showReturnDialog, setShowReturnDialog] = React.useState(false);
+
+  // Check permissions
+  const canViewRentals = canRead('rentals');
+  const canUpdateRentals = canUpdate('rentals');
+
+  // Memoize the date formatting function to re-compute when language changes
+  const formatDate = React.useCallback((dateString: string) => {
+    // Create a locale-specific config based on current language
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  const formatDateTime = React.useCallback((dateString: string) => {
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateTimeUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  // Fetch rental details
+  const {
+    data: rentalData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['rental', rentalId],
+    queryFn: () => rentalsService.getRental(rentalId),
+    enabled: canViewRentals,
+    retry: 1,
+  });
+
+  const rental = rentalData?.data;
+  const overdueDays = rental ? getOverdueDays(rental, timeZone) : 0;
+
+  // Handle back navigation
+  const handleBack = () => {
+    router.push('/dashboard/rentals');
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <DashboardHeader companyName="" />
+      <DashboardNavigation />
+
+      <main className="pt-16 lg:mr-64">
+        <div className="max-w-screen-2xl mx-auto p-6">
+          {/* Breadcrumb Navigation */}
+          <div className="mb-6">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleBack}
+              className="dashboard-text-secondary hover:dashboard-text-primary"
+            >
+              <ArrowLeft className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('rentals.details.backToList')}
+            </Button>
+          </div>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex justify-center items-center py-12">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Alert className="mb-6">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {t('rentals.details.errors.loadFailed')}
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => refetch()}
+                  className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+                >
+                  {t('common.retry')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Rental Details */}
+          {!isLoading && !error && rental && (
+            <>
+              {/* Page Header */}
+              <div className="dashboard-card rounded-2xl p-6 mb-8">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                  <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+                      <ClipboardList className="w-6 h-6 text-white" />
+                    </div>
+                    <div>
+                      <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                        {rental.rentalNumber}
+                      </h1>
+                      <div className="mt-1 flex items-center gap-2">
+                        <Badge variant={getRentalStatusVariant(rental.status)} className="text-sm">
+                          {t(`rentals.status.${rental.status}`)}
+                        </Badge>
+                        {overdueDays > 0 && (
+                          <Badge variant="destructive" className="text-sm">
+                            {t('rentals.status.overdue')}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  {canUpdateRentals && (
+                    <div className="flex items-center gap-3">
+                      {rental.status === RentalStatus.RESERVED && (
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => setShowCheckoutDialog(true)}
+                          className="dashboard-button-primary min-h-[44px]"
+                        >
+                          <PackageCheck className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                          {t('rentals.details.actions.checkout')}
+                        </Button>
+                      )}
+                      {rental.status === RentalStatus.ACTIVE && (
+                        <Button
+                          variant="default"
+                          size="sm"
+                          onClick={() => setShowReturnDialog(true)}
+                          className="dashboard-button-primary min-h-[44px]"
+                        >
+                          <PackageOpen className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                          {t('rentals.details.actions.return')}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Overdue Warning */}
+              {overdueDays > 0 && (
+                <Alert className="mb-8 border-red-200 bg-red-50">
+                  <AlertTriangle className="h-4 w-4 text-red-600" />
+                  <AlertDescription className="text-red-800">
+                    {t('rentals.details.overdueWarning', { count: overdueDays })}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Rental Information Grid */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Customer and Period */}
+                <div className="dashboard-card rounded-2xl p-6">
+                  <h2 className="text-xl font-bold dashboard-text-primary mb-6 flex items-center gap-3">
+                    <User className="w-5 h-5" />
+                    {t('rentals.details.sections.rental')}
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Customer */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('rentals.form.fields.customer.label')}
+                      </label>
+                      <div className="mt-1">
+                        <Button
+                          variant="link"
+                          className="p-0 h-auto font-medium"
+                          onClick={() => router.push(`/dashboard/customers/${rental.customerId}`)}
+                        >
+                          {rental.customerName}
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Start Date */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('rentals.form.fields.startDate.label')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-4 h-4 dashboard-text-muted" />
+                        <span className="dashboard-text-primary">
+                          {formatDate(rental.startDate)}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* End Date */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('rentals.form.fields.endDate.label')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-4 h-4 dashboard-text-muted" />
+                        <span className={overdueDays > 0 ? 'text-red-600 font-medium' : 'dashboard-text-primary'}>
+                          {hasReturnTime(rental.endDate) ? formatDateTime(rental.endDate) : formatDate(rental.endDate)}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Duration */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('rentals.details.fields.duration')}
+                      </label>
+                      <p className="dashboard-text-primary font-medium mt-1">
+                        {t('rentals.form.rentalDays', { count: getRentalDays(rental.startDate, rental.endDate, timeZone) })}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Workflow Information */}
+                <div className="dashboard-card rounded-2xl p-6">
+                  <h2 className="text-xl font-bold dashboard-text-primary mb-6 flex items-center gap-3">
+                    <FileText className="w-5 h-5" />
+                    {t('rentals.details.sections.workflow')}
+                  </h2>
+
+                  <div className="space-y-4">
+                    {/* Checked Out */}
+                    {rental.checkedOutAt && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('rentals.details.fields.checkedOutAt')}
+                        </label>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Calendar className="w-4 h-4 dashboard-text-muted" />
+                          <span className="dashboard-text-primary">
+                            {formatDate(rental.checkedOutAt)}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Returned */}
+                    {rental.returnedAt && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('rentals.details.fields.returnedAt')}
+                        </label>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Calendar className="w-4 h-4 dashboard-text-muted" />
+                          <span className="dashboard-text-primary">
+                            {formatDate(rental.returnedAt)}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Notes */}
+                    {rental.notes && (
+                      <div>
+                        <label className="text-sm font-medium dashboard-text-secondary">
+                          {t('rentals.form.fields.notes.label')}
+                        </label>
+                        <p className="dashboard-text-primary mt-1 whitespace-pre-wrap">
+                          {rental.notes}
+                        </p>
+                      </div>
+                    )}
+
+                    {/* Created Date */}
+                    <div>
+                      <label className="text-sm font-medium dashboard-text-secondary">
+                        {t('rentals.details.fields.createdAt')}
+                      </label>
+                      <div className="flex items-center gap-2 mt-1">
+                        <Calendar className="w-4 h-4 dashboard-text-muted" />
+                        <span className="dashboard-text-primary">
+                          {formatDate(rental.createdAt)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                </div>
+
+                {/* Rented Items */}
+                <div className="dashboard-card rounded-2xl p-6 lg:col-span-2">
+                  <h2 className="text-xl font-bold dashboard-text-primary mb-6 flex items-center gap-3">
+                    <Package className="w-5 h-5" />
+                    {t('rentals.details.sections.items')}
+                  </h2>
+
+                  <div className="border rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-gray-50">
+                          <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                            {t('rentals.details.items.name')}
+                          </TableHead>
+                          <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                            {t('rentals.details.items.type')}
+                          </TableHead>
+                          <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                            {t('rentals.details.items.quantity')}
+                          </TableHead>
+                          <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                            {t('rentals.details.items.returnCondition')}
+                          </TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rental.items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                              <button
+                                type="button"
+                                className="font-medium dashboard-text-primary hover:underline"
+                                onClick={() => router.push(`/dashboard/inventory/${item.inventoryItemId}`)}
+                              >
+                                {item.itemName}
+                              </button>
+                              {item.serialNumber && (
+                                <p className="font-mono text-xs dashboard-text-muted" dir="ltr">
+                                  {item.serialNumber}
+                                </p>
+                              )}
+                            </TableCell>
+                            <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                              <Badge variant="outline" className="text-xs">
+                                {t(`inventory.itemType.${item.itemType}`)}
+                              </Badge>
+                            </TableCell>
+                            <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                              <span className="dashboard-text-primary">
+                                {item.quantity} {item.quantityUnit}
+                              </span>
+                            </TableCell>
+                            <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                              {item.returnCondition ? (
+                                <div>
+                                  <span className="dashboard-text-primary">
+                                    {t(`rentals.return.conditions.${item.returnCondition}`)}
+                                  </span>
+                                  {item.returnNotes && (
+                                    <p className="text-xs dashboard-text-muted">{item.returnNotes}</p>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="dashboard-text-muted">-</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+
+          {/* Checkout Dialog */}
+          {showCheckoutDialog && rental && (
+            <CheckoutRentalDialog
+              rental={rental}
+              isOpen={showCheckoutDialog}
+              onClose={() => setShowCheckoutDialog(false)}
+            />
+          )}
+
+          {/* Return Dialog */}
+          {showReturnDialog && rental && (
+            <ReturnRentalDialog
+              rental={rental}
+              isOpen={showReturnDialog}
+              onClose={() => setShowReturnDialog(false)}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
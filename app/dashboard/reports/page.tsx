@@ -0,0 +1,97 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3 } from 'lucide-react';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import InventoryUtilizationReport from '@/components/reports/inventory-utilization-report';
+import MaintenanceOverdueReport from '@/components/reports/maintenance-overdue-report';
+import UserLoginsReport from '@/components/reports/user-logins-report';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { formatNumber as formatNumberUtil, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { ReportType } from '@/types';
+
+export default function ReportsPage() {
+  const { t, i18n } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { config } = useGlobalLocaleFormatting();
+  const { canExport } = useClientPermissions();
+
+  const canExportReports = canExport('reports');
+
+  // Memoize the formatting functions to re-compute when language changes
+  const formatDate = React.useCallback((dateString: string) => {
+    // Create a locale-specific config based on current language
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  const formatNumber = React.useCallback((number: number) => {
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatNumberUtil(number, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  const reportProps = { formatDate, formatNumber, canExport: canExportReports };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <DashboardHeader companyName="" />
+      <DashboardNavigation />
+
+      <main className="pt-16 lg:mr-64">
+        <div className="max-w-screen-2xl mx-auto p-6 space-y-6">
+          {/* Page Header */}
+          <Card className="dashboard-card">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-700 rounded-xl shadow-md">
+                  <BarChart3 className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                    {t('reports.title')}
+                  </CardTitle>
+                  <p className="text-gray-600 mt-1">
+                    {t('reports.subtitle')}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+
+          {/* Reports */}
+          <Tabs defaultValue={ReportType.INVENTORY_UTILIZATION} className="space-y-6" dir={isRTL ? 'rtl' : 'ltr'}>
+            <TabsList className="grid w-full grid-cols-1 sm:grid-cols-3 h-auto bg-gray-100">
+              {Object.values(ReportType).map((reportType) => (
+                <TabsTrigger
+                  key={reportType}
+                  value={reportType}
+                  className="data-[state=active]:bg-white data-[state=active]:text-gray-900"
+                >
+                  {t(`reports.types.${reportType}.title`)}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+
+            <TabsContent value={ReportType.INVENTORY_UTILIZATION}>
+              <InventoryUtilizationReport {...reportProps} />
+            </TabsContent>
+            <TabsContent value={ReportType.MAINTENANCE_OVERDUE}>
+              <MaintenanceOverdueReport {...reportProps} />
+            </TabsContent>
+            <TabsContent value={ReportType.USER_LOGINS}>
+              <UserLoginsReport {...reportProps} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+    </div>
+  );
+}
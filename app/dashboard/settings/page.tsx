@@ -0,0 +1,102 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { Settings, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+import TenantSettingsForm from '@/components/settings/tenant-settings-form';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardHeader, CardTitle } from '@/components/ui/card';
+import { settingsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+
+export default function SettingsPage() {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { canRead, canUpdate } = useClientPermissions();
+
+  // Tenant settings are covered by either the settings or the system resource
+  const canViewSettings = canRead('settings') || canRead('system');
+  const canEditSettings = canUpdate('settings') || canUpdate('system');
+
+  const {
+    data: settingsData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+    enabled: canViewSettings,
+    retry: 1,
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50" dir={isRTL ? 'rtl' : 'ltr'}>
+      <DashboardHeader companyName={settingsData?.data.companyName || ''} />
+      <DashboardNavigation />
+
+      <main className="pt-16 lg:mr-64">
+        <div className="max-w-screen-2xl mx-auto p-6 space-y-6">
+          {/* Page Header */}
+          <Card className="dashboard-card">
+            <CardHeader className="pb-4">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-gradient-to-r from-blue-600 to-purple-700 rounded-xl shadow-md">
+                  <Settings className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <CardTitle className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+                    {t('settings.title')}
+                  </CardTitle>
+                  <p className="text-gray-600 mt-1">
+                    {t('settings.subtitle')}
+                  </p>
+                </div>
+              </div>
+            </CardHeader>
+          </Card>
+
+          {/* Loading State */}
+          {isLoading && (
+            <div className="flex justify-center items-center py-12">
+              <LoadingSpinner />
+            </div>
+          )}
+
+          {/* Error State */}
+          {error && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {t('settings.errors.loadFailed')}
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => refetch()}
+                  className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+                >
+                  {t('common.retry')}
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Settings Form */}
+          {!isLoading && !error && settingsData && (
+            <TenantSettingsForm
+              settings={settingsData.data}
+              canEdit={canEditSettings}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import DashboardNavigation from '@/components/dashboard-navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getRoleDisplayName } from '@/lib/role-utils';
 import type { CreateUserResponse, EditUserResponse, User } from '@/types';
 import '@/i18n';
 
@@ -160,7 +161,7 @@ function UsersContent() {
                         <span className="text-sm font-medium dashboard-text-muted block mb-1">
                           {t('users.create.form.role.label')}
                         </span>
-                        <p className="dashboard-text-primary">{t(`common.roles.${successData.user.roleName}`)}</p>
+                        <p className="dashboard-text-primary">{getRoleDisplayName(successData.user.roleName, t)}</p>
                       </div>
                       
                       <div>
@@ -254,7 +255,7 @@ function UsersContent() {
                         <span className="text-sm font-medium text-gray-500 block mb-1">
                           {t('users.edit.form.role.label')}
                         </span>
-                        <p className="text-gray-900">{t(`common.roles.${editSuccessData.user.roleName}`)}</p>
+                        <p className="text-gray-900">{getRoleDisplayName(editSuccessData.user.roleName, t)}</p>
                       </div>
                       
                       <div>
@@ -2,6 +2,8 @@ import './globals.css'
 import { Inter } from 'next/font/google'
 import { UserProvider } from '@/hooks/use-user'
 import { SharedQueryClientProvider } from '@/providers/query-client-provider'
+import { OfflineSyncProvider } from '@/providers/offline-sync-provider'
+import ContractViolationOverlay from '@/components/contract-violation-overlay'
 
 const inter = Inter({ subsets: ['latin'] })
 
@@ -20,7 +22,10 @@ export default function RootLayout({
       <body className={`${inter.className} antialiased`}>
         <SharedQueryClientProvider>
           <UserProvider>
-            <div id="__next" className="min-h-screen">{children}</div>
+            <OfflineSyncProvider>
+              <div id="__next" className="min-h-screen">{children}</div>
+              {process.env.NODE_ENV === 'development' && <ContractViolationOverlay />}
+            </OfflineSyncProvider>
           </UserProvider>
         </SharedQueryClientProvider>
       </body>
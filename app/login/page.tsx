@@ -8,6 +8,7 @@ import LoginForm from '@/components/login-form';
 import LanguageSelector from '@/components/language-selector';
 import ErrorBoundary from '@/components/error-boundary';
 import { useLanguagePersistence } from '@/hooks/use-language-persistence';
+import { clearStoredUser } from '@/lib/session-sync';
 import '@/i18n';
 
 // Create QueryClient instance
@@ -30,7 +31,7 @@ export default function LoginPage() {
     setMounted(true);
     
     // Clear any cached session data when accessing login page
-    sessionStorage.removeItem('user');
+    clearStoredUser();
   }, []);
 
   // Initialize language once when component mounts
@@ -249,7 +249,7 @@ export default function LandingPage() {
             <div className="text-center">
               <div className="glass-overlay rounded-xl p-6 max-w-4xl mx-auto">
                 <p className="text-sm dashboard-text-muted leading-relaxed">
-                  {t('landing.languages.note')}
+                  {t('landing.subtitle')}
                 </p>
               </div>
             </div>
@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'next/navigation';
+import { Shield, ArrowLeft, LayoutDashboard } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import DashboardHeader from '@/components/dashboard-header';
+import DashboardNavigation from '@/components/dashboard-navigation';
+
+/**
+ * Access Denied
+ * Shared page for dashboard routes the user's permissions do not open, rendered by the middleware
+ * rewrite and by the dashboard route guard.
+ */
+export default function AccessDenied() {
+  const { t } = useTranslation();
+  const router = useRouter();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50">
+      {/* Header */}
+      <DashboardHeader companyName="" />
+
+      {/* Navigation */}
+      <DashboardNavigation />
+
+      {/* Main Content */}
+      <main className="lg:mr-64 pt-16">
+        <div className="max-w-screen-2xl mx-auto p-6">
+          <div className="text-center py-12">
+            <Card className="dashboard-card max-w-md mx-auto">
+              <CardContent className="p-8">
+                <Shield className="h-16 w-16 text-gray-400 mx-auto mb-6" />
+                <h1 className="text-3xl font-bold dashboard-text-primary mb-4">
+                  {t('common.accessDenied.title')}
+                </h1>
+                <p className="dashboard-text-secondary mb-8">
+                  {t('common.accessDenied.description')}
+                </p>
+                <div className="flex flex-col gap-2">
+                  <Button
+                    onClick={() => router.back()}
+                    variant="outline"
+                    className="w-full"
+                  >
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    {t('common.goBack')}
+                  </Button>
+                  <Button
+                    onClick={() => router.push('/dashboard')}
+                    className="w-full"
+                  >
+                    <LayoutDashboard className="h-4 w-4 mr-2" />
+                    {t('common.backToDashboard')}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
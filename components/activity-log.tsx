@@ -20,36 +20,15 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate } from '@/lib/locale-formatting';
+import { RelativeTime } from '@/components/ui/relative-time';
 import { profileService } from '@/services/api';
-import type { UserActivityResponse, ApiError, TenantLocale, TenantLanguage } from '@/types';
+import type { UserActivityResponse, ApiError } from '@/types';
 
 export default function ActivityLog() {
-  const { t, i18n } = useTranslation();
-  const { config } = useGlobalLocaleFormatting();
+  const { t } = useTranslation();
   const [page, setPage] = useState(1);
   const [limit] = useState(20);
 
-  // Memoize the date formatting function to re-compute when language changes
-  const formatLocalizedDate = React.useCallback((dateString: string) => {
-    // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
-    return formatDate(dateString, languageSpecificConfig);
-  }, [config, i18n.language]);
-
   const {
     data: activityData,
     isLoading,
@@ -186,9 +165,7 @@ export default function ActivityLog() {
                         <Badge className={getActivityColor(activity.action)}>
                           {activity.type}
                         </Badge>
-                        <span className="text-sm text-gray-500">
-                          {formatLocalizedDate(activity.timestamp)}
-                        </span>
+                        <RelativeTime date={activity.timestamp} className="text-sm text-gray-500" />
                       </div>
                       
                       <div className="grid gap-2 md:grid-cols-2">
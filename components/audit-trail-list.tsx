@@ -26,7 +26,8 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { DatePicker } from '@/components/ui/date-picker';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
+import { DateRange, EMPTY_DATE_RANGE, isValidDateRange } from '@/lib/date-ranges';
 import { Badge } from '@/components/ui/badge';
 import {
   Select, 
@@ -44,7 +45,9 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate } from '@/lib/locale-formatting';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate } from '@/lib/date-formatting';
+import { RelativeTime } from '@/components/ui/relative-time';
 import { auditService } from '@/services/api';
 import { downloadFile, createExportFilename } from '@/lib/download-utils';
 import type { 
@@ -53,8 +56,6 @@ import type {
   AuditLog, 
   AuditAction, 
   AuditStatus,
-  TenantLocale,
-  TenantLanguage,
   ExportFormat,
   AuditExportRequest,
   ApiError 
@@ -73,19 +74,7 @@ function AuditDetailDialog({ auditLog, open, onOpenChange }: AuditDetailDialogPr
   // Memoize the date formatting function to re-compute when language changes
   const formatLocalizedDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDate(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -208,27 +197,7 @@ function AuditDetailDialog({ auditLog, open, onOpenChange }: AuditDetailDialogPr
 }
 
 export default function AuditTrailList() {
-  const { t, i18n } = useTranslation();
-  const { config } = useGlobalLocaleFormatting();
-  
-  // Memoize the date formatting function to re-compute when language changes
-  const formatLocalizedDate = React.useCallback((dateString: string) => {
-    // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
-    return formatDate(dateString, languageSpecificConfig);
-  }, [config, i18n.language]);
+  const { t } = useTranslation();
   
   // State for filters and pagination
   const [params, setParams] = useState<AuditLogsParams>({
@@ -242,8 +211,7 @@ export default function AuditTrailList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedAction, setSelectedAction] = useState<string>('all');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
-  const [dateFrom, setDateFrom] = useState('');
-  const [dateTo, setDateTo] = useState('');
+  const [dateRange, setDateRange] = useState<DateRange>(EMPTY_DATE_RANGE);
   const [ipAddress, setIpAddress] = useState('');
   
   // UI states
@@ -276,6 +244,8 @@ export default function AuditTrailList() {
   });
 
   const handleSearch = () => {
+    if (!isValidDateRange(dateRange)) return;
+
     const newParams: AuditLogsParams = {
       ...params,
       page: 1, // Reset to first page
@@ -299,14 +269,14 @@ export default function AuditTrailList() {
       delete newParams.status;
     }
     
-    if (dateFrom) {
-      newParams.dateFrom = dateFrom;
+    if (dateRange.from) {
+      newParams.dateFrom = dateRange.from;
     } else {
       delete newParams.dateFrom;
     }
     
-    if (dateTo) {
-      newParams.dateTo = dateTo;
+    if (dateRange.to) {
+      newParams.dateTo = dateRange.to;
     } else {
       delete newParams.dateTo;
     }
@@ -324,8 +294,7 @@ export default function AuditTrailList() {
     setSearchTerm('');
     setSelectedAction('all');
     setSelectedStatus('all');
-    setDateFrom('');
-    setDateTo('');
+    setDateRange(EMPTY_DATE_RANGE);
     setIpAddress('');
     setParams({
       page: 1,
@@ -351,6 +320,8 @@ export default function AuditTrailList() {
   };
 
   const handleExport = async (format: ExportFormat = exportFormat) => {
+    if (!isValidDateRange(dateRange)) return;
+
     try {
       setIsExporting(true);
       
@@ -360,13 +331,13 @@ export default function AuditTrailList() {
         ...(searchTerm && { userId: searchTerm }),
         ...(selectedAction !== 'all' && { action: selectedAction as AuditAction }),
         ...(selectedStatus !== 'all' && { status: selectedStatus as AuditStatus }),
-        ...(dateFrom && { dateFrom }),
-        ...(dateTo && { dateTo }),
+        ...(dateRange.from && { dateFrom: dateRange.from }),
+        ...(dateRange.to && { dateTo: dateRange.to }),
         ...(ipAddress && { ipAddress }),
       };
 
       console.log('Export request:', JSON.stringify(exportRequest, null, 2));
-      console.log('Current filters:', { searchTerm, selectedAction, selectedStatus, dateFrom, dateTo, ipAddress });
+      console.log('Current filters:', { searchTerm, selectedAction, selectedStatus, dateRange, ipAddress });
       
       const response = await auditService.exportLogs(exportRequest);
       console.log('Export response:', response);
@@ -418,7 +389,7 @@ export default function AuditTrailList() {
         }
       } else {
         // Show detailed success message for async export
-        const estimatedRecords = response.data.estimatedRecordCount || response.data.estimatedRecords || 0;
+        const estimatedRecords = response.data.estimatedRecordCount || 0;
         const expiresAt = response.data.expiresAt;
         const exportId = response.data.exportId;
         
@@ -663,25 +634,14 @@ export default function AuditTrailList() {
                 </Select>
               </div>
               
-              {/* Date From */}
-              <div>
-                <Label htmlFor="date-from">{t('audit.filters.dateFrom')}</Label>
-                <DatePicker
-                  id="date-from"
-                  value={dateFrom}
-                  onChange={(value) => setDateFrom(value)}
-                  className="mt-1"
-                />
-              </div>
-              
-              {/* Date To */}
-              <div>
-                <Label htmlFor="date-to">{t('audit.filters.dateTo')}</Label>
-                <DatePicker
-                  id="date-to"
-                  value={dateTo}
-                  onChange={(value) => setDateTo(value)}
-                  className="mt-1"
+              {/* Date Range */}
+              <div className="md:col-span-2">
+                <DateRangePicker
+                  id="date"
+                  value={dateRange}
+                  onChange={setDateRange}
+                  fromLabel={t('audit.filters.dateFrom')}
+                  toLabel={t('audit.filters.dateTo')}
                 />
               </div>
               
@@ -811,7 +771,7 @@ export default function AuditTrailList() {
                     {auditLogs.map((log) => (
                       <tr key={log.id} className="border-b border-gray-100 hover:bg-gray-50">
                         <td className="py-3 px-4 text-sm text-center">
-                          {formatLocalizedDate(log.createdAt)}
+                          <RelativeTime date={log.createdAt} />
                         </td>
                         <td className="py-3 px-4 text-sm text-center">
                           <div>
@@ -821,8 +781,8 @@ export default function AuditTrailList() {
                         </td>
                         <td className="py-3 px-4 text-sm text-center">
                           <div className="flex justify-center">
-                            <Badge variant={getActionBadgeVariant(log.rawActionType || log.actionType, log.status)}>
-                              {getActionIcon(log.rawActionType || log.actionType)}
+                            <Badge variant={getActionBadgeVariant(log.rawActionType, log.status)}>
+                              {getActionIcon(log.rawActionType)}
                               <span className="mr-1 rtl:mr-0 rtl:ml-1">
                                 {log.actionType}
                               </span>
@@ -876,8 +836,8 @@ export default function AuditTrailList() {
                     <CardContent className="p-4">
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex items-center gap-2">
-                          <Badge variant={getActionBadgeVariant(log.rawActionType || log.actionType, log.status)}>
-                            {getActionIcon(log.rawActionType || log.actionType)}
+                          <Badge variant={getActionBadgeVariant(log.rawActionType, log.status)}>
+                            {getActionIcon(log.rawActionType)}
                             <span className="mr-1 rtl:mr-0 rtl:ml-1">
                               {log.actionType}
                             </span>
@@ -901,7 +861,7 @@ export default function AuditTrailList() {
                         )}
                         <div>
                           <span className="font-medium">{t('audit.table.timestamp')}: </span>
-                          {formatLocalizedDate(log.createdAt)}
+                          <RelativeTime date={log.createdAt} />
                         </div>
                       </div>
                       
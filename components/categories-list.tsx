@@ -22,11 +22,12 @@ import { Button } from '@/components/ui/button';
 import { useDirection } from '@/hooks/use-direction';
 import { useClientPermissions } from '@/hooks/use-permissions';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate as formatDateUtil, formatNumber as formatNumberUtil } from '@/lib/locale-formatting';
+import { formatNumber as formatNumberUtil, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
 import { categoriesService } from '@/services/api';
 import DeleteCategoryDialog from '@/components/delete-category-dialog';
 import EditCategoryForm from '@/components/edit-category-form';
-import type { Category, CategoriesListParams, CategoriesListResponse, TenantLocale, TenantLanguage } from '@/types';
+import type { Category, CategoriesListParams, CategoriesListResponse } from '@/types';
 
 interface CategoriesListProps {
   showSearch?: boolean;
@@ -45,32 +46,12 @@ export default function CategoriesList({
   
   // Memoize the formatting functions
   const formatDate = React.useCallback((dateString: string) => {
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDateUtil(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
   const formatNumber = React.useCallback((number: number) => {
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatNumberUtil(number, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -264,7 +245,7 @@ export default function CategoriesList({
         <CardContent>
           <Alert className="border-red-200 bg-red-50">
             <AlertDescription className="text-red-800">
-              {error.message || t('errors.loadingError')}
+              {error.message || t('errors.generic')}
             </AlertDescription>
           </Alert>
         </CardContent>
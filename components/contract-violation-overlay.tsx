@@ -0,0 +1,93 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { onContractViolation } from '@/lib/endpoint-registry';
+import type { ContractViolation } from '@/lib/endpoint-registry';
+
+interface ViolationGroup {
+  key: string;
+  latest: ContractViolation;
+  count: number;
+}
+
+// Keep the overlay readable when an endpoint keeps failing
+const MAX_GROUPS = 10;
+
+/**
+ * Development overlay listing API responses that did not match their endpoint schema
+ * Rendered only in development builds, see app/layout.tsx
+ */
+export default function ContractViolationOverlay() {
+  const [groups, setGroups] = useState<ViolationGroup[]>([]);
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  useEffect(() => {
+    return onContractViolation((violation) => {
+      const key = `${violation.method.toUpperCase()} ${violation.path}`;
+      setGroups((current) => {
+        const existing = current.find((group) => group.key === key);
+        const others = current.filter((group) => group.key !== key);
+        return [{ key, latest: violation, count: (existing?.count || 0) + 1 }, ...others].slice(0, MAX_GROUPS);
+      });
+    });
+  }, []);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[100] w-[28rem] max-w-[calc(100vw-2rem)] rounded-xl border border-red-200 bg-white shadow-2xl" dir="ltr">
+      <div className="flex items-center justify-between gap-2 rounded-t-xl bg-red-600 px-4 py-2 text-white">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <AlertTriangle className="h-4 w-4" />
+          API contract violations ({groups.length})
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-white hover:bg-red-700 hover:text-white"
+            onClick={() => setIsExpanded((expanded) => !expanded)}
+            aria-label={isExpanded ? 'Collapse contract violations' : 'Expand contract violations'}
+          >
+            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronUp className="h-4 w-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-white hover:bg-red-700 hover:text-white"
+            onClick={() => setGroups([])}
+            aria-label="Dismiss contract violations"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <ul className="max-h-80 divide-y divide-red-100 overflow-y-auto text-xs">
+          {groups.map(({ key, latest, count }) => (
+            <li key={key} className="space-y-1 px-4 py-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono font-semibold text-gray-900">{key}</span>
+                <span className="text-gray-500">
+                  {count > 1 ? `${count}× · ` : ''}{new Date(latest.receivedAt).toLocaleTimeString()}
+                </span>
+              </div>
+              <ul className="space-y-0.5 font-mono text-red-700">
+                {latest.issues.map((issue) => (
+                  <li key={`${issue.field}-${issue.code}`}>
+                    {issue.field || '(root)'}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
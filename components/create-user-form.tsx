@@ -17,7 +17,8 @@ import {
 } from 'lucide-react';
 
 import { userService } from '@/services/api';
-import { getRoleDisplayName } from '@/lib/role-utils';
+import { getRoleLabel } from '@/lib/role-utils';
+import { isValidPhoneNumber } from '@/lib/phone-numbers';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { PhoneInput } from '@/components/ui/phone-input';
@@ -41,7 +42,7 @@ const createUserSchema = z.object({
     .string()
     .optional()
     .refine(
-      (val) => !val || /^\+[1-9]\d{1,14}$/.test(val),
+      (val) => !val || isValidPhoneNumber(val),
       'users.validation.INVALID_PHONE_NUMBER_FORMAT'
     ),
   password: z
@@ -328,7 +329,7 @@ export default function CreateUserForm({ onSuccess, onCancel }: CreateUserFormPr
               <SelectContent>
                 {rolesData?.data.map((role: Role) => (
                   <SelectItem key={role.id} value={role.id}>
-                    {getRoleDisplayName(role.name, t)}
+                    {getRoleLabel(role, t)}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { UserPlus, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { buildCustomerSchema, type CustomerFormData } from '@/components/customers/customer-form-schema';
+import { customersService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getNationalIdLabelKey, normalizeNationalId } from '@/lib/national-id';
+import type { CreateCustomerRequest, ApiError } from '@/types';
+
+export default function CreateCustomerForm() {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const queryClient = useQueryClient();
+  const { config } = useGlobalLocaleFormatting();
+
+  // National ID rules follow the tenant locale
+  const customerSchema = useMemo(() => buildCustomerSchema(config.locale), [config.locale]);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    reset,
+    formState: { errors }
+  } = useForm<CustomerFormData>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: {
+      fullName: '',
+      nationalId: '',
+      phoneNumber: '',
+      email: '',
+      address: '',
+      notes: '',
+    },
+  });
+
+  // Create customer mutation
+  const createCustomerMutation = useMutation({
+    mutationFn: (data: CreateCustomerRequest) => customersService.createCustomer(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      reset();
+    },
+    onError: (error: ApiError) => {
+      console.error('Customer creation failed:', error);
+    }
+  });
+
+  const getErrorMessage = (error: ApiError | null) => {
+    if (error?.code === 'customers.DUPLICATE_NATIONAL_ID') {
+      return t('customers.form.messages.duplicateNationalId');
+    }
+    return error?.message || t('customers.form.messages.createError');
+  };
+
+  // Form submission
+  const onSubmit = useCallback((data: CustomerFormData) => {
+    const payload: CreateCustomerRequest = {
+      fullName: data.fullName.trim(),
+      nationalId: normalizeNationalId(data.nationalId),
+      phoneNumber: data.phoneNumber,
+      email: data.email?.trim() || undefined,
+      address: data.address?.trim() || undefined,
+      notes: data.notes?.trim() || undefined,
+    };
+
+    createCustomerMutation.mutate(payload);
+  }, [createCustomerMutation]);
+
+  return (
+    <div className="dashboard-card rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-gradient-to-r from-green-500 to-teal-600 flex items-center justify-center">
+          <UserPlus className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold dashboard-text-primary">
+            {t('customers.form.title')}
+          </h2>
+          <p className="dashboard-text-muted">
+            {t('customers.form.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      {/* Success Alert */}
+      {createCustomerMutation.isSuccess && (
+        <Alert className="mb-6 border-green-200 bg-green-50">
+          <Check className="w-4 h-4 text-green-600" />
+          <AlertDescription className="text-green-700">
+            {t('customers.form.messages.createSuccess')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Error Alert */}
+      {createCustomerMutation.isError && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertCircle className="w-4 h-4 text-red-600" />
+          <AlertDescription className="text-red-700">
+            {getErrorMessage(createCustomerMutation.error)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Full Name */}
+        <div className="space-y-2">
+          <Label htmlFor="fullName" className="dashboard-text-primary font-medium">
+            {t('customers.form.fields.fullName.label')} *
+          </Label>
+          <Input
+            id="fullName"
+            {...register('fullName')}
+            placeholder={t('customers.form.fields.fullName.placeholder')}
+            className="dashboard-input"
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          {errors.fullName && (
+            <p className="text-red-600 text-sm">{t(errors.fullName.message!)}</p>
+          )}
+        </div>
+
+        {/* National ID */}
+        <div className="space-y-2">
+          <Label htmlFor="nationalId" className="dashboard-text-primary font-medium">
+            {t(getNationalIdLabelKey(config.locale))} *
+          </Label>
+          <Input
+            id="nationalId"
+            {...register('nationalId')}
+            placeholder={t(`customers.form.fields.nationalId.placeholder.${config.locale}`)}
+            className="dashboard-input font-mono"
+            dir="ltr"
+            inputMode="numeric"
+          />
+          {errors.nationalId && (
+            <p className="text-red-600 text-sm">{t(errors.nationalId.message!)}</p>
+          )}
+        </div>
+
+        {/* Phone Number */}
+        <div className="space-y-2">
+          <Label htmlFor="phoneNumber" className="dashboard-text-primary font-medium">
+            {t('customers.form.fields.phoneNumber.label')} *
+          </Label>
+          <PhoneInput
+            id="phoneNumber"
+            className="dashboard-input"
+            value={watch('phoneNumber') || ''}
+            onChange={(value) => setValue('phoneNumber', value, { shouldValidate: !!errors.phoneNumber })}
+            aria-invalid={!!errors.phoneNumber}
+          />
+          {errors.phoneNumber && (
+            <p className="text-red-600 text-sm">{t(errors.phoneNumber.message!)}</p>
+          )}
+        </div>
+
+        {/* Email */}
+        <div className="space-y-2">
+          <Label htmlFor="email" className="dashboard-text-primary font-medium">
+            {t('customers.form.fields.email.label')}
+          </Label>
+          <Input
+            id="email"
+            type="email"
+            {...register('email')}
+            placeholder={t('customers.form.fields.email.placeholder')}
+            className="dashboard-input"
+            dir="ltr"
+          />
+          {errors.email && (
+            <p className="text-red-600 text-sm">{t(errors.email.message!)}</p>
+          )}
+        </div>
+
+        {/* Address */}
+        <div className="space-y-2">
+          <Label htmlFor="address" className="dashboard-text-primary font-medium">
+            {t('customers.form.fields.address.label')}
+          </Label>
+          <Textarea
+            id="address"
+            {...register('address')}
+            placeholder={t('customers.form.fields.address.placeholder')}
+            className="dashboard-input resize-none"
+            rows={2}
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          {errors.address && (
+            <p className="text-red-600 text-sm">{t(errors.address.message!)}</p>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-2">
+          <Label htmlFor="notes" className="dashboard-text-primary font-medium">
+            {t('customers.form.fields.notes.label')}
+          </Label>
+          <Textarea
+            id="notes"
+            {...register('notes')}
+            placeholder={t('customers.form.fields.notes.placeholder')}
+            className="dashboard-input resize-none"
+            rows={3}
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          {errors.notes && (
+            <p className="text-red-600 text-sm">{t(errors.notes.message!)}</p>
+          )}
+        </div>
+
+        {/* Submit Button */}
+        <Button
+          type="submit"
+          disabled={createCustomerMutation.isPending}
+          className="w-full dashboard-button-primary min-h-[44px]"
+        >
+          {createCustomerMutation.isPending ? (
+            <>
+              <Loader2 className={`w-4 h-4 animate-spin ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('customers.form.actions.creating')}
+            </>
+          ) : (
+            <>
+              <UserPlus className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('customers.form.actions.create')}
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
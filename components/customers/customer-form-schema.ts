@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { isValidNationalId } from '@/lib/national-id';
+import { isValidPhoneNumber } from '@/lib/phone-numbers';
+import type { TenantLocale } from '@/types';
+import { CustomerStatus } from '@/types';
+
+/**
+ * Shared validation schema for the create and edit customer forms
+ * The national ID rule depends on the tenant locale (Iranian national code or Emirates ID)
+ */
+export const buildCustomerSchema = (locale: TenantLocale) => z.object({
+  fullName: z.string()
+    .trim()
+    .min(2, 'customers.form.validation.fullNameMinLength')
+    .max(100, 'customers.form.validation.fullNameMaxLength'),
+  nationalId: z.string()
+    .min(1, 'customers.form.validation.nationalIdRequired')
+    .refine(
+      (value) => isValidNationalId(value, locale),
+      locale === 'iran'
+        ? 'customers.form.validation.invalidIranianNationalId'
+        : 'customers.form.validation.invalidEmiratesId'
+    ),
+  phoneNumber: z.string()
+    .min(1, 'customers.form.validation.phoneNumberRequired')
+    .refine(
+      isValidPhoneNumber,
+      'customers.form.validation.invalidPhoneNumber'
+    ),
+  email: z.string()
+    .email('customers.form.validation.invalidEmail')
+    .optional()
+    .or(z.literal('')),
+  address: z.string()
+    .max(500, 'customers.form.validation.addressMaxLength')
+    .optional(),
+  notes: z.string()
+    .max(2000, 'customers.form.validation.notesMaxLength')
+    .optional(),
+});
+
+export type CustomerFormData = z.infer<ReturnType<typeof buildCustomerSchema>>;
+
+/**
+ * Edit form schema, which also lets the customer status be changed
+ */
+export const buildEditCustomerSchema = (locale: TenantLocale) => buildCustomerSchema(locale).extend({
+  status: z.nativeEnum(CustomerStatus, {
+    required_error: 'customers.form.validation.statusRequired'
+  }),
+});
+
+export type EditCustomerFormData = z.infer<ReturnType<typeof buildEditCustomerSchema>>;
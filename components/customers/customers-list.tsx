@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { Search, Users, Filter, Eye, Edit } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { customersService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useClientPermissions } from '@/hooks/use-permissions';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { formatNationalId, getNationalIdLabelKey } from '@/lib/national-id';
+import { formatPhoneNumber, getDefaultPhoneCountry } from '@/lib/phone-numbers';
+import type {
+  Customer,
+  CustomersListParams,
+} from '@/types';
+import { CustomerStatus } from '@/types';
+
+/**
+ * Get the badge variant for a customer status
+ */
+export const getCustomerStatusVariant = (status: CustomerStatus) => {
+  switch (status) {
+    case 'active': return 'default';
+    case 'inactive': return 'outline';
+    case 'blocked': return 'destructive';
+    default: return 'default';
+  }
+};
+
+export default function CustomersList() {
+  const { t, i18n } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { config } = useGlobalLocaleFormatting();
+  const { canUpdate } = useClientPermissions();
+  const router = useRouter();
+
+  // Memoize the date formatting function to re-compute when language changes
+  const formatDate = React.useCallback((dateString: string) => {
+    // Create a locale-specific config based on current language
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  // Search and filter state
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<CustomerStatus | 'all'>('all');
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // Construct query parameters
+  const queryParams: CustomersListParams = {
+    page: currentPage,
+    limit: 25,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    sortBy: 'createdAt',
+    sortOrder: 'desc',
+  };
+
+  // Fetch customers
+  const {
+    data: customersData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['customers', queryParams],
+    queryFn: () => customersService.getCustomers(queryParams),
+    retry: 1,
+  });
+
+  // Handle search
+  const handleSearch = useCallback((value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1);
+  }, []);
+
+  // Handle status filter
+  const handleStatusFilter = useCallback((value: string) => {
+    setStatusFilter(value as CustomerStatus | 'all');
+    setCurrentPage(1);
+  }, []);
+
+  // Clear all filters
+  const clearFilters = useCallback(() => {
+    setSearchTerm('');
+    setStatusFilter('all');
+    setCurrentPage(1);
+  }, []);
+
+  const hasFilters = Boolean(searchTerm) || statusFilter !== 'all';
+
+  return (
+    <div className="dashboard-card rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+          <Users className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold dashboard-text-primary">
+            {t('customers.list.title')}
+          </h2>
+          <p className="dashboard-text-muted">
+            {customersData?.meta.total || 0} {t('customers.list.customersCount')}
+          </p>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div className="relative">
+          <Search className={`absolute top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 ${isRTL ? 'right-3' : 'left-3'}`} />
+          <Input
+            type="text"
+            placeholder={t('customers.list.search.placeholder')}
+            value={searchTerm}
+            onChange={(e) => handleSearch(e.target.value)}
+            className={`dashboard-input ${isRTL ? 'pr-10' : 'pl-10'}`}
+          />
+        </div>
+
+        <Select value={statusFilter} onValueChange={handleStatusFilter}>
+          <SelectTrigger className="dashboard-input">
+            <SelectValue placeholder={t('customers.list.filters.status')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('customers.list.filters.allStatuses')}</SelectItem>
+            <SelectItem value={CustomerStatus.ACTIVE}>{t('customers.status.active')}</SelectItem>
+            <SelectItem value={CustomerStatus.INACTIVE}>{t('customers.status.inactive')}</SelectItem>
+            <SelectItem value={CustomerStatus.BLOCKED}>{t('customers.status.blocked')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Clear Filters Button */}
+      {hasFilters && (
+        <div className="mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearFilters}
+            className="text-sm"
+          >
+            <Filter className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+            {t('customers.list.filters.clear')}
+          </Button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <Alert className="mb-6">
+          <AlertDescription>
+            {t('customers.list.errors.loadFailed')}
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => refetch()}
+              className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+            >
+              {t('common.retry')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Customers Table */}
+      {!isLoading && !error && (
+        <>
+          {customersData?.data.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="dashboard-text-muted text-lg mb-2">
+                {hasFilters ? t('customers.list.noResultsFound') : t('customers.list.noCustomers')}
+              </p>
+              {!hasFilters && (
+                <p className="dashboard-text-muted text-sm">
+                  {t('customers.list.createFirstCustomer')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('customers.list.table.fullName')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t(getNationalIdLabelKey(config.locale))}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('customers.list.table.phoneNumber')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('customers.list.table.status')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('customers.list.table.created')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary w-32 ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('customers.list.table.actions')}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {customersData?.data.map((customer: Customer) => (
+                    <TableRow key={customer.id} className="hover:bg-gray-50">
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <p className="font-medium dashboard-text-primary">{customer.fullName}</p>
+                        {customer.email && (
+                          <p className="text-sm dashboard-text-muted" dir="ltr">{customer.email}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <span className="font-mono text-sm dashboard-text-secondary" dir="ltr">
+                          {formatNationalId(customer.nationalId, config.locale)}
+                        </span>
+                      </TableCell>
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <span className="text-sm dashboard-text-secondary" dir="ltr">
+                          {formatPhoneNumber(customer.phoneNumber, getDefaultPhoneCountry(config.locale))}
+                        </span>
+                      </TableCell>
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <Badge variant={getCustomerStatusVariant(customer.status)} className="text-xs">
+                          {t(`customers.status.${customer.status}`)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <span className="text-sm dashboard-text-muted">
+                          {formatDate(customer.createdAt)}
+                        </span>
+                      </TableCell>
+                      <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                        <div className="flex items-center gap-1 justify-start">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-9 h-9 p-0 hover:bg-blue-50 hover:text-blue-600 transition-colors duration-200"
+                            title={t('customers.list.actions.view')}
+                            onClick={() => router.push(`/dashboard/customers/${customer.id}`)}
+                          >
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                          {canUpdate('customers') && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-9 h-9 p-0 hover:bg-green-50 hover:text-green-600 transition-colors duration-200"
+                              title={t('customers.list.actions.edit')}
+                              onClick={() => router.push(`/dashboard/customers/${customer.id}/edit`)}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {customersData && customersData.meta.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <p className="text-sm dashboard-text-muted">
+                {t('common.pagination.showing', {
+                  start: (customersData.meta.page - 1) * customersData.meta.limit + 1,
+                  end: Math.min(customersData.meta.page * customersData.meta.limit, customersData.meta.total),
+                  total: customersData.meta.total
+                })}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={!customersData.meta.hasPrevious}
+                >
+                  {t('common.pagination.previous')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={!customersData.meta.hasNext}
+                >
+                  {t('common.pagination.next')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { customersService } from '@/services/api';
+import type { ApiError, Customer, DeleteCustomerResponse } from '@/types';
+
+interface DeleteCustomerDialogProps {
+  customer: Customer;
+  isOpen: boolean;
+  onClose: () => void;
+  onDeleted?: () => void;
+}
+
+export default function DeleteCustomerDialog({
+  customer,
+  isOpen,
+  onClose,
+  onDeleted,
+}: DeleteCustomerDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  // Customers with active rentals cannot be removed
+  const hasActiveRentals = (customer.activeRentalsCount ?? 0) > 0;
+
+  const deleteCustomerMutation = useMutation<DeleteCustomerResponse, ApiError>({
+    mutationFn: () => customersService.deleteCustomer(customer.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      queryClient.removeQueries({ queryKey: ['customer', customer.id] });
+      onDeleted?.();
+    },
+  });
+
+  const getErrorMessage = (error: ApiError | null) => {
+    if (error?.code === 'customers.HAS_ACTIVE_RENTALS') {
+      return t('customers.delete.hasActiveRentalsError', { count: customer.activeRentalsCount ?? 0 });
+    }
+    return error?.message || t('customers.delete.error');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-red-100 flex items-center justify-center">
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </div>
+            {t('customers.delete.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('customers.delete.description', { customerName: customer.fullName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          {/* Warning about permanent deletion */}
+          <Alert className="border-orange-200 bg-orange-50">
+            <AlertTriangle className="h-4 w-4 text-orange-600" />
+            <AlertDescription className="text-orange-800">
+              {t('customers.delete.warning')}
+            </AlertDescription>
+          </Alert>
+
+          {hasActiveRentals && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                {t('customers.delete.hasActiveRentalsError', { count: customer.activeRentalsCount })}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {deleteCustomerMutation.isError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">
+                {getErrorMessage(deleteCustomerMutation.error)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={deleteCustomerMutation.isPending}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+
+          {!hasActiveRentals && (
+            <Button
+              variant="destructive"
+              className="dashboard-button-primary bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 rounded-xl min-h-[44px]"
+              onClick={() => deleteCustomerMutation.mutate()}
+              disabled={deleteCustomerMutation.isPending}
+            >
+              {deleteCustomerMutation.isPending ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  {t('customers.delete.deleting')}
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {t('customers.delete.confirm')}
+                </>
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,316 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, UserCog } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { PhoneInput } from '@/components/ui/phone-input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { buildEditCustomerSchema, type EditCustomerFormData } from '@/components/customers/customer-form-schema';
+import { customersService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getNationalIdLabelKey, normalizeNationalId } from '@/lib/national-id';
+import { getDefaultPhoneCountry, toE164 } from '@/lib/phone-numbers';
+import type { ApiError, Customer, UpdateCustomerRequest } from '@/types';
+import { CustomerStatus } from '@/types';
+
+interface EditCustomerFormProps {
+  customer: Customer;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export default function EditCustomerForm({
+  customer,
+  onSuccess,
+  onCancel
+}: EditCustomerFormProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const queryClient = useQueryClient();
+  const { config } = useGlobalLocaleFormatting();
+
+  const [errorMessage, setErrorMessage] = React.useState<string>('');
+
+  // National ID rules follow the tenant locale
+  const editCustomerSchema = useMemo(() => buildEditCustomerSchema(config.locale), [config.locale]);
+
+  const form = useForm<EditCustomerFormData>({
+    resolver: zodResolver(editCustomerSchema),
+    defaultValues: {
+      fullName: customer.fullName,
+      nationalId: customer.nationalId,
+      // Normalized so legacy numbers such as 0912 345 6789 pass the E.164 check on an unrelated edit
+      phoneNumber: toE164(customer.phoneNumber, getDefaultPhoneCountry(config.locale)),
+      email: customer.email || '',
+      address: customer.address || '',
+      notes: customer.notes || '',
+      status: customer.status,
+    },
+  });
+
+  const { register, handleSubmit, formState: { errors, isDirty }, watch, setValue } = form;
+  const watchedStatus = watch('status');
+
+  // Update customer mutation
+  const updateCustomerMutation = useMutation({
+    mutationFn: async (data: EditCustomerFormData) => {
+      const updateData: UpdateCustomerRequest = {
+        fullName: data.fullName.trim(),
+        nationalId: normalizeNationalId(data.nationalId),
+        phoneNumber: data.phoneNumber,
+        email: data.email?.trim() || undefined,
+        address: data.address?.trim() || undefined,
+        notes: data.notes?.trim() || undefined,
+        status: data.status,
+        version: customer.version,
+      };
+      return customersService.updateCustomer(customer.id, updateData);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customer', customer.id] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      onSuccess?.();
+    },
+    onError: (error: ApiError) => {
+      console.error('Update customer failed:', error);
+
+      if (error.code === 'customers.DUPLICATE_NATIONAL_ID') {
+        setErrorMessage(t('customers.form.messages.duplicateNationalId'));
+      } else if (error.code === 'customers.EDIT_CONFLICT') {
+        setErrorMessage(t('customers.edit.errors.editConflict'));
+      } else if (error.code === 'customers.NOT_FOUND') {
+        setErrorMessage(t('customers.edit.errors.customerNotFound'));
+      } else if (error.code === 'auth.FORBIDDEN') {
+        setErrorMessage(t('customers.edit.errors.insufficientPermissions'));
+      } else {
+        setErrorMessage(error.message || t('customers.edit.errors.updateFailed'));
+      }
+    },
+  });
+
+  const onSubmit = (data: EditCustomerFormData) => {
+    setErrorMessage('');
+    updateCustomerMutation.mutate(data);
+  };
+
+  const handleCancel = () => {
+    form.reset();
+    setErrorMessage('');
+    onCancel?.();
+  };
+
+  return (
+    <div className="space-y-6" dir={isRTL ? 'rtl' : 'ltr'}>
+      {/* Form Header */}
+      <div className="flex items-center gap-4">
+        <div className="w-12 h-12 rounded-xl bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+          <UserCog className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold bg-gradient-to-r from-gray-900 to-gray-600 bg-clip-text text-transparent">
+            {t('customers.edit.title')}
+          </h2>
+          <p className="dashboard-text-secondary">
+            {t('customers.edit.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      {/* Error Alert */}
+      {errorMessage && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">
+            {errorMessage}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Edit Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Full Name */}
+          <div className="space-y-2">
+            <Label htmlFor="fullName" className="dashboard-text-primary">
+              {t('customers.form.fields.fullName.label')}
+            </Label>
+            <Input
+              id="fullName"
+              {...register('fullName')}
+              placeholder={t('customers.form.fields.fullName.placeholder')}
+              className={`dashboard-input ${isRTL ? 'text-right' : 'text-left'}`}
+              disabled={updateCustomerMutation.isPending}
+            />
+            {errors.fullName && (
+              <p className="text-sm text-red-600">
+                {t(errors.fullName.message as string)}
+              </p>
+            )}
+          </div>
+
+          {/* National ID */}
+          <div className="space-y-2">
+            <Label htmlFor="nationalId" className="dashboard-text-primary">
+              {t(getNationalIdLabelKey(config.locale))}
+            </Label>
+            <Input
+              id="nationalId"
+              {...register('nationalId')}
+              placeholder={t(`customers.form.fields.nationalId.placeholder.${config.locale}`)}
+              className="dashboard-input font-mono"
+              dir="ltr"
+              inputMode="numeric"
+              disabled={updateCustomerMutation.isPending}
+            />
+            {errors.nationalId && (
+              <p className="text-sm text-red-600">
+                {t(errors.nationalId.message as string)}
+              </p>
+            )}
+          </div>
+
+          {/* Phone Number */}
+          <div className="space-y-2">
+            <Label htmlFor="phoneNumber" className="dashboard-text-primary">
+              {t('customers.form.fields.phoneNumber.label')}
+            </Label>
+            <PhoneInput
+              id="phoneNumber"
+              className="dashboard-input"
+              value={watch('phoneNumber') || ''}
+              onChange={(value) => setValue('phoneNumber', value, { shouldDirty: true })}
+              aria-invalid={!!errors.phoneNumber}
+              disabled={updateCustomerMutation.isPending}
+            />
+            {errors.phoneNumber && (
+              <p className="text-sm text-red-600">
+                {t(errors.phoneNumber.message as string)}
+              </p>
+            )}
+          </div>
+
+          {/* Email */}
+          <div className="space-y-2">
+            <Label htmlFor="email" className="dashboard-text-primary">
+              {t('customers.form.fields.email.label')}
+            </Label>
+            <Input
+              id="email"
+              type="email"
+              {...register('email')}
+              placeholder={t('customers.form.fields.email.placeholder')}
+              className="dashboard-input"
+              dir="ltr"
+              disabled={updateCustomerMutation.isPending}
+            />
+            {errors.email && (
+              <p className="text-sm text-red-600">
+                {t(errors.email.message as string)}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Address */}
+        <div className="space-y-2">
+          <Label htmlFor="address" className="dashboard-text-primary">
+            {t('customers.form.fields.address.label')}
+          </Label>
+          <Textarea
+            id="address"
+            {...register('address')}
+            placeholder={t('customers.form.fields.address.placeholder')}
+            className={`dashboard-input resize-none ${isRTL ? 'text-right' : 'text-left'}`}
+            rows={2}
+            disabled={updateCustomerMutation.isPending}
+          />
+          {errors.address && (
+            <p className="text-sm text-red-600">
+              {t(errors.address.message as string)}
+            </p>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-2">
+          <Label htmlFor="notes" className="dashboard-text-primary">
+            {t('customers.form.fields.notes.label')}
+          </Label>
+          <Textarea
+            id="notes"
+            {...register('notes')}
+            placeholder={t('customers.form.fields.notes.placeholder')}
+            className={`dashboard-input resize-none ${isRTL ? 'text-right' : 'text-left'}`}
+            rows={3}
+            disabled={updateCustomerMutation.isPending}
+          />
+          {errors.notes && (
+            <p className="text-sm text-red-600">
+              {t(errors.notes.message as string)}
+            </p>
+          )}
+        </div>
+
+        {/* Status */}
+        <div className="space-y-2">
+          <Label htmlFor="status" className="dashboard-text-primary">
+            {t('customers.form.fields.status.label')}
+          </Label>
+          <Select
+            value={watchedStatus}
+            onValueChange={(value) => setValue('status', value as CustomerStatus, { shouldDirty: true })}
+            disabled={updateCustomerMutation.isPending}
+          >
+            <SelectTrigger className="dashboard-input">
+              <SelectValue placeholder={t('customers.form.fields.status.placeholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CustomerStatus.ACTIVE}>{t('customers.status.active')}</SelectItem>
+              <SelectItem value={CustomerStatus.INACTIVE}>{t('customers.status.inactive')}</SelectItem>
+              <SelectItem value={CustomerStatus.BLOCKED}>{t('customers.status.blocked')}</SelectItem>
+            </SelectContent>
+          </Select>
+          {errors.status && (
+            <p className="text-sm text-red-600">
+              {t(errors.status.message as string)}
+            </p>
+          )}
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex items-center gap-4">
+          <Button
+            type="submit"
+            disabled={updateCustomerMutation.isPending || !isDirty}
+            className="dashboard-button-primary min-h-[44px]"
+          >
+            {updateCustomerMutation.isPending ? (
+              <Loader2 className={`w-4 h-4 animate-spin ${isRTL ? 'ml-2' : 'mr-2'}`} />
+            ) : null}
+            {updateCustomerMutation.isPending
+              ? t('customers.edit.actions.updating')
+              : t('customers.edit.actions.update')}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleCancel}
+            disabled={updateCustomerMutation.isPending}
+            className="min-h-[44px]"
+          >
+            {t('common.cancel')}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -7,7 +7,9 @@ import { User } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import LogoutButton from '@/components/logout-button';
 import LanguageSelector from '@/components/language-selector';
+import OfflineSyncIndicator from '@/components/offline-sync-indicator';
 import { useUser } from '@/hooks/use-user';
+import { getRoleDisplayName } from '@/lib/role-utils';
 
 interface DashboardHeaderProps {
   companyName: string;
@@ -30,8 +32,11 @@ export default function DashboardHeader({
             </h1>
           </div>
 
-          {/* Right Side - Language Selector and User Menu */}
+          {/* Right Side - Sync Status, Language Selector and User Menu */}
           <div className="flex items-center space-x-4 rtl:space-x-reverse">
+            {/* Offline Sync Status */}
+            <OfflineSyncIndicator />
+
             {/* Language Selector */}
             <LanguageSelector />
 
@@ -42,7 +47,7 @@ export default function DashboardHeader({
                 <div className="flex flex-col items-start rtl:items-end">
                   <span className="text-sm font-medium">{user?.fullName}</span>
                   <span className="text-xs text-gray-500">
-                    {user?.roleName ? t(`common.roles.${user.roleName}`) : ''}
+                    {user?.roleName ? getRoleDisplayName(user.roleName, t) : ''}
                   </span>
                 </div>
               </div>
@@ -21,8 +21,11 @@ import {
 
 import { Card } from '@/components/ui/card';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate, formatNumber, formatCurrency } from '@/lib/locale-formatting';
-import type { DashboardResponse, TenantLocale, TenantLanguage } from '@/types';
+import { formatNumber, formatCurrency, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate } from '@/lib/date-formatting';
+import { getRoleDisplayName } from '@/lib/role-utils';
+import type { DashboardResponse } from '@/types';
+import { isRtlLanguage } from '@/lib/locale-registry';
 
 interface DashboardInfoCardsProps {
   data: DashboardResponse['data'];
@@ -31,24 +34,12 @@ interface DashboardInfoCardsProps {
 export default function DashboardInfoCards({ data }: DashboardInfoCardsProps) {
   const { t, i18n } = useTranslation();
   const { config } = useGlobalLocaleFormatting();
-  const isRTL = i18n.language === 'fa' || i18n.language === 'ar';
+  const isRTL = isRtlLanguage(i18n.language);
 
   // Memoize the date formatting function to re-compute when language changes
   const formatLocalizedDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDate(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -185,7 +176,7 @@ export default function DashboardInfoCards({ data }: DashboardInfoCardsProps) {
         
         <InfoCard
           title={t('dashboard.info.role')}
-          value={t(`common.roles.${data.user.role}`)}
+          value={getRoleDisplayName(data.user.role, t)}
           icon={Shield}
         />
         
@@ -22,7 +22,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { useUser } from '@/hooks/use-user';
-import { getNavigationItemsForRole } from '@/lib/role-utils';
+import { useViewAs } from '@/hooks/use-view-as';
 import { canAccessNavigationItem } from '@/lib/dynamic-permission-utils';
 
 interface NavigationItem {
@@ -43,6 +43,7 @@ export default function DashboardNavigation({ className }: DashboardNavigationPr
   const pathname = usePathname();
   const router = useRouter();
   const { user } = useUser();
+  const { effectivePermissions } = useViewAs();
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [isMobileOpen, setIsMobileOpen] = useState(false);
   const [isClient, setIsClient] = useState(false);
@@ -132,31 +133,39 @@ export default function DashboardNavigation({ className }: DashboardNavigationPr
       id: 'customers',
       icon: Users,
       labelKey: 'dashboard.navigation.customers',
-      href: '/customers',
-      isActive: pathname.startsWith('/customers'),
-      isComingSoon: true,
+      href: '/dashboard/customers',
+      isActive: pathname.startsWith('/dashboard/customers'),
+      isComingSoon: false,
     },
     {
       id: 'rentals',
       icon: FileText,
       labelKey: 'dashboard.navigation.rentals',
-      href: '/rentals',
-      isActive: pathname.startsWith('/rentals'),
-      isComingSoon: true,
+      href: '/dashboard/rentals',
+      isActive: pathname.startsWith('/dashboard/rentals'),
+      isComingSoon: false,
     },
     {
       id: 'reports',
       icon: BarChart3,
       labelKey: 'dashboard.navigation.reports',
-      href: '/reports',
-      isActive: pathname.startsWith('/reports'),
-      isComingSoon: true,
+      href: '/dashboard/reports',
+      isActive: pathname.startsWith('/dashboard/reports'),
+      isComingSoon: false,
+    },
+    {
+      id: 'settings',
+      icon: Settings,
+      labelKey: 'dashboard.navigation.settings',
+      href: '/dashboard/settings',
+      isActive: pathname.startsWith('/dashboard/settings'),
+      isComingSoon: false,
     },
   ];
 
-  // Filter navigation items based on dynamic user permissions
+  // Filter navigation items based on dynamic user permissions (the viewed user's while viewing as someone else)
   const visibleNavigationItems = user 
-    ? navigationItems.filter(item => canAccessNavigationItem(user.permissions || [], item.id))
+    ? navigationItems.filter(item => canAccessNavigationItem(effectivePermissions, item.id))
     : navigationItems;
 
   // Don't render during SSR to avoid hydration mismatch
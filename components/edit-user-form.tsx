@@ -20,7 +20,9 @@ import {
 } from 'lucide-react';
 
 import { userService } from '@/services/api';
-import { getRoleDisplayName } from '@/lib/role-utils';
+import { getRoleLabel } from '@/lib/role-utils';
+import { getDefaultPhoneCountry, isValidPhoneNumber, toE164 } from '@/lib/phone-numbers';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { PhoneInput } from '@/components/ui/phone-input';
@@ -41,7 +43,7 @@ const editUserSchema = z.object({
   phoneNumber: z.string()
     .optional()
     .or(z.literal(''))
-    .refine((val) => !val || /^\+?[\d\s\-()]+$/.test(val), 'users.edit.form.phoneNumber.errors.invalid_format'),
+    .refine((val) => !val || isValidPhoneNumber(val), 'users.edit.form.phoneNumber.errors.invalid_format'),
   roleId: z.string().optional().or(z.literal('')),
   status: z.enum(['active', 'inactive'] as const).optional(),
 });
@@ -57,6 +59,9 @@ interface EditUserFormProps {
 export default function EditUserForm({ user, onCancel, onSuccess }: EditUserFormProps) {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
+  const { config } = useGlobalLocaleFormatting();
+  // Numbers saved before E.164 was enforced (0912 345 6789) start out normalized, so they pass validation
+  const storedPhoneNumber = toE164(user.phoneNumber || '', getDefaultPhoneCountry(config.locale));
   
   const {
     register,
@@ -69,7 +74,7 @@ export default function EditUserForm({ user, onCancel, onSuccess }: EditUserForm
     resolver: zodResolver(editUserSchema),
     defaultValues: {
       fullName: user.fullName || '',
-      phoneNumber: user.phoneNumber || '',
+      phoneNumber: storedPhoneNumber,
       roleId: user.roleId || '',
       status: user.status as 'active' | 'inactive',
     },
@@ -83,11 +88,11 @@ export default function EditUserForm({ user, onCancel, onSuccess }: EditUserForm
   const hasChanges = React.useMemo(() => {
     return (
       formValues.fullName !== user.fullName ||
-      formValues.phoneNumber !== (user.phoneNumber || '') ||
+      formValues.phoneNumber !== storedPhoneNumber ||
       formValues.roleId !== user.roleId ||
       formValues.status !== user.status
     );
-  }, [formValues, user]);
+  }, [formValues, user, storedPhoneNumber]);
 
   // Fetch available roles
   const {
@@ -135,7 +140,7 @@ export default function EditUserForm({ user, onCancel, onSuccess }: EditUserForm
       changedData.fullName = data.fullName;
     }
     
-    if (data.phoneNumber !== (user.phoneNumber || '')) {
+    if (data.phoneNumber !== storedPhoneNumber) {
       changedData.phoneNumber = data.phoneNumber || undefined;
     }
     
@@ -320,7 +325,7 @@ export default function EditUserForm({ user, onCancel, onSuccess }: EditUserForm
                 <SelectContent className="bg-white/95 backdrop-blur-sm border-white/30">
                   {rolesData?.data.map((role: Role) => (
                     <SelectItem key={role.id} value={role.id}>
-                      {getRoleDisplayName(role.name, t)}
+                      {getRoleLabel(role, t)}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -4,7 +4,7 @@ import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { onlineManager, useMutation, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
 import { AlertTriangle, Calendar, Loader2 } from 'lucide-react';
 import {
@@ -20,7 +20,7 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
-import { DatePicker } from '@/components/ui/date-picker';
+import { DateTimePicker } from '@/components/ui/date-time-picker';
 import {
   Select,
   SelectContent,
@@ -31,7 +31,9 @@ import {
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useDirection } from '@/hooks/use-direction';
 import { inventoryService } from '@/services/api';
-import type { AvailabilityStatus, InventoryItem } from '@/types';
+import { useOfflineSync } from '@/providers/offline-sync-provider';
+import { isQueueableError } from '@/lib/inventory-outbox';
+import type { AvailabilityStatus, ChangeInventoryItemStatusRequest, InventoryItem } from '@/types';
 
 // Validation schema for status change
 const statusChangeSchema = z.object({
@@ -57,6 +59,7 @@ export default function ChangeStatusDialog({
   const direction = useDirection();
   const isRTL = direction === 'rtl';
   const queryClient = useQueryClient();
+  const { queueMutation } = useOfflineSync();
   
   const [open, setOpen] = React.useState(false);
   const [errorMessage, setErrorMessage] = React.useState<string>('');
@@ -86,20 +89,36 @@ export default function ChangeStatusDialog({
 
   // Status change mutation
   const changeStatusMutation = useMutation({
+    // Offline submissions are queued in the outbox instead of being paused
+    networkMode: 'always',
     mutationFn: async (data: StatusChangeFormData) => {
-      return inventoryService.changeInventoryItemStatus(item.id, {
+      const statusData: ChangeInventoryItemStatusRequest = {
         newStatus: data.availabilityStatus as AvailabilityStatus,
         changeReason: data.changeReason,
         expectedResolutionDate: data.expectedResolutionDate,
-      });
+      };
+      const queue = () => queueMutation(item, { type: 'change-status', payload: statusData });
+
+      if (!onlineManager.isOnline()) {
+        await queue();
+        return statusData.newStatus;
+      }
+      try {
+        const response = await inventoryService.changeInventoryItemStatus(item.id, statusData);
+        return response.data.newStatus;
+      } catch (error) {
+        if (!isQueueableError(error)) throw error;
+        await queue();
+        return statusData.newStatus;
+      }
     },
-    onSuccess: (response) => {
+    onSuccess: (newStatus) => {
       // Invalidate queries to refresh data
       queryClient.invalidateQueries({ queryKey: ['inventory-item', item.id] });
       queryClient.invalidateQueries({ queryKey: ['inventory-items'] });
       
       // Call the callback if provided
-      onStatusChange?.(response.data.newStatus as AvailabilityStatus);
+      onStatusChange?.(newStatus);
       
       // Close dialog and reset form
       setOpen(false);
@@ -222,7 +241,7 @@ export default function ChangeStatusDialog({
                 name="expectedResolutionDate"
                 control={control}
                 render={({ field }) => (
-                  <DatePicker
+                  <DateTimePicker
                     id="expectedResolutionDate"
                     value={field.value}
                     onChange={field.onChange}
@@ -253,7 +272,7 @@ export default function ChangeStatusDialog({
               <Loader2 className={`w-4 h-4 animate-spin ${isRTL ? 'ml-2' : 'mr-2'}`} />
             ) : null}
             {changeStatusMutation.isPending 
-              ? t('inventory.statusChange.actions.changingStatus') 
+              ? t('inventory.statusChange.actions.changing') 
               : t('inventory.statusChange.actions.changeStatus')}
           </Button>
         </DialogFooter>
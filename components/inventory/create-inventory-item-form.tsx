@@ -3,12 +3,13 @@
 import React, { useState, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Package, Plus, RefreshCw, Check, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import {
@@ -46,7 +47,7 @@ const createInventoryItemSchema = z.object({
     .max(100, 'inventory.form.validation.serialNumberMaxLength')
     .optional(),
   autoGenerateSerial: z.boolean().optional(),
-  quantity: z.number()
+  quantity: z.number({ invalid_type_error: 'inventory.form.validation.quantityInvalid' })
     .min(0, 'inventory.form.validation.quantityMin')
     .optional(),
   quantityUnit: z.string()
@@ -86,6 +87,7 @@ export default function CreateInventoryItemForm() {
   // Form setup
   const {
     register,
+    control,
     handleSubmit,
     watch,
     setValue,
@@ -464,13 +466,19 @@ export default function CreateInventoryItemForm() {
                 <Label htmlFor="quantity" className="dashboard-text-primary font-medium">
                   {t('inventory.form.fields.quantity.label')} *
                 </Label>
-                <Input
-                  id="quantity"
-                  type="number"
-                  min="0"
-                  {...register('quantity', { valueAsNumber: true })}
-                  placeholder="0"
-                  className="dashboard-input"
+                <Controller
+                  name="quantity"
+                  control={control}
+                  render={({ field }) => (
+                    <NumberInput
+                      id="quantity"
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
+                      placeholder="0"
+                      className="dashboard-input"
+                    />
+                  )}
                 />
                 {errors.quantity && (
                   <p className="text-red-600 text-sm">{t(errors.quantity.message!)}</p>
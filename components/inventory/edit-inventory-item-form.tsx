@@ -245,7 +245,7 @@ export default function EditInventoryItemForm({
             disabled={updateItemMutation.isPending}
           >
             <SelectTrigger className="dashboard-input">
-              <SelectValue placeholder={t('inventory.form.fields.status.placeholder')} />
+              <SelectValue placeholder={t('inventory.edit.fields.status.placeholder')} />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="active">{t('inventory.details.status.active')}</SelectItem>
@@ -15,7 +15,7 @@ import {
   X,
   AlertCircle
 } from 'lucide-react';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import {
@@ -29,7 +29,7 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
-import { DatePicker } from '@/components/ui/date-picker';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
 import {
   Select,
   SelectContent,
@@ -42,6 +42,8 @@ import LoadingSpinner from '@/components/ui/loading-spinner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { inventoryService } from '@/services/api';
 import { useDirection } from '@/hooks/use-direction';
+import { downloadExportFile } from '@/lib/export-download';
+import { isValidDateRange } from '@/lib/date-ranges';
 import type { 
   InventoryItem,
   InventoryExportRequest,
@@ -67,6 +69,10 @@ const exportSchema = z.object({
 }, {
   message: 'Start and end dates are required when date range is enabled',
   path: ['dateRangeEnabled'],
+}).refine((data) => !data.dateRangeEnabled || isValidDateRange({ from: data.startDate ?? '', to: data.endDate ?? '' }), {
+  // Shown by the date range picker itself
+  message: 'dateRangePicker.validation.endBeforeStart',
+  path: ['endDate'],
 });
 
 type ExportFormData = z.infer<typeof exportSchema>;
@@ -95,7 +101,6 @@ export default function InventoryExportDialog({
   const {
     register,
     handleSubmit,
-    control,
     watch,
     setValue,
     formState: { errors, isValid }
@@ -164,55 +169,10 @@ export default function InventoryExportDialog({
   const handleDownload = async () => {
     if (downloadUrl) {
       try {
-        // Ensure we use the full URL - handle relative URLs properly
-        let fullUrl: string;
-        if (downloadUrl.startsWith('http')) {
-          fullUrl = downloadUrl;
-        } else if (downloadUrl.startsWith('/api/')) {
-          // downloadUrl already has /api/, so just prepend the base domain
-          fullUrl = `${process.env.NEXT_PUBLIC_API_BASE_URL?.replace('/api', '') || 'http://localhost:3000'}${downloadUrl}`;
-        } else {
-          // downloadUrl doesn't have /api/, so use the full base URL
-          fullUrl = `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}${downloadUrl}`;
-        }
-        
-        const response = await fetch(fullUrl, {
-          method: 'GET',
-          credentials: 'include', // Include cookies for session authentication
-          headers: {
-            'Accept': '*/*',
-          },
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Download failed: ${response.status} ${response.statusText}`);
-        }
-        
-        // Get the content as a blob
-        const blob = await response.blob();
-        
-        // Get filename from response headers or use default
-        const contentDisposition = response.headers.get('content-disposition');
-        let filename = `inventory-export-${new Date().toISOString().split('T')[0]}.${watchedValues.exportFormat}`;
-        
-        if (contentDisposition) {
-          const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/);
-          if (filenameMatch) {
-            filename = filenameMatch[1];
-          }
-        }
-        
-        // Create download link
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        
-        // Clean up
-        URL.revokeObjectURL(url);
+        await downloadExportFile(
+          downloadUrl,
+          `inventory-export-${new Date().toISOString().split('T')[0]}.${watchedValues.exportFormat}`
+        );
         onClose();
       } catch (error) {
         console.error('Download failed:', error);
@@ -368,42 +328,17 @@ export default function InventoryExportDialog({
                   </div>
 
                   {watchedValues.dateRangeEnabled && (
-                    <div className="grid grid-cols-2 gap-3 ml-6">
-                      <div>
-                        <Label htmlFor="startDate" className="text-sm">
-                          {t('inventory.export.options.startDate')}
-                        </Label>
-                        <Controller
-                          name="startDate"
-                          control={control}
-                          render={({ field }) => (
-                            <DatePicker
-                              id="startDate"
-                              value={field.value}
-                              onChange={field.onChange}
-                              className="mt-1"
-                            />
-                          )}
-                        />
-                      </div>
-                      <div>
-                        <Label htmlFor="endDate" className="text-sm">
-                          {t('inventory.export.options.endDate')}
-                        </Label>
-                        <Controller
-                          name="endDate"
-                          control={control}
-                          render={({ field }) => (
-                            <DatePicker
-                              id="endDate"
-                              value={field.value}
-                              onChange={field.onChange}
-                              className="mt-1"
-                            />
-                          )}
-                        />
-                      </div>
-                    </div>
+                    <DateRangePicker
+                      id="export-date"
+                      value={{ from: watchedValues.startDate ?? '', to: watchedValues.endDate ?? '' }}
+                      onChange={({ from, to }) => {
+                        setValue('startDate', from, { shouldValidate: true });
+                        setValue('endDate', to, { shouldValidate: true });
+                      }}
+                      fromLabel={t('inventory.export.options.startDate')}
+                      toLabel={t('inventory.export.options.endDate')}
+                      className="ml-6"
+                    />
                   )}
                 </div>
               </div>
@@ -486,7 +421,7 @@ export default function InventoryExportDialog({
                 onClick={() => setExportStatus('idle')}
                 className="dashboard-button-primary"
               >
-                {t('common.tryAgain')}
+                {t('common.retry')}
               </Button>
             </div>
           </div>
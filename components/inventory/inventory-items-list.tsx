@@ -30,14 +30,13 @@ import InventoryExportDialog from '@/components/inventory/inventory-export-dialo
 import { inventoryService, categoriesService } from '@/services/api';
 import { useDirection } from '@/hooks/use-direction';
 import { useLocaleFormatting as useGlobalLocaleFormatting } from '@/hooks/use-locale-formatting';
-import { formatDate as formatDateUtil } from '@/lib/locale-formatting';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
 import type { 
   InventoryListParams, 
   InventoryItem, 
   ItemType, 
   AvailabilityStatus,
-  TenantLocale,
-  TenantLanguage,
   Category
 } from '@/types';
 import { InventoryItemStatus, ExportType } from '@/types';
@@ -52,19 +51,7 @@ export default function InventoryItemsList() {
   // Memoize the date formatting function to re-compute when language changes
   const formatDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDateUtil(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -345,7 +332,7 @@ export default function InventoryItemsList() {
               onClick={() => refetch()}
               className="ml-2 p-0 h-auto"
             >
-              {t('common.tryAgain')}
+              {t('common.retry')}
             </Button>
           </AlertDescription>
         </Alert>
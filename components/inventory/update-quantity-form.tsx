@@ -2,24 +2,27 @@
 
 import React from 'react';
 import { useTranslation } from 'react-i18next';
-import { useForm } from 'react-hook-form';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { onlineManager, useMutation, useQueryClient } from '@tanstack/react-query';
 import { z } from 'zod';
 import { Loader2, Package, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { NumberInput } from '@/components/ui/number-input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Textarea } from '@/components/ui/textarea';
 import { inventoryService } from '@/services/api';
 import { useDirection } from '@/hooks/use-direction';
+import { useOfflineSync } from '@/providers/offline-sync-provider';
+import { isQueueableError } from '@/lib/inventory-outbox';
 import type { InventoryItem, UpdateNonSerializedItemQuantityRequest } from '@/types';
 import { ItemType } from '@/types';
 
 // Validation schema for updating non-serialized item quantity
 const updateQuantitySchema = z.object({
-  quantity: z.number()
+  quantity: z.number({ invalid_type_error: 'inventory.nonSerialized.validation.quantityInvalid' })
     .min(0, 'inventory.nonSerialized.validation.quantityMin')
     .int('inventory.nonSerialized.validation.quantityInteger'),
   quantityUnit: z.string()
@@ -47,6 +50,7 @@ export default function UpdateQuantityForm({
   const direction = useDirection();
   const isRTL = direction === 'rtl';
   const queryClient = useQueryClient();
+  const { queueMutation } = useOfflineSync();
 
   const [errorMessage, setErrorMessage] = React.useState<string>('');
   const [showWarning, setShowWarning] = React.useState(false);
@@ -60,7 +64,7 @@ export default function UpdateQuantityForm({
     },
   });
 
-  const { register, handleSubmit, formState: { errors }, watch } = form;
+  const { register, control, handleSubmit, formState: { errors }, watch } = form;
   const watchedQuantity = watch('quantity');
   const watchedQuantityUnit = watch('quantityUnit');
   const currentQuantity = item.quantity || 0;
@@ -78,13 +82,25 @@ export default function UpdateQuantityForm({
 
   // Update quantity mutation
   const updateQuantityMutation = useMutation({
+    // Offline submissions are queued in the outbox instead of being paused
+    networkMode: 'always',
     mutationFn: async (data: UpdateQuantityFormData) => {
       const updateData: UpdateNonSerializedItemQuantityRequest = {
         quantity: data.quantity,
         quantityUnit: data.quantityUnit,
         changeReason: data.changeReason,
       };
-      return inventoryService.updateNonSerializedItemQuantity(item.id, updateData);
+      const queue = () => queueMutation(item, { type: 'update-quantity', payload: updateData });
+
+      if (!onlineManager.isOnline()) {
+        return queue();
+      }
+      try {
+        await inventoryService.updateNonSerializedItemQuantity(item.id, updateData);
+      } catch (error) {
+        if (!isQueueableError(error)) throw error;
+        await queue();
+      }
     },
     onSuccess: () => {
       // Invalidate inventory queries to refresh data
@@ -179,14 +195,20 @@ export default function UpdateQuantityForm({
           <Label htmlFor="quantity" className="dashboard-text-primary">
             {t('inventory.form.fields.quantity.label')}
           </Label>
-          <Input
-            id="quantity"
-            type="number"
-            {...register('quantity', { valueAsNumber: true })}
-            className={`dashboard-input ${isRTL ? 'text-right' : 'text-left'}`}
-            disabled={updateQuantityMutation.isPending}
-            min="0"
-            step="1"
+          <Controller
+            name="quantity"
+            control={control}
+            render={({ field }) => (
+              <NumberInput
+                id="quantity"
+                value={field.value}
+                onChange={field.onChange}
+                onBlur={field.onBlur}
+                inputMode="numeric"
+                className={`dashboard-input ${isRTL ? 'text-right' : 'text-left'}`}
+                disabled={updateQuantityMutation.isPending}
+              />
+            )}
           />
           {errors.quantity && (
             <p className="text-sm text-red-600">
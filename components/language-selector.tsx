@@ -11,6 +11,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useLanguagePersistence } from '@/hooks/use-language-persistence';
+import { DEFAULT_LOCALE_CODE, getLocaleDefinition, getSelectableLocales } from '@/lib/locale-registry';
 
 interface LanguageSelectorProps {
   className?: string;
@@ -25,10 +26,11 @@ export default function LanguageSelector({ className }: LanguageSelectorProps) {
     setIsClient(true);
   }, []);
 
-  const languages = [
-    { code: 'fa', name: t('ui.languageSelector.persian'), nativeName: 'فارسی' },
-    { code: 'ar', name: t('ui.languageSelector.arabic'), nativeName: 'عربي' },
-  ];
+  const languages = getSelectableLocales().map((locale) => ({
+    code: locale.code,
+    name: t(locale.labelKey),
+    nativeName: locale.nativeName,
+  }));
 
   const handleLanguageChange = (languageCode: string) => {
     changeLanguage(languageCode);
@@ -43,7 +45,7 @@ export default function LanguageSelector({ className }: LanguageSelectorProps) {
         <div className="w-auto min-w-[140px] h-10 bg-white/95 backdrop-blur-sm border border-white/30 rounded-xl flex items-center justify-center">
           <div className="flex items-center gap-2">
             <Globe className="h-4 w-4 text-gray-600" />
-            <span className="text-sm font-medium text-gray-800">فارسی</span>
+            <span className="text-sm font-medium text-gray-800">{getLocaleDefinition(DEFAULT_LOCALE_CODE).nativeName}</span>
           </div>
         </div>
       </div>
@@ -17,6 +17,7 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { authService } from '@/services/api';
 import { useUser } from '@/hooks/use-user';
 import { getRoleDashboardUrl } from '@/lib/role-utils';
+import { RETURN_TO_PARAM, getSafeReturnTo } from '@/lib/route-manifest';
 import type { LoginRequest, ApiError } from '@/types';
 
 // Form validation schema following ? requirements
@@ -75,14 +76,16 @@ export default function LoginForm({ onSuccess, onError }: LoginFormProps) {
         roleName: data.data.roleName,
         permissions: data.data.permissions,
         sessionExpiresAt: data.data.sessionExpiresAt,
+        rememberMe: data.data.rememberMeEnabled,
       };
       setUser(userData);
       
       onSuccess?.(data);
       
-      // Role-based dashboard redirection according to ? A2
-      // Always use our role-based URL logic instead of API redirectUrl
-      const redirectUrl = getRoleDashboardUrl(data.data.roleName);
+      // Go back to the deep link the route guard sent the user here from, otherwise
+      // role-based dashboard redirection according to ? A2 instead of the API redirectUrl
+      const returnTo = getSafeReturnTo(new URLSearchParams(window.location.search).get(RETURN_TO_PARAM));
+      const redirectUrl = returnTo ?? getRoleDashboardUrl(data.data.roleName);
       router.push(redirectUrl);
     },
     onError: (error: ApiError) => {
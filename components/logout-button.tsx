@@ -3,11 +3,11 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useMutation } from '@tanstack/react-query';
-import { useRouter } from 'next/navigation';
 import { LogOut, Loader2 } from 'lucide-react';
 
 import { Button } from '@/components/ui/button';
 import { authService } from '@/services/api';
+import { useUser } from '@/hooks/use-user';
 import type { ApiError } from '@/types';
 
 interface LogoutButtonProps {
@@ -28,19 +28,20 @@ export default function LogoutButton({
   onError,
 }: LogoutButtonProps) {
   const { t } = useTranslation();
-  const router = useRouter();
+  const { logout } = useUser();
 
   // Logout mutation
   const logoutMutation = useMutation({
     mutationFn: authService.logout,
     onSuccess: (data) => {
       onSuccess?.();
-      router.push('/login');
+      // Clears the stored session, signs out the other tabs and redirects to login
+      logout();
     },
     onError: (error: ApiError) => {
       onError?.(error);
-      // Even if logout fails, redirect to login
-      router.push('/login');
+      // Even if logout fails, clear the local session and redirect to login
+      logout();
     },
   });
 
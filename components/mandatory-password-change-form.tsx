@@ -36,11 +36,11 @@ export default function MandatoryPasswordChangeForm({ token, userId }: Mandatory
     currentPassword: z.string().min(1, t('validation.required')),
     newPassword: z.string()
       .min(8, t('validation.password.minLength'))
-      .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, t('validation.password.complexity')),
+      .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, t('validation.password.policyViolation')),
     confirmPassword: z.string()
       .min(1, t('validation.required')),
   }).refine((data) => data.newPassword === data.confirmPassword, {
-    message: t('validation.password.mismatch'),
+    message: t('validation.password.confirmationMismatch'),
     path: ['confirmPassword'],
   }).refine((data) => data.currentPassword !== data.newPassword, {
     message: 'New password must be different from current password',
@@ -82,11 +82,11 @@ export default function MandatoryPasswordChangeForm({ token, userId }: Mandatory
     },
     onError: (error: ApiError) => {
       if (error.code === 'auth.INVALID_CURRENT_PASSWORD') {
-        setFormError(t('errors.profile.invalidCurrentPassword'));
+        setFormError(t('profile.errors.invalidCurrentPassword'));
       } else if (error.code === 'validation.PASSWORD_POLICY_VIOLATION') {
         setFormError(t('validation.password.policyViolation'));
       } else if (error.code === 'auth.PASSWORD_REUSE_VIOLATION') {
-        setFormError(t('errors.profile.passwordReuse'));
+        setFormError(t('profile.errors.passwordReuse'));
       } else {
         setFormError(error.message || t('errors.generic'));
       }
@@ -0,0 +1,139 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CheckCircle2, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { useOfflineSync } from '@/providers/offline-sync-provider';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { formatDateTime } from '@/lib/date-formatting';
+import type { InventoryOutboxEntry } from '@/lib/inventory-outbox';
+
+/**
+ * Sync status shown in the dashboard header
+ * Opens a dialog listing queued inventory changes that conflicted or failed during replay
+ */
+export default function OfflineSyncIndicator() {
+  const { t } = useTranslation();
+  const { config } = useGlobalLocaleFormatting();
+  const { isOnline, isSyncing, pendingCount, problemEntries, lastSyncedAt, syncNow, discardEntry } = useOfflineSync();
+
+  const getStatus = () => {
+    if (!isOnline) {
+      return {
+        icon: <CloudOff className="h-4 w-4" />,
+        label: pendingCount > 0 ? t('offlineSync.status.offlinePending', { count: pendingCount }) : t('offlineSync.status.offline'),
+        className: 'border-gray-300 bg-gray-100 text-gray-700',
+      };
+    }
+    if (isSyncing) {
+      return {
+        icon: <Loader2 className="h-4 w-4 animate-spin" />,
+        label: t('offlineSync.status.syncing'),
+        className: 'border-blue-200 bg-blue-50 text-blue-700',
+      };
+    }
+    if (problemEntries.length > 0) {
+      return {
+        icon: <AlertTriangle className="h-4 w-4" />,
+        label: t('offlineSync.status.needsAttention', { count: problemEntries.length }),
+        className: 'border-amber-200 bg-amber-50 text-amber-800',
+      };
+    }
+    if (pendingCount > 0) {
+      return {
+        icon: <RefreshCw className="h-4 w-4" />,
+        label: t('offlineSync.status.pending', { count: pendingCount }),
+        className: 'border-blue-200 bg-blue-50 text-blue-700',
+      };
+    }
+    return {
+      icon: <CheckCircle2 className="h-4 w-4" />,
+      label: t('offlineSync.status.synced'),
+      className: 'border-green-200 bg-green-50 text-green-700',
+    };
+  };
+
+  const getOperationLabel = (entry: InventoryOutboxEntry) =>
+    entry.type === 'update-quantity'
+      ? t('offlineSync.operations.updateQuantity', { quantity: entry.payload.quantity })
+      : t('offlineSync.operations.changeStatus', { status: t(`inventory.status.${entry.payload.newStatus}`) });
+
+  const status = getStatus();
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          type="button"
+          className={`flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium transition-colors ${status.className}`}
+          aria-live="polite"
+        >
+          {status.icon}
+          <span className="hidden sm:inline">{status.label}</span>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {status.icon}
+            {status.label}
+          </DialogTitle>
+          <DialogDescription>
+            {lastSyncedAt
+              ? t('offlineSync.lastSynced', { time: formatDateTime(lastSyncedAt.toISOString(), config) })
+              : t('offlineSync.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {problemEntries.length > 0 ? (
+          <ul className="max-h-80 space-y-3 overflow-y-auto">
+            {problemEntries.map((entry) => (
+              <li key={entry.id} className="flex items-start justify-between gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-gray-900">{entry.itemName}</p>
+                  <p className="text-gray-700">{getOperationLabel(entry)}</p>
+                  <p className="text-xs text-amber-800">
+                    {entry.status === 'conflict' ? t('offlineSync.errors.conflict') : t('offlineSync.errors.failed')}
+                  </p>
+                  <p className="text-xs text-gray-500">{formatDateTime(entry.createdAt, config)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => discardEntry(entry.id)}
+                  aria-label={t('offlineSync.actions.discard')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-600">
+            {pendingCount > 0 ? t('offlineSync.pendingDescription') : t('offlineSync.allSynced')}
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button
+            variant="outline"
+            onClick={syncNow}
+            disabled={!isOnline || isSyncing || pendingCount === 0}
+          >
+            <RefreshCw className={`h-4 w-4 ltr:mr-2 rtl:ml-2 ${isSyncing ? 'animate-spin' : ''}`} />
+            {t('offlineSync.actions.syncNow')}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -16,37 +16,22 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { usePermissionAudit } from '@/hooks/use-permissions';
 import { useClientPermissions } from '@/hooks/use-permissions';
-import { CheckResult, PermissionAction, type PermissionAuditParams, TenantLocale, TenantLanguage } from '@/types';
-import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDateTime } from '@/lib/locale-formatting';
+import { CheckResult, PermissionAction, type PermissionAuditParams } from '@/types';
+import { RelativeTime } from '@/components/ui/relative-time';
 
-export function PermissionsAuditList() {
-  const { t, i18n } = useTranslation();
+interface PermissionsAuditListProps {
+  // Filters the list starts with, e.g. a drill-down from the permission audit analytics
+  initialFilters?: PermissionAuditParams;
+}
+
+export function PermissionsAuditList({ initialFilters }: PermissionsAuditListProps = {}) {
+  const { t } = useTranslation();
   const { canViewAudit } = useClientPermissions();
-  const { config } = useGlobalLocaleFormatting();
-  
-  // Memoize the date formatting function to re-compute when language changes
-  const formatLocalizedDateTime = React.useCallback((dateString: string) => {
-    // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
-    return formatDateTime(dateString, languageSpecificConfig);
-  }, [config, i18n.language]);
   
   const [filters, setFilters] = useState<PermissionAuditParams>({
     page: 1,
     limit: 25,
+    ...initialFilters,
   });
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
@@ -288,7 +273,7 @@ export function PermissionsAuditList() {
                       </div>
                       <div className="flex items-center gap-2">
                         <Calendar className="h-4 w-4" />
-                        <span>{formatLocalizedDateTime(check.checkedAt)}</span>
+                        <RelativeTime date={check.checkedAt} />
                       </div>
                     </div>
 
@@ -0,0 +1,173 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, Loader2, Trash2, Users } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useDeleteRole } from '@/hooks/use-permissions';
+import { getRoleLabel } from '@/lib/role-utils';
+import { userService } from '@/services/api';
+import type { ApiError, Role } from '@/types';
+
+// Assigned users listed in the dialog, the total is shown for the rest
+const ASSIGNED_USERS_PREVIEW_LIMIT = 10;
+
+interface DeleteRoleDialogProps {
+  role: Role;
+  isOpen: boolean;
+  onClose: () => void;
+  onDeleted?: () => void;
+}
+
+/**
+ * Delete a custom role
+ * Roles still assigned to users cannot be deleted: the dialog lists those users so they can be
+ * moved to another role first. The API enforces the same rule with roles.ROLE_IN_USE.
+ */
+export function DeleteRoleDialog({ role, isOpen, onClose, onDeleted }: DeleteRoleDialogProps) {
+  const { t } = useTranslation();
+  const deleteRole = useDeleteRole();
+  const roleName = getRoleLabel(role, t);
+
+  const {
+    data: assignedUsersData,
+    isLoading: assignedUsersLoading,
+    refetch: refetchAssignedUsers,
+  } = useQuery({
+    queryKey: ['users', { roleId: role.id, limit: ASSIGNED_USERS_PREVIEW_LIMIT }],
+    queryFn: () => userService.getUsers({ roleId: role.id, limit: ASSIGNED_USERS_PREVIEW_LIMIT }),
+    enabled: isOpen,
+  });
+
+  const assignedUsers = assignedUsersData?.data.users || [];
+  const assignedUserCount = assignedUsersData?.data.pagination.total ?? 0;
+  const isInUse = assignedUserCount > 0;
+
+  const handleDelete = () => {
+    deleteRole.mutate(role.id, {
+      onSuccess: () => {
+        onDeleted?.();
+        onClose();
+      },
+      onError: (error: ApiError) => {
+        // Someone assigned the role after the dialog opened
+        if (error.code === 'roles.ROLE_IN_USE') {
+          refetchAssignedUsers();
+        }
+      },
+    });
+  };
+
+  const getErrorMessage = (error: ApiError | null) => {
+    if (error?.code === 'roles.ROLE_IN_USE') {
+      return t('permissions.deleteRole.inUseError', { roleName });
+    }
+    return error?.message || t('permissions.deleteRole.error');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-red-100 flex items-center justify-center">
+              <Trash2 className="h-4 w-4 text-red-600" />
+            </div>
+            {t('permissions.deleteRole.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('permissions.deleteRole.description', { roleName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          {assignedUsersLoading ? (
+            <div className="flex items-center justify-center p-4">
+              <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+              <span className="mr-2 text-gray-600">{t('permissions.deleteRole.checkingUsers')}</span>
+            </div>
+          ) : isInUse ? (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800 space-y-3">
+                <p>{t('permissions.deleteRole.assignedUsers', { count: assignedUserCount, roleName })}</p>
+                <ul className="space-y-1">
+                  {assignedUsers.map((user) => (
+                    <li key={user.id} className="flex items-center gap-2 text-sm">
+                      <Users className="h-3 w-3 flex-shrink-0" />
+                      <span className="font-medium">{user.fullName}</span>
+                      <span className="text-red-700 truncate" dir="ltr">{user.email}</span>
+                    </li>
+                  ))}
+                </ul>
+                {assignedUserCount > assignedUsers.length && (
+                  <p className="text-sm">
+                    {t('permissions.deleteRole.moreUsers', { count: assignedUserCount - assignedUsers.length })}
+                  </p>
+                )}
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert className="border-orange-200 bg-orange-50">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              <AlertDescription className="text-orange-800">
+                {t('permissions.deleteRole.warning')}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {deleteRole.isError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">
+                {getErrorMessage(deleteRole.error)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={deleteRole.isPending}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+
+          {!assignedUsersLoading && !isInUse && (
+            <Button
+              variant="destructive"
+              className="dashboard-button-primary bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 rounded-xl min-h-[44px]"
+              onClick={handleDelete}
+              disabled={deleteRole.isPending}
+            >
+              {deleteRole.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('permissions.deleteRole.deleting')}
+                </>
+              ) : (
+                <>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  {t('permissions.deleteRole.confirm')}
+                </>
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,341 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Info, RefreshCw, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import ReportBarChart from '@/components/reports/report-bar-chart';
+import { PermissionsAuditList } from '@/components/permissions-audit-list';
+import { useClientPermissions, usePermissionAuditChecks } from '@/hooks/use-permissions';
+import {
+  getDenialTimeSeries,
+  getDenialsByPermission,
+  getRecentDaysRange,
+  getTopDeniedUsers,
+  summarizePermissionChecks,
+} from '@/lib/permission-audit-analytics';
+import { isValidDateRange, type DateRange } from '@/lib/date-ranges';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { formatNumber as formatNumberUtil, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { getTimeZone } from '@/lib/timezone';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { CheckResult } from '@/types';
+import type { PermissionAuditParams } from '@/types';
+
+// Default to the last 30 days
+const DEFAULT_RANGE_DAYS = 30;
+
+interface DrillDown {
+  label: string;
+  filters: PermissionAuditParams;
+}
+
+/**
+ * Permission Audit Analytics
+ * Denial rates per resource and action, the most denied users and denials per day for a date
+ * range, each drilling down into the underlying permission checks. Meant for spotting roles that
+ * lost something they need after a permission change.
+ */
+export function PermissionAuditAnalytics() {
+  const { t, i18n } = useTranslation();
+  const { canViewAudit } = useClientPermissions();
+  const { config } = useGlobalLocaleFormatting();
+  const [range, setRange] = useState<DateRange>(() => getRecentDaysRange(DEFAULT_RANGE_DAYS, getTimeZone(config)));
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+  const drillDownRef = useRef<HTMLDivElement>(null);
+
+  const isRangeValid = isValidDateRange(range);
+  const { data, isLoading, isError, refetch, isFetching } = usePermissionAuditChecks({
+    dateFrom: range.from || undefined,
+    dateTo: range.to || undefined,
+  }, isRangeValid);
+
+  useEffect(() => {
+    drillDownRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [drillDown]);
+
+  const checks = React.useMemo(() => data?.checks || [], [data?.checks]);
+  const summary = summarizePermissionChecks(checks);
+  const permissionRows = React.useMemo(() => getDenialsByPermission(checks), [checks]);
+  const userRows = React.useMemo(() => getTopDeniedUsers(checks), [checks]);
+  const deniedUserCount = new Set(
+    checks.filter((check) => check.checkResult === CheckResult.DENIED).map((check) => check.userId)
+  ).size;
+  const timeSeries = React.useMemo(
+    () => getDenialTimeSeries(checks, getTimeZone(config), range),
+    [checks, config, range]
+  );
+
+  const formatConfig = getLanguageFormattingConfig(config, i18n.language);
+  const formatNumber = (value: number) => formatNumberUtil(value, formatConfig);
+  const formatRate = (rate: number) =>
+    t('permissions.analytics.percent', { value: formatNumber(Math.round(rate * 1000) / 10) });
+  const formatPermission = (resource: string, action: string) =>
+    `${t(`permissions.resources.${resource}`, resource)} – ${t(`permissions.actions.${action}`)}`;
+
+  // Drill-downs show the denied checks behind a row, within the chosen range
+  const openDrillDown = (label: string, filters: PermissionAuditParams) => setDrillDown({
+    label,
+    filters: {
+      dateFrom: range.from || undefined,
+      dateTo: range.to || undefined,
+      checkResult: CheckResult.DENIED,
+      ...filters,
+    },
+  });
+
+  if (!canViewAudit) {
+    return (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>{t('permissions.accessDenied')}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const summaryCards = [
+    { key: 'total', label: t('permissions.analytics.summary.total'), value: formatNumber(summary.total) },
+    { key: 'denied', label: t('permissions.analytics.summary.denied'), value: formatNumber(summary.denied) },
+    { key: 'rate', label: t('permissions.analytics.summary.denialRate'), value: formatRate(summary.denialRate) },
+    { key: 'users', label: t('permissions.analytics.summary.deniedUsers'), value: formatNumber(deniedUserCount) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">{t('permissions.analytics.title')}</h2>
+        <p className="text-gray-600">{t('permissions.analytics.description')}</p>
+      </div>
+
+      {/* Parameters */}
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div className="flex-1">
+          <DateRangePicker
+            id="permission-analytics-range"
+            value={range}
+            onChange={(value) => {
+              setRange(value);
+              setDrillDown(null);
+            }}
+          />
+          {!isRangeValid && (
+            <p className="text-sm text-red-600 mt-2">{t('reports.parameters.invalidRange')}</p>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          {t('common.refresh')}
+        </Button>
+      </div>
+
+      {!isRangeValid ? null : isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : isError ? (
+        <Alert>
+          <AlertDescription>
+            {t('permissions.analytics.loadFailed')}
+            <Button variant="link" size="sm" onClick={() => refetch()} className="p-0 h-auto ms-2">
+              {t('common.retry')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <>
+          {data && data.total > checks.length && (
+            <Alert className="border-blue-200 bg-blue-50">
+              <Info className="h-4 w-4 text-blue-600" />
+              <AlertDescription className="text-blue-800">
+                {t('permissions.analytics.partial', {
+                  analyzed: formatNumber(checks.length),
+                  total: formatNumber(data.total),
+                })}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {summaryCards.map((card) => (
+              <Card key={card.key} className="bg-white/95 backdrop-blur-sm border-white/30">
+                <CardContent className="p-6">
+                  <p className="text-sm text-gray-600">{card.label}</p>
+                  <p className="text-2xl font-bold text-gray-900 mt-1">{card.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Denials per day */}
+          <Card className="bg-white/95 backdrop-blur-sm border-white/30">
+            <CardHeader>
+              <CardTitle>{t('permissions.analytics.timeSeries.title')}</CardTitle>
+              <CardDescription>{t('permissions.analytics.timeSeries.description')}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {summary.denied === 0 ? (
+                <p className="text-gray-600">{t('permissions.analytics.noDenials')}</p>
+              ) : (
+                <ReportBarChart
+                  series={[
+                    { key: 'denied', label: t('permissions.results.denied'), colorClassName: 'bg-red-500' },
+                    { key: 'granted', label: t('permissions.results.granted'), colorClassName: 'bg-green-500' },
+                  ]}
+                  rows={timeSeries.map((row) => ({
+                    id: row.date,
+                    label: formatDateUtil(row.date, formatConfig),
+                    values: { denied: row.denied, granted: row.granted },
+                  }))}
+                  formatValue={formatNumber}
+                  onSelectRow={(date) =>
+                    openDrillDown(formatDateUtil(date, formatConfig), { dateFrom: date, dateTo: date })}
+                />
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            {/* Denial rate per resource and action */}
+            <Card className="bg-white/95 backdrop-blur-sm border-white/30">
+              <CardHeader>
+                <CardTitle>{t('permissions.analytics.byPermission.title')}</CardTitle>
+                <CardDescription>{t('permissions.analytics.byPermission.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {permissionRows.length === 0 ? (
+                  <p className="text-gray-600">{t('permissions.analytics.noDenials')}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50">
+                        <TableHead className="text-start">{t('permissions.analytics.columns.permission')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.checks')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.denied')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.denialRate')}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {permissionRows.map((row) => (
+                        <TableRow key={`${row.resource}:${row.action}`}>
+                          <TableCell className="font-medium text-gray-900">
+                            {formatPermission(row.resource, row.action)}
+                          </TableCell>
+                          <TableCell>{formatNumber(row.total)}</TableCell>
+                          <TableCell className="text-red-600">{formatNumber(row.denied)}</TableCell>
+                          <TableCell>{formatRate(row.denialRate)}</TableCell>
+                          <TableCell className="text-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={t('permissions.analytics.viewChecks')}
+                              onClick={() => openDrillDown(formatPermission(row.resource, row.action), {
+                                resource: row.resource,
+                                action: row.action,
+                              })}
+                            >
+                              <Search className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Most denied users */}
+            <Card className="bg-white/95 backdrop-blur-sm border-white/30">
+              <CardHeader>
+                <CardTitle>{t('permissions.analytics.topUsers.title')}</CardTitle>
+                <CardDescription>{t('permissions.analytics.topUsers.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {userRows.length === 0 ? (
+                  <p className="text-gray-600">{t('permissions.analytics.noDenials')}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50">
+                        <TableHead className="text-start">{t('permissions.analytics.columns.user')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.checks')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.denied')}</TableHead>
+                        <TableHead className="text-start">{t('permissions.analytics.columns.denialRate')}</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {userRows.map((row) => (
+                        <TableRow key={row.userId}>
+                          <TableCell>
+                            <p className="font-medium text-gray-900">{row.fullName}</p>
+                            <p className="text-xs text-gray-500">{row.email}</p>
+                          </TableCell>
+                          <TableCell>{formatNumber(row.total)}</TableCell>
+                          <TableCell className="text-red-600">{formatNumber(row.denied)}</TableCell>
+                          <TableCell>{formatRate(row.denialRate)}</TableCell>
+                          <TableCell className="text-end">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title={t('permissions.analytics.viewChecks')}
+                              onClick={() => openDrillDown(row.fullName, { userId: row.userId })}
+                            >
+                              <Search className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Drill-down */}
+          {drillDown && (
+            <div ref={drillDownRef}>
+              <Card className="bg-white/95 backdrop-blur-sm border-white/30">
+                <CardHeader className="flex flex-row items-center justify-between gap-4">
+                  <div>
+                    <CardTitle>{t('permissions.analytics.drillDown.title', { label: drillDown.label })}</CardTitle>
+                    <CardDescription>{t('permissions.analytics.drillDown.description')}</CardDescription>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title={t('permissions.analytics.drillDown.close')}
+                    onClick={() => setDrillDown(null)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </CardHeader>
+                <CardContent>
+                  <PermissionsAuditList
+                    key={JSON.stringify(drillDown.filters)}
+                    initialFilters={drillDown.filters}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
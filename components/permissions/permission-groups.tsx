@@ -0,0 +1,116 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { Permission } from '@/types';
+
+/**
+ * Group permissions by resource, keeping the order the API lists them in
+ */
+export const groupPermissionsByResource = (permissions: Permission[]): Record<string, Permission[]> => {
+  const groups: Record<string, Permission[]> = {};
+  permissions.forEach(permission => {
+    if (!groups[permission.resource]) {
+      groups[permission.resource] = [];
+    }
+    groups[permission.resource].push(permission);
+  });
+  return groups;
+};
+
+interface PermissionGroupsProps {
+  permissions: Permission[];
+  isGranted: (permissionId: string) => boolean;
+  onChange: (permissionId: string, isGranted: boolean) => void;
+  // Highlights permissions changed since the last save
+  isModified?: (permissionId: string) => boolean;
+  disabled?: boolean;
+  // Keeps checkbox ids unique when the list is rendered inside a dialog over another list
+  idPrefix?: string;
+}
+
+/**
+ * Permission checkboxes grouped in one card per resource
+ */
+export function PermissionGroups({
+  permissions,
+  isGranted,
+  onChange,
+  isModified = () => false,
+  disabled = false,
+  idPrefix = '',
+}: PermissionGroupsProps) {
+  const { t } = useTranslation();
+  const groupedPermissions = React.useMemo(() => groupPermissionsByResource(permissions), [permissions]);
+
+  return (
+    <div className="space-y-4">
+      {Object.entries(groupedPermissions).map(([resource, resourcePermissions]) => (
+        <Card key={resource} className="bg-white/95 backdrop-blur-sm border-white/30">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {t(`permissions.resources.${resource}`)}
+              <Badge variant="secondary" className="text-xs">
+                {resourcePermissions.length} {t('permissions.actionsLabel')}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              {t(`permissions.resourceDescriptions.${resource}`)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {resourcePermissions.map(permission => {
+                const granted = isGranted(permission.id);
+                const checkboxId = `${idPrefix}${permission.id}`;
+
+                return (
+                  <div
+                    key={permission.id}
+                    className={`flex items-center space-x-3 p-3 rounded-lg border ${
+                      isModified(permission.id)
+                        ? 'border-blue-200 bg-blue-50'
+                        : 'border-gray-200 bg-gray-50'
+                    }`}
+                  >
+                    <Checkbox
+                      id={checkboxId}
+                      checked={granted}
+                      disabled={disabled}
+                      onCheckedChange={(checked) =>
+                        onChange(permission.id, checked as boolean)
+                      }
+                      className="data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <label
+                        htmlFor={checkboxId}
+                        className="text-sm font-medium text-gray-900 cursor-pointer"
+                      >
+                        {t(`permissions.actions.${permission.action}`)}
+                      </label>
+                      <p className="text-xs text-gray-500 truncate">
+                        {t(`permissions.actionDescriptions.${permission.action}`, { defaultValue: permission.description })}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0">
+                      {granted ? (
+                        <Check className="h-4 w-4 text-green-600" />
+                      ) : (
+                        <X className="h-4 w-4 text-gray-400" />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
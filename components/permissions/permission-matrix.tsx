@@ -0,0 +1,462 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQueries, useQuery, type UseQueryResult } from '@tanstack/react-query';
+import { AlertTriangle, CalendarClock, ClipboardCheck, FileDown, Loader2, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { groupPermissionsByResource } from '@/components/permissions/permission-groups';
+import {
+  ReviewPermissionChangesDialog,
+  type ApplyPermissionChangesOptions,
+} from '@/components/permissions/review-permission-changes-dialog';
+import { useClientPermissions, usePermissions, useUpdateRolePermissions } from '@/hooks/use-permissions';
+import { permissionService, userService } from '@/services/api';
+import { getRoleLabel, sortRoles } from '@/lib/role-utils';
+import { computeRolePermissionDiff, hasRolePermissionChanges, type RolePermissionDiff } from '@/lib/role-permission-diff';
+import {
+  findPermissionInconsistencies,
+  toCsv,
+  toPrintableHtml,
+  type PermissionMatrixGrants,
+} from '@/lib/permission-matrix';
+import { createExportFilename, downloadTextFile, printHtmlDocument } from '@/lib/download-utils';
+import { formatDateTime } from '@/lib/date-formatting';
+import { getDirection } from '@/lib/utils';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { PermissionAction } from '@/types';
+import type { Permission, RolePermissionsResponse, UpdateRolePermissionsRequest } from '@/types';
+
+type BulkState = boolean | 'indeterminate';
+
+const toBulkState = (granted: boolean[]): BulkState => {
+  if (granted.length > 0 && granted.every(Boolean)) return true;
+  return granted.some(Boolean) ? 'indeterminate' : false;
+};
+
+// Kept outside the component so the combined result only changes with the query results
+const combineRolePermissions = (results: UseQueryResult<RolePermissionsResponse>[]) => ({
+  data: results.map((result) => result.data),
+  isLoading: results.some((result) => result.isLoading),
+});
+
+/**
+ * Permission Matrix
+ * Every permission (rows) against every role (columns), edited in bulk by row or column. Saving walks
+ * through the review step of each changed role in turn. Grants that depend on a permission the role
+ * lacks are highlighted.
+ */
+export function PermissionMatrix() {
+  const { t, i18n } = useTranslation();
+  const { user, hasPermission } = useClientPermissions();
+  const { config } = useGlobalLocaleFormatting();
+  // Role id → permission id → granted, only for cells that differ from the saved state
+  const [pendingGrants, setPendingGrants] = useState<PermissionMatrixGrants>({});
+  // Role whose changes are being reviewed, saving moves on to the next changed role
+  const [reviewRoleId, setReviewRoleId] = useState<string | null>(null);
+  const [scheduledChanges, setScheduledChanges] = useState<{ roleId: string; scheduledFor: string }[]>([]);
+  const [isPrintBlocked, setIsPrintBlocked] = useState(false);
+
+  const canModify = hasPermission('permissions', PermissionAction.UPDATE);
+
+  const { data: permissionsData, isLoading: permissionsLoading } = usePermissions();
+  const { data: rolesData, isLoading: rolesLoading } = useQuery({
+    queryKey: ['roles'],
+    queryFn: () => userService.getRoles(),
+  });
+  const updateRolePermissions = useUpdateRolePermissions();
+  const isSaving = updateRolePermissions.isPending;
+
+  const roles = React.useMemo(() => sortRoles(rolesData?.data || []), [rolesData?.data]);
+
+  const rolePermissions = useQueries({
+    queries: roles.map((role) => ({
+      queryKey: ['rolePermissions', role.id],
+      queryFn: () => permissionService.getRolePermissions(role.id),
+      staleTime: 2 * 60 * 1000, // 2 minutes
+    })),
+    combine: combineRolePermissions,
+  });
+
+  const permissions: Permission[] = React.useMemo(
+    () => (Array.isArray(permissionsData?.data) ? permissionsData.data : permissionsData?.data?.permissions || []),
+    [permissionsData?.data]
+  );
+
+  const groupedPermissions = React.useMemo(() => groupPermissionsByResource(permissions), [permissions]);
+
+  const savedGrants = React.useMemo(() => {
+    const grants: PermissionMatrixGrants = {};
+    roles.forEach((role, index) => {
+      grants[role.id] = {};
+      rolePermissions.data[index]?.data.permissions.forEach((rolePermission) => {
+        grants[role.id][rolePermission.permissionId] = rolePermission.isGranted;
+      });
+    });
+    return grants;
+  }, [roles, rolePermissions.data]);
+
+  const roleLabels: Record<string, string> = Object.fromEntries(roles.map((role) => [role.id, getRoleLabel(role, t)]));
+
+  const isLoading = permissionsLoading || rolesLoading || rolePermissions.isLoading;
+
+  const isGranted = (roleId: string, permissionId: string): boolean =>
+    pendingGrants[roleId]?.[permissionId] ?? savedGrants[roleId]?.[permissionId] ?? false;
+
+  const currentGrants = React.useMemo(() => {
+    const grants: PermissionMatrixGrants = {};
+    roles.forEach((role) => {
+      grants[role.id] = { ...savedGrants[role.id], ...pendingGrants[role.id] };
+    });
+    return grants;
+  }, [roles, savedGrants, pendingGrants]);
+
+  const inconsistencies = React.useMemo(
+    () => findPermissionInconsistencies(permissions, currentGrants),
+    [permissions, currentGrants]
+  );
+  const inconsistentCells = new Set(inconsistencies.map(({ roleId, permission }) => `${roleId}:${permission.id}`));
+
+  const roleDiffs = roles
+    .map((role) => ({
+      role,
+      diff: computeRolePermissionDiff(permissions, savedGrants[role.id] || {}, pendingGrants[role.id] || {}),
+    }))
+    .filter(({ diff }) => hasRolePermissionChanges(diff));
+
+  const reviewed = roleDiffs.find(({ role }) => role.id === reviewRoleId);
+
+  const toPermissionChanges = (roleId: string, diff: RolePermissionDiff): UpdateRolePermissionsRequest['permissions'] =>
+    [...diff.added, ...diff.removed].map((permission) => ({
+      permissionId: permission.id,
+      isGranted: pendingGrants[roleId][permission.id],
+    }));
+
+  const setGrants = (cells: { roleId: string; permissionId: string }[], granted: boolean) => {
+    setScheduledChanges([]);
+    setPendingGrants((prev) => {
+      const next: PermissionMatrixGrants = { ...prev };
+      cells.forEach(({ roleId, permissionId }) => {
+        const roleGrants = { ...next[roleId] };
+        // Setting a cell back to its saved value drops it from the pending changes
+        if ((savedGrants[roleId]?.[permissionId] ?? false) === granted) {
+          delete roleGrants[permissionId];
+        } else {
+          roleGrants[permissionId] = granted;
+        }
+        next[roleId] = roleGrants;
+      });
+      return next;
+    });
+  };
+
+  const toggleRow = (permission: Permission, state: BulkState) =>
+    setGrants(roles.map((role) => ({ roleId: role.id, permissionId: permission.id })), state !== true);
+
+  const toggleColumn = (roleId: string, state: BulkState) =>
+    setGrants(permissions.map((permission) => ({ roleId, permissionId: permission.id })), state !== true);
+
+  const openReview = (roleId: string | null) => {
+    updateRolePermissions.reset();
+    setReviewRoleId(roleId);
+  };
+
+  const handleSave = async ({ effectiveAt, terminateSessions }: ApplyPermissionChangesOptions) => {
+    if (!reviewed) return;
+    const { role, diff } = reviewed;
+
+    try {
+      const response = await updateRolePermissions.mutateAsync({
+        roleId: role.id,
+        data: { permissions: toPermissionChanges(role.id, diff), effectiveAt, terminateSessions },
+      });
+      setPendingGrants((prev) => {
+        const next = { ...prev };
+        delete next[role.id];
+        return next;
+      });
+      const scheduledFor = response.data.scheduledFor;
+      if (scheduledFor) {
+        setScheduledChanges((prev) => [...prev, { roleId: role.id, scheduledFor }]);
+      }
+      // On to the next changed role, closing a review leaves the remaining roles pending
+      openReview(roleDiffs.find((next) => next.role.id !== role.id)?.role.id ?? null);
+    } catch (error) {
+      console.error(`Failed to update permissions of role ${role.id}:`, error);
+    }
+  };
+
+  const buildExportTable = () => {
+    const headers = [
+      t('permissions.matrix.resourceColumn'),
+      t('permissions.matrix.actionColumn'),
+      ...roles.map((role) => roleLabels[role.id]),
+      t('permissions.matrix.issuesColumn'),
+    ];
+    const rows = permissions.map((permission) => [
+      t(`permissions.resources.${permission.resource}`),
+      t(`permissions.actions.${permission.action}`),
+      ...roles.map((role) => (isGranted(role.id, permission.id) ? t('permissions.matrix.granted') : '')),
+      inconsistencies
+        .filter((inconsistency) => inconsistency.permission.id === permission.id)
+        .map(({ roleId }) => roleLabels[roleId])
+        .join(', '),
+    ]);
+    return { headers, rows };
+  };
+
+  const handleExportCsv = () => {
+    const { headers, rows } = buildExportTable();
+    downloadTextFile(toCsv([headers, ...rows]), createExportFilename('permission-matrix', 'csv'), 'text/csv;charset=utf-8');
+  };
+
+  const handleExportPdf = () => {
+    const { headers, rows } = buildExportTable();
+    const printed = printHtmlDocument(toPrintableHtml({
+      title: t('permissions.matrix.title'),
+      subtitle: t('permissions.matrix.exportSubtitle', {
+        date: formatDateTime(new Date().toISOString(), config),
+        name: user?.fullName || '',
+      }),
+      headers,
+      rows,
+      lang: i18n.language,
+      dir: getDirection(i18n.language),
+    }));
+    setIsPrintBlocked(!printed);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
+        <span className="mr-2 text-gray-600">{t('permissions.loading')}</span>
+      </div>
+    );
+  }
+
+  const hasPendingChanges = roleDiffs.length > 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('permissions.matrix.title')}</h2>
+          <p className="text-gray-600">{t('permissions.matrix.description')}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={handleExportCsv}
+            disabled={hasPendingChanges}
+            title={hasPendingChanges ? t('permissions.matrix.exportUnsaved') : undefined}
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            {t('permissions.matrix.exportCsv')}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={handleExportPdf}
+            disabled={hasPendingChanges}
+            title={hasPendingChanges ? t('permissions.matrix.exportUnsaved') : undefined}
+          >
+            <Printer className="h-4 w-4 mr-2" />
+            {t('permissions.matrix.exportPdf')}
+          </Button>
+        </div>
+      </div>
+
+      {isPrintBlocked && (
+        <Alert className="border-red-200 bg-red-50">
+          <AlertDescription className="text-red-800">{t('permissions.matrix.printBlocked')}</AlertDescription>
+        </Alert>
+      )}
+
+      {inconsistencies.length > 0 && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800">
+            <p className="font-medium">
+              {t('permissions.matrix.inconsistencies', { count: inconsistencies.length })}
+            </p>
+            <ul className="mt-2 list-disc ps-5 text-sm space-y-1">
+              {inconsistencies.map(({ roleId, permission }) => (
+                <li key={`${roleId}:${permission.id}`}>
+                  {t('permissions.matrix.inconsistencyItem', {
+                    role: roleLabels[roleId],
+                    resource: t(`permissions.resources.${permission.resource}`),
+                    action: t(`permissions.actions.${permission.action}`),
+                    missing: t(`permissions.actions.${PermissionAction.READ}`),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="sticky start-0 z-10 bg-gray-50 p-3 text-start font-semibold text-gray-900">
+                {t('permissions.matrix.permissionColumn')}
+              </th>
+              {roles.map((role) => {
+                const state = toBulkState(permissions.map((permission) => isGranted(role.id, permission.id)));
+                return (
+                  <th key={role.id} className="p-3 text-center font-semibold text-gray-900 whitespace-nowrap">
+                    <div className="flex flex-col items-center gap-2">
+                      <span>{roleLabels[role.id]}</span>
+                      <Checkbox
+                        checked={state}
+                        disabled={!canModify || isSaving}
+                        onCheckedChange={() => toggleColumn(role.id, state)}
+                        aria-label={t('permissions.matrix.toggleColumn', { role: roleLabels[role.id] })}
+                        title={t('permissions.matrix.toggleColumn', { role: roleLabels[role.id] })}
+                      />
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(groupedPermissions).map(([resource, resourcePermissions]) => (
+              <React.Fragment key={resource}>
+                <tr className="bg-gray-100/70">
+                  <td colSpan={roles.length + 1} className="sticky start-0 p-2 font-semibold text-gray-700">
+                    {t(`permissions.resources.${resource}`)}
+                  </td>
+                </tr>
+                {resourcePermissions.map((permission) => {
+                  const actionLabel = t(`permissions.actions.${permission.action}`);
+                  const state = toBulkState(roles.map((role) => isGranted(role.id, permission.id)));
+                  return (
+                    <tr key={permission.id} className="border-t border-gray-100">
+                      <td className="sticky start-0 z-10 bg-white p-3">
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            checked={state}
+                            disabled={!canModify || isSaving}
+                            onCheckedChange={() => toggleRow(permission, state)}
+                            aria-label={t('permissions.matrix.toggleRow', { permission: actionLabel })}
+                            title={t('permissions.matrix.toggleRow', { permission: actionLabel })}
+                          />
+                          <span className="text-gray-900">{actionLabel}</span>
+                        </div>
+                      </td>
+                      {roles.map((role) => {
+                        const cellKey = `${role.id}:${permission.id}`;
+                        const isInconsistent = inconsistentCells.has(cellKey);
+                        const isModified = permission.id in (pendingGrants[role.id] || {});
+                        return (
+                          <td
+                            key={role.id}
+                            className={`p-3 text-center ${
+                              isInconsistent ? 'bg-amber-50' : isModified ? 'bg-blue-50' : ''
+                            }`}
+                            title={isInconsistent ? t('permissions.matrix.inconsistencyHint', {
+                              missing: t(`permissions.actions.${PermissionAction.READ}`),
+                            }) : undefined}
+                          >
+                            <div className="flex items-center justify-center gap-1">
+                              <Checkbox
+                                checked={isGranted(role.id, permission.id)}
+                                disabled={!canModify || isSaving}
+                                onCheckedChange={(checked) =>
+                                  setGrants([{ roleId: role.id, permissionId: permission.id }], checked as boolean)
+                                }
+                                aria-label={`${roleLabels[role.id]} – ${t(`permissions.resources.${resource}`)} ${actionLabel}`}
+                              />
+                              {isInconsistent && <AlertTriangle className="h-3 w-3 text-amber-600" />}
+                            </div>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {scheduledChanges.length > 0 && (
+        <Alert className="border-blue-200 bg-blue-50">
+          <CalendarClock className="h-4 w-4 text-blue-600" />
+          <AlertDescription className="text-blue-800">
+            <ul className="space-y-1">
+              {scheduledChanges.map(({ roleId, scheduledFor }) => (
+                <li key={roleId}>
+                  {t('permissions.matrix.scheduledNotice', {
+                    role: roleLabels[roleId],
+                    date: formatDateTime(scheduledFor, config),
+                  })}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {hasPendingChanges && (
+        <div className="sticky bottom-0 bg-white/95 backdrop-blur-sm border-t border-white/30 p-4 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              {t('permissions.unsavedChanges')}
+              {roleDiffs.map(({ role, diff }) => (
+                <Badge key={role.id} variant="outline">
+                  {t('permissions.matrix.roleChanges', {
+                    role: roleLabels[role.id],
+                    added: diff.added.length,
+                    removed: diff.removed.length,
+                  })}
+                </Badge>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setPendingGrants({});
+                  setScheduledChanges([]);
+                }}
+                disabled={isSaving}
+              >
+                {t('common.reset')}
+              </Button>
+              <Button
+                onClick={() => openReview(roleDiffs[0].role.id)}
+                disabled={isSaving || !canModify}
+                className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                {t('permissions.matrix.save', { count: roleDiffs.length })}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* A new review for every role, so the schedule and sign-out choices start over */}
+      {reviewed && (
+        <ReviewPermissionChangesDialog
+          key={reviewed.role.id}
+          role={reviewed.role}
+          diff={reviewed.diff}
+          changes={toPermissionChanges(reviewed.role.id, reviewed.diff)}
+          isOpen
+          onClose={() => openReview(null)}
+          onConfirm={handleSave}
+          isSaving={isSaving}
+          error={updateRolePermissions.error}
+        />
+      )}
+    </div>
+  );
+}
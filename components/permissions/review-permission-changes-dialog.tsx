@@ -0,0 +1,278 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, CalendarClock, ClipboardCheck, Loader2, Minus, Plus, Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DateTimePicker } from '@/components/ui/date-time-picker';
+import { useRolePermissionsImpact } from '@/hooks/use-permissions';
+import { getRoleLabel } from '@/lib/role-utils';
+import type { RolePermissionDiff } from '@/lib/role-permission-diff';
+import type { ApiError, Permission, Role, UpdateRolePermissionsRequest } from '@/types';
+
+export interface ApplyPermissionChangesOptions {
+  effectiveAt?: string;
+  terminateSessions: boolean;
+}
+
+interface ReviewPermissionChangesDialogProps {
+  role: Role;
+  diff: RolePermissionDiff;
+  changes: UpdateRolePermissionsRequest['permissions'];
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (options: ApplyPermissionChangesOptions) => void;
+  isSaving?: boolean;
+  error?: ApiError | null;
+}
+
+/**
+ * Review step before saving a role's permissions
+ * Shows what is granted and revoked, who the change reaches and which pages they gain or lose,
+ * and lets the change be scheduled or the role's users be signed out when it applies.
+ */
+export function ReviewPermissionChangesDialog({
+  role,
+  diff,
+  changes,
+  isOpen,
+  onClose,
+  onConfirm,
+  isSaving = false,
+  error,
+}: ReviewPermissionChangesDialogProps) {
+  const { t } = useTranslation();
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [effectiveAt, setEffectiveAt] = useState('');
+  const [terminateSessions, setTerminateSessions] = useState(false);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+
+  const { data: impactData, isLoading: impactLoading, isError: impactError } =
+    useRolePermissionsImpact(role.id, { permissions: changes }, isOpen);
+  const impact = impactData?.data;
+
+  // Every review starts as an immediate change
+  useEffect(() => {
+    if (isOpen) {
+      setIsScheduled(false);
+      setEffectiveAt('');
+      setTerminateSessions(false);
+      setScheduleError(null);
+    }
+  }, [isOpen]);
+
+  const roleName = getRoleLabel(role, t);
+
+  const getPermissionLabel = (permission: Permission) =>
+    `${t(`permissions.resources.${permission.resource}`)} · ${t(`permissions.actions.${permission.action}`)}`;
+
+  const handleConfirm = () => {
+    if (isScheduled) {
+      if (!effectiveAt) {
+        setScheduleError('permissions.review.schedule.required');
+        return;
+      }
+      if (new Date(effectiveAt).getTime() <= Date.now()) {
+        setScheduleError('permissions.review.schedule.mustBeFuture');
+        return;
+      }
+    }
+    setScheduleError(null);
+    onConfirm({ effectiveAt: isScheduled ? effectiveAt : undefined, terminateSessions });
+  };
+
+  const renderPermissionList = (permissions: Permission[], variant: 'added' | 'removed') => (
+    <div className="space-y-2">
+      <h4 className={`text-sm font-semibold flex items-center gap-2 ${variant === 'added' ? 'text-green-700' : 'text-red-700'}`}>
+        {variant === 'added' ? <Plus className="h-4 w-4" /> : <Minus className="h-4 w-4" />}
+        {t(`permissions.review.${variant}`, { count: permissions.length })}
+      </h4>
+      {permissions.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('permissions.review.none')}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {permissions.map((permission) => (
+            <Badge
+              key={permission.id}
+              variant="outline"
+              className={variant === 'added' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-800'}
+            >
+              {getPermissionLabel(permission)}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderNavigationList = (itemIds: string[], variant: 'gained' | 'lost') => (
+    itemIds.length > 0 && (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-700">{t(`permissions.review.navigation.${variant}`)}</span>
+        {itemIds.map((itemId) => (
+          <Badge
+            key={itemId}
+            variant="outline"
+            className={variant === 'gained' ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-800'}
+          >
+            {t(`dashboard.navigation.${itemId}`)}
+          </Badge>
+        ))}
+      </div>
+    )
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isSaving && onClose()}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center">
+              <ClipboardCheck className="h-4 w-4 text-blue-600" />
+            </div>
+            {t('permissions.review.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('permissions.review.description', { roleName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {/* Permission changes */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {renderPermissionList(diff.added, 'added')}
+            {renderPermissionList(diff.removed, 'removed')}
+          </div>
+
+          {/* Reach of the change */}
+          <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 space-y-3">
+            <h4 className="text-sm font-semibold text-gray-900">{t('permissions.review.impact.title')}</h4>
+            {impactLoading ? (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Loader2 className="h-4 w-4 animate-spin text-blue-600" />
+                {t('permissions.review.impact.loading')}
+              </div>
+            ) : impactError || !impact ? (
+              <p className="text-sm text-gray-600">{t('permissions.review.impact.unavailable')}</p>
+            ) : (
+              <p className="text-sm text-gray-700">
+                {t('permissions.review.impact.summary', {
+                  users: impact.affectedUserCount,
+                  sessions: impact.activeSessionCount,
+                })}
+              </p>
+            )}
+
+            {diff.gainedNavigation.length === 0 && diff.lostNavigation.length === 0 ? (
+              <p className="text-sm text-gray-600">{t('permissions.review.navigation.unchanged')}</p>
+            ) : (
+              <div className="space-y-2">
+                {renderNavigationList(diff.gainedNavigation, 'gained')}
+                {renderNavigationList(diff.lostNavigation, 'lost')}
+              </div>
+            )}
+          </div>
+
+          {/* When and how to apply */}
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="schedule-permission-change" className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                <CalendarClock className="h-4 w-4 text-blue-600" />
+                {t('permissions.review.schedule.label')}
+              </Label>
+              <Switch
+                id="schedule-permission-change"
+                checked={isScheduled}
+                onCheckedChange={setIsScheduled}
+                disabled={isSaving}
+              />
+            </div>
+            {isScheduled && (
+              <div className="space-y-2">
+                <DateTimePicker
+                  id="permission-change-effective-at"
+                  value={effectiveAt}
+                  onChange={setEffectiveAt}
+                  disabled={isSaving}
+                />
+                {scheduleError && (
+                  <p className="text-red-600 text-sm">{t(scheduleError)}</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="terminate-role-sessions"
+                checked={terminateSessions}
+                onCheckedChange={(checked) => setTerminateSessions(checked === true)}
+                disabled={isSaving}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="terminate-role-sessions" className="text-sm font-medium text-gray-900 cursor-pointer">
+                  {t('permissions.review.terminateSessions.label')}
+                </Label>
+                <p className="text-xs text-gray-500">
+                  {t(isScheduled
+                    ? 'permissions.review.terminateSessions.scheduledHint'
+                    : 'permissions.review.terminateSessions.hint')}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {error && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                {error.message || t('permissions.review.error')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={isSaving}
+            onClick={onClose}
+          >
+            {t('permissions.review.backToEditing')}
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={isSaving}
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-xl min-h-[44px]"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t('permissions.saving')}
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                {t(isScheduled ? 'permissions.review.confirmScheduled' : 'permissions.review.confirm')}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Copy, Loader2, Pencil, Plus, Save } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { PermissionGroups } from '@/components/permissions/permission-groups';
+import { useCloneRole, useCreateRole, usePermissions, useRenameRole } from '@/hooks/use-permissions';
+import { getRoleLabel } from '@/lib/role-utils';
+import type { ApiError, Role } from '@/types';
+
+export type RoleEditorMode = 'create' | 'rename' | 'clone';
+
+interface RoleEditorDialogProps {
+  mode: RoleEditorMode;
+  // Role being renamed or cloned
+  role?: Role;
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: (role: Role) => void;
+}
+
+const roleEditorSchema = z.object({
+  displayName: z
+    .string()
+    .trim()
+    .min(1, 'permissions.roleEditor.validation.displayName.required')
+    .max(100, 'permissions.roleEditor.validation.displayName.maxLength'),
+  description: z
+    .string()
+    .max(500, 'permissions.roleEditor.validation.description.maxLength')
+    .optional()
+    .or(z.literal('')),
+});
+
+type RoleEditorForm = z.infer<typeof roleEditorSchema>;
+
+const MODE_ICONS: Record<RoleEditorMode, React.ElementType> = {
+  create: Plus,
+  rename: Pencil,
+  clone: Copy,
+};
+
+/**
+ * Create, rename or clone a role
+ * New roles pick their permissions from the same grouped view as RolePermissionsManager,
+ * clones start with the permissions of their source role.
+ */
+export function RoleEditorDialog({ mode, role, isOpen, onClose, onSaved }: RoleEditorDialogProps) {
+  const { t } = useTranslation();
+  const [grantedPermissions, setGrantedPermissions] = useState<Record<string, boolean>>({});
+
+  const { data: permissionsData, isLoading: permissionsLoading } = usePermissions();
+  const createRole = useCreateRole();
+  const renameRole = useRenameRole();
+  const cloneRole = useCloneRole();
+  const mutation = mode === 'create' ? createRole : mode === 'rename' ? renameRole : cloneRole;
+  const { reset: resetCreateRole } = createRole;
+  const { reset: resetRenameRole } = renameRole;
+  const { reset: resetCloneRole } = cloneRole;
+
+  const permissions = React.useMemo(
+    () => (Array.isArray(permissionsData?.data) ? permissionsData.data : permissionsData?.data?.permissions || []),
+    [permissionsData?.data]
+  );
+
+  const getDefaultValues = React.useCallback((): RoleEditorForm => {
+    if (mode === 'rename' && role) {
+      return { displayName: role.displayName, description: role.description || '' };
+    }
+    if (mode === 'clone' && role) {
+      return {
+        displayName: t('permissions.roleEditor.cloneName', { roleName: getRoleLabel(role, t) }),
+        description: role.description || '',
+      };
+    }
+    return { displayName: '', description: '' };
+  }, [mode, role, t]);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<RoleEditorForm>({
+    resolver: zodResolver(roleEditorSchema),
+    defaultValues: getDefaultValues(),
+  });
+
+  // Start from a clean form whenever the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      reset(getDefaultValues());
+      setGrantedPermissions({});
+      resetCreateRole();
+      resetRenameRole();
+      resetCloneRole();
+    }
+  }, [isOpen, reset, getDefaultValues, resetCreateRole, resetRenameRole, resetCloneRole]);
+
+  const handleError = (error: ApiError) => {
+    if (error.code === 'roles.DUPLICATE_NAME') {
+      setError('displayName', { message: 'permissions.roleEditor.validation.displayName.duplicate' });
+    }
+  };
+
+  const onSubmit = (data: RoleEditorForm) => {
+    const payload = {
+      displayName: data.displayName.trim(),
+      description: data.description?.trim() || undefined,
+    };
+    const callbacks = {
+      onSuccess: (response: { data: Role }) => {
+        onSaved?.(response.data);
+        onClose();
+      },
+      onError: handleError,
+    };
+
+    if (mode === 'create') {
+      createRole.mutate({
+        ...payload,
+        permissionIds: Object.keys(grantedPermissions).filter((permissionId) => grantedPermissions[permissionId]),
+      }, callbacks);
+    } else if (mode === 'rename' && role) {
+      renameRole.mutate({ roleId: role.id, data: payload }, callbacks);
+    } else if (mode === 'clone' && role) {
+      cloneRole.mutate({ roleId: role.id, data: payload }, callbacks);
+    }
+  };
+
+  const Icon = MODE_ICONS[mode];
+  const roleName = role ? getRoleLabel(role, t) : '';
+  const showGeneralError = mutation.error && mutation.error.code !== 'roles.DUPLICATE_NAME';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className={`dashboard-card rounded-2xl max-h-[90vh] overflow-y-auto ${mode === 'create' ? 'max-w-4xl' : 'max-w-md'}`}>
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center">
+              <Icon className="h-4 w-4 text-blue-600" />
+            </div>
+            {t(`permissions.roleEditor.${mode}.title`, { roleName })}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t(`permissions.roleEditor.${mode}.description`, { roleName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form id="role-editor-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="role-display-name" className="dashboard-text-primary font-medium">
+              {t('permissions.roleEditor.form.displayName.label')} *
+            </Label>
+            <Input
+              id="role-display-name"
+              placeholder={t('permissions.roleEditor.form.displayName.placeholder')}
+              {...register('displayName')}
+              className={`dashboard-input rounded-xl ${errors.displayName ? 'border-red-300' : ''}`}
+              disabled={mutation.isPending}
+            />
+            {errors.displayName && (
+              <p className="text-red-600 text-sm">{t(errors.displayName.message || '')}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-description" className="dashboard-text-primary font-medium">
+              {t('permissions.roleEditor.form.description.label')}
+            </Label>
+            <Textarea
+              id="role-description"
+              rows={2}
+              placeholder={t('permissions.roleEditor.form.description.placeholder')}
+              {...register('description')}
+              className={`dashboard-input rounded-xl ${errors.description ? 'border-red-300' : ''}`}
+              disabled={mutation.isPending}
+            />
+            {errors.description && (
+              <p className="text-red-600 text-sm">{t(errors.description.message || '')}</p>
+            )}
+          </div>
+
+          {mode === 'create' && (
+            <div className="space-y-2">
+              <Label className="dashboard-text-primary font-medium">
+                {t('permissions.roleEditor.form.permissions.label')}
+              </Label>
+              {permissionsLoading ? (
+                <div className="flex items-center justify-center p-6">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+                  <span className="mr-2 text-gray-600">{t('permissions.loading')}</span>
+                </div>
+              ) : (
+                <PermissionGroups
+                  permissions={permissions}
+                  isGranted={(permissionId) => !!grantedPermissions[permissionId]}
+                  onChange={(permissionId, isGranted) =>
+                    setGrantedPermissions((prev) => ({ ...prev, [permissionId]: isGranted }))
+                  }
+                  disabled={mutation.isPending}
+                  idPrefix="new-role-"
+                />
+              )}
+            </div>
+          )}
+
+          {showGeneralError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">
+                {mutation.error?.message || t(`permissions.roleEditor.${mode}.error`)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </form>
+
+        <DialogFooter className="gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={mutation.isPending}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button
+            type="submit"
+            form="role-editor-form"
+            className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 rounded-xl min-h-[44px]"
+            disabled={mutation.isPending}
+          >
+            {mutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t('permissions.saving')}
+              </>
+            ) : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                {t(`permissions.roleEditor.${mode}.submit`)}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -14,6 +14,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { PhoneInput } from '@/components/ui/phone-input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { getDefaultPhoneCountry, isValidPhoneNumber, toE164 } from '@/lib/phone-numbers';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
 import { profileService } from '@/services/api';
 import type { UpdateProfileRequest, ApiError, UserProfileResponse } from '@/types';
 
@@ -29,13 +31,7 @@ const updateProfileSchema = z.object({
     .max(100, 'نام و نام خانوادگی نمی‌تواند بیش از ۱۰۰ کاراکتر باشد'),
   phoneNumber: z.string()
     .optional()
-    .refine((val) => {
-      if (!val || val.trim() === '') return true; // Allow empty
-      // Match the backend pattern: ^\\+?[1-9]\\d{1,14}$
-      return /^\+?[1-9]\d{1,14}$/.test(val.replace(/\s/g, ''));
-    }, {
-      message: 'فرمت شماره تلفن صحیح نیست. باید شامل کد کشور و بین ۲ تا ۱۵ رقم باشد (مثال: +989123456789)'
-    }),
+    .refine((val) => !val || isValidPhoneNumber(val), 'profile.edit.form.phoneNumber.errors.invalid'),
 });
 
 type UpdateProfileFormData = z.infer<typeof updateProfileSchema>;
@@ -48,6 +44,9 @@ export default function ProfileEditForm({
   const { t } = useTranslation();
   const queryClient = useQueryClient();
   const [error, setError] = useState<string | null>(null);
+  const { config } = useGlobalLocaleFormatting();
+  // Compared and validated in E.164, older profiles may hold a national number
+  const storedPhoneNumber = toE164(profile.phoneNumber || '', getDefaultPhoneCountry(config.locale));
 
   const {
     register,
@@ -60,7 +59,7 @@ export default function ProfileEditForm({
     resolver: zodResolver(updateProfileSchema),
     defaultValues: {
       fullName: profile.fullName,
-      phoneNumber: profile.phoneNumber || ''
+      phoneNumber: storedPhoneNumber
     }
   });
 
@@ -70,12 +69,11 @@ export default function ProfileEditForm({
   // Calculate if form has changes manually since PhoneInput doesn't trigger isDirty properly
   const hasChanges = useMemo(() => {
     const nameChanged = watchedValues.fullName !== profile.fullName;
-    const currentPhone = profile.phoneNumber || '';
-    const newPhone = watchedValues.phoneNumber?.trim().replace(/\s/g, '') || '';
-    const phoneChanged = newPhone !== currentPhone;
+    const newPhone = watchedValues.phoneNumber || '';
+    const phoneChanged = newPhone !== storedPhoneNumber;
     
     return nameChanged || phoneChanged;
-  }, [watchedValues.fullName, watchedValues.phoneNumber, profile.fullName, profile.phoneNumber]);
+  }, [watchedValues.fullName, watchedValues.phoneNumber, profile.fullName, storedPhoneNumber]);
 
   const updateMutation = useMutation({
     mutationFn: profileService.updateProfile,
@@ -105,13 +103,11 @@ export default function ProfileEditForm({
       updateData.fullName = data.fullName;
     }
     
-    // Handle phone number properly - only include if it's different and not empty
-    const currentPhoneNumber = profile.phoneNumber || '';
-    const newPhoneNumber = data.phoneNumber?.trim().replace(/\s/g, '') || '';
+    // PhoneInput emits E.164 numbers, only include the number if it changed
+    const newPhoneNumber = data.phoneNumber || '';
     
-    if (newPhoneNumber !== currentPhoneNumber) {
+    if (newPhoneNumber !== storedPhoneNumber) {
       // If the new phone number is empty, send null to clear it
-      // If it has a value, send the cleaned value (no spaces)
       updateData.phoneNumber = newPhoneNumber || null;
     }
 
@@ -175,7 +171,7 @@ export default function ProfileEditForm({
             />
             {errors.phoneNumber && (
               <p className="text-sm text-red-600">
-                {errors.phoneNumber.message}
+                {t(errors.phoneNumber.message as string)}
               </p>
             )}
           </div>
@@ -18,8 +18,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useDirection } from '@/hooks/use-direction';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate } from '@/lib/locale-formatting';
-import type { UserProfileResponse, TenantLocale, TenantLanguage } from '@/types';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate } from '@/lib/date-formatting';
+import { getRoleDisplayName } from '@/lib/role-utils';
+import type { UserProfileResponse } from '@/types';
 
 interface ProfileOverviewProps {
   profile: UserProfileResponse['data'];
@@ -39,19 +41,7 @@ export default function ProfileOverview({
   // Memoize the date formatting function to re-compute when language changes
   const formatLocalizedDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDate(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -70,11 +60,6 @@ export default function ProfileOverview({
     }
   };
 
-  const getRoleDisplayName = (roleName: string) => {
-    const roleKey = `common.roles.${roleName}`;
-    return t(roleKey);
-  };
-
   const getStatusDisplayName = (status: string) => {
     const statusKey = `common.status.${status}`;
     return t(statusKey);
@@ -145,7 +130,7 @@ export default function ProfileOverview({
                 {t('profile.overview.fields.role')}
               </div>
               <div className="font-medium text-gray-900">
-                {getRoleDisplayName(profile.roleName)}
+                {getRoleDisplayName(profile.roleName, t)}
               </div>
             </div>
             
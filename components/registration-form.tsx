@@ -15,8 +15,11 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { authService } from '@/services/api';
 import { validatePassword } from '@/lib/utils';
+import { DEFAULT_LOCALE_CODE, TENANT_LANGUAGES, TENANT_LOCALES, getLocaleDefinition, getSelectableLocales } from '@/lib/locale-registry';
 import type { RegisterUserRequest, TenantLanguage, TenantLocale, ApiError } from '@/types';
 
+const defaultLocale = getLocaleDefinition(DEFAULT_LOCALE_CODE);
+
 // Form validation schema following ? requirements
 const createRegistrationSchema = (t: any) => z.object({
   fullName: z.string()
@@ -33,8 +36,8 @@ const createRegistrationSchema = (t: any) => z.object({
   companyName: z.string()
     .min(2, t('validation.companyName.minLength'))
     .max(200, t('validation.companyName.maxLength')),
-  language: z.enum(['persian', 'arabic'] as const),
-  locale: z.enum(['iran', 'uae'] as const),
+  language: z.enum(TENANT_LANGUAGES),
+  locale: z.enum(TENANT_LOCALES),
 }).refine((data) => data.password === data.confirmPassword, {
   message: t('validation.password.confirmationMismatch'),
   path: ['confirmPassword'],
@@ -65,8 +68,8 @@ export default function RegistrationForm({ onSuccess, onError }: RegistrationFor
   } = useForm<FormData>({
     resolver: zodResolver(schema),
     defaultValues: {
-      language: 'persian',
-      locale: 'iran',
+      language: defaultLocale.tenantLanguage as TenantLanguage,
+      locale: defaultLocale.tenantLocale as TenantLocale,
     },
   });
 
@@ -115,15 +118,15 @@ export default function RegistrationForm({ onSuccess, onError }: RegistrationFor
   };
 
   // Language and locale options
-  const languageOptions = [
-    { value: 'persian' as TenantLanguage, label: t('auth.registration.form.language.persian') },
-    { value: 'arabic' as TenantLanguage, label: t('auth.registration.form.language.arabic') },
-  ];
+  const languageOptions = getSelectableLocales().map((locale) => ({
+    value: locale.tenantLanguage as TenantLanguage,
+    label: t(`auth.registration.form.language.${locale.tenantLanguage}`),
+  }));
 
-  const localeOptions = [
-    { value: 'iran' as TenantLocale, label: t('auth.registration.form.locale.iran') },
-    { value: 'uae' as TenantLocale, label: t('auth.registration.form.locale.uae') },
-  ];
+  const localeOptions = getSelectableLocales().map((locale) => ({
+    value: locale.tenantLocale as TenantLocale,
+    label: t(`auth.registration.form.locale.${locale.tenantLocale}`),
+  }));
 
   // Password strength indicator
   const getPasswordStrength = (password: string) => {
@@ -346,7 +349,7 @@ export default function RegistrationForm({ onSuccess, onError }: RegistrationFor
           </Label>
           <Select
             onValueChange={(value) => setValue('language', value as TenantLanguage)}
-            defaultValue="persian"
+            defaultValue={defaultLocale.tenantLanguage}
           >
             <SelectTrigger className="rounded-xl border-2 border-gray-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 focus:ring-opacity-50 transition-all duration-300">
               <SelectValue />
@@ -368,7 +371,7 @@ export default function RegistrationForm({ onSuccess, onError }: RegistrationFor
           </Label>
           <Select
             onValueChange={(value) => setValue('locale', value as TenantLocale)}
-            defaultValue="iran"
+            defaultValue={defaultLocale.tenantLocale}
           >
             <SelectTrigger className="rounded-xl border-2 border-gray-200 focus:border-blue-500 focus:ring-4 focus:ring-blue-100 focus:ring-opacity-50 transition-all duration-300">
               <SelectValue />
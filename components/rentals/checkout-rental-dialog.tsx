@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, PackageCheck } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { rentalsService } from '@/services/api';
+import { ItemType } from '@/types';
+import type { ApiError, CheckoutRentalResponse, Rental } from '@/types';
+
+interface CheckoutRentalDialogProps {
+  rental: Rental;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function CheckoutRentalDialog({
+  rental,
+  isOpen,
+  onClose,
+}: CheckoutRentalDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  // Inventory availability is updated server-side, so every cached view of it must be refreshed
+  const checkoutMutation = useMutation<CheckoutRentalResponse, ApiError>({
+    mutationFn: () => rentalsService.checkoutRental(rental.id, { version: rental.version }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rental', rental.id] });
+      queryClient.invalidateQueries({ queryKey: ['rentals'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory-items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory-item'] });
+      onClose();
+    },
+  });
+
+  const getErrorMessage = (error: ApiError | null) => {
+    switch (error?.code) {
+      case 'rentals.ITEM_UNAVAILABLE':
+        return t('rentals.checkout.errors.itemUnavailable');
+      case 'rentals.INSUFFICIENT_QUANTITY':
+        return t('rentals.checkout.errors.insufficientQuantity');
+      case 'rentals.EDIT_CONFLICT':
+        return t('rentals.checkout.errors.conflict');
+      default:
+        return error?.message || t('rentals.checkout.errors.generic');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center">
+              <PackageCheck className="h-4 w-4 text-blue-600" />
+            </div>
+            {t('rentals.checkout.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('rentals.checkout.description', { rentalNumber: rental.rentalNumber })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          {/* Inventory effects of the checkout */}
+          <ul className="space-y-2">
+            {rental.items.map((item) => (
+              <li key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                <span className="dashboard-text-primary font-medium">{item.itemName}</span>
+                <span className="dashboard-text-muted">
+                  {item.itemType === ItemType.SERIALIZED
+                    ? t('rentals.checkout.effects.serialized')
+                    : t('rentals.checkout.effects.nonSerialized', {
+                        quantity: item.quantity,
+                        unit: item.quantityUnit || ''
+                      })}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {checkoutMutation.isError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                {getErrorMessage(checkoutMutation.error)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={checkoutMutation.isPending}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+
+          <Button
+            className="dashboard-button-primary rounded-xl min-h-[44px]"
+            onClick={() => checkoutMutation.mutate()}
+            disabled={checkoutMutation.isPending}
+          >
+            {checkoutMutation.isPending ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                {t('rentals.checkout.processing')}
+              </>
+            ) : (
+              <>
+                <PackageCheck className="h-4 w-4 mr-2" />
+                {t('rentals.checkout.confirm')}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,431 @@
+'use client';
+
+import React, { useState, useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ClipboardList, Check, AlertCircle, Loader2, Plus, Trash2, Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { NumberInput } from '@/components/ui/number-input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { DatePicker } from '@/components/ui/date-picker';
+import { DateTimePicker } from '@/components/ui/date-time-picker';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { customersService, inventoryService, rentalsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { getRentalDays, getRentalItemError } from '@/lib/rental-utils';
+import { getTimeZone } from '@/lib/timezone';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import type {
+  ApiError,
+  CreateRentalRequest,
+  InventoryItem
+} from '@/types';
+import { AvailabilityStatus, CustomerStatus, ItemType } from '@/types';
+
+// Form validation schema, the return time is compared with the start day in the tenant time zone
+const buildCreateRentalSchema = (timeZone: string) => z.object({
+  customerId: z.string()
+    .min(1, 'rentals.form.validation.customerRequired'),
+  startDate: z.string()
+    .min(1, 'rentals.form.validation.startDateRequired'),
+  endDate: z.string()
+    .min(1, 'rentals.form.validation.endDateRequired'),
+  items: z.array(z.object({
+    inventoryItemId: z.string(),
+    quantity: z.number({ invalid_type_error: 'rentals.form.validation.quantityMin' })
+      .int('rentals.form.validation.quantityMin')
+      .min(1, 'rentals.form.validation.quantityMin'),
+  })).min(1, 'rentals.form.validation.itemsRequired'),
+  notes: z.string()
+    .max(2000, 'rentals.form.validation.notesMaxLength')
+    .optional(),
+}).refine((data) => !data.startDate || !data.endDate || getRentalDays(data.startDate, data.endDate, timeZone) >= 1, {
+  message: 'rentals.form.validation.endBeforeStart',
+  path: ['endDate']
+});
+
+type FormData = z.infer<ReturnType<typeof buildCreateRentalSchema>>;
+
+export default function CreateRentalForm() {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const queryClient = useQueryClient();
+  const { config } = useGlobalLocaleFormatting();
+  const timeZone = getTimeZone(config);
+  const createRentalSchema = useMemo(() => buildCreateRentalSchema(timeZone), [timeZone]);
+
+  // Inventory items picked for this rental, kept so lines survive changes to the item query
+  const [pickedItems, setPickedItems] = useState<Record<string, InventoryItem>>({});
+  const [itemToAdd, setItemToAdd] = useState('');
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    watch,
+    setValue,
+    reset,
+    formState: { errors }
+  } = useForm<FormData>({
+    resolver: zodResolver(createRentalSchema),
+    defaultValues: {
+      customerId: '',
+      startDate: '',
+      endDate: '',
+      items: [],
+      notes: '',
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'items' });
+  const watchedItems = watch('items');
+  const rentalDays = getRentalDays(watch('startDate'), watch('endDate'), timeZone);
+
+  // Fetch active customers for the customer dropdown
+  const { data: customersData, isLoading: customersLoading } = useQuery({
+    queryKey: ['customers', { page: 1, limit: 50, status: CustomerStatus.ACTIVE }],
+    queryFn: () => customersService.getCustomers({ page: 1, limit: 50, status: CustomerStatus.ACTIVE }),
+    retry: 1,
+  });
+
+  // Only items that are currently available can be rented
+  const { data: inventoryData, isLoading: inventoryLoading } = useQuery({
+    queryKey: ['inventory-items', { page: 1, limit: 50, availabilityStatus: AvailabilityStatus.AVAILABLE }],
+    queryFn: () => inventoryService.getInventoryItems({
+      page: 1,
+      limit: 50,
+      availabilityStatus: AvailabilityStatus.AVAILABLE,
+      sortBy: 'name',
+      sortOrder: 'asc',
+    }),
+    retry: 1,
+  });
+
+  const selectableItems = (inventoryData?.data || []).filter(
+    (item) => !watchedItems.some((line) => line.inventoryItemId === item.id)
+  );
+
+  // Create rental mutation
+  const createRentalMutation = useMutation({
+    mutationFn: (data: CreateRentalRequest) => rentalsService.createRental(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rentals'] });
+      reset();
+      setPickedItems({});
+    },
+    onError: (error: ApiError) => {
+      console.error('Rental creation failed:', error);
+    }
+  });
+
+  const getErrorMessage = (error: ApiError | null) => {
+    switch (error?.code) {
+      case 'rentals.ITEM_UNAVAILABLE':
+        return t('rentals.form.messages.itemUnavailable');
+      case 'rentals.INSUFFICIENT_QUANTITY':
+        return t('rentals.form.messages.insufficientQuantity');
+      case 'rentals.CUSTOMER_INACTIVE':
+        return t('rentals.form.messages.customerInactive');
+      default:
+        return error?.message || t('rentals.form.messages.createError');
+    }
+  };
+
+  // Add the selected inventory item as a rental line
+  const handleAddItem = useCallback((itemId: string) => {
+    const item = inventoryData?.data.find((candidate) => candidate.id === itemId);
+    if (!item) return;
+
+    setPickedItems((previous) => ({ ...previous, [item.id]: item }));
+    append({ inventoryItemId: item.id, quantity: 1 });
+    setItemToAdd('');
+  }, [inventoryData?.data, append]);
+
+  // Availability problems for each line, checked against the stock at selection time
+  const lineErrors = watchedItems.map((line) => {
+    const item = pickedItems[line.inventoryItemId];
+    return item ? getRentalItemError(item, line.quantity) : null;
+  });
+
+  // Form submission
+  const onSubmit = useCallback((data: FormData) => {
+    if (lineErrors.some(Boolean)) return;
+
+    const payload: CreateRentalRequest = {
+      customerId: data.customerId,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      items: data.items,
+      notes: data.notes?.trim() || undefined,
+    };
+
+    createRentalMutation.mutate(payload);
+  }, [createRentalMutation, lineErrors]);
+
+  return (
+    <div className="dashboard-card rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-gradient-to-r from-green-500 to-teal-600 flex items-center justify-center">
+          <ClipboardList className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold dashboard-text-primary">
+            {t('rentals.form.title')}
+          </h2>
+          <p className="dashboard-text-muted">
+            {t('rentals.form.subtitle')}
+          </p>
+        </div>
+      </div>
+
+      {/* Success Alert */}
+      {createRentalMutation.isSuccess && (
+        <Alert className="mb-6 border-green-200 bg-green-50">
+          <Check className="w-4 h-4 text-green-600" />
+          <AlertDescription className="text-green-700">
+            {t('rentals.form.messages.createSuccess')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Error Alert */}
+      {createRentalMutation.isError && (
+        <Alert className="mb-6 border-red-200 bg-red-50">
+          <AlertCircle className="w-4 h-4 text-red-600" />
+          <AlertDescription className="text-red-700">
+            {getErrorMessage(createRentalMutation.error)}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Form */}
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+        {/* Customer */}
+        <div className="space-y-2">
+          <Label htmlFor="customerId" className="dashboard-text-primary font-medium">
+            {t('rentals.form.fields.customer.label')} *
+          </Label>
+          <Select value={watch('customerId')} onValueChange={(value) => setValue('customerId', value, { shouldValidate: true })}>
+            <SelectTrigger className="dashboard-input">
+              <SelectValue placeholder={t('rentals.form.fields.customer.placeholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              {customersLoading ? (
+                <SelectItem value="loading" disabled>
+                  {t('common.loading')}
+                </SelectItem>
+              ) : (
+                customersData?.data.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id}>
+                    {customer.fullName}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+          {errors.customerId && (
+            <p className="text-red-600 text-sm">{t(errors.customerId.message!)}</p>
+          )}
+        </div>
+
+        {/* Rental Period */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="startDate" className="dashboard-text-primary font-medium flex items-center gap-2">
+              <Calendar className="w-4 h-4" />
+              {t('rentals.form.fields.startDate.label')} *
+            </Label>
+            <Controller
+              name="startDate"
+              control={control}
+              render={({ field }) => (
+                <DatePicker
+                  id="startDate"
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder={t('rentals.form.fields.startDate.placeholder')}
+                />
+              )}
+            />
+            {errors.startDate && (
+              <p className="text-red-600 text-sm">{t(errors.startDate.message!)}</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="endDate" className="dashboard-text-primary font-medium flex items-center gap-2">
+              <Calendar className="w-4 h-4" />
+              {t('rentals.form.fields.endDate.label')} *
+            </Label>
+            <Controller
+              name="endDate"
+              control={control}
+              render={({ field }) => (
+                <DateTimePicker
+                  id="endDate"
+                  value={field.value}
+                  onChange={field.onChange}
+                />
+              )}
+            />
+            {errors.endDate && (
+              <p className="text-red-600 text-sm">{t(errors.endDate.message!)}</p>
+            )}
+          </div>
+        </div>
+        {rentalDays > 0 && (
+          <p className="text-sm dashboard-text-muted">
+            {t('rentals.form.rentalDays', { count: rentalDays })}
+          </p>
+        )}
+
+        {/* Items */}
+        <div className="space-y-3">
+          <Label className="dashboard-text-primary font-medium">
+            {t('rentals.form.fields.items.label')} *
+          </Label>
+          <Select value={itemToAdd} onValueChange={handleAddItem}>
+            <SelectTrigger className="dashboard-input">
+              <SelectValue placeholder={t('rentals.form.fields.items.placeholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              {inventoryLoading ? (
+                <SelectItem value="loading" disabled>
+                  {t('common.loading')}
+                </SelectItem>
+              ) : selectableItems.length === 0 ? (
+                <SelectItem value="none" disabled>
+                  {t('rentals.form.fields.items.noAvailableItems')}
+                </SelectItem>
+              ) : (
+                selectableItems.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                    {item.itemType === ItemType.SERIALIZED
+                      ? ` (${item.serialNumber || '-'})`
+                      : ` (${item.quantity ?? 0} ${item.quantityUnit || ''})`}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+
+          {fields.map((field, index) => {
+            const item = pickedItems[field.inventoryItemId];
+            if (!item) return null;
+
+            return (
+              <div key={field.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium dashboard-text-primary truncate">{item.name}</p>
+                    <Badge variant="outline" className="text-xs mt-1">
+                      {t(`inventory.itemType.${item.itemType}`)}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {item.itemType === ItemType.NON_SERIALIZED ? (
+                      <Controller
+                        name={`items.${index}.quantity`}
+                        control={control}
+                        render={({ field: quantityField }) => (
+                          <NumberInput
+                            value={quantityField.value}
+                            onChange={quantityField.onChange}
+                            onBlur={quantityField.onBlur}
+                            inputMode="numeric"
+                            className="dashboard-input w-24"
+                            aria-label={t('rentals.form.fields.quantity.label')}
+                          />
+                        )}
+                      />
+                    ) : (
+                      <span className="font-mono text-sm dashboard-text-secondary">
+                        {item.serialNumber || '-'}
+                      </span>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="w-9 h-9 p-0 hover:bg-red-50 hover:text-red-600"
+                      title={t('rentals.form.actions.removeItem')}
+                      onClick={() => remove(index)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                {item.itemType === ItemType.NON_SERIALIZED && (
+                  <p className="text-xs dashboard-text-muted">
+                    {t('rentals.form.fields.quantity.inStock', {
+                      quantity: item.quantity ?? 0,
+                      unit: item.quantityUnit || ''
+                    })}
+                  </p>
+                )}
+                {lineErrors[index] && (
+                  <p className="text-red-600 text-sm">{t(lineErrors[index]!)}</p>
+                )}
+              </div>
+            );
+          })}
+
+          {errors.items?.message && (
+            <p className="text-red-600 text-sm">{t(errors.items.message)}</p>
+          )}
+        </div>
+
+        {/* Notes */}
+        <div className="space-y-2">
+          <Label htmlFor="notes" className="dashboard-text-primary font-medium">
+            {t('rentals.form.fields.notes.label')}
+          </Label>
+          <Textarea
+            id="notes"
+            {...register('notes')}
+            placeholder={t('rentals.form.fields.notes.placeholder')}
+            className="dashboard-input resize-none"
+            rows={3}
+            dir={isRTL ? 'rtl' : 'ltr'}
+          />
+          {errors.notes && (
+            <p className="text-red-600 text-sm">{t(errors.notes.message!)}</p>
+          )}
+        </div>
+
+        {/* Submit Button */}
+        <Button
+          type="submit"
+          disabled={createRentalMutation.isPending}
+          className="w-full dashboard-button-primary min-h-[44px]"
+        >
+          {createRentalMutation.isPending ? (
+            <>
+              <Loader2 className={`w-4 h-4 animate-spin ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('rentals.form.actions.creating')}
+            </>
+          ) : (
+            <>
+              <Plus className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('rentals.form.actions.create')}
+            </>
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
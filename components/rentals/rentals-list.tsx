@@ -0,0 +1,364 @@
+'use client';
+
+import React, { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { Search, ClipboardList, Filter, Eye, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { rentalsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { getOverdueDays, isRentalOverdue } from '@/lib/rental-utils';
+import { getTimeZone } from '@/lib/timezone';
+import type {
+  Rental,
+  RentalsListParams,
+} from '@/types';
+import { RentalStatus } from '@/types';
+
+/**
+ * Get the badge variant for a rental status
+ */
+export const getRentalStatusVariant = (status: RentalStatus) => {
+  switch (status) {
+    case 'reserved': return 'outline';
+    case 'active': return 'default';
+    case 'returned': return 'secondary';
+    case 'cancelled': return 'destructive';
+    default: return 'default';
+  }
+};
+
+export default function RentalsList() {
+  const { t, i18n } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const { config } = useGlobalLocaleFormatting();
+  const timeZone = getTimeZone(config);
+  const router = useRouter();
+
+  // Memoize the date formatting function to re-compute when language changes
+  const formatDate = React.useCallback((dateString: string) => {
+    // Create a locale-specific config based on current language
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
+    return formatDateUtil(dateString, languageSpecificConfig);
+  }, [config, i18n.language]);
+
+  // Search and filter state
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RentalStatus | 'all'>('all');
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
+  const [currentPage, setCurrentPage] = useState(1);
+
+  // Construct query parameters
+  const queryParams: RentalsListParams = {
+    page: currentPage,
+    limit: 25,
+    search: searchTerm || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+    overdue: showOverdueOnly || undefined,
+    sortBy: 'endDate',
+    sortOrder: 'asc',
+  };
+
+  // Fetch rentals
+  const {
+    data: rentalsData,
+    isLoading,
+    error,
+    refetch
+  } = useQuery({
+    queryKey: ['rentals', queryParams],
+    queryFn: () => rentalsService.getRentals(queryParams),
+    retry: 1,
+  });
+
+  const overdueCount = rentalsData?.data.filter((rental) => isRentalOverdue(rental, timeZone)).length || 0;
+
+  // Handle search
+  const handleSearch = useCallback((value: string) => {
+    setSearchTerm(value);
+    setCurrentPage(1);
+  }, []);
+
+  // Handle status filter
+  const handleStatusFilter = useCallback((value: string) => {
+    setStatusFilter(value as RentalStatus | 'all');
+    setCurrentPage(1);
+  }, []);
+
+  const handleOverdueToggle = useCallback((checked: boolean) => {
+    setShowOverdueOnly(checked);
+    setCurrentPage(1);
+  }, []);
+
+  // Clear all filters
+  const clearFilters = useCallback(() => {
+    setSearchTerm('');
+    setStatusFilter('all');
+    setShowOverdueOnly(false);
+    setCurrentPage(1);
+  }, []);
+
+  const hasFilters = Boolean(searchTerm) || statusFilter !== 'all' || showOverdueOnly;
+
+  return (
+    <div className="dashboard-card rounded-2xl p-6">
+      {/* Header */}
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 rounded-lg bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+          <ClipboardList className="w-5 h-5 text-white" />
+        </div>
+        <div>
+          <h2 className="text-2xl font-bold dashboard-text-primary">
+            {t('rentals.list.title')}
+          </h2>
+          <p className="dashboard-text-muted">
+            {rentalsData?.meta.total || 0} {t('rentals.list.rentalsCount')}
+            {overdueCount > 0 && (
+              <span className={`text-red-600 font-medium ${isRTL ? 'mr-2' : 'ml-2'}`}>
+                • {t('rentals.list.overdueCount', { count: overdueCount })}
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div className="relative">
+          <Search className={`absolute top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 ${isRTL ? 'right-3' : 'left-3'}`} />
+          <Input
+            type="text"
+            placeholder={t('rentals.list.search.placeholder')}
+            value={searchTerm}
+            onChange={(e) => handleSearch(e.target.value)}
+            className={`dashboard-input ${isRTL ? 'pr-10' : 'pl-10'}`}
+          />
+        </div>
+
+        <Select value={statusFilter} onValueChange={handleStatusFilter}>
+          <SelectTrigger className="dashboard-input">
+            <SelectValue placeholder={t('rentals.list.filters.status')} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">{t('rentals.list.filters.allStatuses')}</SelectItem>
+            <SelectItem value={RentalStatus.RESERVED}>{t('rentals.status.reserved')}</SelectItem>
+            <SelectItem value={RentalStatus.ACTIVE}>{t('rentals.status.active')}</SelectItem>
+            <SelectItem value={RentalStatus.RETURNED}>{t('rentals.status.returned')}</SelectItem>
+            <SelectItem value={RentalStatus.CANCELLED}>{t('rentals.status.cancelled')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* View Options */}
+      <div className="flex items-center gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <Checkbox
+            id="show-overdue"
+            checked={showOverdueOnly}
+            onCheckedChange={handleOverdueToggle}
+          />
+          <label
+            htmlFor="show-overdue"
+            className="text-sm font-medium leading-none dashboard-text-secondary"
+          >
+            <span className="text-sm font-bold">{t('rentals.list.filters.overdueOnly')}</span>
+          </label>
+        </div>
+      </div>
+
+      {/* Clear Filters Button */}
+      {hasFilters && (
+        <div className="mb-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={clearFilters}
+            className="text-sm"
+          >
+            <Filter className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+            {t('rentals.list.filters.clear')}
+          </Button>
+        </div>
+      )}
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <Alert className="mb-6">
+          <AlertDescription>
+            {t('rentals.list.errors.loadFailed')}
+            <Button
+              variant="link"
+              size="sm"
+              onClick={() => refetch()}
+              className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+            >
+              {t('common.retry')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Rentals Table */}
+      {!isLoading && !error && (
+        <>
+          {rentalsData?.data.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="dashboard-text-muted text-lg mb-2">
+                {hasFilters ? t('rentals.list.noResultsFound') : t('rentals.list.noRentals')}
+              </p>
+              {!hasFilters && (
+                <p className="dashboard-text-muted text-sm">
+                  {t('rentals.list.createFirstRental')}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gray-50">
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.rentalNumber')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.customer')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.items')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.period')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.status')}
+                    </TableHead>
+                    <TableHead className={`font-semibold dashboard-text-primary w-20 ${isRTL ? 'text-right' : 'text-left'}`}>
+                      {t('rentals.list.table.actions')}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rentalsData?.data.map((rental: Rental) => {
+                    const overdueDays = getOverdueDays(rental, timeZone);
+
+                    return (
+                      <TableRow
+                        key={rental.id}
+                        className={overdueDays > 0 ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}
+                      >
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <span className="font-mono text-sm dashboard-text-primary">{rental.rentalNumber}</span>
+                        </TableCell>
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <span className="font-medium dashboard-text-primary">{rental.customerName}</span>
+                        </TableCell>
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <span className="text-sm dashboard-text-secondary">
+                            {rental.items.map((item) => item.itemName).join('، ')}
+                          </span>
+                        </TableCell>
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <span className="text-sm dashboard-text-muted">
+                            {formatDate(rental.startDate)} - {formatDate(rental.endDate)}
+                          </span>
+                        </TableCell>
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <div className="flex flex-wrap items-center gap-1">
+                            <Badge variant={getRentalStatusVariant(rental.status)} className="text-xs">
+                              {t(`rentals.status.${rental.status}`)}
+                            </Badge>
+                            {overdueDays > 0 && (
+                              <Badge variant="destructive" className="text-xs gap-1">
+                                <AlertTriangle className="w-3 h-3" />
+                                {t('rentals.overdue.days', { count: overdueDays })}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className={isRTL ? 'text-right' : 'text-left'}>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-9 h-9 p-0 hover:bg-blue-50 hover:text-blue-600 transition-colors duration-200"
+                            title={t('rentals.list.actions.view')}
+                            onClick={() => router.push(`/dashboard/rentals/${rental.id}`)}
+                          >
+                            <Eye className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {rentalsData && rentalsData.meta.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6">
+              <p className="text-sm dashboard-text-muted">
+                {t('common.pagination.showing', {
+                  start: (rentalsData.meta.page - 1) * rentalsData.meta.limit + 1,
+                  end: Math.min(rentalsData.meta.page * rentalsData.meta.limit, rentalsData.meta.total),
+                  total: rentalsData.meta.total
+                })}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage - 1)}
+                  disabled={!rentalsData.meta.hasPrevious}
+                >
+                  {t('common.pagination.previous')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setCurrentPage(currentPage + 1)}
+                  disabled={!rentalsData.meta.hasNext}
+                >
+                  {t('common.pagination.next')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
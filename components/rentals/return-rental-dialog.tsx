@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, PackageOpen } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { rentalsService } from '@/services/api';
+import { AvailabilityStatus } from '@/types';
+import type {
+  ApiError,
+  Rental,
+  RentalReturnCondition,
+  ReturnRentalRequest,
+  ReturnRentalResponse
+} from '@/types';
+
+interface ReturnRentalDialogProps {
+  rental: Rental;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+interface ItemCondition {
+  condition: RentalReturnCondition;
+  notes: string;
+}
+
+const RETURN_CONDITIONS: RentalReturnCondition[] = [
+  AvailabilityStatus.AVAILABLE,
+  AvailabilityStatus.DAMAGED,
+  AvailabilityStatus.MAINTENANCE,
+];
+
+export default function ReturnRentalDialog({
+  rental,
+  isOpen,
+  onClose,
+}: ReturnRentalDialogProps) {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  // Every item is assumed to come back in good shape until the operator says otherwise
+  const [conditions, setConditions] = useState<Record<string, ItemCondition>>(() =>
+    Object.fromEntries(
+      rental.items.map((item) => [item.id, { condition: AvailabilityStatus.AVAILABLE, notes: '' }])
+    )
+  );
+
+  const updateCondition = (itemId: string, changes: Partial<ItemCondition>) => {
+    setConditions((current) => ({
+      ...current,
+      [itemId]: { ...current[itemId], ...changes },
+    }));
+  };
+
+  const returnMutation = useMutation<ReturnRentalResponse, ApiError, ReturnRentalRequest>({
+    mutationFn: (data) => rentalsService.returnRental(rental.id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rental', rental.id] });
+      queryClient.invalidateQueries({ queryKey: ['rentals'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory-items'] });
+      queryClient.invalidateQueries({ queryKey: ['inventory-item'] });
+      onClose();
+    },
+  });
+
+  const handleSubmit = () => {
+    returnMutation.mutate({
+      items: rental.items.map((item) => ({
+        rentalItemId: item.id,
+        condition: conditions[item.id].condition,
+        notes: conditions[item.id].notes.trim() || undefined,
+      })),
+      version: rental.version,
+    });
+  };
+
+  const getErrorMessage = (error: ApiError | null) => {
+    if (error?.code === 'rentals.EDIT_CONFLICT') {
+      return t('rentals.return.errors.conflict');
+    }
+    return error?.message || t('rentals.return.errors.generic');
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-green-100 flex items-center justify-center">
+              <PackageOpen className="h-4 w-4 text-green-600" />
+            </div>
+            {t('rentals.return.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('rentals.return.description', { rentalNumber: rental.rentalNumber })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4 max-h-[60vh] overflow-y-auto">
+          {/* Condition check per item */}
+          {rental.items.map((item) => (
+            <div key={item.id} className="border rounded-xl p-4 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <span className="dashboard-text-primary font-medium">{item.itemName}</span>
+                {item.serialNumber && (
+                  <span className="font-mono text-xs dashboard-text-muted" dir="ltr">
+                    {item.serialNumber}
+                  </span>
+                )}
+              </div>
+
+              <Select
+                value={conditions[item.id]?.condition}
+                onValueChange={(value) => updateCondition(item.id, { condition: value as RentalReturnCondition })}
+                disabled={returnMutation.isPending}
+              >
+                <SelectTrigger className="dashboard-input">
+                  <SelectValue placeholder={t('rentals.return.fields.condition')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {RETURN_CONDITIONS.map((condition) => (
+                    <SelectItem key={condition} value={condition}>
+                      {t(`rentals.return.conditions.${condition}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {conditions[item.id]?.condition !== AvailabilityStatus.AVAILABLE && (
+                <Input
+                  value={conditions[item.id]?.notes}
+                  onChange={(e) => updateCondition(item.id, { notes: e.target.value })}
+                  placeholder={t('rentals.return.fields.notesPlaceholder')}
+                  className="dashboard-input"
+                  maxLength={500}
+                  disabled={returnMutation.isPending}
+                />
+              )}
+            </div>
+          ))}
+
+          {returnMutation.isError && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <AlertDescription className="text-red-800">
+                {getErrorMessage(returnMutation.error)}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={returnMutation.isPending}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+
+          <Button
+            className="dashboard-button-primary rounded-xl min-h-[44px]"
+            onClick={handleSubmit}
+            disabled={returnMutation.isPending}
+          >
+            {returnMutation.isPending ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                {t('rentals.return.processing')}
+              </>
+            ) : (
+              <>
+                <PackageOpen className="h-4 w-4 mr-2" />
+                {t('rentals.return.confirm')}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
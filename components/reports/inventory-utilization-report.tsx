@@ -0,0 +1,190 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ReportSection, { type ReportFormatters } from '@/components/reports/report-section';
+import ReportBarChart, { type ReportChartSeries } from '@/components/reports/report-bar-chart';
+import ReportExportDialog from '@/components/reports/report-export-dialog';
+import { categoriesService, reportsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { AvailabilityStatus, ItemType, ReportType } from '@/types';
+import type { Category, InventoryUtilizationParams } from '@/types';
+
+const STATUS_COLORS: Record<AvailabilityStatus, string> = {
+  [AvailabilityStatus.AVAILABLE]: 'bg-green-500',
+  [AvailabilityStatus.RENTED]: 'bg-blue-500',
+  [AvailabilityStatus.MAINTENANCE]: 'bg-amber-500',
+  [AvailabilityStatus.DAMAGED]: 'bg-red-500',
+  [AvailabilityStatus.LOST]: 'bg-gray-400',
+};
+
+interface InventoryUtilizationReportProps extends ReportFormatters {
+  canExport: boolean;
+}
+
+export default function InventoryUtilizationReport({
+  canExport,
+  formatNumber,
+}: InventoryUtilizationReportProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [itemTypeFilter, setItemTypeFilter] = useState<ItemType | 'all'>('all');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  const parameters: InventoryUtilizationParams = {
+    categoryId: categoryFilter === 'all' ? undefined : categoryFilter,
+    itemType: itemTypeFilter === 'all' ? undefined : itemTypeFilter,
+  };
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ['reports', ReportType.INVENTORY_UTILIZATION, parameters],
+    queryFn: () => reportsService.getInventoryUtilization(parameters),
+    retry: 1,
+  });
+
+  // Fetch categories for the category parameter
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories', { page: 1, limit: 50 }],
+    queryFn: () => categoriesService.getCategories({ page: 1, limit: 50 }),
+    retry: 1,
+  });
+
+  const rows = data?.data.rows || [];
+  const statuses = Object.values(AvailabilityStatus);
+
+  const series: ReportChartSeries[] = statuses.map((status) => ({
+    key: status,
+    label: t(`inventory.status.${status}`),
+    colorClassName: STATUS_COLORS[status],
+  }));
+
+  const cellAlign = isRTL ? 'text-right' : 'text-left';
+
+  return (
+    <>
+      <ReportSection
+        title={t('reports.types.inventory_utilization.title')}
+        description={t('reports.types.inventory_utilization.description')}
+        isLoading={isLoading}
+        isError={isError}
+        isEmpty={rows.length === 0}
+        onRetry={() => refetch()}
+        onExport={canExport ? () => setShowExportDialog(true) : undefined}
+        parameters={
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="dashboard-input">
+                <SelectValue placeholder={t('reports.parameters.category')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('reports.parameters.allCategories')}</SelectItem>
+                {categoriesData?.data.categories.map((category: Category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={itemTypeFilter} onValueChange={(value) => setItemTypeFilter(value as ItemType | 'all')}>
+              <SelectTrigger className="dashboard-input">
+                <SelectValue placeholder={t('reports.parameters.itemType')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('reports.parameters.allItemTypes')}</SelectItem>
+                <SelectItem value={ItemType.SERIALIZED}>{t(`inventory.itemType.${ItemType.SERIALIZED}`)}</SelectItem>
+                <SelectItem value={ItemType.NON_SERIALIZED}>{t(`inventory.itemType.${ItemType.NON_SERIALIZED}`)}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        }
+        chart={
+          <ReportBarChart
+            series={series}
+            rows={rows.map((row) => ({ id: row.categoryId, label: row.categoryName, values: row.statusCounts }))}
+            formatValue={formatNumber}
+          />
+        }
+        table={
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.category')}
+                </TableHead>
+                {statuses.map((status) => (
+                  <TableHead key={status} className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                    {t(`inventory.status.${status}`)}
+                  </TableHead>
+                ))}
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.total')}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.categoryId}>
+                  <TableCell className={`font-medium dashboard-text-primary ${cellAlign}`}>
+                    {row.categoryName}
+                  </TableCell>
+                  {statuses.map((status) => (
+                    <TableCell key={status} className={`dashboard-text-secondary ${cellAlign}`}>
+                      {formatNumber(row.statusCounts[status] || 0)}
+                    </TableCell>
+                  ))}
+                  <TableCell className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                    {formatNumber(row.total)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {data?.data.totals && (
+                <TableRow className="bg-gray-50">
+                  <TableCell className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                    {t('reports.columns.total')}
+                  </TableCell>
+                  {statuses.map((status) => (
+                    <TableCell key={status} className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                      {formatNumber(data.data.totals[status] || 0)}
+                    </TableCell>
+                  ))}
+                  <TableCell className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                    {formatNumber(rows.reduce((sum, row) => sum + row.total, 0))}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        }
+      />
+
+      {showExportDialog && (
+        <ReportExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          reportType={ReportType.INVENTORY_UTILIZATION}
+          parameters={parameters}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { useRouter } from 'next/navigation';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ReportSection, { type ReportFormatters } from '@/components/reports/report-section';
+import ReportBarChart from '@/components/reports/report-bar-chart';
+import ReportExportDialog from '@/components/reports/report-export-dialog';
+import { categoriesService, reportsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { ReportType } from '@/types';
+import type { Category, MaintenanceOverdueParams } from '@/types';
+
+// Only the longest-running items are charted, the table lists all of them
+const CHART_ROW_LIMIT = 10;
+
+interface MaintenanceOverdueReportProps extends ReportFormatters {
+  canExport: boolean;
+}
+
+export default function MaintenanceOverdueReport({
+  canExport,
+  formatNumber,
+  formatDate,
+}: MaintenanceOverdueReportProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const router = useRouter();
+
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [minOverdueDays, setMinOverdueDays] = useState('');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  const parsedMinOverdueDays = parseInt(minOverdueDays, 10);
+  const parameters: MaintenanceOverdueParams = {
+    categoryId: categoryFilter === 'all' ? undefined : categoryFilter,
+    minOverdueDays: parsedMinOverdueDays > 0 ? parsedMinOverdueDays : undefined,
+  };
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ['reports', ReportType.MAINTENANCE_OVERDUE, parameters],
+    queryFn: () => reportsService.getMaintenanceOverdue(parameters),
+    retry: 1,
+  });
+
+  // Fetch categories for the category parameter
+  const { data: categoriesData } = useQuery({
+    queryKey: ['categories', { page: 1, limit: 50 }],
+    queryFn: () => categoriesService.getCategories({ page: 1, limit: 50 }),
+    retry: 1,
+  });
+
+  const rows = [...(data?.data.rows || [])].sort((a, b) => b.overdueDays - a.overdueDays);
+  const cellAlign = isRTL ? 'text-right' : 'text-left';
+
+  return (
+    <>
+      <ReportSection
+        title={t('reports.types.maintenance_overdue.title')}
+        description={t('reports.types.maintenance_overdue.description')}
+        isLoading={isLoading}
+        isError={isError}
+        isEmpty={rows.length === 0}
+        onRetry={() => refetch()}
+        onExport={canExport ? () => setShowExportDialog(true) : undefined}
+        parameters={
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="dashboard-input">
+                <SelectValue placeholder={t('reports.parameters.category')} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('reports.parameters.allCategories')}</SelectItem>
+                {categoriesData?.data.categories.map((category: Category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Input
+              type="number"
+              min={0}
+              value={minOverdueDays}
+              onChange={(e) => setMinOverdueDays(e.target.value)}
+              placeholder={t('reports.parameters.minOverdueDays')}
+              className="dashboard-input"
+            />
+          </div>
+        }
+        chart={
+          <ReportBarChart
+            series={[{ key: 'overdueDays', label: t('reports.columns.overdueDays'), colorClassName: 'bg-amber-500' }]}
+            rows={rows.slice(0, CHART_ROW_LIMIT).map((row) => ({
+              id: row.itemId,
+              label: row.itemName,
+              values: { overdueDays: row.overdueDays },
+            }))}
+            formatValue={formatNumber}
+          />
+        }
+        table={
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.item')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.category')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.maintenanceSince')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.expectedResolutionDate')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.overdueDays')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.changeReason')}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow
+                  key={row.itemId}
+                  className="cursor-pointer hover:bg-gray-50"
+                  onClick={() => router.push(`/dashboard/inventory/${row.itemId}`)}
+                >
+                  <TableCell className={cellAlign}>
+                    <span className="font-medium dashboard-text-primary">{row.itemName}</span>
+                    {row.serialNumber && (
+                      <p className="font-mono text-xs dashboard-text-muted" dir="ltr">{row.serialNumber}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className={`dashboard-text-secondary ${cellAlign}`}>
+                    {row.categoryName}
+                  </TableCell>
+                  <TableCell className={`dashboard-text-secondary ${cellAlign}`}>
+                    {formatDate(row.maintenanceSince)}
+                  </TableCell>
+                  <TableCell className={`dashboard-text-secondary ${cellAlign}`}>
+                    {formatDate(row.expectedResolutionDate)}
+                  </TableCell>
+                  <TableCell className={cellAlign}>
+                    <Badge variant="destructive" className="text-xs">
+                      {formatNumber(row.overdueDays)}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className={`text-sm dashboard-text-muted ${cellAlign}`}>
+                    {row.changeReason || '-'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        }
+      />
+
+      {showExportDialog && (
+        <ReportExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          reportType={ReportType.MAINTENANCE_OVERDUE}
+          parameters={parameters}
+        />
+      )}
+    </>
+  );
+}
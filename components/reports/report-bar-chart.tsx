@@ -0,0 +1,104 @@
+'use client';
+
+import React from 'react';
+import { useDirection } from '@/hooks/use-direction';
+
+export interface ReportChartSeries {
+  key: string;
+  label: string;
+  colorClassName: string;
+}
+
+export interface ReportChartRow {
+  id: string;
+  label: string;
+  values: Record<string, number>;
+}
+
+interface ReportBarChartProps {
+  series: ReportChartSeries[];
+  rows: ReportChartRow[];
+  formatValue?: (value: number) => string;
+  // Makes the rows clickable, e.g. to drill down into the records behind a bar
+  onSelectRow?: (rowId: string) => void;
+}
+
+/**
+ * Horizontal stacked bar chart, every row is scaled against the largest row total
+ */
+export default function ReportBarChart({ series, rows, formatValue = String, onSelectRow }: ReportBarChartProps) {
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+
+  const getRowTotal = (row: ReportChartRow) =>
+    series.reduce((sum, item) => sum + (row.values[item.key] || 0), 0);
+
+  const maxTotal = Math.max(1, ...rows.map(getRowTotal));
+
+  return (
+    <div className="space-y-4">
+      {/* Legend */}
+      {series.length > 1 && (
+        <div className="flex flex-wrap items-center gap-4">
+          {series.map((item) => (
+            <div key={item.key} className="flex items-center gap-2 text-sm dashboard-text-secondary">
+              <span className={`w-3 h-3 rounded-sm ${item.colorClassName}`} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Bars */}
+      <div className="space-y-3">
+        {rows.map((row) => {
+          const total = getRowTotal(row);
+          const rowClassName = 'grid grid-cols-[8rem_1fr_3rem] sm:grid-cols-[10rem_1fr_4rem] items-center gap-3';
+          const content = (
+            <>
+              <span className="text-sm dashboard-text-primary truncate" title={row.label}>
+                {row.label}
+              </span>
+              <div
+                className={`flex h-6 rounded-md bg-gray-100 overflow-hidden ${isRTL ? 'flex-row-reverse' : ''}`}
+                dir="ltr"
+              >
+                {series.map((item) => {
+                  const value = row.values[item.key] || 0;
+                  if (value === 0) return null;
+
+                  return (
+                    <div
+                      key={item.key}
+                      className={`h-full ${item.colorClassName}`}
+                      style={{ width: `${(value / maxTotal) * 100}%` }}
+                      title={`${item.label}: ${formatValue(value)}`}
+                    />
+                  );
+                })}
+              </div>
+              <span className="text-sm font-medium dashboard-text-secondary text-end">
+                {formatValue(total)}
+              </span>
+            </>
+          );
+
+          return onSelectRow ? (
+            <button
+              key={row.id}
+              type="button"
+              onClick={() => onSelectRow(row.id)}
+              className={`${rowClassName} w-full text-start rounded-md hover:bg-gray-50`}
+            >
+              {content}
+            </button>
+          ) : (
+            <div key={row.id} className={rowClassName}>
+              {content}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
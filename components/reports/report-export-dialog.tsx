@@ -0,0 +1,199 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation } from '@tanstack/react-query';
+import {
+  Download,
+  FileSpreadsheet,
+  File,
+  CheckCircle,
+  AlertCircle
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { reportsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { downloadExportFile } from '@/lib/export-download';
+import { ExportFormat } from '@/types';
+import type {
+  ApiError,
+  ReportExportRequest,
+  ReportExportResponse,
+  ReportType
+} from '@/types';
+
+// Same format choices as the inventory export (PDF and Excel are temporarily hidden there too)
+const REPORT_EXPORT_FORMATS = [ExportFormat.CSV, ExportFormat.JSON] as const;
+
+interface ReportExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reportType: ReportType;
+  parameters: ReportExportRequest['parameters'];
+}
+
+export default function ReportExportDialog({
+  isOpen,
+  onClose,
+  reportType,
+  parameters
+}: ReportExportDialogProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(ExportFormat.JSON);
+  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  const exportMutation = useMutation<ReportExportResponse, ApiError, ReportExportRequest>({
+    mutationFn: (data) => reportsService.exportReport(data),
+    onSuccess: (response) => {
+      setDownloadUrl(response.data.downloadUrl || `/api/reports/export/${response.data.exportId}/download`);
+    },
+  });
+
+  const isCompleted = exportMutation.isSuccess && Boolean(downloadUrl);
+
+  const handleExport = () => {
+    setDownloadError(null);
+    exportMutation.mutate({ reportType, exportFormat, parameters });
+  };
+
+  const handleDownload = async () => {
+    if (!downloadUrl) return;
+    try {
+      await downloadExportFile(
+        downloadUrl,
+        `${reportType}-report-${new Date().toISOString().split('T')[0]}.${exportFormat}`
+      );
+      handleClose();
+    } catch (error) {
+      console.error('Download failed:', error);
+      setDownloadError(t('reports.export.errors.downloadFailed'));
+    }
+  };
+
+  const handleClose = () => {
+    if (exportMutation.isPending) return;
+    exportMutation.reset();
+    setDownloadUrl(null);
+    setDownloadError(null);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            <Download className="w-5 h-5" />
+            {t('reports.export.title')}
+          </DialogTitle>
+          <DialogDescription>
+            {t('reports.export.description', { report: t(`reports.types.${reportType}.title`) })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {exportMutation.isPending && (
+          <div className="text-center py-8">
+            <LoadingSpinner />
+            <p className="dashboard-text-muted mt-4">
+              {t('reports.export.processing')}
+            </p>
+          </div>
+        )}
+
+        {isCompleted && (
+          <div className="text-center py-8">
+            <CheckCircle className="w-12 h-12 text-green-500 mx-auto mb-4" />
+            <h3 className="text-lg font-medium dashboard-text-primary mb-6">
+              {t('reports.export.completed')}
+            </h3>
+            {downloadError && (
+              <Alert className="mb-6">
+                <AlertDescription>{downloadError}</AlertDescription>
+              </Alert>
+            )}
+            <div className="flex items-center justify-center gap-3">
+              <Button variant="outline" onClick={handleClose}>
+                {t('common.close')}
+              </Button>
+              <Button onClick={handleDownload} className="dashboard-button-primary">
+                <Download className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                {t('reports.export.download')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!exportMutation.isPending && !isCompleted && (
+          <div className="space-y-6">
+            {/* Export Format */}
+            <div className="space-y-3">
+              <Label className="font-medium dashboard-text-primary">
+                {t('inventory.export.format.title')}
+              </Label>
+              <div className="grid grid-cols-2 gap-3">
+                {REPORT_EXPORT_FORMATS.map((format) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => setExportFormat(format)}
+                    className={`border-2 rounded-lg p-4 transition-all text-start ${
+                      exportFormat === format
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                  >
+                    <div className="flex items-center gap-3">
+                      {format === ExportFormat.CSV ? <FileSpreadsheet className="w-4 h-4" /> : <File className="w-4 h-4" />}
+                      <div>
+                        <p className="font-medium dashboard-text-primary">
+                          {t(`inventory.export.format.${format}.name`)}
+                        </p>
+                        <p className="text-xs dashboard-text-muted">
+                          {t(`inventory.export.format.${format}.description`)}
+                        </p>
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {exportMutation.isError && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {exportMutation.error?.message || t('reports.export.errors.failed')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Actions */}
+            <div className="flex items-center justify-end gap-3 pt-4 border-t">
+              <Button type="button" variant="outline" onClick={handleClose}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="button" className="dashboard-button-primary" onClick={handleExport}>
+                <Download className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                {t('reports.export.start')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/ui/loading-spinner';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useDirection } from '@/hooks/use-direction';
+
+/**
+ * Locale-aware formatters passed down from the reports page
+ */
+export interface ReportFormatters {
+  formatNumber: (value: number) => string;
+  formatDate: (dateString: string) => string;
+}
+
+interface ReportSectionProps {
+  title: string;
+  description: string;
+  parameters: React.ReactNode;
+  chart: React.ReactNode;
+  table: React.ReactNode;
+  isLoading: boolean;
+  isError: boolean;
+  isEmpty: boolean;
+  onRetry: () => void;
+  onExport?: () => void;
+}
+
+/**
+ * Shared layout for a report: parameters, then a chart and a table of the same rows
+ */
+export default function ReportSection({
+  title,
+  description,
+  parameters,
+  chart,
+  table,
+  isLoading,
+  isError,
+  isEmpty,
+  onRetry,
+  onExport,
+}: ReportSectionProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+
+  return (
+    <div className="space-y-6">
+      {/* Header and Parameters */}
+      <div className="dashboard-card rounded-2xl p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold dashboard-text-primary">{title}</h2>
+            <p className="dashboard-text-muted">{description}</p>
+          </div>
+          {onExport && (
+            <Button
+              variant="outline"
+              onClick={onExport}
+              disabled={isLoading || isError || isEmpty}
+              className="min-h-[44px]"
+            >
+              <Download className={`w-4 h-4 ${isRTL ? 'ml-2' : 'mr-2'}`} />
+              {t('reports.actions.export')}
+            </Button>
+          )}
+        </div>
+        {parameters}
+      </div>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex justify-center items-center py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {/* Error State */}
+      {isError && (
+        <Alert>
+          <AlertDescription>
+            {t('reports.errors.loadFailed')}
+            <Button
+              variant="link"
+              size="sm"
+              onClick={onRetry}
+              className={`p-0 h-auto ${isRTL ? 'mr-2' : 'ml-2'}`}
+            >
+              {t('common.retry')}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !isError && isEmpty && (
+        <div className="dashboard-card rounded-2xl p-6 text-center py-12">
+          <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="dashboard-text-muted text-lg">{t('reports.noData')}</p>
+        </div>
+      )}
+
+      {/* Chart and Table */}
+      {!isLoading && !isError && !isEmpty && (
+        <>
+          <div className="dashboard-card rounded-2xl p-6">
+            <h3 className="text-lg font-semibold dashboard-text-primary mb-4">
+              {t('reports.sections.chart')}
+            </h3>
+            {chart}
+          </div>
+          <div className="dashboard-card rounded-2xl p-6">
+            <h3 className="text-lg font-semibold dashboard-text-primary mb-4">
+              {t('reports.sections.table')}
+            </h3>
+            <div className="border rounded-lg overflow-hidden">
+              {table}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import moment from 'jalali-moment';
+import { Label } from '@/components/ui/label';
+import { DatePicker } from '@/components/ui/date-picker';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import ReportSection, { type ReportFormatters } from '@/components/reports/report-section';
+import ReportBarChart from '@/components/reports/report-bar-chart';
+import ReportExportDialog from '@/components/reports/report-export-dialog';
+import { reportsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { ReportType } from '@/types';
+import type { ReportPeriod, UserLoginsParams } from '@/types';
+
+// Default to the last 30 days, counted per day
+const DEFAULT_RANGE_DAYS = 30;
+
+interface UserLoginsReportProps extends ReportFormatters {
+  canExport: boolean;
+}
+
+export default function UserLoginsReport({
+  canExport,
+  formatNumber,
+  formatDate,
+}: UserLoginsReportProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+
+  const [dateFrom, setDateFrom] = useState(() =>
+    moment().subtract(DEFAULT_RANGE_DAYS - 1, 'days').format('YYYY-MM-DD')
+  );
+  const [dateTo, setDateTo] = useState(() => moment().format('YYYY-MM-DD'));
+  const [period, setPeriod] = useState<ReportPeriod>('day');
+  const [showExportDialog, setShowExportDialog] = useState(false);
+
+  const parameters: UserLoginsParams = { dateFrom, dateTo, period };
+  const isRangeValid = Boolean(dateFrom && dateTo) && !moment(dateTo).isBefore(dateFrom, 'day');
+
+  const { data, isLoading, isError, refetch } = useQuery({
+    queryKey: ['reports', ReportType.USER_LOGINS, parameters],
+    queryFn: () => reportsService.getUserLogins(parameters),
+    enabled: isRangeValid,
+    retry: 1,
+  });
+
+  const rows = data?.data.rows || [];
+  const cellAlign = isRTL ? 'text-right' : 'text-left';
+
+  return (
+    <>
+      <ReportSection
+        title={t('reports.types.user_logins.title')}
+        description={t('reports.types.user_logins.description')}
+        isLoading={isRangeValid && isLoading}
+        isError={isError}
+        isEmpty={rows.length === 0}
+        onRetry={() => refetch()}
+        onExport={canExport ? () => setShowExportDialog(true) : undefined}
+        parameters={
+          <div className="space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="loginsDateFrom" className="text-sm dashboard-text-secondary">
+                  {t('reports.parameters.dateFrom')}
+                </Label>
+                <DatePicker id="loginsDateFrom" value={dateFrom} onChange={setDateFrom} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="loginsDateTo" className="text-sm dashboard-text-secondary">
+                  {t('reports.parameters.dateTo')}
+                </Label>
+                <DatePicker id="loginsDateTo" value={dateTo} onChange={setDateTo} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm dashboard-text-secondary">
+                  {t('reports.parameters.period')}
+                </Label>
+                <Select value={period} onValueChange={(value) => setPeriod(value as ReportPeriod)}>
+                  <SelectTrigger className="dashboard-input">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">{t('reports.periods.day')}</SelectItem>
+                    <SelectItem value="week">{t('reports.periods.week')}</SelectItem>
+                    <SelectItem value="month">{t('reports.periods.month')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!isRangeValid && (
+              <p className="text-sm text-red-600">{t('reports.parameters.invalidRange')}</p>
+            )}
+          </div>
+        }
+        chart={
+          <ReportBarChart
+            series={[
+              { key: 'successCount', label: t('reports.columns.successfulLogins'), colorClassName: 'bg-green-500' },
+              { key: 'failedCount', label: t('reports.columns.failedLogins'), colorClassName: 'bg-red-500' },
+            ]}
+            rows={rows.map((row) => ({
+              id: row.periodStart,
+              label: formatDate(row.periodStart),
+              values: { successCount: row.successCount, failedCount: row.failedCount },
+            }))}
+            formatValue={formatNumber}
+          />
+        }
+        table={
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t(`reports.columns.periodStart.${period}`)}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.successfulLogins')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.failedLogins')}
+                </TableHead>
+                <TableHead className={`font-semibold dashboard-text-primary ${cellAlign}`}>
+                  {t('reports.columns.uniqueUsers')}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.periodStart}>
+                  <TableCell className={`font-medium dashboard-text-primary ${cellAlign}`}>
+                    {formatDate(row.periodStart)}
+                  </TableCell>
+                  <TableCell className={`text-green-700 ${cellAlign}`}>
+                    {formatNumber(row.successCount)}
+                  </TableCell>
+                  <TableCell className={`${row.failedCount > 0 ? 'text-red-600' : 'dashboard-text-secondary'} ${cellAlign}`}>
+                    {formatNumber(row.failedCount)}
+                  </TableCell>
+                  <TableCell className={`dashboard-text-secondary ${cellAlign}`}>
+                    {formatNumber(row.uniqueUsers)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        }
+      />
+
+      {showExportDialog && (
+        <ReportExportDialog
+          isOpen={showExportDialog}
+          onClose={() => setShowExportDialog(false)}
+          reportType={ReportType.USER_LOGINS}
+          parameters={parameters}
+        />
+      )}
+    </>
+  );
+}
@@ -18,9 +18,11 @@ import {
   DialogDescription,
   DialogFooter 
 } from '@/components/ui/dialog';
-import type { User, ResetPasswordRequest, ResetPasswordResponse, ResetMethod, ApiError, TenantLocale, TenantLanguage } from '@/types';
+import type { User, ResetPasswordRequest, ResetPasswordResponse, ResetMethod, ApiError } from '@/types';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate as formatDateUtil } from '@/lib/locale-formatting';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { getRoleDisplayName } from '@/lib/role-utils';
 
 interface ResetPasswordDialogProps {
   user: User | null;
@@ -38,19 +40,7 @@ export default function ResetPasswordDialog({ user, isOpen, onClose }: ResetPass
   const [copiedPassword, setCopiedPassword] = useState(false);
 
   // Memoize the date formatting function and locale config for better performance
-  const languageSpecificConfig = React.useMemo(() => ({
-    ...config,
-    locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-    language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-    dateFormat: {
-      ...config.dateFormat,
-      calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-    },
-    numberFormat: {
-      ...config.numberFormat,
-      digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-    }
-  }), [config, i18n.language]);
+  const languageSpecificConfig = React.useMemo(() => getLanguageFormattingConfig(config, i18n.language), [config, i18n.language]);
 
   const formatDate = React.useCallback((dateString: string) => {
     try {
@@ -142,7 +132,7 @@ export default function ResetPasswordDialog({ user, isOpen, onClose }: ResetPass
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">{t('users.resetPassword.userInfo.role')}:</span>
-                <Badge variant="secondary">{t(`common.roles.${user.roleName}`)}</Badge>
+                <Badge variant="secondary">{getRoleDisplayName(user.roleName, t)}</Badge>
               </div>
               <div className="flex justify-between items-center">
                 <span className="text-gray-600">{t('users.resetPassword.userInfo.lastLogin')}:</span>
@@ -2,17 +2,23 @@
 
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Loader2, Shield, Check, X, Save, AlertTriangle } from 'lucide-react';
+import { Loader2, Shield, AlertTriangle, CalendarClock, ClipboardCheck } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Checkbox } from '@/components/ui/checkbox';
+import { PermissionGroups } from '@/components/permissions/permission-groups';
+import {
+  ReviewPermissionChangesDialog,
+  type ApplyPermissionChangesOptions,
+} from '@/components/permissions/review-permission-changes-dialog';
 import { usePermissions, useRolePermissions, useUpdateRolePermissions } from '@/hooks/use-permissions';
 import { useClientPermissions } from '@/hooks/use-permissions';
 import { useUser } from '@/hooks/use-user';
-import { getRoleDisplayName, canModifyRolePermissions, UserRole } from '@/lib/role-utils';
+import { getRoleLabel } from '@/lib/role-utils';
 import { hasDynamicPermission } from '@/lib/dynamic-permission-utils';
+import { computeRolePermissionDiff, hasRolePermissionChanges } from '@/lib/role-permission-diff';
+import { formatDateTime } from '@/lib/date-formatting';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
 import { PermissionAction } from '@/types';
 import type { Role, UpdateRolePermissionsRequest } from '@/types';
 
@@ -27,6 +33,9 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
   const { canManagePermissions } = useClientPermissions();
   const [modifiedPermissions, setModifiedPermissions] = useState<Record<string, boolean>>({});
   const [hasChanges, setHasChanges] = useState(false);
+  const [isReviewOpen, setIsReviewOpen] = useState(false);
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null);
+  const { config } = useGlobalLocaleFormatting();
 
   const { data: permissionsData, isLoading: permissionsLoading } = usePermissions();
   const { data: rolePermissionsData, isLoading: rolePermissionsLoading } = useRolePermissions(role.id);
@@ -34,11 +43,10 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
 
   const isLoading = permissionsLoading || rolePermissionsLoading;
 
-  // Check if current user can modify this specific role's permissions using dynamic permissions
-  const canModifyThisRole = user ? (
-    hasDynamicPermission(user.permissions || [], 'permissions', PermissionAction.MANAGE) ||
-    canModifyRolePermissions(user.roleName as UserRole, role.name as UserRole)
-  ) : false;
+  // Check if current user can modify this specific role's permissions (permissions:manage implies update)
+  const canModifyThisRole = user
+    ? hasDynamicPermission(user.permissions || [], 'permissions', PermissionAction.UPDATE)
+    : false;
 
   // Create a lookup for current permissions
   const currentPermissions = React.useMemo(() => {
@@ -51,18 +59,24 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
     return lookup;
   }, [permissionsData?.data, rolePermissionsData?.data?.permissions]);
 
-  // Group permissions by resource
-  const groupedPermissions = React.useMemo(() => {
-    const permissions = Array.isArray(permissionsData?.data) ? permissionsData.data : permissionsData?.data?.permissions || [];
-    const groups: Record<string, typeof permissions> = {};
-    permissions.forEach(permission => {
-      if (!groups[permission.resource]) {
-        groups[permission.resource] = [];
-      }
-      groups[permission.resource].push(permission);
-    });
-    return groups;
-  }, [permissionsData?.data]);
+  const permissions = React.useMemo(
+    () => (Array.isArray(permissionsData?.data) ? permissionsData.data : permissionsData?.data?.permissions || []),
+    [permissionsData?.data]
+  );
+
+  const diff = React.useMemo(
+    () => computeRolePermissionDiff(permissions, currentPermissions, modifiedPermissions),
+    [permissions, currentPermissions, modifiedPermissions]
+  );
+
+  // Only permissions that differ from the saved state are sent
+  const pendingChanges = React.useMemo(
+    () => [...diff.added, ...diff.removed].map(permission => ({
+      permissionId: permission.id,
+      isGranted: modifiedPermissions[permission.id],
+    })),
+    [diff, modifiedPermissions]
+  );
 
   if (!canManagePermissions || !canModifyThisRole) {
     return (
@@ -71,7 +85,7 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
         <AlertDescription>
           {!canManagePermissions 
             ? t('permissions.accessDenied')
-            : t('permissions.cannotModifyThisRole', { role: getRoleDisplayName(role.name, t) })
+            : t('permissions.cannotModifyThisRole', { role: getRoleLabel(role, t) })
           }
         </AlertDescription>
       </Alert>
@@ -84,6 +98,7 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
       [permissionId]: isGranted,
     }));
     setHasChanges(true);
+    setScheduledFor(null);
   };
 
   const getPermissionStatus = (permissionId: string): boolean => {
@@ -93,18 +108,19 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
     return currentPermissions[permissionId] || false;
   };
 
-  const handleSave = async () => {
+  const handleSave = async ({ effectiveAt, terminateSessions }: ApplyPermissionChangesOptions) => {
     const updateData: UpdateRolePermissionsRequest = {
-      permissions: Object.entries(modifiedPermissions).map(([permissionId, isGranted]) => ({
-        permissionId,
-        isGranted,
-      })),
+      permissions: pendingChanges,
+      effectiveAt,
+      terminateSessions,
     };
 
     try {
-      await updateRolePermissions.mutateAsync({ roleId: role.id, data: updateData });
+      const response = await updateRolePermissions.mutateAsync({ roleId: role.id, data: updateData });
       setModifiedPermissions({});
       setHasChanges(false);
+      setIsReviewOpen(false);
+      setScheduledFor(response.data.scheduledFor ?? null);
     } catch (error) {
       console.error('Failed to update role permissions:', error);
     }
@@ -133,79 +149,22 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
             {t('permissions.roleManagement.title')}
           </h2>
           <p className="text-gray-600">
-            {t('permissions.roleManagement.subtitle', { roleName: getRoleDisplayName(role.name, t) })}
+            {t('permissions.roleManagement.subtitle', { roleName: getRoleLabel(role, t) })}
           </p>
         </div>
         <Badge variant="outline" className="flex items-center gap-2">
           <Shield className="h-4 w-4" />
-          {getRoleDisplayName(role.name, t)}
+          {getRoleLabel(role, t)}
         </Badge>
       </div>
 
       {/* Permission Groups */}
-      <div className="space-y-4">
-        {Object.entries(groupedPermissions).map(([resource, resourcePermissions]) => (
-          <Card key={resource} className="bg-white/95 backdrop-blur-sm border-white/30">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                {t(`permissions.resources.${resource}`)}
-                <Badge variant="secondary" className="text-xs">
-                  {resourcePermissions.length} {t('permissions.actionsLabel')}
-                </Badge>
-              </CardTitle>
-              <CardDescription>
-                {t(`permissions.resourceDescriptions.${resource}`)}
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                {resourcePermissions.map(permission => {
-                  const isGranted = getPermissionStatus(permission.id);
-                  const isModified = permission.id in modifiedPermissions;
-                  
-                  return (
-                    <div
-                      key={permission.id}
-                      className={`flex items-center space-x-3 p-3 rounded-lg border ${
-                        isModified 
-                          ? 'border-blue-200 bg-blue-50' 
-                          : 'border-gray-200 bg-gray-50'
-                      }`}
-                    >
-                      <Checkbox
-                        id={permission.id}
-                        checked={isGranted}
-                        onCheckedChange={(checked) => 
-                          handlePermissionChange(permission.id, checked as boolean)
-                        }
-                        className="data-[state=checked]:bg-blue-600 data-[state=checked]:border-blue-600"
-                      />
-                      <div className="flex-1 min-w-0">
-                        <label
-                          htmlFor={permission.id}
-                          className="text-sm font-medium text-gray-900 cursor-pointer"
-                        >
-                          {t(`permissions.actions.${permission.action}`)}
-                        </label>
-                        <p className="text-xs text-gray-500 truncate">
-                          {t(`permissions.actionDescriptions.${permission.action}`, { defaultValue: permission.description })}
-                        </p>
-                      </div>
-                      <div className="flex-shrink-0">
-                        {isGranted ? (
-                          <Check className="h-4 w-4 text-green-600" />
-                        ) : (
-                          <X className="h-4 w-4 text-gray-400" />
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+      <PermissionGroups
+        permissions={permissions}
+        isGranted={getPermissionStatus}
+        isModified={(permissionId) => permissionId in modifiedPermissions}
+        onChange={handlePermissionChange}
+      />
 
       {/* Action Buttons */}
       {hasChanges && (
@@ -223,35 +182,40 @@ export function RolePermissionsManager({ role, onClose }: RolePermissionsManager
                 {t('common.reset')}
               </Button>
               <Button
-                onClick={handleSave}
-                disabled={updateRolePermissions.isPending || !canModifyThisRole}
+                onClick={() => {
+                  updateRolePermissions.reset();
+                  setIsReviewOpen(true);
+                }}
+                disabled={updateRolePermissions.isPending || !canModifyThisRole || !hasRolePermissionChanges(diff)}
                 className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700"
               >
-                {updateRolePermissions.isPending ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    {t('permissions.saving')}
-                  </>
-                ) : (
-                  <>
-                    <Save className="h-4 w-4 mr-2" />
-                    {t('permissions.saveChanges')}
-                  </>
-                )}
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                {t('permissions.reviewChanges')}
               </Button>
             </div>
           </div>
         </div>
       )}
 
-      {updateRolePermissions.error && (
-        <Alert variant="destructive">
-          <AlertTriangle className="h-4 w-4" />
-          <AlertDescription>
-            {updateRolePermissions.error.message}
+      {scheduledFor && (
+        <Alert className="border-blue-200 bg-blue-50">
+          <CalendarClock className="h-4 w-4 text-blue-600" />
+          <AlertDescription className="text-blue-800">
+            {t('permissions.review.scheduledNotice', { date: formatDateTime(scheduledFor, config) })}
           </AlertDescription>
         </Alert>
       )}
+
+      <ReviewPermissionChangesDialog
+        role={role}
+        diff={diff}
+        changes={pendingChanges}
+        isOpen={isReviewOpen}
+        onClose={() => setIsReviewOpen(false)}
+        onConfirm={handleSave}
+        isSaving={updateRolePermissions.isPending}
+        error={updateRolePermissions.error}
+      />
     </div>
   );
 }
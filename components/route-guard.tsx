@@ -0,0 +1,48 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import AccessDenied from '@/components/access-denied';
+import { useUser } from '@/hooks/use-user';
+import { useViewAs } from '@/hooks/use-view-as';
+import { buildLoginUrl, canAccessRoute } from '@/lib/route-manifest';
+
+interface RouteGuardProps {
+  children: React.ReactNode;
+}
+
+/**
+ * Route Guard
+ * Client side counterpart of the middleware, using the same route manifest with the permissions of
+ * the signed-in user. It covers permission changes made after the page was served (another tab,
+ * re-login as a different user) and client side navigation between dashboard pages.
+ * While viewing as another user it applies their permissions, so denied pages look as they do to them.
+ */
+export default function RouteGuard({ children }: RouteGuardProps) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const { user, isLoading } = useUser();
+  const { effectivePermissions } = useViewAs();
+  // Logging out navigates to the login page by itself, without a return target
+  const hadUser = useRef(false);
+
+  if (user) {
+    hadUser.current = true;
+  }
+
+  useEffect(() => {
+    if (!isLoading && !user && !hadUser.current) {
+      router.replace(buildLoginUrl(`${pathname}${window.location.search}`));
+    }
+  }, [isLoading, user, pathname, router]);
+
+  if (isLoading || !user) {
+    return null;
+  }
+
+  if (!canAccessRoute(effectivePermissions, pathname)) {
+    return <AccessDenied />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,101 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation } from '@tanstack/react-query';
+import { Clock, Loader2 } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useUser } from '@/hooks/use-user';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDuration } from '@/lib/date-formatting';
+
+/**
+ * Warns the user shortly before the session expires and offers to extend it
+ */
+export default function SessionExpiryDialog() {
+  const { t, i18n } = useTranslation();
+  const { user, sessionStatus, extendSession, logout } = useUser();
+  const { config } = useGlobalLocaleFormatting();
+  const [remaining, setRemaining] = useState(0);
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  const isOpen = sessionStatus === 'expiring' && !isDismissed;
+
+  // Show the dialog again for the next session that approaches expiry
+  useEffect(() => {
+    setIsDismissed(false);
+  }, [user?.sessionExpiresAt]);
+
+  // Countdown while the warning is visible
+  useEffect(() => {
+    if (!isOpen || !user) return;
+
+    const update = () => setRemaining(new Date(user.sessionExpiresAt).getTime() - Date.now());
+    update();
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [isOpen, user]);
+
+  const extendMutation = useMutation({
+    mutationFn: extendSession,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && setIsDismissed(true)}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-orange-100 flex items-center justify-center">
+              <Clock className="h-4 w-4 text-orange-600" />
+            </div>
+            {t('auth.session.expiring.title')}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t('auth.session.expiring.description', { time: formatDuration(remaining, getLanguageFormattingConfig(config, i18n.language), 'clock') })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {extendMutation.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>{t('auth.session.expiring.extendFailed')}</AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={logout}
+            disabled={extendMutation.isPending}
+          >
+            {t('auth.session.expiring.signOut')}
+          </Button>
+          <Button
+            onClick={() => extendMutation.mutate()}
+            disabled={extendMutation.isPending}
+            className="bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+          >
+            {extendMutation.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t('auth.session.expiring.extending')}
+              </>
+            ) : (
+              t('auth.session.expiring.staySignedIn')
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
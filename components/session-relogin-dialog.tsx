@@ -0,0 +1,162 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation } from '@tanstack/react-query';
+import { Eye, EyeOff, Loader2, LockKeyhole } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { authService } from '@/services/api';
+import { useUser } from '@/hooks/use-user';
+import type { ApiError, LoginRequest } from '@/types';
+
+/**
+ * Re-login dialog shown in place when the session has expired
+ * Pages stay mounted underneath, so unsaved form state survives and queued requests are replayed
+ */
+export default function SessionReloginDialog() {
+  const { t } = useTranslation();
+  const { user, isReauthenticationRequired, completeReauthentication, cancelReauthentication } = useUser();
+  const [password, setPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const loginMutation = useMutation({
+    mutationFn: (data: LoginRequest) => authService.login(data),
+    onSuccess: (data) => {
+      setPassword('');
+      setFormError('');
+      completeReauthentication({
+        userId: data.data.userId,
+        tenantId: data.data.tenantId,
+        email: data.data.email,
+        fullName: data.data.fullName,
+        roleName: data.data.roleName,
+        permissions: data.data.permissions,
+        sessionExpiresAt: data.data.sessionExpiresAt,
+        rememberMe: data.data.rememberMeEnabled,
+      });
+    },
+    onError: (error: ApiError) => {
+      if (error.code === 'auth.INVALID_CREDENTIALS') {
+        setFormError(t('auth.login.messages.invalidCredentials'));
+      } else if (error.code === 'auth.ACCOUNT_LOCKED') {
+        setFormError(t('auth.login.messages.accountLocked'));
+      } else {
+        setFormError(error.message || t('errors.generic'));
+      }
+    },
+  });
+
+  if (!user) return null;
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!password) {
+      setFormError(t('validation.required'));
+      return;
+    }
+    loginMutation.mutate({ email: user.email, password });
+  };
+
+  const handleCancel = () => {
+    setPassword('');
+    setFormError('');
+    cancelReauthentication();
+  };
+
+  return (
+    <Dialog open={isReauthenticationRequired} onOpenChange={(open) => !open && handleCancel()}>
+      <DialogContent
+        className="dashboard-card rounded-2xl max-w-md"
+        onInteractOutside={(event) => event.preventDefault()}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+              <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center">
+                <LockKeyhole className="h-4 w-4 text-blue-600" />
+              </div>
+              {t('auth.session.relogin.title')}
+            </DialogTitle>
+            <DialogDescription className="dashboard-text-secondary">
+              {t('auth.session.relogin.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="relogin-email">{t('auth.login.form.email.label')}</Label>
+            <Input id="relogin-email" type="email" dir="ltr" value={user.email} disabled />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="relogin-password">{t('auth.login.form.password.label')}</Label>
+            <div className="relative">
+              <Input
+                id="relogin-password"
+                type={showPassword ? 'text' : 'password'}
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                placeholder={t('auth.login.form.password.placeholder')}
+                className="pr-12"
+                style={{ direction: 'ltr' }}
+                disabled={loginMutation.isPending}
+                autoFocus
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 hover:text-gray-700 p-1 rounded-md"
+                aria-label={showPassword ? t('common.hidePassword') : t('common.showPassword')}
+              >
+                {showPassword ? <EyeOff size={18} /> : <Eye size={18} />}
+              </button>
+            </div>
+          </div>
+
+          {formError && (
+            <Alert variant="destructive">
+              <AlertDescription>{formError}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={loginMutation.isPending}
+            >
+              {t('auth.session.relogin.cancel')}
+            </Button>
+            <Button
+              type="submit"
+              disabled={loginMutation.isPending}
+              className="bg-gradient-to-r from-blue-500 to-purple-600 text-white"
+            >
+              {loginMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {t('auth.login.buttons.submitting')}
+                </>
+              ) : (
+                t('auth.session.relogin.submit')
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -17,36 +17,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate } from '@/lib/locale-formatting';
+import { RelativeTime } from '@/components/ui/relative-time';
 import { profileService } from '@/services/api';
-import type { UserSessionsResponse, ApiError, TenantLocale, TenantLanguage } from '@/types';
+import type { UserSessionsResponse, ApiError } from '@/types';
 
 export default function SessionsManagement() {
-  const { t, i18n } = useTranslation();
+  const { t } = useTranslation();
   const queryClient = useQueryClient();
-  const { config } = useGlobalLocaleFormatting();
   const [error, setError] = useState<string | null>(null);
 
-  // Memoize the date formatting function to re-compute when language changes
-  const formatLocalizedDate = React.useCallback((dateString: string) => {
-    // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
-    return formatDate(dateString, languageSpecificConfig);
-  }, [config, i18n.language]);
-
   const {
     data: sessionsData,
     isLoading,
@@ -175,9 +154,7 @@ export default function SessionsManagement() {
                   <span className="text-sm text-gray-600">
                     {t('profile.sessions.fields.lastActivity')}:
                   </span>
-                  <span className="text-sm">
-                    {formatLocalizedDate(currentSession.lastActivityAt)}
-                  </span>
+                  <RelativeTime date={currentSession.lastActivityAt} className="text-sm" />
                 </div>
                 
                 <div className="flex items-center gap-2">
@@ -185,9 +162,7 @@ export default function SessionsManagement() {
                   <span className="text-sm text-gray-600">
                     {t('profile.sessions.fields.expires')}:
                   </span>
-                  <span className="text-sm">
-                    {formatLocalizedDate(currentSession.expiresAt)}
-                  </span>
+                  <RelativeTime date={currentSession.expiresAt} className="text-sm" />
                 </div>
               </div>
             </div>
@@ -252,9 +227,7 @@ export default function SessionsManagement() {
                           <span className="text-sm text-gray-600">
                             {t('profile.sessions.fields.lastActivity')}:
                           </span>
-                          <span className="text-sm">
-                            {formatLocalizedDate(session.lastActivityAt)}
-                          </span>
+                          <RelativeTime date={session.lastActivityAt} className="text-sm" />
                         </div>
                         
                         <div className="flex items-center gap-2">
@@ -262,9 +235,7 @@ export default function SessionsManagement() {
                           <span className="text-sm text-gray-600">
                             {t('profile.sessions.fields.expires')}:
                           </span>
-                          <span className="text-sm">
-                            {formatLocalizedDate(session.expiresAt)}
-                          </span>
+                          <RelativeTime date={session.expiresAt} className="text-sm" />
                         </div>
                       </div>
                     </div>
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Building2, CheckCircle, Eye, Loader2, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { settingsService } from '@/services/api';
+import { useDirection } from '@/hooks/use-direction';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { formatCurrency, formatNumber } from '@/lib/locale-formatting';
+import { formatDateTime } from '@/lib/date-formatting';
+import { formatTimeZoneOffset, SUPPORTED_TIME_ZONES } from '@/lib/timezone';
+import { CALENDAR_SYSTEMS, getLocaleByTenantLocale } from '@/lib/locale-registry';
+import type {
+  ApiError,
+  LocaleFormattingResponse,
+  TenantSettings,
+  UpdateTenantSettingsResponse
+} from '@/types';
+
+// Sample values shown in the preview
+const PREVIEW_NUMBER = 1234567.89;
+const PREVIEW_AMOUNT = 12500000;
+
+const settingsSchema = z.object({
+  companyName: z.string()
+    .trim()
+    .min(2, 'settings.form.validation.companyNameMin')
+    .max(100, 'settings.form.validation.companyNameMax'),
+  calendar: z.enum(CALENDAR_SYSTEMS),
+  digits: z.enum(['persian', 'arabic', 'latin']),
+  currencyPosition: z.enum(['before', 'after']),
+  timeZone: z.string().min(1),
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+/**
+ * Apply edited settings on top of the current formatting config for the preview
+ */
+const buildPreviewConfig = (
+  config: LocaleFormattingResponse['data'],
+  values: SettingsFormData
+): LocaleFormattingResponse['data'] => ({
+  ...config,
+  dateFormat: { ...config.dateFormat, calendar: values.calendar, timeZone: values.timeZone },
+  numberFormat: { ...config.numberFormat, digits: values.digits },
+  currencyFormat: { ...config.currencyFormat, position: values.currencyPosition },
+});
+
+const toFormValues = (settings: TenantSettings): SettingsFormData => ({
+  companyName: settings.companyName,
+  calendar: settings.calendar,
+  digits: settings.digits,
+  currencyPosition: settings.currencyPosition,
+  timeZone: settings.timeZone ?? getLocaleByTenantLocale(settings.locale).timeZone,
+});
+
+interface TenantSettingsFormProps {
+  settings: TenantSettings;
+  canEdit: boolean;
+}
+
+export default function TenantSettingsForm({ settings, canEdit }: TenantSettingsFormProps) {
+  const { t } = useTranslation();
+  const direction = useDirection();
+  const isRTL = direction === 'rtl';
+  const queryClient = useQueryClient();
+  const { config } = useGlobalLocaleFormatting();
+
+  const [errorMessage, setErrorMessage] = useState('');
+  const [showSuccess, setShowSuccess] = useState(false);
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: toFormValues(settings),
+  });
+
+  const { register, handleSubmit, formState: { errors, isDirty }, watch, setValue, reset } = form;
+  const watchedValues = watch();
+
+  // The Persian and Hijri calendars are only offered to locales that register them
+  const localeCalendars = getLocaleByTenantLocale(settings.locale).calendars;
+  const isPersianCalendarAvailable = localeCalendars.some((calendar) => calendar === 'persian');
+  const isHijriCalendarAvailable = localeCalendars.some((calendar) => calendar === 'hijri');
+
+  const previewConfig = buildPreviewConfig({ ...config, locale: settings.locale }, watchedValues);
+  const previewDate = React.useMemo(() => new Date().toISOString(), []);
+
+  const updateSettingsMutation = useMutation<UpdateTenantSettingsResponse, ApiError, SettingsFormData>({
+    mutationFn: (data) => settingsService.updateSettings({
+      ...data,
+      companyName: data.companyName.trim(),
+      version: settings.version,
+    }),
+    onSuccess: (response) => {
+      // Formatting is read from the locale-formatting query everywhere in the dashboard
+      queryClient.invalidateQueries({ queryKey: ['locale-formatting'] });
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard'] });
+      reset(toFormValues(response.data));
+      setShowSuccess(true);
+    },
+    onError: (error) => {
+      console.error('Update settings failed:', error);
+
+      if (error.code === 'settings.EDIT_CONFLICT') {
+        setErrorMessage(t('settings.form.errors.editConflict'));
+      } else if (error.code === 'auth.FORBIDDEN') {
+        setErrorMessage(t('settings.form.errors.insufficientPermissions'));
+      } else {
+        setErrorMessage(error.message || t('settings.form.errors.updateFailed'));
+      }
+    },
+  });
+
+  const onSubmit = (data: SettingsFormData) => {
+    setErrorMessage('');
+    setShowSuccess(false);
+    updateSettingsMutation.mutate(data);
+  };
+
+  const handleReset = () => {
+    reset(toFormValues(settings));
+    setErrorMessage('');
+    setShowSuccess(false);
+  };
+
+  const isDisabled = !canEdit || updateSettingsMutation.isPending;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-3 gap-8" dir={isRTL ? 'rtl' : 'ltr'}>
+      {/* Settings Form */}
+      <div className="xl:col-span-2 dashboard-card rounded-2xl p-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-lg bg-gradient-to-r from-blue-500 to-purple-600 flex items-center justify-center">
+            <Settings className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h2 className="text-2xl font-bold dashboard-text-primary">
+              {t('settings.form.title')}
+            </h2>
+            <p className="dashboard-text-muted">
+              {t('settings.form.subtitle')}
+            </p>
+          </div>
+        </div>
+
+        {!canEdit && (
+          <Alert>
+            <AlertDescription>{t('settings.form.readOnly')}</AlertDescription>
+          </Alert>
+        )}
+
+        {errorMessage && (
+          <Alert className="border-red-200 bg-red-50">
+            <AlertDescription className="text-red-800">
+              {errorMessage}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showSuccess && !isDirty && (
+          <Alert className="border-green-200 bg-green-50">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">
+              {t('settings.form.messages.updateSuccess')}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Company Name */}
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="companyName" className="dashboard-text-primary">
+                {t('settings.form.fields.companyName.label')}
+              </Label>
+              <Input
+                id="companyName"
+                {...register('companyName')}
+                placeholder={t('settings.form.fields.companyName.placeholder')}
+                className={`dashboard-input ${isRTL ? 'text-right' : 'text-left'}`}
+                disabled={isDisabled}
+              />
+              {errors.companyName && (
+                <p className="text-sm text-red-600">
+                  {t(errors.companyName.message as string)}
+                </p>
+              )}
+            </div>
+
+            {/* Locale (read-only, chosen at registration) */}
+            <div className="space-y-2 md:col-span-2">
+              <Label className="dashboard-text-primary">
+                {t('settings.form.fields.locale.label')}
+              </Label>
+              <p className="dashboard-text-secondary">
+                {t(`settings.form.fields.locale.${settings.locale}`)}
+              </p>
+            </div>
+
+            {/* Calendar */}
+            <div className="space-y-2">
+              <Label className="dashboard-text-primary">
+                {t('settings.form.fields.calendar.label')}
+              </Label>
+              <Select
+                value={watchedValues.calendar}
+                onValueChange={(value) => setValue('calendar', value as SettingsFormData['calendar'], { shouldDirty: true })}
+                disabled={isDisabled}
+              >
+                <SelectTrigger className="dashboard-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="persian" disabled={!isPersianCalendarAvailable}>
+                    {t('settings.form.fields.calendar.persian')}
+                  </SelectItem>
+                  <SelectItem value="gregorian">{t('settings.form.fields.calendar.gregorian')}</SelectItem>
+                  <SelectItem value="hijri" disabled={!isHijriCalendarAvailable}>
+                    {t('settings.form.fields.calendar.hijri')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              {!isPersianCalendarAvailable && (
+                <p className="text-xs dashboard-text-muted">
+                  {t('settings.form.fields.calendar.persianUnavailable')}
+                </p>
+              )}
+              {!isHijriCalendarAvailable && (
+                <p className="text-xs dashboard-text-muted">
+                  {t('settings.form.fields.calendar.hijriUnavailable')}
+                </p>
+              )}
+            </div>
+
+            {/* Digits */}
+            <div className="space-y-2">
+              <Label className="dashboard-text-primary">
+                {t('settings.form.fields.digits.label')}
+              </Label>
+              <Select
+                value={watchedValues.digits}
+                onValueChange={(value) => setValue('digits', value as SettingsFormData['digits'], { shouldDirty: true })}
+                disabled={isDisabled}
+              >
+                <SelectTrigger className="dashboard-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="persian">{t('settings.form.fields.digits.persian')}</SelectItem>
+                  <SelectItem value="arabic">{t('settings.form.fields.digits.arabic')}</SelectItem>
+                  <SelectItem value="latin">{t('settings.form.fields.digits.latin')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Time Zone */}
+            <div className="space-y-2">
+              <Label className="dashboard-text-primary">
+                {t('settings.form.fields.timeZone.label')}
+              </Label>
+              <Select
+                value={watchedValues.timeZone}
+                onValueChange={(value) => setValue('timeZone', value, { shouldDirty: true })}
+                disabled={isDisabled}
+              >
+                <SelectTrigger className="dashboard-input" dir="ltr">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_TIME_ZONES.map((timeZone) => (
+                    <SelectItem key={timeZone} value={timeZone} dir="ltr">
+                      {timeZone} ({formatTimeZoneOffset(timeZone)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs dashboard-text-muted">
+                {t('settings.form.fields.timeZone.hint')}
+              </p>
+            </div>
+
+            {/* Currency Position */}
+            <div className="space-y-2">
+              <Label className="dashboard-text-primary">
+                {t('settings.form.fields.currencyPosition.label')}
+              </Label>
+              <Select
+                value={watchedValues.currencyPosition}
+                onValueChange={(value) => setValue('currencyPosition', value as SettingsFormData['currencyPosition'], { shouldDirty: true })}
+                disabled={isDisabled}
+              >
+                <SelectTrigger className="dashboard-input">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="before">{t('settings.form.fields.currencyPosition.before')}</SelectItem>
+                  <SelectItem value="after">{t('settings.form.fields.currencyPosition.after')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* Action Buttons */}
+          {canEdit && (
+            <div className="flex items-center gap-4">
+              <Button
+                type="submit"
+                disabled={updateSettingsMutation.isPending || !isDirty}
+                className="dashboard-button-primary min-h-[44px]"
+              >
+                {updateSettingsMutation.isPending ? (
+                  <Loader2 className={`w-4 h-4 animate-spin ${isRTL ? 'ml-2' : 'mr-2'}`} />
+                ) : null}
+                {updateSettingsMutation.isPending
+                  ? t('settings.form.actions.saving')
+                  : t('settings.form.actions.save')}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleReset}
+                disabled={updateSettingsMutation.isPending || !isDirty}
+                className="min-h-[44px]"
+              >
+                {t('common.reset')}
+              </Button>
+            </div>
+          )}
+        </form>
+      </div>
+
+      {/* Preview */}
+      <div className="xl:col-span-1 dashboard-card rounded-2xl p-6 space-y-6">
+        <h2 className="text-xl font-bold dashboard-text-primary flex items-center gap-3">
+          <Eye className="w-5 h-5" />
+          {t('settings.preview.title')}
+        </h2>
+
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium dashboard-text-secondary">
+              {t('settings.preview.companyName')}
+            </label>
+            <div className="flex items-center gap-2 mt-1">
+              <Building2 className="w-4 h-4 dashboard-text-muted" />
+              <span className="dashboard-text-primary font-medium">
+                {watchedValues.companyName || '-'}
+              </span>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium dashboard-text-secondary">
+              {t('settings.preview.date')}
+            </label>
+            <p className="dashboard-text-primary font-medium mt-1">
+              {formatDateTime(previewDate, previewConfig)}
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium dashboard-text-secondary">
+              {t('settings.preview.number')}
+            </label>
+            <p className="dashboard-text-primary font-medium mt-1">
+              {formatNumber(PREVIEW_NUMBER, previewConfig)}
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium dashboard-text-secondary">
+              {t('settings.preview.currency')}
+            </label>
+            <p className="dashboard-text-primary font-medium mt-1">
+              {formatCurrency(PREVIEW_AMOUNT, previewConfig)}
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
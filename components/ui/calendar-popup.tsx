@@ -6,21 +6,30 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { useTranslation } from 'react-i18next';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { switchMomentLocale, getMonthNames, getWeekdayNames } from '@/lib/date-utils';
+import { switchMomentLocale } from '@/lib/date-formatting';
+import { convertDigits, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { addHijriMonths, getHijriMonthLength, hijriToIso, toHijri } from '@/lib/hijri-calendar';
 import moment from 'jalali-moment';
+import { CalendarSystem, isRtlLanguage } from '@/lib/locale-registry';
 
 interface CalendarPopupProps {
   selectedDate?: string;
   onDateSelect: (date: string) => void;
-  calendarType: 'persian' | 'gregorian';
+  calendarType: CalendarSystem;
   onClose: () => void;
   className?: string;
   style?: React.CSSProperties;
 }
 
+// Gregorian ISO date of a grid day, whatever the moment locale
+const toIsoDate = (date: moment.Moment) => date.clone().locale('en').format('YYYY-MM-DD');
+
+const fromIsoDate = (isoDate: string) => moment.from(isoDate, 'en', 'YYYY-MM-DD');
+
 /**
  * Calendar Popup Component
- * Supports both Persian (Jalali) and Gregorian calendars
+ * Supports Persian (Jalali), Gregorian and Hijri (Umm al-Qura) calendars.
+ * Hijri days also show the Gregorian day so both calendars can be read at once.
  */
 export function CalendarPopup({
   selectedDate,
@@ -33,8 +42,11 @@ export function CalendarPopup({
   const { t, i18n } = useTranslation();
   const { config } = useGlobalLocaleFormatting();
   
-  const isRTL = i18n.language === 'fa' || i18n.language === 'ar';
+  const isRTL = isRtlLanguage(i18n.language);
   const isPersian = calendarType === 'persian';
+  const isHijri = calendarType === 'hijri';
+  const digits = getLanguageFormattingConfig(config, i18n.language).numberFormat.digits;
+  const localizeNumber = (value: number) => convertDigits(String(value), digits);
   
   // Initialize with selected date or current date
   const [viewDate, setViewDate] = useState(() => {
@@ -57,8 +69,8 @@ export function CalendarPopup({
 
   // Initialize moment locale
   useEffect(() => {
-    switchMomentLocale(i18n.language as 'fa' | 'ar');
-  }, [i18n.language]);
+    switchMomentLocale(calendarType, i18n.language);
+  }, [calendarType, i18n.language]);
 
   // Reset viewDate when calendar type or selectedDate changes to ensure proper display
   useEffect(() => {
@@ -91,9 +103,22 @@ export function CalendarPopup({
     }
   }, [calendarType, selectedDate, isPersian]);
 
+  // Hijri month shown in the grid, derived from the Gregorian view date
+  const viewHijri = isHijri ? toHijri(toIsoDate(viewDate)) : undefined;
+
+  // First and last Gregorian day of the viewed Hijri month
+  const getHijriMonthBounds = () => {
+    const { year, month } = viewHijri!;
+    const start = fromIsoDate(hijriToIso({ year, month, day: 1 }) ?? toIsoDate(viewDate));
+    return { start, end: start.clone().add(getHijriMonthLength(year, month) - 1, 'days') };
+  };
+
   // Get month and year for display
   const getDisplayMonth = () => {
-    if (isPersian) {
+    if (viewHijri) {
+      const monthNames = t('datePicker.months.hijri', { returnObjects: true }) as string[];
+      return monthNames[viewHijri.month - 1] || viewDate.format('MMMM');
+    } else if (isPersian) {
       // Use translation keys for Persian months
       const monthNames = t('datePicker.months.persian', { returnObjects: true }) as string[];
       const monthIndex = viewDate.jMonth(); // 0-based index for Jalali months
@@ -107,15 +132,36 @@ export function CalendarPopup({
   };
 
   const getDisplayYear = () => {
+    if (viewHijri) {
+      return localizeNumber(viewHijri.year);
+    }
     if (isPersian) {
       return viewDate.format('jYYYY');
     }
     return viewDate.format('YYYY');
   };
 
+  // Gregorian months the viewed Hijri month overlaps, shown under the Hijri month
+  const getGregorianSpan = () => {
+    const { start, end } = getHijriMonthBounds();
+    const monthNames = t('datePicker.months.gregorian', { returnObjects: true }) as string[];
+    const startMonth = monthNames[start.month()] || start.format('MMMM');
+    const endMonth = monthNames[end.month()] || end.format('MMMM');
+    return `${startMonth}${startMonth === endMonth ? '' : ` – ${endMonth}`} ${localizeNumber(end.year())}`;
+  };
+
   // Navigation functions
+  const goToHijriMonth = (amount: number) => {
+    const target = hijriToIso({ ...addHijriMonths(viewHijri!, amount), day: 1 });
+    if (target) {
+      setViewDate(fromIsoDate(target));
+    }
+  };
+
   const goToPreviousMonth = () => {
-    if (isPersian) {
+    if (isHijri) {
+      goToHijriMonth(-1);
+    } else if (isPersian) {
       setViewDate(viewDate.clone().subtract(1, 'jMonth'));
     } else {
       setViewDate(viewDate.clone().subtract(1, 'month'));
@@ -123,7 +169,9 @@ export function CalendarPopup({
   };
 
   const goToNextMonth = () => {
-    if (isPersian) {
+    if (isHijri) {
+      goToHijriMonth(1);
+    } else if (isPersian) {
       setViewDate(viewDate.clone().add(1, 'jMonth'));
     } else {
       setViewDate(viewDate.clone().add(1, 'month'));
@@ -150,6 +198,10 @@ export function CalendarPopup({
       const daysToGoBack = (dayOfWeek + 1) % 7; // This will give us: Sat=0, Sun=1, Mon=2, Tue=3, Wed=4, Thu=5, Fri=6
       
       startOfWeek = firstDayOfMonth.clone().subtract(daysToGoBack, 'days');
+    } else if (isHijri) {
+      ({ start: startOfMonth, end: endOfMonth } = getHijriMonthBounds());
+      // Week starts on Sunday, like the Gregorian weekday headers
+      startOfWeek = startOfMonth.clone().subtract(startOfMonth.day(), 'days');
     } else {
       startOfMonth = viewDate.clone().startOf('month');
       endOfMonth = viewDate.clone().endOf('month');
@@ -191,42 +243,21 @@ export function CalendarPopup({
   };
 
   const handleDateClick = (date: moment.Moment) => {
-    // Always ensure we send Gregorian ISO date to backend
-    let isoDate: string;
-    
-    if (isPersian) {
-      // For Persian calendar, we need to be extra careful about conversion
-      // Use Unix timestamp as the universal conversion method
-      const timestamp = date.valueOf(); // Get Unix timestamp
-      const gregorianMoment = moment(timestamp).locale('en'); // Create new Gregorian moment from timestamp
-      isoDate = gregorianMoment.format('YYYY-MM-DD');
-    } else {
-      // For Gregorian calendar, format normally
-      isoDate = date.format('YYYY-MM-DD');
-    }
-    
-    onDateSelect(isoDate);
+    // Always send the Gregorian ISO date to the backend, with Latin digits whatever the moment locale
+    onDateSelect(toIsoDate(date));
     onClose();
   };
 
   const isDateSelected = (date: moment.Moment) => {
     if (!selectedDate) return false;
-    
-    // Convert date to Gregorian format for comparison
-    let dateISO: string;
-    if (isPersian) {
-      // Use same conversion logic as handleDateClick
-      const timestamp = date.valueOf();
-      const gregorianMoment = moment(timestamp).locale('en');
-      dateISO = gregorianMoment.format('YYYY-MM-DD');
-    } else {
-      dateISO = date.format('YYYY-MM-DD');
-    }
-    
-    return dateISO === selectedDate;
+    return toIsoDate(date) === selectedDate;
   };
 
   const isDateInCurrentMonth = (date: moment.Moment) => {
+    if (viewHijri) {
+      const hijriDate = toHijri(toIsoDate(date));
+      return hijriDate.month === viewHijri.month && hijriDate.year === viewHijri.year;
+    }
     if (isPersian) {
       return date.jMonth() === viewDate.jMonth() && date.jYear() === viewDate.jYear();
     } else {
@@ -268,6 +299,9 @@ export function CalendarPopup({
           <div className="font-semibold text-gray-900">
             {getDisplayMonth()} {getDisplayYear()}
           </div>
+          {isHijri && (
+            <div className="text-xs text-gray-500">{getGregorianSpan()}</div>
+          )}
         </div>
         
         <Button
@@ -307,13 +341,19 @@ export function CalendarPopup({
               onClick={() => handleDateClick(date)}
               className={cn(
                 'h-8 w-8 p-0 text-sm hover:bg-blue-50',
+                isHijri && 'h-10 flex-col gap-0 leading-none',
                 isSelected && 'bg-blue-600 text-white hover:bg-blue-700',
                 !isCurrentMonth && 'text-gray-300',
                 isTodayDate && !isSelected && 'bg-blue-100 text-blue-900',
                 'transition-colors duration-150'
               )}
             >
-              {isPersian ? date.format('jD') : date.format('D')}
+              {isHijri ? (
+                <>
+                  <span>{localizeNumber(toHijri(toIsoDate(date)).day)}</span>
+                  <span className={cn('text-[10px]', !isSelected && 'text-gray-400')}>{localizeNumber(date.date())}</span>
+                </>
+              ) : isPersian ? date.format('jD') : date.format('D')}
             </Button>
           );
         })}
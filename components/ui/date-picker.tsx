@@ -9,8 +9,9 @@ import { CalendarPopup } from '@/components/ui/calendar-popup';
 import { cn } from '@/lib/utils';
 import { useTranslation } from 'react-i18next';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate, parseDate, switchMomentLocale } from '@/lib/date-utils';
-import moment from 'jalali-moment';
+import { formatDualDate, getShortDateFormat, switchMomentLocale } from '@/lib/date-formatting';
+import { getCalendarSystem, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { isRtlLanguage } from '@/lib/locale-registry';
 
 interface DatePickerProps {
   value?: string;
@@ -31,6 +32,7 @@ interface DatePickerProps {
  * - Calendar icon on the right side for proper UX
  * - Persian/Shamsi calendar support with custom popup
  * - Arabic/Gregorian calendar support
+ * - Hijri (Umm al-Qura) calendar support with the Gregorian date alongside
  * - Proper date formatting based on locale
  * - Keyboard accessibility (Enter/Space to open calendar)
  * - Click outside to close
@@ -54,12 +56,11 @@ export const DatePicker = React.forwardRef<HTMLInputElement, DatePickerProps>(({
   const containerRef = useRef<HTMLDivElement>(null);
 
   // Determine if we're in RTL mode
-  const isRTL = i18n.language === 'fa' || i18n.language === 'ar';
-  const isPersian = i18n.language === 'fa';
+  const isRTL = isRtlLanguage(i18n.language);
+  const languageConfig = React.useMemo(() => getLanguageFormattingConfig(config, i18n.language), [config, i18n.language]);
 
-  // Get calendar type based on language first, then fallback to config
-  const calendarType = isPersian ? 'persian' : 'gregorian';
-  const dateFormat = isPersian ? 'jYYYY/jMM/jDD' : 'YYYY/MM/DD';
+  // The tenant calendar applies when it is available for the UI language
+  const calendarType = getCalendarSystem(languageConfig);
 
   // Helper to get the appropriate portal container
   const getPortalContainer = useCallback(() => {
@@ -141,34 +142,19 @@ export const DatePicker = React.forwardRef<HTMLInputElement, DatePickerProps>(({
   const formatDateForDisplay = useCallback((isoDate: string): string => {
     if (!isoDate) return '';
     
-    try {
-      // Use the utility function from date-utils
-      return formatDate(isoDate, dateFormat, i18n.language as 'fa' | 'ar');
-    } catch (error) {
-      // Silent error handling - return original date if formatting fails
-      return isoDate;
-    }
-  }, [dateFormat, i18n.language]);
-
-  const parseDateFromDisplay = (displayDate: string): string => {
-    if (!displayDate) return '';
-    
-    try {
-      const parsed = parseDate(displayDate, dateFormat, i18n.language as 'fa' | 'ar');
-      return parsed ? parsed.format('YYYY-MM-DD') : '';
-    } catch (error) {
-      // Silent error handling - return empty string if parsing fails
-      return '';
-    }
-  };
+    // Hijri dates are shown with the Gregorian date next to them
+    return calendarType === 'hijri'
+      ? formatDualDate(isoDate, languageConfig, 'short')
+      : getShortDateFormat(isoDate, languageConfig);
+  }, [calendarType, languageConfig]);
 
   // Update display value when external value changes
   useEffect(() => {
     // Switch moment locale for proper formatting
-    switchMomentLocale(i18n.language as 'fa' | 'ar');
+    switchMomentLocale(calendarType, i18n.language);
     const formatted = formatDateForDisplay(value);
     setDisplayValue(formatted);
-  }, [value, calendarType, dateFormat, i18n.language, formatDateForDisplay]);
+  }, [value, calendarType, i18n.language, formatDateForDisplay]);
 
   // Helper to call onChange with correct format
   const callOnChange = (isoDate: string) => {
@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getCalendarSystem, getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { getTimeZone } from '@/lib/timezone';
+import {
+  DATE_RANGE_PRESETS,
+  DateRange,
+  findPreset,
+  getPresetRange,
+  isValidDateRange,
+} from '@/lib/date-ranges';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  // Prefix of the from/to input ids
+  id?: string;
+  fromLabel?: string;
+  toLabel?: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Date Range Picker Component
+ * Two date pickers with presets (today, last 7 days, this month, this fiscal year) in the tenant calendar
+ * and time zone.
+ * An end date before the start date is reported under the pickers; forms should also check it
+ * with `isValidDateRange` before submitting.
+ */
+export function DateRangePicker({
+  value,
+  onChange,
+  id = 'date-range',
+  fromLabel,
+  toLabel,
+  disabled = false,
+  className,
+}: DateRangePickerProps) {
+  const { t, i18n } = useTranslation();
+  const { config } = useGlobalLocaleFormatting();
+  const calendar = getCalendarSystem(getLanguageFormattingConfig(config, i18n.language));
+  const timeZone = getTimeZone(config);
+  const activePreset = findPreset(value, calendar, timeZone);
+  const isValid = isValidDateRange(value);
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex flex-wrap gap-2">
+        {DATE_RANGE_PRESETS.map((preset) => (
+          <Button
+            key={preset}
+            type="button"
+            variant={activePreset === preset ? 'default' : 'outline'}
+            size="sm"
+            disabled={disabled}
+            onClick={() => onChange(getPresetRange(preset, calendar, timeZone))}
+          >
+            {t(`dateRangePicker.presets.${preset}`)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label htmlFor={`${id}-from`}>{fromLabel ?? t('dateRangePicker.from')}</Label>
+          <DatePicker
+            id={`${id}-from`}
+            value={value.from}
+            onChange={(from) => onChange({ ...value, from })}
+            disabled={disabled}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${id}-to`}>{toLabel ?? t('dateRangePicker.to')}</Label>
+          <DatePicker
+            id={`${id}-to`}
+            value={value.to}
+            onChange={(to) => onChange({ ...value, to })}
+            disabled={disabled}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      {!isValid && (
+        <p className="text-sm text-red-600">{t('dateRangePicker.validation.endBeforeStart')}</p>
+      )}
+    </div>
+  );
+}
+
+export default DateRangePicker;
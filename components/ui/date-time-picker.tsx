@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Input } from '@/components/ui/input';
+import { DatePicker } from '@/components/ui/date-picker';
+import { cn } from '@/lib/utils';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { formatTimeZoneOffset, fromWallClock, getTimeZone, toWallClock } from '@/lib/timezone';
+
+interface DateTimePickerProps {
+  // UTC ISO timestamp, empty when nothing is picked
+  value?: string;
+  onChange?: (value: string) => void;
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+  required?: boolean;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Date Time Picker Component
+ * Picks a day in the tenant calendar and a time of day in the tenant time zone.
+ * The value is always a UTC timestamp, converted explicitly from and to the tenant wall clock.
+ */
+export const DateTimePicker = React.forwardRef<HTMLInputElement, DateTimePickerProps>(({
+  value = '',
+  onChange,
+  id,
+  className,
+  disabled = false,
+  required = false,
+}, ref) => {
+  const { t } = useTranslation();
+  const { config } = useGlobalLocaleFormatting();
+  const timeZone = getTimeZone(config);
+  // Time typed before a day is picked
+  const [pendingTime, setPendingTime] = useState('00:00');
+
+  const clock = value ? toWallClock(new Date(value), timeZone) : undefined;
+  const day = clock ? `${clock.year}-${pad(clock.month)}-${pad(clock.day)}` : '';
+  const time = clock ? `${pad(clock.hour)}:${pad(clock.minute)}` : pendingTime;
+
+  const emit = (nextDay: string, nextTime: string) => {
+    if (!nextDay) {
+      onChange?.('');
+      return;
+    }
+    const [year, month, dayOfMonth] = nextDay.split('-').map(Number);
+    const [hour, minute] = (nextTime || '00:00').split(':').map(Number);
+    onChange?.(fromWallClock({ year, month, day: dayOfMonth, hour, minute }, timeZone).toISOString());
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPendingTime(e.target.value);
+    if (day) {
+      emit(day, e.target.value);
+    }
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <DatePicker
+            ref={ref}
+            id={id}
+            value={day}
+            onChange={(nextDay) => emit(nextDay, time)}
+            disabled={disabled}
+            required={required}
+          />
+        </div>
+        <Input
+          id={id ? `${id}-time` : undefined}
+          type="time"
+          value={time}
+          onChange={handleTimeChange}
+          disabled={disabled}
+          className="w-32"
+          dir="ltr"
+          aria-label={t('dateTimePicker.time')}
+        />
+      </div>
+      <p className="text-xs text-gray-500">
+        {t('dateTimePicker.timeZone', { timeZone, offset: formatTimeZoneOffset(timeZone) })}
+      </p>
+    </div>
+  );
+});
+
+DateTimePicker.displayName = 'DateTimePicker';
+
+export default DateTimePicker;
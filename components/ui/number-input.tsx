@@ -0,0 +1,98 @@
+'use client';
+
+import React, { forwardRef, useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Input } from '@/components/ui/input';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import {
+  formatNumber,
+  getLanguageFormattingConfig,
+  parseNumber,
+} from '@/lib/locale-formatting';
+import type { LocaleFormattingResponse } from '@/types';
+
+type LocaleConfig = LocaleFormattingResponse['data'];
+
+interface NumberInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'value' | 'type'> {
+  value?: number;
+  // Receives undefined for an empty field and NaN for text that is not a number, like valueAsNumber
+  onChange?: (value: number | undefined) => void;
+}
+
+const toFieldValue = (text: string, parse: (input: string, config: LocaleConfig) => number | null, config: LocaleConfig) => {
+  if (!text.trim()) return undefined;
+  return parse(text, config) ?? NaN;
+};
+
+/**
+ * Keeps the text the user typed while reporting the parsed number
+ * The text is reformatted in the locale digits when the field loses focus
+ */
+function useLocalizedNumber(
+  value: number | undefined,
+  onChange: NumberInputProps['onChange'],
+  parse: (input: string, config: LocaleConfig) => number | null
+) {
+  const { i18n } = useTranslation();
+  const { config } = useGlobalLocaleFormatting();
+  const languageConfig = React.useMemo(() => getLanguageFormattingConfig(config, i18n.language), [config, i18n.language]);
+
+  const format = useCallback(
+    (number: number | undefined) => (number === undefined || Number.isNaN(number) ? '' : formatNumber(number, languageConfig)),
+    [languageConfig]
+  );
+  const [displayValue, setDisplayValue] = useState(() => format(value));
+
+  // Follow value changes made by the form (reset, setValue) without fighting the user's typing
+  useEffect(() => {
+    setDisplayValue((current) => {
+      const currentValue = toFieldValue(current, parse, languageConfig);
+      if (currentValue === value || (Number.isNaN(value) && Number.isNaN(currentValue))) return current;
+      return format(value);
+    });
+  }, [value, format, parse, languageConfig]);
+
+  const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setDisplayValue(e.target.value);
+    onChange?.(toFieldValue(e.target.value, parse, languageConfig));
+  }, [onChange, parse, languageConfig]);
+
+  const handleBlur = useCallback(() => {
+    const parsed = toFieldValue(displayValue, parse, languageConfig);
+    if (parsed !== undefined && !Number.isNaN(parsed)) {
+      setDisplayValue(format(parsed));
+    }
+  }, [displayValue, format, parse, languageConfig]);
+
+  return { displayValue, handleChange, handleBlur };
+}
+
+/**
+ * Number Input Component
+ * Accepts Latin, Persian and Arabic-Indic digits with the locale's separators and reports a number,
+ * so zod schemas validate the parsed value instead of the typed text
+ */
+const NumberInput = forwardRef<HTMLInputElement, NumberInputProps>(
+  ({ value, onChange, onBlur, inputMode = 'decimal', ...props }, ref) => {
+    const { displayValue, handleChange, handleBlur } = useLocalizedNumber(value, onChange, parseNumber);
+
+    return (
+      <Input
+        {...props}
+        ref={ref}
+        type="text"
+        inputMode={inputMode}
+        value={displayValue}
+        onChange={handleChange}
+        onBlur={(e) => {
+          handleBlur();
+          onBlur?.(e);
+        }}
+      />
+    );
+  }
+);
+
+NumberInput.displayName = 'NumberInput';
+
+export { NumberInput };
@@ -1,105 +1,137 @@
 'use client';
 
-import React, { forwardRef, useCallback, useState } from 'react';
+import React, { forwardRef, useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import { normalizeInput } from '@/lib/locale-formatting';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import {
+  PHONE_COUNTRIES,
+  PhoneCountryCode,
+  formatE164,
+  formatNationalNumber,
+  getDefaultPhoneCountry,
+  getPhoneCountry,
+  parsePhoneNumber,
+} from '@/lib/phone-numbers';
 
 interface PhoneInputProps extends Omit<React.InputHTMLAttributes<HTMLInputElement>, 'onChange' | 'value'> {
+  // E.164 number, empty when nothing is entered
   value?: string;
   onChange?: (value: string) => void;
+  // Country selected for an empty value, the tenant locale's country by default
+  defaultCountry?: PhoneCountryCode;
 }
 
+// Country select value for numbers outside the bundled countries, typed with their + prefix
+const OTHER_COUNTRY = 'other';
+type CountrySelection = PhoneCountryCode | typeof OTHER_COUNTRY;
+
+const getFlag = (code: PhoneCountryCode): string =>
+  String.fromCodePoint(...code.split('').map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65));
+
 /**
- * Phone Input Component with +-- --- --- ---- mask
- * Automatically formats phone numbers as users type
+ * Phone Input Component
+ * Country selector with the dialling code and a national number grouped by the country's rules.
+ * Persian and Arabic digits are accepted, numbers pasted with +/00 switch the country, and the
+ * value is always emitted in E.164 form.
  */
 const PhoneInput = forwardRef<HTMLInputElement, PhoneInputProps>(
-  ({ className, value = '', onChange, ...props }, ref) => {
-    const [displayValue, setDisplayValue] = useState(formatPhoneNumber(value));
-
-    // Format phone number to +-- --- --- ---- pattern
-    function formatPhoneNumber(input: string): string {
-      // Remove all non-digit characters except the leading +
-      const cleaned = input.replace(/[^\d+]/g, '');
-      
-      // Ensure it starts with +
-      let digits = cleaned.startsWith('+') ? cleaned.slice(1) : cleaned;
-      
-      // Limit to 14 digits max (including country code)
-      digits = digits.slice(0, 14);
-      
-      if (digits.length === 0) return '';
-      if (digits.length <= 2) return `+${digits}`;
-      if (digits.length <= 5) return `+${digits.slice(0, 2)} ${digits.slice(2)}`;
-      if (digits.length <= 8) return `+${digits.slice(0, 2)} ${digits.slice(2, 5)} ${digits.slice(5)}`;
-      
-      return `+${digits.slice(0, 2)} ${digits.slice(2, 5)} ${digits.slice(5, 8)} ${digits.slice(8)}`;
-    }
-
-    // Extract raw phone number (digits only with + prefix)
-    function getRawPhoneNumber(formatted: string): string {
-      const cleaned = formatted.replace(/[^\d+]/g, '');
-      return cleaned.startsWith('+') ? cleaned : cleaned ? `+${cleaned}` : '';
-    }
+  ({ className, value = '', onChange, defaultCountry, disabled, ...props }, ref) => {
+    const { t } = useTranslation();
+    const { config } = useGlobalLocaleFormatting();
+    const fallbackCountry = defaultCountry ?? getDefaultPhoneCountry(config.locale);
 
-    const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-      const inputValue = e.target.value;
-      
-      // If user is deleting and we're at a space, jump back to delete the digit
-      if (inputValue.length < displayValue.length && inputValue.endsWith(' ')) {
-        const newValue = inputValue.slice(0, -1);
-        const formatted = formatPhoneNumber(newValue);
-        setDisplayValue(formatted);
-        onChange?.(getRawPhoneNumber(formatted));
+    const [country, setCountry] = useState<CountrySelection>(() =>
+      value ? parsePhoneNumber(value, fallbackCountry).country ?? OTHER_COUNTRY : fallbackCountry);
+
+    // Follow numbers set from outside, e.g. when a form is reset
+    useEffect(() => {
+      if (value) {
+        setCountry(parsePhoneNumber(value, fallbackCountry).country ?? OTHER_COUNTRY);
+      }
+    }, [value, fallbackCountry]);
+
+    const parsed = parsePhoneNumber(value, country === OTHER_COUNTRY ? fallbackCountry : country);
+    const displayValue = country === OTHER_COUNTRY
+      ? (value ? `+${parsed.nationalNumber}` : '')
+      : parsed.country === country ? formatNationalNumber(parsed.nationalNumber, country) : '';
+
+    const emit = useCallback((input: string) => {
+      if (country === OTHER_COUNTRY) {
+        const digits = normalizeInput(input).replace(/\D/g, '');
+        const next = parsePhoneNumber(digits ? `+${digits}` : '', fallbackCountry);
+        setCountry(next.country ?? OTHER_COUNTRY);
+        onChange?.(formatE164(next));
         return;
       }
+      const next = parsePhoneNumber(input, country);
+      setCountry(next.country ?? OTHER_COUNTRY);
+      onChange?.(formatE164(next));
+    }, [country, fallbackCountry, onChange]);
+
+    const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+      const input = e.target.value;
+      const digits = normalizeInput(input).replace(/\D/g, '');
 
-      const formatted = formatPhoneNumber(inputValue);
-      setDisplayValue(formatted);
-      onChange?.(getRawPhoneNumber(formatted));
-    }, [displayValue, onChange]);
-
-    const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
-      // Handle backspace on spaces - delete the previous digit instead
-      if (e.key === 'Backspace' && e.currentTarget.selectionStart) {
-        const cursorPosition = e.currentTarget.selectionStart;
-        const charAtCursor = displayValue[cursorPosition - 1];
-        
-        if (charAtCursor === ' ') {
-          e.preventDefault();
-          const newValue = displayValue.slice(0, cursorPosition - 2) + displayValue.slice(cursorPosition);
-          const formatted = formatPhoneNumber(newValue);
-          setDisplayValue(formatted);
-          onChange?.(getRawPhoneNumber(formatted));
-          
-          // Set cursor position after the change
-          setTimeout(() => {
-            if (e.currentTarget) {
-              e.currentTarget.setSelectionRange(cursorPosition - 2, cursorPosition - 2);
-            }
-          }, 0);
-        }
+      // Deleting a group separator removes the digit before it instead
+      if (input.length < displayValue.length && digits === displayValue.replace(/\D/g, '')) {
+        const digitsBeforeCursor = input.slice(0, e.target.selectionStart ?? input.length).replace(/\D/g, '').length;
+        const remaining = digits.slice(0, Math.max(digitsBeforeCursor - 1, 0)) + digits.slice(digitsBeforeCursor);
+        emit(remaining);
+        return;
       }
-    }, [displayValue, onChange]);
 
-    // Update display value when external value changes
-    React.useEffect(() => {
-      const formatted = formatPhoneNumber(value);
-      setDisplayValue(formatted);
-    }, [value]);
+      emit(input);
+    }, [displayValue, emit]);
+
+    const handleCountryChange = (next: string) => {
+      const selection = next as CountrySelection;
+      setCountry(selection);
+      if (!parsed.nationalNumber) return;
+      onChange?.(selection === OTHER_COUNTRY
+        ? value
+        : formatE164(parsePhoneNumber(parsed.nationalNumber, selection)));
+    };
+
+    const selectedCountry = country === OTHER_COUNTRY ? undefined : getPhoneCountry(country);
 
     return (
-      <Input
-        {...props}
-        ref={ref}
-        type="tel"
-        value={displayValue}
-        onChange={handleInputChange}
-        onKeyDown={handleKeyDown}
-        placeholder="+-- --- --- ----"
-        className={cn(className)}
-        maxLength={17} // +XX XXX XXX XXXX = 17 characters max
-      />
+      <div className="flex gap-2" dir="ltr">
+        <Select value={country} onValueChange={handleCountryChange} disabled={disabled}>
+          <SelectTrigger
+            className={cn('w-28 shrink-0', className)}
+            aria-label={t('phoneInput.country')}
+          >
+            <SelectValue>
+              {selectedCountry ? `${getFlag(selectedCountry.code)} +${selectedCountry.dialCode}` : '+'}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {PHONE_COUNTRIES.map((option) => (
+              <SelectItem key={option.code} value={option.code}>
+                {getFlag(option.code)} {t(`phoneInput.countries.${option.code}`)} (+{option.dialCode})
+              </SelectItem>
+            ))}
+            <SelectItem value={OTHER_COUNTRY}>{t('phoneInput.countries.other')}</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          {...props}
+          ref={ref}
+          type="tel"
+          inputMode="tel"
+          value={displayValue}
+          onChange={handleInputChange}
+          disabled={disabled}
+          placeholder={selectedCountry
+            ? formatNationalNumber(selectedCountry.example, selectedCountry.code)
+            : '+'}
+          className={cn('flex-1', className)}
+        />
+      </div>
     );
   }
 );
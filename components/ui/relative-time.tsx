@@ -0,0 +1,58 @@
+'use client';
+
+import React, { useSyncExternalStore } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDateTime, formatRelativeTime } from '@/lib/date-formatting';
+
+const REFRESH_INTERVAL = 30 * 1000;
+
+// One clock shared by every relative timestamp on the page, ticking only while something is mounted
+const listeners = new Set<() => void>();
+let now = Date.now();
+let timer: ReturnType<typeof setInterval> | undefined;
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!timer) {
+    now = Date.now();
+    timer = setInterval(() => {
+      now = Date.now();
+      listeners.forEach((notify) => notify());
+    }, REFRESH_INTERVAL);
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && timer) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+};
+
+const getNow = () => now;
+
+interface RelativeTimeProps {
+  date: string;
+  className?: string;
+}
+
+/**
+ * Relative Time Component
+ * Shows how long ago (or how soon) a date is, e.g. "۳ ساعت پیش", and keeps it up to date.
+ * The absolute date and time is available as a tooltip.
+ */
+export function RelativeTime({ date, className }: RelativeTimeProps) {
+  const { i18n } = useTranslation();
+  const { config } = useGlobalLocaleFormatting();
+  const currentTime = useSyncExternalStore(subscribe, getNow, getNow);
+  const languageConfig = React.useMemo(() => getLanguageFormattingConfig(config, i18n.language), [config, i18n.language]);
+
+  return (
+    <time dateTime={date} title={formatDateTime(date, languageConfig)} className={className} suppressHydrationWarning>
+      {formatRelativeTime(date, languageConfig, currentTime)}
+    </time>
+  );
+}
@@ -32,8 +32,10 @@ import {
 
 import { userService } from '@/services/api';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
-import { formatDate as formatDateUtil } from '@/lib/locale-formatting';
-import type { User, ApiError, ChangeUserStatusResponse, BulkChangeStatusResponse, TenantLocale, TenantLanguage } from '@/types';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { getRoleDisplayName } from '@/lib/role-utils';
+import type { User, ApiError, ChangeUserStatusResponse, BulkChangeStatusResponse } from '@/types';
 
 interface UserStatusChangeDialogProps {
   isOpen: boolean;
@@ -62,19 +64,7 @@ export default function UserStatusChangeDialog({
   // Memoize the date formatting function to re-compute when language changes
   const formatDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDateUtil(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
 
@@ -120,7 +110,7 @@ export default function UserStatusChangeDialog({
       onSuccess?.(response);
     },
     onError: (error: ApiError) => {
-      setSubmitError(error.message || t('errors.GENERIC_ERROR'));
+      setSubmitError(error.message || t('errors.generic'));
       setShowConfirmation(false);
     },
   });
@@ -445,13 +435,13 @@ export default function UserStatusChangeDialog({
                     )}
                     <div className="flex items-center space-x-2">
                       <Shield className="h-4 w-4" />
-                      <span>{t(`common.roles.${singleUser.roleName}`)}</span>
+                      <span>{getRoleDisplayName(singleUser.roleName, t)}</span>
                     </div>
                     {singleUser.lastLoginAt && (
                       <div className="flex items-center space-x-2">
                         <Calendar className="h-4 w-4" />
                         <span>
-                          {t('users.list.lastLogin')}: {formatDate(singleUser.lastLoginAt)}
+                          {t('users.list.headers.lastLogin')}: {formatDate(singleUser.lastLoginAt)}
                         </span>
                       </div>
                     )}
@@ -28,7 +28,8 @@ import {
   UserX,
   UserMinus,
   CheckSquare,
-  Square
+  Square,
+  Eye
 } from 'lucide-react';
 
 import { userService } from '@/services/api';
@@ -40,11 +41,17 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { DateRangePicker } from '@/components/ui/date-range-picker';
 import { useGlobalLocaleFormatting } from '@/providers/locale-formatting-provider';
+import { formatPhoneNumber, getDefaultPhoneCountry } from '@/lib/phone-numbers';
 import { useClientPermissions } from '@/hooks/use-permissions';
-import { getRoleDisplayName } from '@/lib/role-utils';
-import { formatDate as formatDateUtil } from '@/lib/locale-formatting';
-import { PermissionAction, TenantLocale, TenantLanguage } from '@/types';
+import { useViewAs } from '@/hooks/use-view-as';
+import ViewAsDialog from '@/components/view-as-dialog';
+import { getRoleDisplayName, getRoleLabel } from '@/lib/role-utils';
+import { getLanguageFormattingConfig } from '@/lib/locale-formatting';
+import { formatDate as formatDateUtil } from '@/lib/date-formatting';
+import { DateRange, EMPTY_DATE_RANGE, isValidDateRange } from '@/lib/date-ranges';
+import { PermissionAction } from '@/types';
 import type { User, ApiError, UsersListParams, UserStatus } from '@/types';
 
 // Lazy load heavy dialog components for better performance
@@ -63,19 +70,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
   // Memoize the date formatting function to re-compute when language changes
   const formatDate = React.useCallback((dateString: string) => {
     // Create a locale-specific config based on current language
-    const languageSpecificConfig = {
-      ...config,
-      locale: (i18n.language === 'fa' ? 'iran' : 'uae') as TenantLocale,
-      language: (i18n.language === 'fa' ? 'persian' : 'arabic') as TenantLanguage,
-      dateFormat: {
-        ...config.dateFormat,
-        calendar: (i18n.language === 'fa' ? 'persian' : 'gregorian') as 'persian' | 'gregorian'
-      },
-      numberFormat: {
-        ...config.numberFormat,
-        digits: (i18n.language === 'fa' ? 'persian' : 'arabic') as 'persian' | 'arabic' | 'latin'
-      }
-    };
+    const languageSpecificConfig = getLanguageFormattingConfig(config, i18n.language);
     return formatDateUtil(dateString, languageSpecificConfig);
   }, [config, i18n.language]);
   
@@ -83,6 +78,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<UserStatus | 'all'>('all');
   const [roleFilter, setRoleFilter] = useState<string>('all');
+  const [lastLoginRange, setLastLoginRange] = useState<DateRange>(EMPTY_DATE_RANGE);
   const [sortBy, setSortBy] = useState<'fullName' | 'email' | 'lastLoginAt' | 'createdAt' | 'status'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [currentPage, setCurrentPage] = useState(1);
@@ -100,6 +96,11 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
   // Permission checks
   const { canUpdate, canDelete } = useClientPermissions();
   const canManageUserStatus = canUpdate('users'); // User status management requires UPDATE permission
+  // Viewing as a user depends on the signed-in user's own users:manage, not on the current view
+  const { canViewAs, isViewingAs } = useViewAs();
+  const { user: currentUser } = useClientPermissions();
+  const [viewAsUser, setViewAsUser] = useState<User | null>(null);
+  const canViewAsUser = (user: User) => canViewAs && !isViewingAs && user.id !== currentUser?.userId;
   
   // Bulk selection state
   const [selectedUsers, setSelectedUsers] = useState<string[]>([]);
@@ -137,9 +138,19 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
     if (roleFilter !== 'all') {
       params.roleId = roleFilter;
     }
+
+    // An end date before the start date is reported by the picker and not sent
+    if (isValidDateRange(lastLoginRange)) {
+      if (lastLoginRange.from) {
+        params.lastLoginFrom = lastLoginRange.from;
+      }
+      if (lastLoginRange.to) {
+        params.lastLoginTo = lastLoginRange.to;
+      }
+    }
     
     return params;
-  }, [currentPage, limit, sortBy, sortOrder, debouncedSearchTerm, statusFilter, roleFilter]);
+  }, [currentPage, limit, sortBy, sortOrder, debouncedSearchTerm, statusFilter, roleFilter, lastLoginRange]);
 
   // Fetch users with filtering and sorting
   const {
@@ -204,6 +215,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
     setSearchTerm('');
     setStatusFilter('all');
     setRoleFilter('all');
+    setLastLoginRange(EMPTY_DATE_RANGE);
     setSortBy('createdAt');
     setSortOrder('desc');
     setCurrentPage(1);
@@ -266,7 +278,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
     }
   };
 
-  const hasActiveFilters = searchTerm || statusFilter !== 'all' || roleFilter !== 'all' || sortBy !== 'createdAt' || sortOrder !== 'desc';
+  const hasActiveFilters = searchTerm || statusFilter !== 'all' || roleFilter !== 'all' || lastLoginRange.from || lastLoginRange.to || sortBy !== 'createdAt' || sortOrder !== 'desc';
 
   return (
     <div className="space-y-6">
@@ -379,7 +391,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                       <SelectItem value="all">{t('users.list.filters.role.all')}</SelectItem>
                       {rolesData?.data.map((role) => (
                         <SelectItem key={role.id} value={role.id}>
-                          {getRoleDisplayName(role.name, t)}
+                          {getRoleLabel(role, t)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -414,6 +426,20 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                     </SelectContent>
                   </Select>
                 </div>
+
+                {/* Last Login Range */}
+                <div className="md:col-span-2 lg:col-span-3">
+                  <DateRangePicker
+                    id="last-login"
+                    value={lastLoginRange}
+                    onChange={(range) => {
+                      setLastLoginRange(range);
+                      setCurrentPage(1);
+                    }}
+                    fromLabel={t('users.list.filters.lastLogin.from')}
+                    toLabel={t('users.list.filters.lastLogin.to')}
+                  />
+                </div>
               </div>
             )}
           </div>
@@ -639,7 +665,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                         </div>
                         
                         <div className="text-sm text-gray-600 text-center">
-                          {t(`common.roles.${user.roleName}`)}
+                          {getRoleDisplayName(user.roleName, t)}
                         </div>
                         
                         <div className="flex justify-center">
@@ -671,6 +697,17 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                           >
                             <Key className="h-4 w-4" />
                           </Button>
+                          {canViewAsUser(user) && (
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={() => setViewAsUser(user)}
+                              className="hover:bg-amber-50 hover:text-amber-600"
+                              title={t('users.list.actions.viewAs')}
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          )}
                           {canManageUserStatus && (
                             <>
                               {user.status === 'active' ? (
@@ -734,7 +771,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                                 {user.phoneNumber && (
                                   <div className="flex items-center">
                                     <Phone className="h-4 w-4 mr-1 flex-shrink-0" />
-                                    <span dir="ltr">{user.phoneNumber}</span>
+                                    <span dir="ltr">{formatPhoneNumber(user.phoneNumber, getDefaultPhoneCountry(config.locale))}</span>
                                   </div>
                                 )}
                               </div>
@@ -746,7 +783,7 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                                 
                                 <div className="flex items-center text-sm text-gray-600">
                                   <Shield className="h-4 w-4 mr-1" />
-                                  {t(`common.roles.${user.roleName}`)}
+                                  {getRoleDisplayName(user.roleName, t)}
                                 </div>
                                 
                                 <div className="flex items-center text-sm text-gray-600">
@@ -776,6 +813,17 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
                             >
                               <Key className="h-4 w-4" />
                             </Button>
+                            {canViewAsUser(user) && (
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                onClick={() => setViewAsUser(user)}
+                                className="hover:bg-amber-50 hover:text-amber-600"
+                                title={t('users.list.actions.viewAs')}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            )}
                             {canManageUserStatus && (
                               <>
                                 {user.status === 'active' ? (
@@ -866,6 +914,15 @@ export default function UsersList({ onCreateUser, onEditUser }: UsersListProps)
         targetStatus={targetStatus}
         onSuccess={handleStatusChangeSuccess}
       />
+
+      {/* View As Dialog */}
+      {viewAsUser && (
+        <ViewAsDialog
+          target={{ type: 'user', user: viewAsUser }}
+          isOpen
+          onClose={() => setViewAsUser(null)}
+        />
+      )}
     </div>
   );
 }
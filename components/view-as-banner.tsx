@@ -0,0 +1,66 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'next/navigation';
+import { Eye, Loader2, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useViewAs } from '@/hooks/use-view-as';
+import { getRoleDisplayName } from '@/lib/role-utils';
+
+/**
+ * View As Banner
+ * Stays on every dashboard page while viewing as another user or role, with the way back
+ */
+export default function ViewAsBanner() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { session, stopViewAs } = useViewAs();
+  const [isStopping, setIsStopping] = useState(false);
+
+  if (!session) {
+    return null;
+  }
+
+  const handleStop = async () => {
+    setIsStopping(true);
+    await stopViewAs();
+    setIsStopping(false);
+    router.push('/dashboard/users');
+  };
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-0 inset-x-0 z-50 bg-gradient-to-r from-amber-500 to-orange-500 text-white shadow-lg"
+    >
+      <div className="max-w-screen-2xl mx-auto px-6 py-3 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Eye className="h-5 w-5 flex-shrink-0" />
+          <div>
+            <p className="font-semibold">
+              {session.targetType === 'user'
+                ? t('viewAs.banner.user', { name: session.targetName, roleName: getRoleDisplayName(session.roleName, t) })
+                : t('viewAs.banner.role', { name: session.targetName })}
+            </p>
+            <p className="text-sm text-white/90">{t('viewAs.banner.readOnly')}</p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleStop}
+          disabled={isStopping}
+          className="bg-white/10 border-white/60 text-white hover:bg-white/20 hover:text-white"
+        >
+          {isStopping ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <LogOut className="h-4 w-4 mr-2" />
+          )}
+          {t('viewAs.banner.exit')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useRouter } from 'next/navigation';
+import { Eye, Loader2, ShieldAlert } from 'lucide-react';
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useViewAs } from '@/hooks/use-view-as';
+import { getRoleDisplayName, getRoleLabel } from '@/lib/role-utils';
+import type { ApiError, Role, User } from '@/types';
+
+export type ViewAsTarget =
+  | { type: 'user'; user: User }
+  | { type: 'role'; role: Role };
+
+interface ViewAsDialogProps {
+  target: ViewAsTarget;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Confirm viewing the dashboard as a user or role
+ * The view starts on the dashboard landing page, read-only and recorded in the audit trail.
+ */
+export default function ViewAsDialog({ target, isOpen, onClose }: ViewAsDialogProps) {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { startViewAsUser, startViewAsRole } = useViewAs();
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<ApiError | null>(null);
+
+  const targetName = target.type === 'user' ? target.user.fullName : getRoleLabel(target.role, t);
+  const roleName = target.type === 'user' ? getRoleDisplayName(target.user.roleName, t) : targetName;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    try {
+      if (target.type === 'user') {
+        await startViewAsUser(target.user);
+      } else {
+        await startViewAsRole(target.role, targetName);
+      }
+      onClose();
+      router.push('/dashboard');
+    } catch (startError) {
+      setError(startError as ApiError);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && !isStarting && onClose()}>
+      <DialogContent className="dashboard-card rounded-2xl max-w-md">
+        <DialogHeader>
+          <DialogTitle className="dashboard-text-primary flex items-center gap-3">
+            <div className="h-8 w-8 rounded-full bg-amber-100 flex items-center justify-center">
+              <Eye className="h-4 w-4 text-amber-600" />
+            </div>
+            {t('viewAs.dialog.title', { name: targetName })}
+          </DialogTitle>
+          <DialogDescription className="dashboard-text-secondary">
+            {t(`viewAs.dialog.description.${target.type}`, { name: targetName, roleName })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4 space-y-4">
+          <Alert className="border-amber-200 bg-amber-50">
+            <ShieldAlert className="h-4 w-4 text-amber-600" />
+            <AlertDescription className="text-amber-800">
+              {t('viewAs.dialog.readOnlyNotice')}
+            </AlertDescription>
+          </Alert>
+
+          {error && (
+            <Alert className="border-red-200 bg-red-50">
+              <AlertDescription className="text-red-800">
+                {error.message || t('viewAs.dialog.error')}
+              </AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter className="gap-3">
+          <Button
+            variant="outline"
+            className="dashboard-button-secondary rounded-xl"
+            disabled={isStarting}
+            onClick={onClose}
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={isStarting}
+            className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 text-white rounded-xl min-h-[44px]"
+          >
+            {isStarting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {t('viewAs.dialog.starting')}
+              </>
+            ) : (
+              <>
+                <Eye className="h-4 w-4 mr-2" />
+                {t('viewAs.dialog.confirm')}
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
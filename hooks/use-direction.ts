@@ -2,18 +2,18 @@
 
 import { useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { getLocaleDefinition } from '@/lib/locale-registry';
 
 export function useDirection() {
   const { i18n } = useTranslation();
+  const { direction, fontClass } = getLocaleDefinition(i18n.language);
 
   useEffect(() => {
-    const direction = i18n.language === 'fa' || i18n.language === 'ar' ? 'rtl' : 'ltr';
     document.documentElement.setAttribute('dir', direction);
     
     // Update font class based on language
-    const fontClass = i18n.language === 'fa' || i18n.language === 'ar' ? 'font-persian' : 'font-english';
     document.documentElement.className = fontClass;
-  }, [i18n.language]);
+  }, [direction, fontClass]);
 
-  return i18n.language === 'fa' || i18n.language === 'ar' ? 'rtl' : 'ltr';
+  return direction;
 }
@@ -1,5 +1,14 @@
 import { useTranslation } from 'react-i18next';
 import { useCallback } from 'react';
+import { broadcastSessionEvent, readStoredUser } from '@/lib/session-sync';
+import { getLocaleDefinition, isRegisteredLocale } from '@/lib/locale-registry';
+
+// Direction and font class of the language, taken from the locale registry
+const applyDocumentLocale = (languageCode: string) => {
+  const { direction, fontClass } = getLocaleDefinition(languageCode);
+  document.documentElement.setAttribute('dir', direction);
+  document.documentElement.className = fontClass;
+};
 
 /**
  * Utility function to ensure language persistence across page navigations
@@ -11,11 +20,7 @@ export const useLanguagePersistence = () => {
    * Apply language styles to document
    */
   const applyLanguageStyles = useCallback((languageCode: string = i18n.language) => {
-    const dir = languageCode === 'fa' || languageCode === 'ar' ? 'rtl' : 'ltr';
-    document.documentElement.setAttribute('dir', dir);
-    
-    const fontClass = languageCode === 'fa' || languageCode === 'ar' ? 'font-persian' : 'font-english';
-    document.documentElement.className = fontClass;
+    applyDocumentLocale(languageCode);
   }, [i18n.language]);
 
   /**
@@ -39,7 +44,7 @@ export const useLanguagePersistence = () => {
         return;
       }
       
-      if (savedLanguage && ['fa', 'ar', 'en'].includes(savedLanguage)) {
+      if (isRegisteredLocale(savedLanguage)) {
         // Only change language if it's different from current
         if (savedLanguage !== i18n.language) {
           i18n.changeLanguage(savedLanguage);
@@ -63,18 +68,19 @@ export const useLanguagePersistence = () => {
   }, []);
 
   /**
-   * Change language and save it to localStorage
+   * Change language, save it to localStorage and propagate it to the other open tabs
    */
   const changeLanguage = useCallback((languageCode: string) => {
     saveLanguage(languageCode);
     i18n.changeLanguage(languageCode);
+    broadcastSessionEvent({
+      type: 'language-changed',
+      tenantId: readStoredUser()?.tenantId,
+      language: languageCode,
+    });
     
     // Update document direction and font class
-    const dir = languageCode === 'fa' || languageCode === 'ar' ? 'rtl' : 'ltr';
-    document.documentElement.setAttribute('dir', dir);
-    
-    const fontClass = languageCode === 'fa' || languageCode === 'ar' ? 'font-persian' : 'font-english';
-    document.documentElement.className = fontClass;
+    applyDocumentLocale(languageCode);
   }, [i18n, saveLanguage]);
 
   /**
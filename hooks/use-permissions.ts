@@ -4,14 +4,23 @@ import React from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { permissionService } from '@/services/api';
 import type { 
+  ApiError,
+  CloneRoleRequest,
+  CreateRoleRequest,
+  DeleteRoleResponse,
   PermissionCheckRequest, 
   PermissionAuditParams,
+  PermissionCheck,
+  RoleResponse,
+  UpdateRoleRequest,
   UpdateRolePermissionsRequest,
+  UpdateRolePermissionsResponse,
 } from '@/types';
 import { PermissionAction } from '@/types';
 import { useUser } from './use-user';
-import { hasResourceAction, canManagePermissions, canViewAudit } from '@/lib/role-utils';
-import { hasDynamicPermission, hasAnyResourcePermission, getDynamicAllowedActions } from '@/lib/dynamic-permission-utils';
+import { useViewAs } from './use-view-as';
+import { hasDynamicPermission } from '@/lib/dynamic-permission-utils';
+import { MAX_ANALYZED_CHECKS } from '@/lib/permission-audit-analytics';
 
 /**
  * ? - Permission checking and management hooks
@@ -46,9 +55,8 @@ export function useRolePermissions(roleId: string) {
 export function useUpdateRolePermissions() {
   const queryClient = useQueryClient();
 
-  return useMutation({
-    mutationFn: ({ roleId, data }: { roleId: string; data: UpdateRolePermissionsRequest }) =>
-      permissionService.updateRolePermissions(roleId, data),
+  return useMutation<UpdateRolePermissionsResponse, ApiError, { roleId: string; data: UpdateRolePermissionsRequest }>({
+    mutationFn: ({ roleId, data }) => permissionService.updateRolePermissions(roleId, data),
     onSuccess: (_, { roleId }) => {
       // Invalidate related queries
       queryClient.invalidateQueries({ queryKey: ['rolePermissions', roleId] });
@@ -57,6 +65,77 @@ export function useUpdateRolePermissions() {
   });
 }
 
+/**
+ * Hook to preview how many users and sessions a role permission change reaches
+ */
+export function useRolePermissionsImpact(roleId: string, data: UpdateRolePermissionsRequest, enabled = true) {
+  return useQuery({
+    queryKey: ['rolePermissionsImpact', roleId, data],
+    queryFn: () => permissionService.previewRolePermissions(roleId, data),
+    enabled: enabled && !!roleId && data.permissions.length > 0,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Hook to create a custom role
+ */
+export function useCreateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation<RoleResponse, ApiError, CreateRoleRequest>({
+    mutationFn: (data) => permissionService.createRole(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+    },
+  });
+}
+
+/**
+ * Hook to rename a custom role
+ */
+export function useRenameRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation<RoleResponse, ApiError, { roleId: string; data: UpdateRoleRequest }>({
+    mutationFn: ({ roleId, data }) => permissionService.renameRole(roleId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+      // Users lists show the role name
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+    },
+  });
+}
+
+/**
+ * Hook to clone a role into a new custom role
+ */
+export function useCloneRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation<RoleResponse, ApiError, { roleId: string; data: CloneRoleRequest }>({
+    mutationFn: ({ roleId, data }) => permissionService.cloneRole(roleId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+    },
+  });
+}
+
+/**
+ * Hook to delete a custom role
+ */
+export function useDeleteRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation<DeleteRoleResponse, ApiError, string>({
+    mutationFn: (roleId) => permissionService.deleteRole(roleId),
+    onSuccess: (_, roleId) => {
+      queryClient.invalidateQueries({ queryKey: ['roles'] });
+      queryClient.removeQueries({ queryKey: ['rolePermissions', roleId] });
+    },
+  });
+}
+
 /**
  * Hook to check specific permission
  */
@@ -76,60 +155,70 @@ export function usePermissionAudit(params?: PermissionAuditParams) {
   return useQuery({
     queryKey: ['permissionAudit', params],
     queryFn: () => permissionService.getPermissionAudit(params),
-    enabled: !!user && canViewAudit(user.roleName),
+    enabled: !!user && hasDynamicPermission(user.permissions || [], 'audit', PermissionAction.READ),
     staleTime: 30 * 1000, // 30 seconds
   });
 }
 
+/**
+ * Hook to load the permission checks of a date range for the audit analytics
+ * Pages through the audit log until every check of the range, or MAX_ANALYZED_CHECKS of them, is loaded.
+ */
+export function usePermissionAuditChecks(params: Pick<PermissionAuditParams, 'dateFrom' | 'dateTo'>, enabled = true) {
+  const { user } = useUser();
+
+  return useQuery({
+    queryKey: ['permissionAudit', 'analytics', params],
+    queryFn: async () => {
+      const limit = 100;
+      const checks: PermissionCheck[] = [];
+      let total = 0;
+
+      for (let page = 1; checks.length < MAX_ANALYZED_CHECKS; page++) {
+        const response = await permissionService.getPermissionAudit({ ...params, page, limit });
+        checks.push(...response.data.permissionChecks);
+        total = response.data.pagination.total;
+        if (page >= response.data.pagination.totalPages) break;
+      }
+
+      return { checks: checks.slice(0, MAX_ANALYZED_CHECKS), total };
+    },
+    enabled: enabled && !!user && hasDynamicPermission(user.permissions || [], 'audit', PermissionAction.READ),
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
 /**
  * Hook for client-side permission checking using dynamic permissions from login response
+ * While viewing as another user or role, checks use their permissions instead (see use-view-as.tsx)
  */
 export function useClientPermissions() {
   const { user } = useUser();
+  const { effectivePermissions, isViewingAs } = useViewAs();
 
   const hasPermission = (resource: string, action: PermissionAction): boolean => {
     if (!user) return false;
     // Use dynamic permissions from login response instead of hardcoded role-based logic
-    return hasDynamicPermission(user.permissions || [], resource, action);
+    return hasDynamicPermission(effectivePermissions, resource, action);
   };
 
-  const canManage = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.MANAGE);
-  };
+  const canManage = (resource: string): boolean => hasPermission(resource, PermissionAction.MANAGE);
 
-  const canRead = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.READ);
-  };
+  const canRead = (resource: string): boolean => hasPermission(resource, PermissionAction.READ);
 
-  const canCreate = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.CREATE);
-  };
+  const canCreate = (resource: string): boolean => hasPermission(resource, PermissionAction.CREATE);
 
-  const canUpdate = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.UPDATE);
-  };
+  const canUpdate = (resource: string): boolean => hasPermission(resource, PermissionAction.UPDATE);
 
-  const canDelete = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.DELETE);
-  };
+  const canDelete = (resource: string): boolean => hasPermission(resource, PermissionAction.DELETE);
 
-  const canExport = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.EXPORT);
-  };
+  const canExport = (resource: string): boolean => hasPermission(resource, PermissionAction.EXPORT);
 
-  const canImport = (resource: string): boolean => {
-    if (!user) return false;
-    return hasDynamicPermission(user.permissions || [], resource, PermissionAction.IMPORT);
-  };
+  const canImport = (resource: string): boolean => hasPermission(resource, PermissionAction.IMPORT);
 
   return {
     user,
+    isViewingAs,
     hasPermission,
     canManage,
     canRead,
@@ -139,8 +228,8 @@ export function useClientPermissions() {
     canExport,
     canImport,
     // Use dynamic permissions for these as well
-    canManagePermissions: user ? hasDynamicPermission(user.permissions || [], 'permissions', PermissionAction.MANAGE) : false,
-    canViewAudit: user ? hasDynamicPermission(user.permissions || [], 'audit', PermissionAction.READ) : false,
+    canManagePermissions: hasPermission('permissions', PermissionAction.MANAGE),
+    canViewAudit: hasPermission('audit', PermissionAction.READ),
   };
 }
 
@@ -1,17 +1,34 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
-import type { UserRole } from '@/lib/role-utils';
+import i18n from '@/i18n';
+import { authService, setReauthenticationHandler } from '@/services/api';
+import {
+  readStoredUser,
+  writeStoredUser,
+  clearStoredUser,
+  broadcastSessionEvent,
+  subscribeToSessionEvents,
+  isSameTenantEvent,
+} from '@/lib/session-sync';
 
-interface UserInfo {
+// Warn the user this long before the session expires
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 15 * 1000;
+
+export type SessionStatus = 'active' | 'expiring' | 'expired';
+
+export interface UserInfo {
   userId: string;
   tenantId: string;
   email: string;
   fullName: string;
-  roleName: UserRole;
+  // Built-in role or the name of a custom role
+  roleName: string;
   permissions: string[];
   sessionExpiresAt: string;
+  rememberMe?: boolean; // rememberMeEnabled from login, keeps the session in localStorage
 }
 
 interface UserContextType {
@@ -20,8 +37,25 @@ interface UserContextType {
   setUser: (user: UserInfo | null) => void;
   logout: () => void;
   isLoading: boolean;
+  sessionStatus: SessionStatus;
+  extendSession: () => Promise<void>;
+  isReauthenticationRequired: boolean;
+  completeReauthentication: (user: UserInfo) => void;
+  cancelReauthentication: () => void;
 }
 
+interface PendingReauthentication {
+  resolve: () => void;
+  reject: (reason?: unknown) => void;
+}
+
+const getSessionStatus = (sessionExpiresAt: string): SessionStatus => {
+  const remaining = new Date(sessionExpiresAt).getTime() - Date.now();
+  if (remaining <= 0) return 'expired';
+  if (remaining <= SESSION_WARNING_MS) return 'expiring';
+  return 'active';
+};
+
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 interface UserProviderProps {
@@ -31,9 +65,14 @@ interface UserProviderProps {
 export function UserProvider({ children }: UserProviderProps) {
   const [user, setUser] = useState<UserInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus>('active');
+  const [isReauthenticationRequired, setIsReauthenticationRequired] = useState(false);
+  const pendingReauthentications = useRef<PendingReauthentication[]>([]);
+  const userRef = useRef<UserInfo | null>(null);
   const router = useRouter();
 
   const isAuthenticated = user !== null;
+  userRef.current = user;
 
   useEffect(() => {
     // Check for existing session on mount
@@ -42,18 +81,18 @@ export function UserProvider({ children }: UserProviderProps) {
 
   const checkSession = async () => {
     try {
-      // Try to get user info from session storage or API
-      const storedUser = sessionStorage.getItem('user');
-      if (storedUser) {
-        const userData = JSON.parse(storedUser);
-        
+      // Try to get user info from session storage, or local storage for remembered sessions
+      const userData = readStoredUser<UserInfo>();
+      if (userData) {
         // Check if session is still valid
         const expiresAt = new Date(userData.sessionExpiresAt);
         if (expiresAt > new Date()) {
           setUser(userData);
+          // Copy a remembered session into this tab's session storage
+          writeStoredUser(userData);
         } else {
           // Session expired, clear data
-          sessionStorage.removeItem('user');
+          clearStoredUser();
         }
       }
     } catch (error) {
@@ -63,30 +102,135 @@ export function UserProvider({ children }: UserProviderProps) {
     }
   };
 
+  // Session-expiry watchdog: polls instead of one long timeout since remember-me sessions
+  // outlive the maximum setTimeout delay
+  useEffect(() => {
+    if (!user?.sessionExpiresAt) {
+      setSessionStatus('active');
+      return;
+    }
+
+    const checkExpiry = () => setSessionStatus(getSessionStatus(user.sessionExpiresAt));
+    checkExpiry();
+
+    const interval = setInterval(checkExpiry, SESSION_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', checkExpiry);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', checkExpiry);
+    };
+  }, [user?.sessionExpiresAt]);
+
+  // An expired session is handled in place by the re-login dialog instead of a redirect
+  useEffect(() => {
+    if (sessionStatus === 'expired') {
+      setIsReauthenticationRequired(true);
+    }
+  }, [sessionStatus]);
+
+  const requestReauthentication = useCallback(() => {
+    return new Promise<void>((resolve, reject) => {
+      pendingReauthentications.current.push({ resolve, reject });
+      setIsReauthenticationRequired(true);
+    });
+  }, []);
+
+  // Let the apiClient queue 401 responses behind the re-login dialog while signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    setReauthenticationHandler(requestReauthentication);
+    return () => setReauthenticationHandler(null);
+  }, [isAuthenticated, requestReauthentication]);
+
+  const settlePendingReauthentications = useCallback((succeeded: boolean) => {
+    const pending = pendingReauthentications.current;
+    pendingReauthentications.current = [];
+    pending.forEach(({ resolve, reject }) => (succeeded ? resolve() : reject()));
+  }, []);
+
+  // Apply login, logout, permission and language changes made in other tabs of the same tenant
+  useEffect(() => {
+    return subscribeToSessionEvents<UserInfo>((event) => {
+      if (!isSameTenantEvent(event, userRef.current?.tenantId)) return;
+
+      if (event.type === 'login' || event.type === 'user-updated') {
+        setUser(event.user);
+        writeStoredUser(event.user);
+        // Another tab re-authenticated, so requests queued here can be replayed
+        setIsReauthenticationRequired(false);
+        settlePendingReauthentications(true);
+      } else if (event.type === 'language-changed') {
+        if (event.language !== i18n.language) {
+          i18n.changeLanguage(event.language);
+        }
+      } else if (event.type === 'logout' && userRef.current) {
+        setUser(null);
+        clearStoredUser();
+        setIsReauthenticationRequired(false);
+        settlePendingReauthentications(false);
+        router.push('/login');
+      }
+    });
+  }, [router, settlePendingReauthentications]);
+
   const handleSetUser = (userData: UserInfo | null) => {
+    const previousUser = userRef.current;
     setUser(userData);
     
     if (userData) {
-      // Store user data in session storage
-      sessionStorage.setItem('user', JSON.stringify(userData));
+      // Store user data and let the other tabs pick it up
+      writeStoredUser(userData);
+      broadcastSessionEvent({
+        type: previousUser ? 'user-updated' : 'login',
+        tenantId: userData.tenantId,
+        user: userData,
+      });
     } else {
       // Clear user data
-      sessionStorage.removeItem('user');
+      clearStoredUser();
+      if (previousUser) {
+        broadcastSessionEvent({ type: 'logout', tenantId: previousUser.tenantId });
+      }
     }
   };
 
   const logout = () => {
-    setUser(null);
-    sessionStorage.removeItem('user');
+    handleSetUser(null);
     router.push('/login');
   };
 
+  const extendSession = async () => {
+    const response = await authService.refreshSession();
+    if (userRef.current) {
+      handleSetUser({ ...userRef.current, sessionExpiresAt: response.data.sessionExpiresAt });
+    }
+  };
+
+  const completeReauthentication = (userData: UserInfo) => {
+    handleSetUser(userData);
+    setIsReauthenticationRequired(false);
+    settlePendingReauthentications(true);
+  };
+
+  const cancelReauthentication = () => {
+    setIsReauthenticationRequired(false);
+    settlePendingReauthentications(false);
+    logout();
+  };
+
   const contextValue: UserContextType = {
     user,
     isAuthenticated,
     setUser: handleSetUser,
     logout,
     isLoading,
+    sessionStatus,
+    extendSession,
+    isReauthenticationRequired,
+    completeReauthentication,
+    cancelReauthentication,
   };
 
   return (
@@ -0,0 +1,157 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useUser } from '@/hooks/use-user';
+import { useOfflineSync } from '@/providers/offline-sync-provider';
+import { auditService, permissionService } from '@/services/api';
+import { hasDynamicPermission } from '@/lib/dynamic-permission-utils';
+import { toPermissionString } from '@/lib/role-permission-diff';
+import {
+  clearViewAsSession,
+  readViewAsSession,
+  writeViewAsSession,
+  type ViewAsSession,
+} from '@/lib/view-as';
+import { AuditAction, PermissionAction } from '@/types';
+import type { Role, User } from '@/types';
+
+interface ViewAsContextType {
+  session: ViewAsSession | null;
+  isViewingAs: boolean;
+  // Whether the signed-in user may start a view, from their own permissions
+  canViewAs: boolean;
+  // Permissions the client-side gates use: the viewed user's or role's while viewing, otherwise the signed-in user's
+  effectivePermissions: string[];
+  startViewAsUser: (user: User) => Promise<void>;
+  startViewAsRole: (role: Role, roleName: string) => Promise<void>;
+  stopViewAs: () => Promise<void>;
+}
+
+const ViewAsContext = createContext<ViewAsContextType | null>(null);
+
+interface ViewAsProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * View As Provider
+ * Holds the read-only "view as" session of the current tab, see lib/view-as.ts.
+ * Starting and ending a view are recorded in the audit trail; a view is only started once its
+ * audit entry is written.
+ */
+export function ViewAsProvider({ children }: ViewAsProviderProps) {
+  const { user, isLoading } = useUser();
+  const queryClient = useQueryClient();
+  const { syncNow } = useOfflineSync();
+  // Restored from the tab so a reload stays in the same view
+  const [storedSession, setStoredSession] = useState<ViewAsSession | null>(readViewAsSession);
+
+  const canViewAs = user ? hasDynamicPermission(user.permissions || [], 'users', PermissionAction.MANAGE) : false;
+  // A view only belongs to the user who started it, and only while they hold users:manage
+  const session = storedSession && user && storedSession.viewerUserId === user.userId && canViewAs
+    ? storedSession
+    : null;
+
+  // Drop views left behind by another sign-in or a revoked users:manage
+  useEffect(() => {
+    if (!isLoading && storedSession && !session) {
+      clearViewAsSession();
+      setStoredSession(null);
+      syncNow();
+    }
+  }, [isLoading, storedSession, session, syncNow]);
+
+  const start = useCallback(async (target: Omit<ViewAsSession, 'viewerUserId' | 'permissions' | 'startedAt'>) => {
+    if (!user || !canViewAs) return;
+
+    const rolePermissions = await permissionService.getRolePermissions(target.roleId);
+    const permissions = rolePermissions.data.permissions
+      .filter((permission) => permission.isGranted)
+      .map(toPermissionString);
+
+    await auditService.recordEvent({
+      action: AuditAction.VIEW_AS_STARTED,
+      targetUserId: target.targetType === 'user' ? target.targetId : undefined,
+      description: `Viewing as ${target.targetName}`,
+      metadata: { targetType: target.targetType, targetId: target.targetId, roleId: target.roleId },
+    });
+
+    const next: ViewAsSession = {
+      ...target,
+      viewerUserId: user.userId,
+      permissions,
+      startedAt: new Date().toISOString(),
+    };
+    writeViewAsSession(next);
+    setStoredSession(next);
+  }, [user, canViewAs]);
+
+  const startViewAsUser = useCallback((target: User) => start({
+    targetType: 'user',
+    targetId: target.id,
+    targetName: target.fullName,
+    roleId: target.roleId,
+    roleName: target.roleName,
+  }), [start]);
+
+  const startViewAsRole = useCallback((role: Role, roleName: string) => start({
+    targetType: 'role',
+    targetId: role.id,
+    targetName: roleName,
+    roleId: role.id,
+    roleName: role.name,
+  }), [start]);
+
+  const stopViewAs = useCallback(async () => {
+    const ended = session;
+    clearViewAsSession();
+    setStoredSession(null);
+    // Mutations refused during the view may have left errors in the cache
+    queryClient.getMutationCache().clear();
+    // Inventory changes queued offline were held back during the view
+    syncNow();
+
+    if (ended) {
+      // The view is already over, a failed audit write must not keep the viewer in it
+      await auditService.recordEvent({
+        action: AuditAction.VIEW_AS_ENDED,
+        targetUserId: ended.targetType === 'user' ? ended.targetId : undefined,
+        description: `Stopped viewing as ${ended.targetName}`,
+        metadata: { targetType: ended.targetType, targetId: ended.targetId, startedAt: ended.startedAt },
+      }).catch((error) => console.error('Failed to record the end of view as:', error));
+    }
+  }, [session, queryClient, syncNow]);
+
+  const value: ViewAsContextType = {
+    session,
+    isViewingAs: !!session,
+    canViewAs,
+    effectivePermissions: session ? session.permissions : user?.permissions || [],
+    startViewAsUser,
+    startViewAsRole,
+    stopViewAs,
+  };
+
+  return <ViewAsContext.Provider value={value}>{children}</ViewAsContext.Provider>;
+}
+
+/**
+ * View-as state, outside the dashboard (no provider) the signed-in user's own permissions apply
+ */
+export function useViewAs(): ViewAsContextType {
+  const context = useContext(ViewAsContext);
+  const { user } = useUser();
+
+  if (context) return context;
+
+  return {
+    session: null,
+    isViewingAs: false,
+    canViewAs: false,
+    effectivePermissions: user?.permissions || [],
+    startViewAsUser: async () => undefined,
+    startViewAsRole: async () => undefined,
+    stopViewAs: async () => undefined,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Resilience utilities for the shared axios client
+ * Wraps the transport adapter with idempotency-aware retries and in-flight GET de-duplication,
+ * so interceptors (language header, error transformation) still run exactly once per call
+ */
+
+import axios, { AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+export interface RetryOptions {
+  retries: number;
+  baseDelay: number; // milliseconds
+  maxDelay: number; // milliseconds
+  retryableStatuses: number[];
+}
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Per-request retry override, `false` disables retries for the call */
+    retry?: Partial<RetryOptions> | false;
+    /** Set to `false` to opt a GET out of in-flight de-duplication */
+    dedupe?: boolean;
+  }
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 5000,
+  retryableStatuses: [408, 429, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Check if an axios error was caused by the request timeout
+ */
+export const isTimeoutError = (error: unknown): boolean => {
+  return axios.isAxiosError(error) && (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT');
+};
+
+/**
+ * Check if a request can be safely repeated
+ * POST and PATCH are only retried when the caller supplied an idempotency key
+ */
+export const isIdempotentRequest = (config: InternalAxiosRequestConfig): boolean => {
+  const method = (config.method || 'get').toLowerCase();
+  if (IDEMPOTENT_METHODS.includes(method)) return true;
+
+  return Boolean(AxiosHeaders.from(config.headers).get(IDEMPOTENCY_KEY_HEADER));
+};
+
+/**
+ * Decide whether a failed attempt should be retried
+ */
+export const shouldRetry = (
+  error: unknown,
+  attempt: number,
+  options: RetryOptions
+): boolean => {
+  if (attempt >= options.retries || !axios.isAxiosError(error)) return false;
+
+  const config = error.config;
+  if (!config || !isIdempotentRequest(config)) return false;
+  if (config.signal?.aborted) return false;
+
+  // Network failures and timeouts never reached a handler we can trust
+  if (!error.response) return true;
+
+  return options.retryableStatuses.includes(error.response.status);
+};
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Exponential backoff with full jitter, capped at maxDelay
+ * A server supplied Retry-After takes precedence when present
+ */
+export const getRetryDelay = (
+  attempt: number,
+  options: RetryOptions,
+  retryAfter?: unknown,
+  random: () => number = Math.random
+): number => {
+  const serverDelay = parseRetryAfter(retryAfter);
+  if (serverDelay !== null) return Math.min(serverDelay, options.maxDelay);
+
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, attempt));
+  return Math.round(random() * ceiling);
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wrap an adapter so that transient failures of idempotent requests are retried
+ */
+export const withRetry = (
+  adapter: AxiosAdapter,
+  defaults: Partial<RetryOptions> = {}
+): AxiosAdapter => {
+  return async (config) => {
+    if (config.retry === false) return adapter(config);
+
+    const options: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...defaults, ...config.retry };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await adapter(config);
+      } catch (error: unknown) {
+        if (!shouldRetry(error, attempt, options)) throw error;
+        const retryAfter = axios.isAxiosError(error) ? error.response?.headers?.['retry-after'] : undefined;
+        await wait(getRetryDelay(attempt, options, retryAfter));
+      }
+    }
+  };
+};
+
+/**
+ * Build a stable key for a GET request so identical in-flight calls can share one response
+ */
+export const getRequestKey = (config: InternalAxiosRequestConfig): string => {
+  const params = config.params
+    ? JSON.stringify(Object.keys(config.params).sort().map((key) => [key, config.params[key]]))
+    : '';
+  const language = config.headers?.get?.('accept-language') ?? '';
+  return [config.baseURL || '', config.url || '', params, String(language), config.responseType || ''].join('|');
+};
+
+/**
+ * Wrap an adapter so that identical concurrent GET requests hit the network once
+ */
+export const withDeduplication = (adapter: AxiosAdapter): AxiosAdapter => {
+  const inFlight = new Map<string, Promise<AxiosResponse>>();
+
+  return (config) => {
+    const method = (config.method || 'get').toLowerCase();
+    // Abortable requests keep their own transport so one caller cannot cancel the others
+    if (method !== 'get' || config.dedupe === false || config.signal) return adapter(config);
+
+    const key = getRequestKey(config);
+    let pending = inFlight.get(key);
+
+    if (!pending) {
+      pending = adapter(config);
+      inFlight.set(key, pending);
+      const release = () => inFlight.delete(key);
+      pending.then(release, release);
+    }
+
+    // Each caller gets its own response object since axios transforms it in place
+    return pending.then((response) => ({ ...response, config }));
+  };
+};
+
+/**
+ * Compose de-duplication and retries on top of a base adapter
+ */
+export const createResilientAdapter = (
+  adapter: AxiosAdapter,
+  options: Partial<RetryOptions> = {}
+): AxiosAdapter => {
+  return withDeduplication(withRetry(adapter, options));
+};
+
+/**
+ * Generate a key for opting a POST/PATCH request into retries
+ */
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+};
+
+/**
+ * Request config helper that marks a non-idempotent request as safe to retry
+ */
+export const withIdempotencyKey = (key: string = createIdempotencyKey()) => ({
+  headers: { [IDEMPOTENCY_KEY_HEADER]: key },
+});
@@ -0,0 +1,737 @@
+/**
+ * Runtime schemas for API responses
+ * Each schema is annotated with its interface from '@/types', so a schema that no longer matches
+ * the TypeScript contract fails the type-check and a server response that does not match fails validation
+ */
+
+import { z } from 'zod';
+import type { ResponseSchema } from '@/lib/endpoint-registry';
+import { CALENDAR_SYSTEMS, CURRENCY_CODES, TENANT_LANGUAGES, TENANT_LOCALES } from '@/lib/locale-registry';
+import {
+  AuditStatus,
+  AvailabilityStatus,
+  CustomerStatus,
+  ExportFormat,
+  ExportStatus,
+  InventoryItemStatus,
+  ItemType,
+  PermissionAction,
+  CheckResult,
+  RentalStatus,
+} from '@/types';
+import type {
+  RegisterUserResponse,
+  LoginResponse,
+  LogoutResponse,
+  RefreshSessionResponse,
+  PasswordResetRequestResponse,
+  PasswordResetCompleteResponse,
+  EmailVerificationResponse,
+  ResendVerificationResponse,
+  DashboardResponse,
+  LocaleFormattingResponse,
+  CreateUserResponse,
+  UsersListResponse,
+  RolesListResponse,
+  EditUserResponse,
+  ResetPasswordResponse,
+  ChangeUserStatusResponse,
+  BulkChangeStatusResponse,
+  UserProfileResponse,
+  UpdateProfileResponse,
+  ChangePasswordResponse,
+  UserSessionsResponse,
+  TerminateSessionResponse,
+  UserActivityResponse,
+  AuditLogsResponse,
+  AuditExportResponse,
+  RecordAuditEventResponse,
+  PermissionsListResponse,
+  RolePermissionsResponse,
+  UpdateRolePermissionsResponse,
+  RolePermissionsImpactResponse,
+  RoleResponse,
+  DeleteRoleResponse,
+  PermissionCheckResponse,
+  PermissionAuditResponse,
+  CreateCategoryResponse,
+  UpdateCategoryResponse,
+  CategoriesListResponse,
+  CategoryItemsCountResponse,
+  DeleteCategoryResponse,
+  InventoryItem,
+  CreateInventoryItemResponse,
+  UpdateInventoryItemResponse,
+  UpdateSerializedItemResponse,
+  UpdateNonSerializedItemQuantityResponse,
+  ChangeInventoryItemStatusResponse,
+  InventoryListResponse,
+  GetInventoryItemResponse,
+  ValidateSerialNumberResponse,
+  GenerateSerialNumberResponse,
+  InventoryExportResponse,
+  Customer,
+  CustomersListResponse,
+  CreateCustomerResponse,
+  GetCustomerResponse,
+  UpdateCustomerResponse,
+  DeleteCustomerResponse,
+  Rental,
+  RentalsListResponse,
+  CreateRentalResponse,
+  GetRentalResponse,
+  CheckoutRentalResponse,
+  ReturnRentalResponse,
+  InventoryUtilizationResponse,
+  MaintenanceOverdueResponse,
+  UserLoginsResponse,
+  ReportExportResponse,
+  TenantSettings,
+  GetTenantSettingsResponse,
+  UpdateTenantSettingsResponse,
+} from '@/types';
+
+// Building blocks
+
+// Unknown fields are kept, additive API changes must never break the client
+const object = <TShape extends z.ZodRawShape>(shape: TShape) => z.object(shape).passthrough();
+
+// Optional fields may be omitted or sent as null, both arrive as undefined
+const optional = <TSchema extends z.ZodTypeAny>(schema: TSchema) =>
+  schema.nullish().transform((value): z.output<TSchema> | undefined => value ?? undefined);
+
+const envelope = <TData extends z.ZodTypeAny>(data: TData) =>
+  object({ code: z.string(), message: z.string(), data });
+
+const messageEnvelope = object({ code: z.string(), message: z.string() });
+
+/**
+ * Legacy field variants
+ * Older API versions used different names for some fields; they are mapped onto the current
+ * contract here so components never have to check for both
+ */
+const renameLegacyField = (legacyName: string, currentName: string) => (value: unknown) => {
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  const { [legacyName]: legacyValue, ...rest } = value as Record<string, unknown>;
+  return rest[currentName] === undefined && legacyValue !== undefined
+    ? { ...rest, [currentName]: legacyValue }
+    : rest;
+};
+
+const paginationSchema = object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+const paginationMetaSchema = object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+  hasNext: z.boolean(),
+  hasPrevious: z.boolean(),
+});
+
+const personSchema = object({ id: z.string(), fullName: z.string(), email: z.string() });
+
+const userStatusSchema = z.enum(['active', 'inactive', 'pending_verification', 'suspended']);
+const exportStatusSchema = z.nativeEnum(ExportStatus);
+
+export const blobSchema: ResponseSchema<Blob> = z.custom<Blob>(
+  (value) => typeof Blob !== 'undefined' && value instanceof Blob,
+  { message: 'Expected a file download' }
+);
+
+// Authentication
+
+export const registerUserResponseSchema: ResponseSchema<RegisterUserResponse> = envelope(object({
+  userId: z.string(),
+  tenantId: z.string(),
+  email: z.string(),
+  redirectUrl: z.string(),
+}));
+
+export const loginResponseSchema: ResponseSchema<LoginResponse> = envelope(object({
+  userId: z.string(),
+  tenantId: z.string(),
+  email: z.string(),
+  fullName: z.string(),
+  roleName: z.string(),
+  permissions: z.array(z.string()),
+  redirectUrl: z.string(),
+  sessionExpiresAt: z.string(),
+  sessionToken: z.string(),
+  rememberMeEnabled: z.boolean(),
+}));
+
+export const logoutResponseSchema: ResponseSchema<LogoutResponse> = messageEnvelope;
+
+export const refreshSessionResponseSchema: ResponseSchema<RefreshSessionResponse> = envelope(object({
+  sessionExpiresAt: z.string(),
+}));
+
+export const passwordResetRequestResponseSchema: ResponseSchema<PasswordResetRequestResponse> = messageEnvelope;
+
+export const passwordResetCompleteResponseSchema: ResponseSchema<PasswordResetCompleteResponse> = messageEnvelope.extend({
+  data: optional(object({
+    redirectUrl: optional(z.string()),
+    language: optional(z.string()),
+  })),
+});
+
+export const emailVerificationResponseSchema: ResponseSchema<EmailVerificationResponse> = envelope(object({
+  userId: z.string(),
+  email: z.string(),
+  verifiedAt: z.string(),
+  redirectUrl: z.string(),
+  language: optional(z.string()),
+}));
+
+export const resendVerificationResponseSchema: ResponseSchema<ResendVerificationResponse> = envelope(object({
+  email: z.string(),
+  expiresAt: z.string(),
+}));
+
+// Dashboard and locale
+
+export const dashboardResponseSchema: ResponseSchema<DashboardResponse> = envelope(object({
+  tenant: object({
+    id: z.string(),
+    companyName: z.string(),
+    registrationDate: z.string(),
+    userCount: z.number(),
+    status: z.enum(['active', 'inactive']),
+  }),
+  user: object({
+    id: z.string(),
+    fullName: z.string(),
+    email: z.string(),
+    role: z.string(),
+    lastLogin: z.string(),
+  }),
+  systemInfo: object({
+    version: z.string(),
+    lastUpdate: z.string(),
+    serviceStatus: z.enum(['operational', 'maintenance']),
+  }),
+}));
+
+export const localeFormattingResponseSchema: ResponseSchema<LocaleFormattingResponse> = envelope(object({
+  locale: z.enum(TENANT_LOCALES),
+  language: z.enum(TENANT_LANGUAGES),
+  dateFormat: object({
+    calendar: z.enum(CALENDAR_SYSTEMS),
+    format: z.string(),
+    example: z.string(),
+    timeZone: optional(z.string()),
+  }),
+  numberFormat: object({
+    digits: z.enum(['persian', 'arabic', 'latin']),
+    decimal: z.string(),
+    thousands: z.string(),
+    example: z.string(),
+  }),
+  currencyFormat: object({
+    code: z.enum(CURRENCY_CODES),
+    symbol: z.string(),
+    position: z.enum(['before', 'after']),
+    example: z.string(),
+  }),
+}));
+
+// User management
+
+export const createUserResponseSchema: ResponseSchema<CreateUserResponse> = envelope(object({
+  userId: z.string(),
+  fullName: z.string(),
+  email: z.string(),
+  status: userStatusSchema,
+  roleId: z.string(),
+  roleName: z.string(),
+  welcomeEmailSent: z.boolean(),
+  generatedPassword: optional(z.string()),
+  createdAt: z.string(),
+}));
+
+export const usersListResponseSchema: ResponseSchema<UsersListResponse> = envelope(object({
+  users: z.array(object({
+    id: z.string(),
+    fullName: z.string(),
+    email: z.string(),
+    phoneNumber: optional(z.string()),
+    status: userStatusSchema,
+    roleId: z.string(),
+    roleName: z.string(),
+    createdAt: z.string(),
+    lastLoginAt: optional(z.string()),
+  })),
+  pagination: paginationSchema,
+}));
+
+const roleSchema = object({
+  id: z.string(),
+  name: z.string(),
+  displayName: z.string(),
+  canAssign: z.boolean(),
+  description: optional(z.string()),
+  isCustom: optional(z.boolean()),
+  userCount: optional(z.number()),
+});
+
+export const rolesListResponseSchema: ResponseSchema<RolesListResponse> = envelope(z.array(roleSchema));
+
+export const editUserResponseSchema: ResponseSchema<EditUserResponse> = envelope(object({
+  userId: z.string(),
+  fullName: z.string(),
+  email: z.string(),
+  phoneNumber: optional(z.string()),
+  status: userStatusSchema,
+  roleId: z.string(),
+  roleName: z.string(),
+  updatedAt: z.string(),
+  modifiedFields: z.array(z.string()),
+  notificationSent: z.boolean(),
+}));
+
+export const resetPasswordResponseSchema: ResponseSchema<ResetPasswordResponse> = envelope(object({
+  userId: z.string(),
+  resetMethod: z.enum(['admin_reset_link', 'admin_temporary_password']),
+  temporaryPassword: optional(z.string()),
+  expiresAt: z.string(),
+  emailSent: z.boolean(),
+  sessionsInvalidated: z.number(),
+}));
+
+export const changeUserStatusResponseSchema: ResponseSchema<ChangeUserStatusResponse> = envelope(object({
+  userId: z.string(),
+  previousStatus: userStatusSchema,
+  newStatus: userStatusSchema,
+  statusChangeReason: optional(z.string()),
+  sessionIds: z.array(z.string()),
+  activeSessionCount: z.number(),
+  emailSent: z.boolean(),
+  timestamp: z.string(),
+}));
+
+export const bulkChangeStatusResponseSchema: ResponseSchema<BulkChangeStatusResponse> = envelope(object({
+  affectedUserCount: z.number(),
+  processedUsers: z.array(object({
+    userId: z.string(),
+    status: z.enum(['success', 'failed']),
+    previousStatus: optional(userStatusSchema),
+    newStatus: optional(userStatusSchema),
+    errorMessage: optional(z.string()),
+  })),
+  totalSessionsInvalidated: z.number(),
+  bulkStatusChangeReason: optional(z.string()),
+  emailSent: z.boolean(),
+  timestamp: z.string(),
+}));
+
+// Self-service profile
+
+export const userProfileResponseSchema: ResponseSchema<UserProfileResponse> = envelope(object({
+  id: z.string(),
+  fullName: z.string(),
+  email: z.string(),
+  phoneNumber: optional(z.string()),
+  status: userStatusSchema,
+  roleName: z.string(),
+  lastLoginAt: optional(z.string()),
+  lastLoginIp: optional(z.string()),
+  createdAt: z.string(),
+}));
+
+export const updateProfileResponseSchema: ResponseSchema<UpdateProfileResponse> = envelope(object({
+  updatedFields: z.array(z.string()),
+}));
+
+export const changePasswordResponseSchema: ResponseSchema<ChangePasswordResponse> = envelope(object({
+  sessionsInvalidated: z.number(),
+}));
+
+export const userSessionsResponseSchema: ResponseSchema<UserSessionsResponse> = envelope(object({
+  currentSessionId: z.string(),
+  sessions: z.array(object({
+    id: z.string(),
+    ipAddress: z.string(),
+    userAgent: z.string(),
+    deviceFingerprint: optional(z.string()),
+    lastActivityAt: z.string(),
+    expiresAt: z.string(),
+    isCurrent: z.boolean(),
+  })),
+}));
+
+export const terminateSessionResponseSchema: ResponseSchema<TerminateSessionResponse> = messageEnvelope;
+
+export const userActivityResponseSchema: ResponseSchema<UserActivityResponse> = envelope(object({
+  activities: z.array(object({
+    type: z.string(),
+    action: z.string(),
+    timestamp: z.string(),
+    ipAddress: z.string(),
+    userAgent: z.string(),
+    details: optional(z.string()),
+  })),
+  pagination: paginationSchema,
+}));
+
+// Audit trail
+
+// Logs written before `rawActionType` existed only carry the action type
+const auditLogSchema = object({
+  id: z.string(),
+  tenantId: z.string(),
+  actorUserId: z.string(),
+  targetUserId: optional(z.string()),
+  actionType: z.string(),
+  rawActionType: optional(z.string()),
+  description: z.string(),
+  ipAddress: z.string(),
+  userAgent: z.string(),
+  status: z.nativeEnum(AuditStatus),
+  metadata: optional(z.record(z.any())),
+  createdAt: z.string(),
+  actor: personSchema,
+  target: optional(personSchema),
+}).transform((log) => ({ ...log, rawActionType: log.rawActionType ?? log.actionType }));
+
+export const auditLogsResponseSchema: ResponseSchema<AuditLogsResponse> = envelope(object({
+  auditLogs: z.array(auditLogSchema),
+  pagination: paginationSchema,
+  filters: object({
+    dateRange: object({
+      from: optional(z.string()),
+      to: optional(z.string()),
+    }),
+    actionsCount: z.record(z.number()),
+    usersCount: z.number(),
+  }),
+}));
+
+export const recordAuditEventResponseSchema: ResponseSchema<RecordAuditEventResponse> = messageEnvelope;
+
+export const auditExportResponseSchema: ResponseSchema<AuditExportResponse> = envelope(z.preprocess(
+  renameLegacyField('estimatedRecords', 'estimatedRecordCount'),
+  object({
+    exportId: z.string(),
+    exportFormat: z.nativeEnum(ExportFormat),
+    status: exportStatusSchema,
+    estimatedRecordCount: optional(z.number()),
+    filtersApplied: optional(z.record(z.any())),
+    expiresAt: optional(z.string()),
+    downloadUrl: optional(z.string()),
+  })
+));
+
+// Permissions
+
+const permissionActionSchema = z.nativeEnum(PermissionAction);
+
+const rolePermissionSchema = object({
+  permissionId: z.string(),
+  resource: z.string(),
+  action: permissionActionSchema,
+  isGranted: z.boolean(),
+  grantedAt: optional(z.string()),
+  grantedBy: optional(z.string()),
+});
+
+export const permissionsListResponseSchema: ResponseSchema<PermissionsListResponse> = envelope(object({
+  permissions: z.array(object({
+    id: z.string(),
+    resource: z.string(),
+    action: permissionActionSchema,
+    description: z.string(),
+    createdAt: z.string(),
+  })),
+}));
+
+export const rolePermissionsResponseSchema: ResponseSchema<RolePermissionsResponse> = envelope(object({
+  roleId: z.string(),
+  roleName: z.string(),
+  permissions: z.array(rolePermissionSchema),
+}));
+
+export const updateRolePermissionsResponseSchema: ResponseSchema<UpdateRolePermissionsResponse> = envelope(object({
+  roleId: z.string(),
+  updatedPermissions: z.array(rolePermissionSchema),
+  modifiedCount: z.number(),
+  modifiedBy: z.string(),
+  modifiedAt: z.string(),
+  scheduledFor: optional(z.string()),
+  sessionsInvalidated: optional(z.number()),
+}));
+
+export const rolePermissionsImpactResponseSchema: ResponseSchema<RolePermissionsImpactResponse> = envelope(object({
+  roleId: z.string(),
+  affectedUserCount: z.number(),
+  activeSessionCount: z.number(),
+}));
+
+export const roleResponseSchema: ResponseSchema<RoleResponse> = envelope(roleSchema);
+
+export const deleteRoleResponseSchema: ResponseSchema<DeleteRoleResponse> = messageEnvelope;
+
+export const permissionCheckResponseSchema: ResponseSchema<PermissionCheckResponse> = envelope(object({
+  isGranted: z.boolean(),
+  resource: z.string(),
+  action: permissionActionSchema,
+  reason: optional(z.string()),
+  checkedAt: z.string(),
+}));
+
+export const permissionAuditResponseSchema: ResponseSchema<PermissionAuditResponse> = envelope(object({
+  permissionChecks: z.array(object({
+    id: z.string(),
+    userId: z.string(),
+    permissionId: z.string(),
+    resource: z.string(),
+    action: permissionActionSchema,
+    checkResult: z.nativeEnum(CheckResult),
+    resourceContext: optional(z.string()),
+    reason: optional(z.string()),
+    ipAddress: z.string(),
+    userAgent: z.string(),
+    checkedAt: z.string(),
+    user: personSchema,
+  })),
+  pagination: paginationSchema,
+}));
+
+// Categories
+
+const categoryBaseShape = {
+  id: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+};
+
+export const categoriesListResponseSchema: ResponseSchema<CategoriesListResponse> = envelope(object({
+  categories: z.array(object({ ...categoryBaseShape, itemsCount: optional(z.number()) })),
+  pagination: paginationSchema,
+}));
+
+export const createCategoryResponseSchema: ResponseSchema<CreateCategoryResponse> = envelope(object(categoryBaseShape));
+
+export const updateCategoryResponseSchema: ResponseSchema<UpdateCategoryResponse> = envelope(object({
+  ...categoryBaseShape,
+  itemsCount: z.number(),
+}));
+
+export const categoryItemsCountResponseSchema: ResponseSchema<CategoryItemsCountResponse> = envelope(object({
+  categoryId: z.string(),
+  itemsCount: z.number(),
+  canDelete: z.boolean(),
+}));
+
+export const deleteCategoryResponseSchema: ResponseSchema<DeleteCategoryResponse> = messageEnvelope;
+
+// Inventory
+
+const availabilityStatusSchema = z.nativeEnum(AvailabilityStatus);
+
+export const inventoryItemSchema: ResponseSchema<InventoryItem> = object({
+  id: z.string(),
+  name: z.string(),
+  description: optional(z.string()),
+  categoryId: z.string(),
+  categoryName: z.string(),
+  itemType: z.nativeEnum(ItemType),
+  serialNumber: optional(z.string()),
+  quantity: optional(z.number()),
+  quantityUnit: optional(z.string()),
+  availabilityStatus: availabilityStatusSchema,
+  status: z.nativeEnum(InventoryItemStatus),
+  version: z.number(),
+  hasRentalHistory: optional(z.boolean()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const inventoryListResponseSchema: ResponseSchema<InventoryListResponse> = messageEnvelope.extend({
+  data: z.array(inventoryItemSchema),
+  meta: paginationMetaSchema,
+});
+
+export const getInventoryItemResponseSchema: ResponseSchema<GetInventoryItemResponse> = envelope(inventoryItemSchema);
+export const createInventoryItemResponseSchema: ResponseSchema<CreateInventoryItemResponse> = envelope(inventoryItemSchema);
+export const updateInventoryItemResponseSchema: ResponseSchema<UpdateInventoryItemResponse> = envelope(inventoryItemSchema);
+export const updateSerializedItemResponseSchema: ResponseSchema<UpdateSerializedItemResponse> = envelope(inventoryItemSchema);
+export const updateNonSerializedItemQuantityResponseSchema: ResponseSchema<UpdateNonSerializedItemQuantityResponse> =
+  envelope(inventoryItemSchema);
+
+export const changeInventoryItemStatusResponseSchema: ResponseSchema<ChangeInventoryItemStatusResponse> = envelope(object({
+  itemId: z.string(),
+  previousStatus: availabilityStatusSchema,
+  newStatus: availabilityStatusSchema,
+  changeReason: optional(z.string()),
+  expectedResolutionDate: optional(z.string()),
+  changeId: z.string(),
+  changedAt: z.string(),
+}));
+
+export const validateSerialNumberResponseSchema: ResponseSchema<ValidateSerialNumberResponse> = envelope(object({
+  isUnique: z.boolean(),
+  serialNumber: z.string(),
+}));
+
+export const generateSerialNumberResponseSchema: ResponseSchema<GenerateSerialNumberResponse> = envelope(object({
+  serialNumber: z.string(),
+}));
+
+export const inventoryExportResponseSchema: ResponseSchema<InventoryExportResponse> = envelope(object({
+  exportId: z.string(),
+  status: z.enum(['initiated', 'processing', 'completed', 'failed']),
+  recordCount: z.number(),
+  downloadUrl: optional(z.string()),
+  expiresAt: z.string(),
+  estimatedCompletionTime: optional(z.string()),
+}));
+
+// Customers
+
+export const customerSchema: ResponseSchema<Customer> = object({
+  id: z.string(),
+  fullName: z.string(),
+  nationalId: z.string(),
+  phoneNumber: z.string(),
+  email: optional(z.string()),
+  address: optional(z.string()),
+  notes: optional(z.string()),
+  status: z.nativeEnum(CustomerStatus),
+  version: z.number(),
+  activeRentalsCount: optional(z.number()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const customersListResponseSchema: ResponseSchema<CustomersListResponse> = messageEnvelope.extend({
+  data: z.array(customerSchema),
+  meta: paginationMetaSchema,
+});
+
+export const getCustomerResponseSchema: ResponseSchema<GetCustomerResponse> = envelope(customerSchema);
+export const createCustomerResponseSchema: ResponseSchema<CreateCustomerResponse> = envelope(customerSchema);
+export const updateCustomerResponseSchema: ResponseSchema<UpdateCustomerResponse> = envelope(customerSchema);
+export const deleteCustomerResponseSchema: ResponseSchema<DeleteCustomerResponse> = messageEnvelope;
+
+// Rentals
+
+export const rentalSchema: ResponseSchema<Rental> = object({
+  id: z.string(),
+  rentalNumber: z.string(),
+  customerId: z.string(),
+  customerName: z.string(),
+  items: z.array(object({
+    id: z.string(),
+    inventoryItemId: z.string(),
+    itemName: z.string(),
+    itemType: z.nativeEnum(ItemType),
+    serialNumber: optional(z.string()),
+    quantity: z.number(),
+    quantityUnit: optional(z.string()),
+    returnCondition: optional(z.enum([
+      AvailabilityStatus.AVAILABLE,
+      AvailabilityStatus.DAMAGED,
+      AvailabilityStatus.MAINTENANCE,
+    ])),
+    returnNotes: optional(z.string()),
+  })),
+  startDate: z.string(),
+  endDate: z.string(),
+  status: z.nativeEnum(RentalStatus),
+  notes: optional(z.string()),
+  checkedOutAt: optional(z.string()),
+  returnedAt: optional(z.string()),
+  version: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const rentalsListResponseSchema: ResponseSchema<RentalsListResponse> = messageEnvelope.extend({
+  data: z.array(rentalSchema),
+  meta: paginationMetaSchema,
+});
+
+export const getRentalResponseSchema: ResponseSchema<GetRentalResponse> = envelope(rentalSchema);
+export const createRentalResponseSchema: ResponseSchema<CreateRentalResponse> = envelope(rentalSchema);
+export const checkoutRentalResponseSchema: ResponseSchema<CheckoutRentalResponse> = envelope(rentalSchema);
+export const returnRentalResponseSchema: ResponseSchema<ReturnRentalResponse> = envelope(rentalSchema);
+
+// Reports
+
+const statusCountsSchema = object({
+  [AvailabilityStatus.AVAILABLE]: z.number(),
+  [AvailabilityStatus.RENTED]: z.number(),
+  [AvailabilityStatus.MAINTENANCE]: z.number(),
+  [AvailabilityStatus.DAMAGED]: z.number(),
+  [AvailabilityStatus.LOST]: z.number(),
+});
+
+export const inventoryUtilizationResponseSchema: ResponseSchema<InventoryUtilizationResponse> = envelope(object({
+  rows: z.array(object({
+    categoryId: z.string(),
+    categoryName: z.string(),
+    statusCounts: statusCountsSchema,
+    total: z.number(),
+  })),
+  totals: statusCountsSchema,
+  generatedAt: z.string(),
+}));
+
+export const maintenanceOverdueResponseSchema: ResponseSchema<MaintenanceOverdueResponse> = envelope(object({
+  rows: z.array(object({
+    itemId: z.string(),
+    itemName: z.string(),
+    categoryName: z.string(),
+    serialNumber: optional(z.string()),
+    changeReason: optional(z.string()),
+    maintenanceSince: z.string(),
+    expectedResolutionDate: z.string(),
+    overdueDays: z.number(),
+  })),
+  generatedAt: z.string(),
+}));
+
+export const userLoginsResponseSchema: ResponseSchema<UserLoginsResponse> = envelope(object({
+  rows: z.array(object({
+    periodStart: z.string(),
+    successCount: z.number(),
+    failedCount: z.number(),
+    uniqueUsers: z.number(),
+  })),
+  generatedAt: z.string(),
+}));
+
+export const reportExportResponseSchema: ResponseSchema<ReportExportResponse> = envelope(object({
+  exportId: z.string(),
+  status: exportStatusSchema,
+  recordCount: z.number(),
+  downloadUrl: optional(z.string()),
+  expiresAt: z.string(),
+}));
+
+// Tenant settings
+
+export const tenantSettingsSchema: ResponseSchema<TenantSettings> = object({
+  companyName: z.string(),
+  locale: z.enum(TENANT_LOCALES),
+  language: z.enum(TENANT_LANGUAGES),
+  calendar: z.enum(CALENDAR_SYSTEMS),
+  digits: z.enum(['persian', 'arabic', 'latin']),
+  currencyPosition: z.enum(['before', 'after']),
+  timeZone: optional(z.string()),
+  version: z.number(),
+  updatedAt: z.string(),
+});
+
+export const getTenantSettingsResponseSchema: ResponseSchema<GetTenantSettingsResponse> = envelope(tenantSettingsSchema);
+export const updateTenantSettingsResponseSchema: ResponseSchema<UpdateTenantSettingsResponse> = envelope(tenantSettingsSchema);
@@ -0,0 +1,238 @@
+'use client';
+
+import moment from 'jalali-moment';
+import { LocaleFormattingResponse } from '@/types';
+import type { CalendarSystem } from '@/lib/locale-registry';
+import {
+  convertDigits,
+  getCalendarSystem,
+  getIntlLocale,
+  normalizeDigits,
+  normalizeInput,
+} from '@/lib/locale-formatting';
+import { hijriToIso } from '@/lib/hijri-calendar';
+import { getTimeZone, shiftToTimeZone } from '@/lib/timezone';
+
+/**
+ * Date Formatting
+ * Absolute, relative, duration and range formatting for dates coming from the API.
+ * Every function follows the tenant `dateFormat.calendar`, `dateFormat.timeZone` and `numberFormat.digits`.
+ */
+
+type LocaleConfig = LocaleFormattingResponse['data'];
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Largest unit first, a relative time uses the first unit that fits the elapsed time
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * DAY],
+  ['month', 30 * DAY],
+  ['week', 7 * DAY],
+  ['day', DAY],
+  ['hour', HOUR],
+  ['minute', MINUTE],
+  ['second', SECOND],
+];
+
+const DURATION_UNITS: Array<['day' | 'hour' | 'minute' | 'second', number]> = [
+  ['day', DAY],
+  ['hour', HOUR],
+  ['minute', MINUTE],
+  ['second', SECOND],
+];
+
+// Intl may already emit native digits (fa-IR), bring everything to the tenant digit set
+const localizeDigits = (text: string, config: LocaleConfig): string =>
+  convertDigits(normalizeDigits(text), config.numberFormat.digits);
+
+interface CalendarFormat {
+  // jalali-moment format for the Persian calendar
+  persian: string;
+  // Intl options for the Gregorian and Hijri calendars
+  intl: Intl.DateTimeFormatOptions;
+}
+
+const DATE_FORMAT: CalendarFormat = {
+  persian: 'D MMMM YYYY',
+  intl: { year: 'numeric', month: 'long', day: 'numeric' },
+};
+
+const SHORT_DATE_FORMAT: CalendarFormat = {
+  persian: 'YYYY/MM/DD',
+  intl: { year: 'numeric', month: '2-digit', day: '2-digit' },
+};
+
+const DATE_TIME_FORMAT: CalendarFormat = {
+  persian: 'D MMMM YYYY HH:mm',
+  intl: { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' },
+};
+
+const formatInCalendar = (dateString: string, config: LocaleConfig, format: CalendarFormat): string => {
+  try {
+    const date = new Date(dateString);
+    const timeZone = getTimeZone(config);
+
+    switch (getCalendarSystem(config)) {
+      case 'persian':
+        // Use jalali-moment for proper Persian calendar conversion, it only knows UTC and the browser zone
+        return localizeDigits(moment.utc(shiftToTimeZone(date, timeZone)).locale('fa').format(format.persian), config);
+      case 'hijri':
+        // Umm al-Qura calendar in the tenant's Intl locale
+        return localizeDigits(
+          date.toLocaleString(`${getIntlLocale(config)}-u-ca-islamic-umalqura`, { ...format.intl, timeZone }),
+          config
+        );
+      default:
+        // Gregorian calendar in the tenant's Intl locale, fa-IR would default to the Persian calendar
+        return localizeDigits(date.toLocaleString(`${getIntlLocale(config)}-u-ca-gregory`, { ...format.intl, timeZone }), config);
+    }
+  } catch (error) {
+    console.error('Date formatting error:', error);
+    // Fallback to a simpler format
+    try {
+      return localizeDigits(new Date(dateString).toLocaleString(undefined, format.intl), config);
+    } catch (fallbackError) {
+      return dateString;
+    }
+  }
+};
+
+/**
+ * Format date according to locale configuration
+ */
+export const formatDate = (dateString: string, config: LocaleConfig): string =>
+  formatInCalendar(dateString, config, DATE_FORMAT);
+
+/**
+ * Get short date format based on locale
+ */
+export const getShortDateFormat = (dateString: string, config: LocaleConfig): string =>
+  formatInCalendar(dateString, config, SHORT_DATE_FORMAT);
+
+/**
+ * Format date and time according to locale configuration
+ */
+export const formatDateTime = (dateString: string, config: LocaleConfig): string =>
+  formatInCalendar(dateString, config, DATE_TIME_FORMAT);
+
+/**
+ * Format a date in the tenant calendar followed by the Gregorian date, e.g. "٢٤ رمضان ١٤٤٥ هـ (٣ أبريل ٢٠٢٤)"
+ * Dates in the Gregorian calendar are shown once
+ */
+export const formatDualDate = (
+  dateString: string,
+  config: LocaleConfig,
+  style: 'long' | 'short' = 'long'
+): string => {
+  const format = style === 'short' ? getShortDateFormat : formatDate;
+  const formatted = format(dateString, config);
+  if (getCalendarSystem(config) === 'gregorian') return formatted;
+
+  const gregorianConfig = { ...config, dateFormat: { ...config.dateFormat, calendar: 'gregorian' as const } };
+  return `${formatted} (${format(dateString, gregorianConfig)})`;
+};
+
+/**
+ * Format the time between a date and now, e.g. "۳ ساعت پیش" or "بعد ٢ أيام"
+ */
+export const formatRelativeTime = (
+  dateString: string,
+  config: LocaleConfig,
+  now: number = Date.now()
+): string => {
+  const elapsed = new Date(dateString).getTime() - now;
+  if (Number.isNaN(elapsed)) return dateString;
+
+  const [unit, size] = RELATIVE_UNITS.find(([, unitSize]) => Math.abs(elapsed) >= unitSize) ?? ['second', SECOND];
+  const formatter = new Intl.RelativeTimeFormat(getIntlLocale(config), { numeric: 'auto' });
+  return localizeDigits(formatter.format(Math.round(elapsed / size), unit), config);
+};
+
+/**
+ * Format a length of time
+ * 'long' names the two largest units ("۲ ساعت ۱۵ دقیقه"), 'clock' counts down as m:ss or h:mm:ss
+ */
+export const formatDuration = (
+  milliseconds: number,
+  config: LocaleConfig,
+  style: 'long' | 'clock' = 'long'
+): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / SECOND));
+
+  if (style === 'clock') {
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const clock = hours > 0
+      ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`
+      : `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    return localizeDigits(clock, config);
+  }
+
+  let remaining = totalSeconds * SECOND;
+  const parts = DURATION_UNITS.flatMap(([unit, size]) => {
+    const value = Math.floor(remaining / size);
+    remaining -= value * size;
+    return value > 0 ? [{ unit, value }] : [];
+  }).slice(0, 2);
+
+  const locale = getIntlLocale(config);
+  const formatPart = ({ unit, value }: { unit: string; value: number }) =>
+    new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay: 'long' }).format(value);
+
+  return localizeDigits((parts.length > 0 ? parts : [{ unit: 'second', value: 0 }]).map(formatPart).join(' '), config);
+};
+
+/**
+ * Format a from/to date range, a range within one day is shown as a single date
+ */
+export const formatDateRange = (
+  startDateString: string,
+  endDateString: string,
+  config: LocaleConfig
+): string => {
+  const start = formatDate(startDateString, config);
+  const end = formatDate(endDateString, config);
+  return start === end ? start : `${start} – ${end}`;
+};
+
+/**
+ * Parse a year/month/day date typed in the tenant calendar (Jalali, Gregorian or Hijri) in any digit set
+ * Returns the Gregorian ISO date (YYYY-MM-DD) or null when the date does not exist
+ */
+export const parseDate = (input: string, config: LocaleConfig): string | null => {
+  const match = normalizeInput(input).match(/^(\d{4})[/\-.](\d{1,2})[/\-.](\d{1,2})$/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const calendar = getCalendarSystem(config);
+  if (calendar === 'hijri') {
+    return hijriToIso({ year, month, day });
+  }
+
+  const typed = [year, month, day].join('/');
+  const calendarLocale = calendar === 'persian' ? 'fa' : 'en';
+  const parsed = moment.from(typed, calendarLocale, 'YYYY/M/D');
+
+  // Moment rolls overflowing days over to the next month, reject them instead
+  if (!parsed.isValid() || parsed.clone().locale(calendarLocale).format('YYYY/M/D') !== typed) {
+    return null;
+  }
+  return parsed.clone().locale('en').format('YYYY-MM-DD');
+};
+
+/**
+ * Switch the global moment locale used by the calendar popup
+ * The 'fa' locale puts jalali-moment in Jalali mode, so it is only used for the Persian calendar.
+ * The Hijri grid is computed from Gregorian days and uses the Gregorian locale.
+ */
+export function switchMomentLocale(calendar: CalendarSystem, language: string) {
+  if (calendar === 'persian') {
+    moment.locale('fa');
+  } else {
+    moment.locale(language === 'fa' ? 'en' : language);
+  }
+}
@@ -0,0 +1,84 @@
+import moment from 'jalali-moment';
+import type { CalendarSystem } from '@/lib/locale-registry';
+import { getHijriMonthLength, hijriToIso, toHijri } from '@/lib/hijri-calendar';
+import { toZonedIsoDate } from '@/lib/timezone';
+
+/**
+ * Date Ranges
+ * From/to ranges of Gregorian ISO dates (YYYY-MM-DD) and the presets offered by DateRangePicker.
+ * Months and fiscal years follow the tenant calendar, "today" is the day in the tenant time zone.
+ */
+
+export interface DateRange {
+  // Empty string when the bound is not set
+  from: string;
+  to: string;
+}
+
+export type DateRangePreset = 'today' | 'last7Days' | 'thisMonth' | 'thisFiscalYear';
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = ['today', 'last7Days', 'thisMonth', 'thisFiscalYear'];
+
+export const EMPTY_DATE_RANGE: DateRange = { from: '', to: '' };
+
+const toIsoDate = (date: moment.Moment) => date.clone().locale('en').format('YYYY-MM-DD');
+
+const getHijriMonthRange = (today: string): DateRange => {
+  const { year, month } = toHijri(today);
+  const from = hijriToIso({ year, month, day: 1 }) ?? today;
+  return { from, to: toIsoDate(moment.from(from, 'en', 'YYYY-MM-DD').add(getHijriMonthLength(year, month) - 1, 'days')) };
+};
+
+/**
+ * Range of a preset around today
+ * The Persian fiscal year starts on Farvardin 1, the Gregorian and Hijri ones on January 1
+ */
+export const getPresetRange = (
+  preset: DateRangePreset,
+  calendar: CalendarSystem,
+  timeZone: string,
+  now: Date = new Date()
+): DateRange => {
+  // Day arithmetic on the tenant date, the browser zone only holds it
+  const gregorianToday = moment.from(toZonedIsoDate(now, timeZone), 'en', 'YYYY-MM-DD');
+  const persianToday = gregorianToday.clone().locale('fa');
+
+  switch (preset) {
+    case 'today':
+      return { from: toIsoDate(gregorianToday), to: toIsoDate(gregorianToday) };
+    case 'last7Days':
+      return { from: toIsoDate(gregorianToday.clone().subtract(6, 'days')), to: toIsoDate(gregorianToday) };
+    case 'thisMonth':
+      if (calendar === 'persian') {
+        return { from: toIsoDate(persianToday.clone().startOf('jMonth')), to: toIsoDate(persianToday.clone().endOf('jMonth')) };
+      }
+      if (calendar === 'hijri') {
+        return getHijriMonthRange(toIsoDate(gregorianToday));
+      }
+      return { from: toIsoDate(gregorianToday.clone().startOf('month')), to: toIsoDate(gregorianToday.clone().endOf('month')) };
+    case 'thisFiscalYear':
+      if (calendar === 'persian') {
+        return { from: toIsoDate(persianToday.clone().startOf('jYear')), to: toIsoDate(persianToday.clone().endOf('jYear')) };
+      }
+      return { from: toIsoDate(gregorianToday.clone().startOf('year')), to: toIsoDate(gregorianToday.clone().endOf('year')) };
+  }
+};
+
+/**
+ * The preset a range was picked from, if any
+ */
+export const findPreset = (
+  range: DateRange,
+  calendar: CalendarSystem,
+  timeZone: string,
+  now: Date = new Date()
+): DateRangePreset | undefined =>
+  DATE_RANGE_PRESETS.find((preset) => {
+    const presetRange = getPresetRange(preset, calendar, timeZone, now);
+    return presetRange.from === range.from && presetRange.to === range.to;
+  });
+
+/**
+ * A range is valid when the end is not before the start, open ranges are always valid
+ */
+export const isValidDateRange = ({ from, to }: DateRange): boolean => !from || !to || from <= to;
@@ -91,6 +91,35 @@ export const downloadFromUrl = (url: string, filename: string): void => {
   document.body.removeChild(link);
 };
 
+/**
+ * Download text generated in the browser, e.g. a CSV built from data already on the page
+ * @param content The file content
+ * @param filename The filename to use for the download
+ * @param mimeType The content type of the file
+ */
+export const downloadTextFile = (content: string, filename: string, mimeType: string): void => {
+  const blobUrl = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  downloadFromUrl(blobUrl, filename);
+  URL.revokeObjectURL(blobUrl);
+};
+
+/**
+ * Print a standalone HTML document from a new window, the browser's print dialog saves it as PDF
+ * @param html The complete HTML document
+ * @returns false when the window was blocked by the browser
+ */
+export const printHtmlDocument = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
+
 /**
  * Create a filename for exports based on the current date and format
  * @param prefix The filename prefix (e.g., 'audit-export', 'inventory-export')
@@ -1,83 +1,112 @@
 /**
  * Dynamic permission utilities that use the actual permissions from login response
- * This replaces hardcoded role-based permissions with server-provided dynamic permissions
+ * Every gate in the app (hooks, navigation, pages and withPermissions) goes through these helpers.
+ *
+ * Permissions are "resource:action" strings. A granted permission also implies others:
+ * - "resource:manage" implies every action on the resource (users:manage → users:delete)
+ * - "resource:*" implies every action on the resource
+ * - "*" or "*:*" implies every permission
  */
 
 import { PermissionAction } from '@/types';
 
+const WILDCARD = '*';
+
+const ALL_ACTIONS = Object.values(PermissionAction);
+
+/**
+ * Check if a granted permission covers a required one
+ */
+export const permissionImplies = (granted: string, required: string): boolean => {
+  if (granted === required) return true;
+  if (granted === WILDCARD) return true;
+
+  const [grantedResource, grantedAction] = granted.split(':');
+  const [requiredResource] = required.split(':');
+  if (grantedResource !== WILDCARD && grantedResource !== requiredResource) return false;
+
+  return grantedAction === WILDCARD || grantedAction === PermissionAction.MANAGE;
+};
+
 /**
  * Check if user has specific permission based on dynamic permissions array
  */
 export const hasDynamicPermission = (
-  userPermissions: string[], 
-  resource: string, 
+  userPermissions: string[],
+  resource: string,
   action: PermissionAction
 ): boolean => {
   if (!userPermissions || userPermissions.length === 0) return false;
-  
+
   const permissionName = `${resource}:${action}`;
-  return userPermissions.includes(permissionName);
+  return userPermissions.some(permission => permissionImplies(permission, permissionName));
 };
 
 /**
  * Check if user has any permission for a resource
  */
 export const hasAnyResourcePermission = (
-  userPermissions: string[], 
+  userPermissions: string[],
   resource: string
 ): boolean => {
   if (!userPermissions || userPermissions.length === 0) return false;
-  
-  return userPermissions.some(permission => permission.startsWith(`${resource}:`));
+
+  return userPermissions.some(permission =>
+    permission === WILDCARD ||
+    permission.startsWith(`${resource}:`) ||
+    permission.startsWith(`${WILDCARD}:`)
+  );
 };
 
 /**
  * Get all allowed actions for a resource based on dynamic permissions
  */
 export const getDynamicAllowedActions = (
-  userPermissions: string[], 
+  userPermissions: string[],
   resource: string
 ): PermissionAction[] => {
   if (!userPermissions || userPermissions.length === 0) return [];
-  
-  const resourcePermissions = userPermissions
-    .filter(permission => permission.startsWith(`${resource}:`))
-    .map(permission => permission.split(':')[1] as PermissionAction);
-    
-  return resourcePermissions;
+
+  return ALL_ACTIONS.filter(action => hasDynamicPermission(userPermissions, resource, action));
 };
 
+// Navigation items and the permissions that reveal them, any one of them is enough
+const NAVIGATION_PERMISSIONS: Record<string, string[]> = {
+  'dashboard': ['dashboard:read'],
+  'users': ['users:read', 'users:create', 'users:update', 'users:delete'],
+  'audit': ['audit:read'],
+  'permissions': ['permissions:read'],
+  'categories': ['categories:read', 'categories:create', 'categories:update', 'categories:delete'],
+  'inventory': ['inventory:read', 'inventory:create', 'inventory:update', 'inventory:delete'],
+  'customers': ['customers:read', 'customers:create', 'customers:update', 'customers:delete'],
+  'rentals': ['rentals:read', 'rentals:create', 'rentals:update', 'rentals:delete'],
+  'reports': ['reports:read'],
+  'settings': ['settings:read', 'settings:update', 'system:read', 'system:update'],
+  'profile': [], // Everyone can access profile
+};
+
+export const NAVIGATION_ITEM_IDS = Object.keys(NAVIGATION_PERMISSIONS);
+
+/**
+ * Permissions that reveal a navigation item, the route manifest opens the item's page with the same list
+ */
+export const getNavigationPermissions = (itemId: string): string[] => NAVIGATION_PERMISSIONS[itemId] || [];
+
 /**
  * Check if user can access a navigation item based on dynamic permissions
  */
 export const canAccessNavigationItem = (
-  userPermissions: string[], 
+  userPermissions: string[],
   itemId: string
 ): boolean => {
+  if (itemId === 'profile') return true;
   if (!userPermissions || userPermissions.length === 0) return false;
-  
-  // Map navigation items to their required permissions
-  const navigationPermissionMap: Record<string, string[]> = {
-    'dashboard': ['dashboard:read'],
-    'users': ['users:read', 'users:create', 'users:update', 'users:delete', 'users:manage'],
-    'audit': ['audit:read'],
-    'permissions': ['permissions:read', 'permissions:manage'],
-    'categories': ['categories:read', 'categories:create', 'categories:update', 'categories:delete', 'categories:manage'],
-    'inventory': ['inventory:read', 'inventory:create', 'inventory:update', 'inventory:delete'],
-    'customers': ['customers:read', 'customers:create', 'customers:update', 'customers:delete'],
-    'rentals': ['rentals:read', 'rentals:create', 'rentals:update', 'rentals:delete'],
-    'reports': ['reports:read'],
-    'settings': ['settings:read', 'settings:update', 'system:read', 'system:update'],
-    'profile': [], // Everyone can access profile
-  };
-  
-  const requiredPermissions = navigationPermissionMap[itemId];
-  if (!requiredPermissions || requiredPermissions.length === 0) {
-    return itemId === 'profile'; // Only profile is accessible without specific permissions
-  }
-  
+
+  const requiredPermissions = NAVIGATION_PERMISSIONS[itemId];
+  if (!requiredPermissions) return false;
+
   // Check if user has any of the required permissions
-  return requiredPermissions.some(requiredPermission => 
-    userPermissions.includes(requiredPermission)
+  return requiredPermissions.some(requiredPermission =>
+    userPermissions.some(permission => permissionImplies(permission, requiredPermission))
   );
 };
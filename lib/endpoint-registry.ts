@@ -0,0 +1,175 @@
+/**
+ * Declarative endpoint registry
+ * Every API endpoint is described once (method, path, input and response schema); service methods
+ * are derived from the description and each response is validated against its schema, so contract
+ * drift is reported as an `errors.CONTRACT_VIOLATION` ApiError instead of an undefined field in the UI
+ */
+
+import type { AxiosInstance } from 'axios';
+import type { z } from 'zod';
+import type { ApiError } from '@/types';
+import { logger } from '@/lib/logger';
+
+export const CONTRACT_VIOLATION_CODE = 'errors.CONTRACT_VIOLATION';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+/** Response schemas may transform what the server sent, so their input is left open */
+export type ResponseSchema<TResponse> = z.ZodType<TResponse, z.ZodTypeDef, unknown>;
+
+export interface Endpoint<TPath extends string, TInput, TResponse> {
+  method: HttpMethod;
+  /** Path relative to the API base URL, `:name` segments become leading arguments of the service method */
+  path: TPath;
+  /** Request body for POST/PUT/PATCH, query parameters for GET/DELETE */
+  input?: z.ZodType<TInput>;
+  /** Maps the input to the query parameters actually sent, for APIs with defaults or limits */
+  query?(input: TInput): Record<string, unknown>;
+  response: ResponseSchema<TResponse>;
+  responseType?: 'json' | 'blob';
+}
+
+export type AnyEndpoint = Endpoint<string, any, any>;
+
+type PathArgs<TPath extends string> =
+  TPath extends `${string}:${string}/${infer Rest}`
+    ? [string, ...PathArgs<`/${Rest}`>]
+    : TPath extends `${string}:${string}`
+      ? [string]
+      : [];
+
+type InputArgs<TInput> =
+  [TInput] extends [never]
+    ? []
+    : undefined extends TInput
+      ? [input?: TInput]
+      : [input: TInput];
+
+export type EndpointArgs<TEndpoint> =
+  TEndpoint extends Endpoint<infer TPath, infer TInput, unknown>
+    ? [...PathArgs<TPath>, ...InputArgs<TInput>]
+    : never;
+
+export type EndpointResponse<TEndpoint> =
+  TEndpoint extends Endpoint<string, any, infer TResponse> ? TResponse : never;
+
+export type ServiceMethods<TEndpoints extends Record<string, AnyEndpoint>> = {
+  [K in keyof TEndpoints]: (...args: EndpointArgs<TEndpoints[K]>) => Promise<EndpointResponse<TEndpoints[K]>>;
+};
+
+/**
+ * Describe an endpoint, keeps the literal path type so path parameters can be derived from it
+ */
+export const defineEndpoint = <TPath extends string, TResponse, TInput = never>(
+  endpoint: Endpoint<TPath, TInput, TResponse>
+): Endpoint<TPath, TInput, TResponse> => endpoint;
+
+/** A response that did not match its endpoint schema */
+export interface ContractViolation {
+  method: HttpMethod;
+  path: string;
+  issues: NonNullable<ApiError['errors']>;
+  receivedAt: string;
+}
+
+type ContractViolationListener = (violation: ContractViolation) => void;
+
+let contractViolationListeners: ContractViolationListener[] = [];
+
+/**
+ * Subscribe to contract violations (used by the development overlay), returns an unsubscribe function
+ */
+export const onContractViolation = (listener: ContractViolationListener): (() => void) => {
+  contractViolationListeners = [...contractViolationListeners, listener];
+  return () => {
+    contractViolationListeners = contractViolationListeners.filter((registered) => registered !== listener);
+  };
+};
+
+const reportContractViolation = (violation: ContractViolation) => {
+  logger.error('api.contract_violation', { ...violation });
+  contractViolationListeners.forEach((listener) => listener(violation));
+};
+
+const PATH_PARAM_PATTERN = /:(\w+)/g;
+
+const BODY_METHODS: HttpMethod[] = ['post', 'put', 'patch'];
+
+/**
+ * Check whether an error is a response that did not match its endpoint schema
+ */
+export const isContractViolation = (error: unknown): error is ApiError => {
+  return (error as ApiError | undefined)?.code === CONTRACT_VIOLATION_CODE;
+};
+
+/**
+ * Validate a response body against the endpoint schema
+ */
+export const parseEndpointResponse = <TResponse>(
+  endpoint: Endpoint<string, unknown, TResponse>,
+  data: unknown
+): TResponse => {
+  const result = endpoint.response.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    field: issue.path.join('.'),
+    code: issue.code,
+    message: issue.message,
+  }));
+  reportContractViolation({
+    method: endpoint.method,
+    path: endpoint.path,
+    issues,
+    receivedAt: new Date().toISOString(),
+  });
+
+  const contractError: ApiError = {
+    code: CONTRACT_VIOLATION_CODE,
+    message: `Unexpected response from ${endpoint.method.toUpperCase()} ${endpoint.path}`,
+    errors: issues,
+  };
+  throw contractError;
+};
+
+/**
+ * Send a request for an endpoint and return its validated response
+ */
+export const callEndpoint = async <TEndpoint extends AnyEndpoint>(
+  client: AxiosInstance,
+  endpoint: TEndpoint,
+  ...args: EndpointArgs<TEndpoint>
+): Promise<EndpointResponse<TEndpoint>> => {
+  const values = args as unknown[];
+  let argIndex = 0;
+  const url = endpoint.path.replace(PATH_PARAM_PATTERN, () => encodeURIComponent(String(values[argIndex++])));
+  // Extra arguments are ignored, e.g. the context React Query passes to a `queryFn`
+  const input = endpoint.input ? values[argIndex] : undefined;
+  const sendsBody = BODY_METHODS.includes(endpoint.method);
+
+  const response = await client.request({
+    method: endpoint.method,
+    url,
+    data: sendsBody ? input : undefined,
+    params: sendsBody ? undefined : endpoint.query ? endpoint.query(input) : input,
+    responseType: endpoint.responseType,
+  });
+
+  return parseEndpointResponse(endpoint, response.data);
+};
+
+/**
+ * Derive service methods from a group of endpoints
+ */
+export const createService = <TEndpoints extends Record<string, AnyEndpoint>>(
+  client: AxiosInstance,
+  endpoints: TEndpoints
+): ServiceMethods<TEndpoints> => {
+  const methods: Record<string, (...args: unknown[]) => Promise<unknown>> = {};
+  for (const [name, endpoint] of Object.entries(endpoints)) {
+    methods[name] = (...args) => callEndpoint(client, endpoint, ...(args as EndpointArgs<AnyEndpoint>));
+  }
+  return methods as ServiceMethods<TEndpoints>;
+};
@@ -0,0 +1,62 @@
+/**
+ * Export file download helpers
+ * Shared by the inventory and report export dialogs
+ */
+
+/**
+ * Resolve an export download URL returned by the backend to an absolute URL
+ */
+export const resolveExportDownloadUrl = (downloadUrl: string): string => {
+  if (downloadUrl.startsWith('http')) {
+    return downloadUrl;
+  }
+  if (downloadUrl.startsWith('/api/')) {
+    // downloadUrl already has /api/, so just prepend the base domain
+    return `${process.env.NEXT_PUBLIC_API_BASE_URL?.replace('/api', '') || 'http://localhost:3000'}${downloadUrl}`;
+  }
+  // downloadUrl doesn't have /api/, so use the full base URL
+  return `${process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:3000/api'}${downloadUrl}`;
+};
+
+/**
+ * Download an export file and save it in the browser
+ * @param downloadUrl URL returned by the export endpoint
+ * @param fallbackFilename Used when the response has no Content-Disposition filename
+ */
+export const downloadExportFile = async (downloadUrl: string, fallbackFilename: string): Promise<void> => {
+  const response = await fetch(resolveExportDownloadUrl(downloadUrl), {
+    method: 'GET',
+    credentials: 'include', // Include cookies for session authentication
+    headers: {
+      'Accept': '*/*',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+
+  // Get filename from response headers or use default
+  let filename = fallbackFilename;
+  const contentDisposition = response.headers.get('content-disposition');
+  if (contentDisposition) {
+    const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/);
+    if (filenameMatch) {
+      filename = filenameMatch[1];
+    }
+  }
+
+  // Create download link
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Clean up
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,75 @@
+/**
+ * Hijri Calendar
+ * Umm al-Qura conversions built on the calendar data that ships with Intl.
+ * Days are exchanged as Gregorian ISO dates (YYYY-MM-DD), the format forms submit.
+ */
+
+export interface HijriDate {
+  year: number;
+  // 1 = Muharram ... 12 = Dhu al-Hijjah
+  month: number;
+  day: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+// 1 Muharram 1 AH and the mean year and month lengths, used to estimate a date before Intl corrects it
+const HIJRI_EPOCH = Date.UTC(622, 6, 19);
+const MEAN_YEAR_DAYS = 354.36667;
+const MEAN_MONTH_DAYS = 29.530588;
+
+const hijriParts = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura-nu-latn', {
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  timeZone: 'UTC',
+});
+
+const toIsoDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const fromUtcTime = (time: number): HijriDate => {
+  const parts = hijriParts.formatToParts(new Date(time));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((candidate) => candidate.type === type)?.value ?? '', 10);
+  return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+/**
+ * Convert a Gregorian ISO date to the Hijri date of the same day
+ */
+export const toHijri = (isoDate: string): HijriDate => fromUtcTime(Date.parse(`${isoDate.slice(0, 10)}T00:00:00Z`));
+
+/**
+ * Convert a Hijri date to a Gregorian ISO date, null when the day does not exist in that month
+ */
+export const hijriToIso = ({ year, month, day }: HijriDate): string | null => {
+  let time = HIJRI_EPOCH + Math.round((year - 1) * MEAN_YEAR_DAYS + (month - 1) * MEAN_MONTH_DAYS + day - 1) * DAY;
+
+  // The estimate is a few days off at most, step towards the requested day
+  for (let attempt = 0; attempt < 6; attempt++) {
+    const current = fromUtcTime(time);
+    const drift = Math.round((year - current.year) * MEAN_YEAR_DAYS + (month - current.month) * MEAN_MONTH_DAYS + day - current.day);
+    if (current.year === year && current.month === month && current.day === day) {
+      return toIsoDate(time);
+    }
+    time += (drift === 0 ? Math.sign(day - current.day) : drift) * DAY;
+  }
+  return null;
+};
+
+/**
+ * Move a Hijri month forwards or backwards, the day is kept as is
+ */
+export const addHijriMonths = (date: HijriDate, amount: number): HijriDate => {
+  const monthIndex = date.year * 12 + (date.month - 1) + amount;
+  return { year: Math.floor(monthIndex / 12), month: (monthIndex % 12) + 1, day: date.day };
+};
+
+/**
+ * Number of days in a Hijri month, 29 or 30 in Umm al-Qura
+ */
+export const getHijriMonthLength = (year: number, month: number): number => {
+  const start = hijriToIso({ year, month, day: 1 });
+  const next = hijriToIso(addHijriMonths({ year, month, day: 1 }, 1));
+  if (!start || !next) return 30;
+  return Math.round((Date.parse(next) - Date.parse(start)) / DAY);
+};
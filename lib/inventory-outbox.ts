@@ -0,0 +1,230 @@
+/**
+ * Durable outbox for inventory mutations made without a connection
+ * Quantity updates and status changes are stored in IndexedDB and replayed in order once the
+ * connection is back. Each entry keeps the item `version` it was based on; if the item changed on
+ * the server in the meantime (including a request that reached the server before the connection
+ * dropped) the entry is marked as a conflict instead of overwriting newer data.
+ */
+
+import { createIdempotencyKey } from '@/lib/api-retry';
+import { OUTBOX_STORE, deleteOfflineValue, getAllOfflineValues, putOfflineValue } from '@/lib/offline-storage';
+import { VIEW_AS_READ_ONLY_CODE } from '@/lib/view-as';
+import type {
+  ApiError,
+  ChangeInventoryItemStatusRequest,
+  InventoryItem,
+  UpdateNonSerializedItemQuantityRequest,
+} from '@/types';
+
+export type InventoryOutboxOperation =
+  | { type: 'update-quantity'; payload: UpdateNonSerializedItemQuantityRequest }
+  | { type: 'change-status'; payload: ChangeInventoryItemStatusRequest };
+
+export type InventoryOutboxStatus = 'pending' | 'conflict' | 'failed';
+
+export type InventoryOutboxEntry = InventoryOutboxOperation & {
+  id: string;
+  scope: string;
+  itemId: string;
+  itemName: string;
+  expectedVersion: number;
+  createdAt: string;
+  status: InventoryOutboxStatus;
+  errorCode?: string;
+};
+
+export type NewInventoryOutboxEntry = InventoryOutboxOperation & {
+  scope: string;
+  itemId: string;
+  itemName: string;
+  expectedVersion: number;
+};
+
+export interface InventoryOutboxTransport {
+  getItem: (itemId: string) => Promise<InventoryItem>;
+  /** Resolves to the updated item when the API returns it */
+  send: (entry: InventoryOutboxEntry) => Promise<InventoryItem | null>;
+}
+
+export interface OutboxReplayResult {
+  applied: InventoryOutboxEntry[];
+  /** Entries marked as conflict or failed, or rebased on a newer version, to be saved */
+  changed: InventoryOutboxEntry[];
+  /** Replay stopped because the connection dropped again or a view-as session blocks writes */
+  interrupted: boolean;
+}
+
+// Errors meaning the request never got an answer, the mutation can be queued and retried later
+const QUEUEABLE_ERROR_CODES = ['errors.NETWORK_ERROR', 'errors.TIMEOUT'];
+
+export const isQueueableError = (error: unknown): boolean =>
+  QUEUEABLE_ERROR_CODES.includes((error as ApiError | undefined)?.code || '');
+
+// Writes refused before they were sent because the tab is viewing as someone else, replayed once the view ends
+const isViewAsReadOnlyError = (error: unknown): boolean =>
+  (error as ApiError | undefined)?.code === VIEW_AS_READ_ONLY_CODE;
+
+const isConflictError = (error: unknown): boolean =>
+  ((error as ApiError | undefined)?.code || '').endsWith('EDIT_CONFLICT');
+
+/**
+ * Apply a queued operation to a cached item so the UI reflects it before it is synced
+ */
+export const applyOutboxOperation = (item: InventoryItem, operation: InventoryOutboxOperation): InventoryItem => {
+  if (operation.type === 'update-quantity') {
+    return {
+      ...item,
+      quantity: operation.payload.quantity,
+      quantityUnit: operation.payload.quantityUnit || item.quantityUnit,
+    };
+  }
+  return { ...item, availabilityStatus: operation.payload.newStatus };
+};
+
+const byCreatedAt = (a: InventoryOutboxEntry, b: InventoryOutboxEntry) => a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Replay pending entries in the order they were made
+ * Pure with respect to storage so the conflict rules can be tested without IndexedDB
+ */
+export const replayOutboxEntries = async (
+  entries: InventoryOutboxEntry[],
+  transport: InventoryOutboxTransport
+): Promise<OutboxReplayResult> => {
+  const queue = entries
+    .filter((entry) => entry.status === 'pending')
+    .sort(byCreatedAt)
+    .map((entry) => ({ ...entry }));
+  const applied: InventoryOutboxEntry[] = [];
+  const changed = new Map<string, InventoryOutboxEntry>();
+
+  for (let index = 0; index < queue.length; index++) {
+    const entry = queue[index];
+
+    try {
+      const current = await transport.getItem(entry.itemId);
+      if (current.version !== entry.expectedVersion) {
+        entry.status = 'conflict';
+        changed.set(entry.id, entry);
+        continue;
+      }
+
+      const updated = await transport.send(entry);
+      applied.push(entry);
+      changed.delete(entry.id);
+
+      // Later changes to the same item were based on the version this entry just replaced
+      const followUps = queue
+        .slice(index + 1)
+        .filter((next) => next.itemId === entry.itemId && next.expectedVersion === entry.expectedVersion);
+      if (followUps.length > 0) {
+        const latestVersion = updated ? updated.version : (await transport.getItem(entry.itemId)).version;
+        followUps.forEach((next) => {
+          next.expectedVersion = latestVersion;
+          changed.set(next.id, next);
+        });
+      }
+    } catch (error) {
+      if (isQueueableError(error) || isViewAsReadOnlyError(error)) {
+        return { applied, changed: Array.from(changed.values()), interrupted: true };
+      }
+      entry.status = isConflictError(error) ? 'conflict' : 'failed';
+      entry.errorCode = (error as ApiError | undefined)?.code;
+      changed.set(entry.id, entry);
+    }
+  }
+
+  return { applied, changed: Array.from(changed.values()), interrupted: false };
+};
+
+const LOCK_NAME = 'samanin-inventory-outbox';
+
+/**
+ * Run a replay while holding a cross-tab lock so two tabs never send the same entry
+ * Browsers without the Web Locks API run the replay directly
+ */
+export const withOutboxLock = async <T>(replay: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+    return replay();
+  }
+  return navigator.locks.request(LOCK_NAME, replay);
+};
+
+// Change notification, also across tabs sharing the same IndexedDB
+
+type OutboxListener = () => void;
+
+const CHANNEL_NAME = 'samanin-inventory-outbox';
+
+let listeners: OutboxListener[] = [];
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (typeof window === 'undefined' || typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.addEventListener('message', () => listeners.forEach((listener) => listener()));
+  }
+  return channel;
+};
+
+const notifyOutboxChanged = () => {
+  listeners.forEach((listener) => listener());
+  getChannel()?.postMessage('changed');
+};
+
+/**
+ * Listen for outbox changes made in this or another tab
+ * @returns Unsubscribe function
+ */
+export const subscribeToOutbox = (listener: OutboxListener): (() => void) => {
+  getChannel();
+  listeners = [...listeners, listener];
+  return () => {
+    listeners = listeners.filter((registered) => registered !== listener);
+  };
+};
+
+// Storage
+
+/**
+ * List the entries of a user, oldest first
+ */
+export const getOutboxEntries = async (scope: string): Promise<InventoryOutboxEntry[]> => {
+  const entries = await getAllOfflineValues<InventoryOutboxEntry>(OUTBOX_STORE);
+  return entries.filter((entry) => entry.scope === scope).sort(byCreatedAt);
+};
+
+/**
+ * Queue a mutation for replay
+ */
+export const addOutboxEntry = async (newEntry: NewInventoryOutboxEntry): Promise<InventoryOutboxEntry> => {
+  const entry = {
+    ...newEntry,
+    id: createIdempotencyKey(),
+    createdAt: new Date().toISOString(),
+    status: 'pending',
+  } as InventoryOutboxEntry;
+  await putOfflineValue(OUTBOX_STORE, entry);
+  notifyOutboxChanged();
+  return entry;
+};
+
+/**
+ * Remove an entry, after it was applied or when the user discards it
+ */
+export const removeOutboxEntry = async (entryId: string): Promise<void> => {
+  await deleteOfflineValue(OUTBOX_STORE, entryId);
+  notifyOutboxChanged();
+};
+
+/**
+ * Store the outcome of a replay
+ */
+export const saveOutboxReplayResult = async (result: OutboxReplayResult): Promise<void> => {
+  await Promise.all([
+    ...result.applied.map((entry) => deleteOfflineValue(OUTBOX_STORE, entry.id)),
+    ...result.changed.map((entry) => putOfflineValue(OUTBOX_STORE, entry)),
+  ]);
+  notifyOutboxChanged();
+};
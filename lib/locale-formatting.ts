@@ -1,72 +1,60 @@
 'use client';
 
-import moment from 'jalali-moment';
 import { LocaleFormattingResponse, TenantLocale, TenantLanguage } from '@/types';
+import {
+  CalendarSystem,
+  DEFAULT_LOCALE_CODE,
+  DIGIT_SETS,
+  DigitSet,
+  getLocaleByTenantLocale,
+  getLocaleDefinition,
+} from '@/lib/locale-registry';
 
-// Persian digits for display
-const persianDigits = ['۰', '۱', '۲', '۳', '۴', '۵', '۶', '۷', '۸', '۹'];
-const arabicDigits = ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'];
-
-// Convert Latin digits to Persian digits
-const convertToPersianDigits = (str: string): string => {
-  return str.replace(/[0-9]/g, (digit) => persianDigits[parseInt(digit)]);
+// Convert Latin digits to the digit set of the locale
+export const convertDigits = (str: string, digits: DigitSet): string => {
+  return str.replace(/[0-9]/g, (digit) => DIGIT_SETS[digits][parseInt(digit)]);
 };
 
-// Convert Latin digits to Arabic digits
-const convertToArabicDigits = (str: string): string => {
-  return str.replace(/[0-9]/g, (digit) => arabicDigits[parseInt(digit)]);
-};
+// The tenant calendar is only used when the tenant locale supports it, Gregorian otherwise
+export const getCalendarSystem = (config: LocaleFormattingResponse['data']): CalendarSystem =>
+  getLocaleByTenantLocale(config.locale).calendars.some((calendar) => calendar === config.dateFormat.calendar)
+    ? config.dateFormat.calendar
+    : 'gregorian';
+
+export const usesPersianCalendar = (config: LocaleFormattingResponse['data']): boolean =>
+  getCalendarSystem(config) === 'persian';
+
+export const getIntlLocale = (config: LocaleFormattingResponse['data']): string =>
+  getLocaleByTenantLocale(config.locale).intlLocale;
 
 /**
- * Format date according to locale configuration
+ * Formatting configuration for the UI language
+ * Users reading the tenant language get the tenant settings (calendar, digits), users who switched
+ * to another language get that language's locale, calendar and digits from the registry
  */
-export const formatDate = (
-  dateString: string,
-  config: LocaleFormattingResponse['data']
-): string => {
-  try {
-    const date = new Date(dateString);
-    
-    if (config.locale === 'iran' && config.dateFormat.calendar === 'persian') {
-      // Use jalali-moment for proper Persian calendar conversion
-      const jMoment = moment(date).locale('fa');
-      const formattedDate = jMoment.format('D MMMM YYYY');
-      return convertToPersianDigits(formattedDate);
-    } else {
-      // UAE locale - use Gregorian calendar
-      const options: Intl.DateTimeFormatOptions = {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      };
-      
-      const locale = config.locale === 'uae' ? 'ar-AE' : 'fa-IR';
-      const formattedDate = date.toLocaleDateString(locale, options);
-      
-      if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(formattedDate);
-      } else if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(formattedDate);
-      }
-      
-      return formattedDate;
-    }
-  } catch (error) {
-    console.error('Date formatting error:', error);
-    // Fallback to a simpler format
-    try {
-      const date = new Date(dateString);
-      const fallbackFormat = date.toLocaleDateString();
-      if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(fallbackFormat);
-      } else if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(fallbackFormat);
-      }
-      return fallbackFormat;
-    } catch (fallbackError) {
-      return dateString;
-    }
+export const getLanguageFormattingConfig = (
+  config: LocaleFormattingResponse['data'],
+  languageCode: string
+): LocaleFormattingResponse['data'] => {
+  const definition = getLocaleDefinition(languageCode);
+  if (definition.tenantLanguage === config.language) {
+    return config;
   }
+  return {
+    ...config,
+    locale: definition.tenantLocale as TenantLocale,
+    language: definition.tenantLanguage as TenantLanguage,
+    dateFormat: {
+      ...config.dateFormat,
+      calendar: definition.calendars[0],
+      // The time zone belongs to the tenant, not to the language
+      timeZone: config.dateFormat.timeZone ?? getLocaleByTenantLocale(config.locale).timeZone,
+    },
+    numberFormat: {
+      ...config.numberFormat,
+      digits: definition.digits,
+    },
+  };
 };
 
 /**
@@ -86,13 +74,7 @@ export const formatNumber = (
     let formatted = parts.join(decimal);
     
     // Convert digits based on locale
-    if (digits === 'persian') {
-      formatted = convertToPersianDigits(formatted);
-    } else if (digits === 'arabic') {
-      formatted = convertToArabicDigits(formatted);
-    }
-    
-    return formatted;
+    return convertDigits(formatted, digits);
   } catch (error) {
     console.error('Number formatting error:', error);
     return number.toString();
@@ -121,133 +103,81 @@ export const formatCurrency = (
   }
 };
 
+// Direction marks that come along when localized numbers are copied and pasted
+const BIDI_MARKS = /[\u200e\u200f\u061c\u202a-\u202e\u2066-\u2069]/g;
+// Grouping characters accepted in any locale, besides the configured thousands separator
+const GROUP_SEPARATORS = [',', '،', '٬', "'", ' ', '\u00a0', '\u202f'];
+
 /**
- * Get short date format based on locale
+ * Convert Persian and Arabic-Indic digits to Latin digits
  */
-export const getShortDateFormat = (
-  dateString: string,
+export const normalizeDigits = (str: string): string => {
+  return str.replace(/[\u06f0-\u06f9\u0660-\u0669]/g, (digit) => {
+    const persianIndex = DIGIT_SETS.persian.indexOf(digit);
+    return String(persianIndex >= 0 ? persianIndex : DIGIT_SETS.arabic.indexOf(digit));
+  });
+};
+
+// Typed or pasted text with Latin digits and without direction marks
+export const normalizeInput = (input: string): string => normalizeDigits(input).replace(BIDI_MARKS, '').trim();
+
+/**
+ * Parse a number typed in any digit set with the locale's decimal and thousands separators
+ * Returns null when the input is empty or not a number
+ */
+export const parseNumber = (
+  input: string,
   config: LocaleFormattingResponse['data']
-): string => {
-  try {
-    const date = new Date(dateString);
-    
-    if (config.locale === 'iran' && config.dateFormat.calendar === 'persian') {
-      // Use jalali-moment for proper Persian calendar conversion
-      const jMoment = moment(date).locale('fa');
-      const formatted = jMoment.format('YYYY/MM/DD');
-      return convertToPersianDigits(formatted);
-    } else {
-      // UAE locale - use Gregorian calendar
-      const options: Intl.DateTimeFormatOptions = {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit'
-      };
-      
-      const locale = config.locale === 'uae' ? 'ar-AE' : 'fa-IR';
-      const formatted = date.toLocaleDateString(locale, options);
-      
-      if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(formatted);
-      } else if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(formatted);
-      }
-      
-      return formatted;
-    }
-  } catch (error) {
-    console.error('Short date formatting error:', error);
-    // Fallback to a simpler format
-    try {
-      const date = new Date(dateString);
-      const fallbackFormat = date.toLocaleDateString();
-      if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(fallbackFormat);
-      } else if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(fallbackFormat);
-      }
-      return fallbackFormat;
-    } catch (fallbackError) {
-      return dateString;
+): number | null => {
+  const { decimal, thousands } = config.numberFormat;
+  const decimalMarks = [decimal, '٫', ...(thousands === '.' ? [] : ['.'])];
+  const text = normalizeInput(input).replace(/^\u2212/, '-');
+
+  let normalized = '';
+  for (const char of text) {
+    if (decimalMarks.includes(char)) {
+      normalized += '.';
+    } else if (char !== thousands && !GROUP_SEPARATORS.includes(char)) {
+      normalized += char;
     }
   }
+
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
 };
 
 /**
- * Format date and time according to locale configuration
+ * Parse a currency amount, the currency symbol and code may be typed on either side
  */
-export const formatDateTime = (
-  dateString: string,
+export const parseCurrency = (
+  input: string,
   config: LocaleFormattingResponse['data']
-): string => {
-  try {
-    const date = new Date(dateString);
-    
-    if (config.locale === 'iran' && config.dateFormat.calendar === 'persian') {
-      // Use jalali-moment for proper Persian calendar conversion
-      const jMoment = moment(date).locale('fa');
-      const formatted = jMoment.format('D MMMM YYYY HH:mm');
-      return convertToPersianDigits(formatted);
-    } else {
-      // UAE locale - use Gregorian calendar
-      const options: Intl.DateTimeFormatOptions = {
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      };
-      
-      const locale = config.locale === 'uae' ? 'ar-AE' : 'fa-IR';
-      const formatted = date.toLocaleDateString(locale, options);
-      
-      if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(formatted);
-      } else if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(formatted);
-      }
-      
-      return formatted;
-    }
-  } catch (error) {
-    console.error('DateTime formatting error:', error);
-    // Fallback to a simpler format
-    try {
-      const date = new Date(dateString);
-      const fallbackFormat = date.toLocaleString();
-      if (config.numberFormat.digits === 'persian') {
-        return convertToPersianDigits(fallbackFormat);
-      } else if (config.numberFormat.digits === 'arabic') {
-        return convertToArabicDigits(fallbackFormat);
-      }
-      return fallbackFormat;
-    } catch (fallbackError) {
-      return dateString;
-    }
-  }
+): number | null => {
+  const { symbol, code } = config.currencyFormat;
+  const amount = [symbol, code].reduce((text, marker) => text.split(marker).join(''), input);
+  return parseNumber(amount, config);
 };
 
+const defaultLocale = getLocaleDefinition(DEFAULT_LOCALE_CODE);
+
 /**
  * Default locale configuration for fallback
  */
 export const defaultLocaleConfig: LocaleFormattingResponse['data'] = {
-  locale: 'iran',
-  language: 'persian',
+  locale: defaultLocale.tenantLocale as TenantLocale,
+  language: defaultLocale.tenantLanguage as TenantLanguage,
   dateFormat: {
-    calendar: 'persian',
+    calendar: defaultLocale.calendars[0],
     format: 'YYYY/MM/DD',
     example: '۱۴۰۳/۰۱/۱۵'
   },
   numberFormat: {
-    digits: 'persian',
-    decimal: '/',
-    thousands: '،',
+    digits: defaultLocale.digits,
+    ...defaultLocale.numberFormat,
     example: '۱۲۳،۴۵۶/۷۸'
   },
   currencyFormat: {
-    code: 'IRR',
-    symbol: 'ریال',
-    position: 'after',
+    ...defaultLocale.currency,
+    code: defaultLocale.currency.code as LocaleFormattingResponse['data']['currencyFormat']['code'],
     example: '۱۲۳،۴۵۶ ریال'
   }
 };
@@ -0,0 +1,156 @@
+/**
+ * Locale Registry
+ * Single description of every locale the app supports: i18n language code, tenant language and
+ * locale identifiers, text direction, font, digit set, calendars, number separators and currency.
+ * Onboarding a new tenant locale means adding an entry here and a catalogue in i18n/.
+ */
+
+export type TextDirection = 'rtl' | 'ltr';
+export type DigitSet = 'persian' | 'arabic' | 'latin';
+export type CalendarSystem = 'persian' | 'gregorian' | 'hijri';
+export type CurrencyPlacement = 'before' | 'after';
+
+export interface LocaleDefinition {
+  // i18next language code, also sent as the accept-language header
+  code: string;
+  nativeName: string;
+  // Translation key of the language name shown in the language selector
+  labelKey: string;
+  // Identifiers used by the tenant API
+  tenantLanguage: string;
+  tenantLocale: string;
+  // BCP 47 locale passed to Intl formatters
+  intlLocale: string;
+  direction: TextDirection;
+  fontClass: string;
+  digits: DigitSet;
+  // Calendars a tenant of this locale may use, the first one is the default
+  calendars: readonly [CalendarSystem, ...CalendarSystem[]];
+  // IANA time zone used until the tenant picks one
+  timeZone: string;
+  // ISO 3166 country whose dialling code phone inputs start with
+  phoneCountry: string;
+  numberFormat: {
+    decimal: string;
+    thousands: string;
+  };
+  currency: {
+    code: string;
+    symbol: string;
+    position: CurrencyPlacement;
+  };
+  // Shown in the language selector and offered at registration
+  selectable: boolean;
+}
+
+const LOCALE_REGISTRY = {
+  fa: {
+    code: 'fa',
+    nativeName: 'فارسی',
+    labelKey: 'ui.languageSelector.persian',
+    tenantLanguage: 'persian',
+    tenantLocale: 'iran',
+    intlLocale: 'fa-IR',
+    direction: 'rtl',
+    fontClass: 'font-persian',
+    digits: 'persian',
+    calendars: ['persian', 'gregorian'],
+    timeZone: 'Asia/Tehran',
+    phoneCountry: 'IR',
+    numberFormat: { decimal: '/', thousands: '،' },
+    currency: { code: 'IRR', symbol: 'ریال', position: 'after' },
+    selectable: true,
+  },
+  ar: {
+    code: 'ar',
+    nativeName: 'عربي',
+    labelKey: 'ui.languageSelector.arabic',
+    tenantLanguage: 'arabic',
+    tenantLocale: 'uae',
+    intlLocale: 'ar-AE',
+    direction: 'rtl',
+    fontClass: 'font-persian',
+    digits: 'arabic',
+    calendars: ['gregorian', 'hijri'],
+    timeZone: 'Asia/Dubai',
+    phoneCountry: 'AE',
+    numberFormat: { decimal: '٫', thousands: '٬' },
+    currency: { code: 'AED', symbol: 'د.إ', position: 'after' },
+    selectable: true,
+  },
+  // English renders the server side markup and is the i18next fallback, tenants cannot pick it yet
+  en: {
+    code: 'en',
+    nativeName: 'English',
+    labelKey: 'ui.languageSelector.english',
+    tenantLanguage: 'english',
+    tenantLocale: 'global',
+    intlLocale: 'en-US',
+    direction: 'ltr',
+    fontClass: 'font-english',
+    digits: 'latin',
+    calendars: ['gregorian'],
+    timeZone: 'UTC',
+    phoneCountry: 'AE',
+    numberFormat: { decimal: '.', thousands: ',' },
+    currency: { code: 'USD', symbol: '$', position: 'before' },
+    selectable: false,
+  },
+} as const satisfies Record<string, LocaleDefinition>;
+
+type Registry = typeof LOCALE_REGISTRY;
+
+export type LocaleCode = keyof Registry;
+export type RegisteredTenantLanguage = Registry[LocaleCode]['tenantLanguage'];
+export type RegisteredTenantLocale = Registry[LocaleCode]['tenantLocale'];
+export type RegisteredCurrencyCode = Registry[LocaleCode]['currency']['code'];
+
+// Locale used when a language code is not registered
+export const DEFAULT_LOCALE_CODE: LocaleCode = 'fa';
+
+export const DIGIT_SETS: Record<DigitSet, readonly string[]> = {
+  persian: ['۰', '۱', '۲', '۳', '۴', '۵', '۶', '۷', '۸', '۹'],
+  arabic: ['٠', '١', '٢', '٣', '٤', '٥', '٦', '٧', '٨', '٩'],
+  latin: ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'],
+};
+
+// Every calendar the date formatting supports, the Hijri calendar is Umm al-Qura
+export const CALENDAR_SYSTEMS: [CalendarSystem, ...CalendarSystem[]] = ['persian', 'gregorian', 'hijri'];
+
+const definitions: LocaleDefinition[] = Object.values(LOCALE_REGISTRY);
+
+// Distinct values of one field across the registry, typed as a non-empty tuple for z.enum
+const collect = <T extends string>(select: (definition: LocaleDefinition) => string): [T, ...T[]] =>
+  Array.from(new Set(definitions.map(select))) as [T, ...T[]];
+
+export const LOCALE_CODES = collect<LocaleCode>((definition) => definition.code);
+export const TENANT_LANGUAGES = collect<RegisteredTenantLanguage>((definition) => definition.tenantLanguage);
+export const TENANT_LOCALES = collect<RegisteredTenantLocale>((definition) => definition.tenantLocale);
+export const CURRENCY_CODES = collect<RegisteredCurrencyCode>((definition) => definition.currency.code);
+
+export const isRegisteredLocale = (code: string | null | undefined): code is LocaleCode =>
+  !!code && code in LOCALE_REGISTRY;
+
+export const isSelectableLocale = (code: string | null | undefined): code is LocaleCode =>
+  isRegisteredLocale(code) && LOCALE_REGISTRY[code].selectable;
+
+/**
+ * Get the definition of an i18n language code, unknown codes resolve to the default locale
+ */
+export const getLocaleDefinition = (code: string | null | undefined): LocaleDefinition =>
+  LOCALE_REGISTRY[isRegisteredLocale(code) ? code : DEFAULT_LOCALE_CODE];
+
+/**
+ * Get the definition of a tenant locale identifier (e.g. 'iran'), unknown values resolve to the default locale
+ */
+export const getLocaleByTenantLocale = (tenantLocale: string): LocaleDefinition =>
+  definitions.find((definition) => definition.tenantLocale === tenantLocale) ?? getLocaleDefinition(DEFAULT_LOCALE_CODE);
+
+/**
+ * Locales offered in the language selector and at registration
+ */
+export const getSelectableLocales = (): LocaleDefinition[] =>
+  definitions.filter((definition) => definition.selectable);
+
+export const isRtlLanguage = (code: string | null | undefined): boolean =>
+  getLocaleDefinition(code).direction === 'rtl';
@@ -0,0 +1,44 @@
+/**
+ * Structured logger
+ * Emits one object per event (level, event name, timestamp and context) so entries can be
+ * filtered in the browser console and forwarded to a log collector without string parsing
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  level: LogLevel;
+  event: string;
+  timestamp: string;
+  context: Record<string, unknown>;
+}
+
+type LogSink = (entry: LogEntry) => void;
+
+const consoleSink: LogSink = (entry) => {
+  console[entry.level](`[${entry.event}]`, entry);
+};
+
+let sinks: LogSink[] = [consoleSink];
+
+/**
+ * Register an additional destination for log entries, returns a function removing it
+ */
+export const addLogSink = (sink: LogSink): (() => void) => {
+  sinks = [...sinks, sink];
+  return () => {
+    sinks = sinks.filter((registered) => registered !== sink);
+  };
+};
+
+const log = (level: LogLevel, event: string, context: Record<string, unknown> = {}) => {
+  const entry: LogEntry = { level, event, timestamp: new Date().toISOString(), context };
+  sinks.forEach((sink) => sink(entry));
+};
+
+export const logger = {
+  debug: (event: string, context?: Record<string, unknown>) => log('debug', event, context),
+  info: (event: string, context?: Record<string, unknown>) => log('info', event, context),
+  warn: (event: string, context?: Record<string, unknown>) => log('warn', event, context),
+  error: (event: string, context?: Record<string, unknown>) => log('error', event, context),
+};
@@ -0,0 +1,77 @@
+/**
+ * National identifier validation for customers
+ * Iranian tenants register customers by their 10-digit national code (کد ملی),
+ * UAE tenants by the 15-digit Emirates ID (784-YYYY-NNNNNNN-C)
+ */
+
+import { normalizeInput } from '@/lib/locale-formatting';
+import type { TenantLocale } from '@/types';
+
+/**
+ * Convert Persian/Arabic digits to Latin and drop separators typed by users
+ */
+export const normalizeNationalId = (value: string): string => {
+  return normalizeInput(value).replace(/[\s\-‐–]/g, '');
+};
+
+/**
+ * Validate an Iranian national code using its mod-11 check digit
+ */
+export const isValidIranianNationalId = (value: string): boolean => {
+  const code = normalizeNationalId(value);
+  if (!/^\d{10}$/.test(code)) return false;
+  // Codes made of a single repeated digit pass the checksum but are never issued
+  if (/^(\d)\1{9}$/.test(code)) return false;
+
+  const digits = code.split('').map(Number);
+  const sum = digits.slice(0, 9).reduce((total, digit, index) => total + digit * (10 - index), 0);
+  const remainder = sum % 11;
+  const checkDigit = digits[9];
+
+  return remainder < 2 ? checkDigit === remainder : checkDigit === 11 - remainder;
+};
+
+/**
+ * Validate an Emirates ID: 784 country prefix, birth year and a Luhn check digit
+ */
+export const isValidEmiratesId = (value: string): boolean => {
+  const id = normalizeNationalId(value);
+  if (!/^784\d{12}$/.test(id)) return false;
+
+  let sum = 0;
+  for (let index = 0; index < id.length; index++) {
+    let digit = Number(id[id.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+};
+
+/**
+ * Validate a national identifier according to the tenant locale
+ */
+export const isValidNationalId = (value: string, locale: TenantLocale): boolean => {
+  return locale === 'iran' ? isValidIranianNationalId(value) : isValidEmiratesId(value);
+};
+
+/**
+ * Format a stored identifier for display (Emirates IDs are shown with dashes)
+ */
+export const formatNationalId = (value: string, locale: TenantLocale): string => {
+  const id = normalizeNationalId(value);
+  if (locale === 'uae' && id.length === 15) {
+    return `${id.slice(0, 3)}-${id.slice(3, 7)}-${id.slice(7, 14)}-${id.slice(14)}`;
+  }
+  return id;
+};
+
+/**
+ * Translation key of the national identifier label for a tenant locale
+ */
+export const getNationalIdLabelKey = (locale: TenantLocale): string => {
+  return locale === 'iran' ? 'customers.form.fields.nationalId.iran' : 'customers.form.fields.nationalId.uae';
+};
@@ -0,0 +1,96 @@
+/**
+ * IndexedDB storage for offline mode
+ * Small promise wrapper around the browser API holding the persisted query cache and the
+ * inventory outbox; every call resolves to an empty result where IndexedDB is unavailable
+ */
+
+const DB_NAME = 'samanin-offline';
+const DB_VERSION = 1;
+
+export const QUERY_CACHE_STORE = 'query-cache';
+export const OUTBOX_STORE = 'outbox';
+
+export type OfflineStoreName = typeof QUERY_CACHE_STORE | typeof OUTBOX_STORE;
+
+let databasePromise: Promise<IDBDatabase | null> | null = null;
+
+const isIndexedDBAvailable = () => typeof window !== 'undefined' && typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!isIndexedDBAvailable()) return Promise.resolve(null);
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(QUERY_CACHE_STORE)) {
+          database.createObjectStore(QUERY_CACHE_STORE);
+        }
+        if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+          database.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing modes may refuse IndexedDB, offline mode is then simply disabled
+        console.warn('Offline storage unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const withStore = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  const database = await openDatabase();
+  if (!database) return undefined;
+
+  const transaction = database.transaction(storeName, mode);
+  return requestToPromise(operation(transaction.objectStore(storeName)));
+};
+
+/**
+ * Read a value by key
+ */
+export const getOfflineValue = async <T>(storeName: OfflineStoreName, key: string): Promise<T | undefined> => {
+  return withStore<T>(storeName, 'readonly', (store) => store.get(key));
+};
+
+/**
+ * Read every value of a store
+ */
+export const getAllOfflineValues = async <T>(storeName: OfflineStoreName): Promise<T[]> => {
+  return (await withStore<T[]>(storeName, 'readonly', (store) => store.getAll())) || [];
+};
+
+/**
+ * Write a value, `key` is omitted for stores using an in-line key path (the outbox)
+ */
+export const putOfflineValue = async <T>(storeName: OfflineStoreName, value: T, key?: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', (store) => store.put(value, key));
+};
+
+/**
+ * Delete a value by key
+ */
+export const deleteOfflineValue = async (storeName: OfflineStoreName, key: string): Promise<void> => {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+};
+
+/**
+ * Remove every value of a store
+ */
+export const clearOfflineStore = async (storeName: OfflineStoreName): Promise<void> => {
+  await withStore(storeName, 'readwrite', (store) => store.clear());
+};
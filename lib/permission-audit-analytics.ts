@@ -0,0 +1,120 @@
+/**
+ * Permission Audit Analytics
+ * Denial rates, top denied users and denials per day, aggregated from the permission check
+ * records of GET /permissions/audit. The API only lists checks page by page, so the dashboard
+ * loads the checks of the chosen range (up to MAX_ANALYZED_CHECKS) and aggregates them here.
+ */
+
+import { toZonedIsoDate } from '@/lib/timezone';
+import { CheckResult } from '@/types';
+import type { PermissionAction, PermissionCheck } from '@/types';
+
+// Most recent checks analysed per range, larger ranges are reported as partial
+export const MAX_ANALYZED_CHECKS = 2000;
+
+export interface PermissionCheckCounts {
+  total: number;
+  denied: number;
+  // Share of denied checks, 0 to 1
+  denialRate: number;
+}
+
+export interface PermissionDenialRow extends PermissionCheckCounts {
+  resource: string;
+  action: PermissionAction;
+}
+
+export interface UserDenialRow extends PermissionCheckCounts {
+  userId: string;
+  fullName: string;
+  email: string;
+}
+
+export interface DenialTimeSeriesRow {
+  // YYYY-MM-DD in the tenant time zone
+  date: string;
+  granted: number;
+  denied: number;
+}
+
+/**
+ * Checks, denials and denial rate of a set of checks
+ */
+export const summarizePermissionChecks = (checks: PermissionCheck[]): PermissionCheckCounts => {
+  const denied = checks.filter((check) => check.checkResult === CheckResult.DENIED).length;
+  return { total: checks.length, denied, denialRate: checks.length ? denied / checks.length : 0 };
+};
+
+const groupBy = <T>(items: T[], getKey: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return groups;
+};
+
+// Most denials first, then the highest rate
+const byDenials = (a: PermissionCheckCounts, b: PermissionCheckCounts) =>
+  b.denied - a.denied || b.denialRate - a.denialRate;
+
+/**
+ * Checks and denials per resource and action, only pairs with at least one denial
+ */
+export const getDenialsByPermission = (checks: PermissionCheck[]): PermissionDenialRow[] =>
+  Array.from(groupBy(checks, (check) => `${check.resource}:${check.action}`).values())
+    .map((group) => ({ resource: group[0].resource, action: group[0].action, ...summarizePermissionChecks(group) }))
+    .filter((row) => row.denied > 0)
+    .sort(byDenials);
+
+/**
+ * Users with the most denied checks
+ */
+export const getTopDeniedUsers = (checks: PermissionCheck[], limit = 10): UserDenialRow[] =>
+  Array.from(groupBy(checks, (check) => check.userId).values())
+    .map((group) => ({
+      userId: group[0].userId,
+      fullName: group[0].user.fullName,
+      email: group[0].user.email,
+      ...summarizePermissionChecks(group),
+    }))
+    .filter((row) => row.denied > 0)
+    .sort(byDenials)
+    .slice(0, limit);
+
+const addDays = (date: string, days: number): string => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+};
+
+/**
+ * The last `days` days up to today, as dates of the tenant time zone
+ */
+export const getRecentDaysRange = (days: number, timeZone: string, now = new Date()): { from: string; to: string } => {
+  const to = toZonedIsoDate(now, timeZone);
+  return { from: addDays(to, 1 - days), to };
+};
+
+/**
+ * Granted and denied checks per day of the tenant time zone
+ * Every day from `from` to `to` gets a row, an open bound falls back to the first or last check.
+ */
+export const getDenialTimeSeries = (
+  checks: PermissionCheck[],
+  timeZone: string,
+  range: { from: string; to: string }
+): DenialTimeSeriesRow[] => {
+  const byDate = groupBy(checks, (check) => toZonedIsoDate(new Date(check.checkedAt), timeZone));
+  const dates = Array.from(byDate.keys()).sort();
+  const from = range.from || dates[0];
+  const to = range.to || dates[dates.length - 1];
+  if (!from || !to) return [];
+
+  const rows: DenialTimeSeriesRow[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const { total, denied } = summarizePermissionChecks(byDate.get(date) || []);
+    rows.push({ date, granted: total - denied, denied });
+  }
+  return rows;
+};
@@ -0,0 +1,114 @@
+/**
+ * Permission Matrix
+ * Grants of every role side by side (permissions as rows, roles as columns), the inconsistencies
+ * worth a second look in a compliance review, and the CSV / printable exports of the matrix.
+ */
+
+import { permissionImplies } from '@/lib/dynamic-permission-utils';
+import { toPermissionString } from '@/lib/role-permission-diff';
+import { PermissionAction } from '@/types';
+import type { Permission } from '@/types';
+
+// Role id → permission id → granted
+export type PermissionMatrixGrants = Record<string, Record<string, boolean>>;
+
+// Actions that are of little use without being able to read the resource
+const ACTIONS_REQUIRING_READ: PermissionAction[] = [
+  PermissionAction.CREATE,
+  PermissionAction.UPDATE,
+  PermissionAction.DELETE,
+  PermissionAction.EXPORT,
+  PermissionAction.IMPORT,
+];
+
+export interface PermissionInconsistency {
+  roleId: string;
+  permission: Permission;
+  // Permission string the grant depends on, e.g. "customers:read"
+  missing: string;
+}
+
+/**
+ * Grants that depend on a permission the role lacks, e.g. customers:update without customers:read
+ * Implied permissions count (customers:manage covers customers:read), and a dependency the
+ * permission catalogue does not offer is never reported.
+ */
+export const findPermissionInconsistencies = (
+  permissions: Permission[],
+  grants: PermissionMatrixGrants
+): PermissionInconsistency[] => {
+  const available = new Set(permissions.map(toPermissionString));
+
+  return Object.entries(grants).flatMap(([roleId, roleGrants]) => {
+    const granted = permissions.filter((permission) => roleGrants[permission.id]).map(toPermissionString);
+
+    return permissions
+      .filter((permission) => roleGrants[permission.id] && ACTIONS_REQUIRING_READ.includes(permission.action))
+      .map((permission) => ({ roleId, permission, missing: `${permission.resource}:${PermissionAction.READ}` }))
+      .filter(({ missing }) =>
+        available.has(missing) && !granted.some((grant) => permissionImplies(grant, missing)));
+  });
+};
+
+// Cells a spreadsheet would run as a formula, e.g. a custom role named "=HYPERLINK(...)"
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (value: string): string => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV text of a table, with a byte order mark so spreadsheet apps read Persian and Arabic labels correctly
+ * Cells starting like a formula are prefixed with an apostrophe so they open as text
+ */
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export interface PrintableTable {
+  title: string;
+  subtitle: string;
+  headers: string[];
+  rows: string[][];
+  lang: string;
+  dir: 'rtl' | 'ltr';
+}
+
+/**
+ * Standalone HTML document of a table, printed by the browser to produce the PDF export
+ */
+export const toPrintableHtml = ({ title, subtitle, headers, rows, lang, dir }: PrintableTable): string => `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: landscape; margin: 12mm; }
+  body { font-family: Vazirmatn, Tahoma, Arial, sans-serif; font-size: 11px; color: #111827; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  p { margin: 0 0 12px; color: #4b5563; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: center; }
+  th { background: #f3f4f6; }
+  td:first-child, td:nth-child(2) { text-align: start; }
+  tr { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(subtitle)}</p>
+<table>
+<thead><tr>${headers.map((header) => `<th>${escapeHtml(header)}</th>`).join('')}</tr></thead>
+<tbody>
+${rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>
+</body>
+</html>`;
@@ -0,0 +1,220 @@
+import { getLocaleByTenantLocale } from '@/lib/locale-registry';
+import { normalizeInput } from '@/lib/locale-formatting';
+
+/**
+ * Phone Numbers
+ * Length, prefix and grouping rules of the countries our tenants operate in, bundled with the app.
+ * Numbers are stored and sent to the API in E.164 form (+989123456789); numbers of other countries
+ * are only checked against the generic E.164 limits.
+ */
+
+export type PhoneCountryCode = 'IR' | 'AE' | 'SA' | 'KW' | 'QA' | 'BH' | 'OM' | 'IQ';
+
+interface PhoneNumberPattern {
+  // Leading digits of the national number
+  prefixes: readonly string[];
+  length: number;
+  // Digits per group when displayed, e.g. [3, 3, 4] for 912 345 6789
+  grouping: readonly number[];
+}
+
+export interface PhoneCountry {
+  code: PhoneCountryCode;
+  dialCode: string;
+  // Dialled before national numbers inside the country, dropped in E.164
+  trunkPrefix?: string;
+  // The first pattern is the mobile one, used for placeholders
+  patterns: readonly PhoneNumberPattern[];
+  example: string;
+}
+
+export const PHONE_COUNTRIES: readonly PhoneCountry[] = [
+  {
+    code: 'IR',
+    dialCode: '98',
+    trunkPrefix: '0',
+    patterns: [
+      { prefixes: ['9'], length: 10, grouping: [3, 3, 4] },
+      { prefixes: ['1', '2', '3', '4', '5', '6', '7', '8'], length: 10, grouping: [2, 4, 4] },
+    ],
+    example: '9123456789',
+  },
+  {
+    code: 'AE',
+    dialCode: '971',
+    trunkPrefix: '0',
+    patterns: [
+      { prefixes: ['50', '52', '54', '55', '56', '58'], length: 9, grouping: [2, 3, 4] },
+      { prefixes: ['2', '3', '4', '6', '7', '9'], length: 8, grouping: [1, 3, 4] },
+    ],
+    example: '501234567',
+  },
+  {
+    code: 'SA',
+    dialCode: '966',
+    trunkPrefix: '0',
+    patterns: [
+      { prefixes: ['5'], length: 9, grouping: [2, 3, 4] },
+      { prefixes: ['1'], length: 9, grouping: [2, 3, 4] },
+    ],
+    example: '512345678',
+  },
+  {
+    code: 'KW',
+    dialCode: '965',
+    patterns: [{ prefixes: ['2', '5', '6', '9'], length: 8, grouping: [4, 4] }],
+    example: '50012345',
+  },
+  {
+    code: 'QA',
+    dialCode: '974',
+    patterns: [{ prefixes: ['3', '4', '5', '6', '7'], length: 8, grouping: [4, 4] }],
+    example: '33123456',
+  },
+  {
+    code: 'BH',
+    dialCode: '973',
+    patterns: [{ prefixes: ['1', '3', '6'], length: 8, grouping: [4, 4] }],
+    example: '36001234',
+  },
+  {
+    code: 'OM',
+    dialCode: '968',
+    patterns: [{ prefixes: ['2', '7', '9'], length: 8, grouping: [4, 4] }],
+    example: '92123456',
+  },
+  {
+    code: 'IQ',
+    dialCode: '964',
+    trunkPrefix: '0',
+    patterns: [
+      { prefixes: ['7'], length: 10, grouping: [3, 3, 4] },
+      { prefixes: ['1', '2', '3', '4', '5', '6'], length: 9, grouping: [2, 3, 4] },
+    ],
+    example: '7912345678',
+  },
+];
+
+export interface ParsedPhoneNumber {
+  // Undefined when the dialling code is not one of the bundled countries
+  country?: PhoneCountryCode;
+  // National number without the trunk prefix, or every digit after + for other countries
+  nationalNumber: string;
+}
+
+// E.164 allows at most 15 digits including the country code
+const MAX_E164_DIGITS = 15;
+const MIN_E164_DIGITS = 8;
+
+export const getPhoneCountry = (code: PhoneCountryCode): PhoneCountry =>
+  PHONE_COUNTRIES.find((country) => country.code === code) ?? PHONE_COUNTRIES[0];
+
+/**
+ * Country whose dialling code is selected by default for a tenant locale
+ */
+export const getDefaultPhoneCountry = (tenantLocale: string): PhoneCountryCode => {
+  const code = getLocaleByTenantLocale(tenantLocale).phoneCountry;
+  return PHONE_COUNTRIES.some((country) => country.code === code) ? code as PhoneCountryCode : 'IR';
+};
+
+const findPattern = (country: PhoneCountry, nationalNumber: string): PhoneNumberPattern | undefined =>
+  country.patterns.find((pattern) => pattern.prefixes.some((prefix) =>
+    nationalNumber.startsWith(prefix) || prefix.startsWith(nationalNumber)));
+
+const getMaxLength = (country: PhoneCountry): number =>
+  Math.max(...country.patterns.map((pattern) => pattern.length));
+
+/**
+ * Split a number into its country and national number
+ * Accepts E.164 and 00 prefixed international numbers, and national numbers with or without the
+ * trunk prefix (09123456789), typed with Persian, Arabic or Latin digits and any separators.
+ */
+export const parsePhoneNumber = (input: string, defaultCountry: PhoneCountryCode): ParsedPhoneNumber => {
+  const normalized = normalizeInput(input);
+  const digits = normalized.replace(/\D/g, '');
+  const isInternational = normalized.startsWith('+') || digits.startsWith('00');
+
+  if (!isInternational) {
+    const country = getPhoneCountry(defaultCountry);
+    const nationalNumber = country.trunkPrefix && digits.startsWith(country.trunkPrefix)
+      ? digits.slice(country.trunkPrefix.length)
+      : digits;
+    return { country: defaultCountry, nationalNumber: nationalNumber.slice(0, getMaxLength(country)) };
+  }
+
+  const international = (normalized.startsWith('+') ? digits : digits.slice(2)).slice(0, MAX_E164_DIGITS);
+  const country = PHONE_COUNTRIES.find((candidate) => international.startsWith(candidate.dialCode));
+  if (!country) {
+    return { nationalNumber: international };
+  }
+
+  let nationalNumber = international.slice(country.dialCode.length);
+  // +98 0912... is a common mistake, the trunk prefix never follows the country code
+  if (country.trunkPrefix && nationalNumber.startsWith(country.trunkPrefix)) {
+    nationalNumber = nationalNumber.slice(country.trunkPrefix.length);
+  }
+  return { country: country.code, nationalNumber: nationalNumber.slice(0, getMaxLength(country)) };
+};
+
+/**
+ * E.164 form of a parsed number, empty when no digits were entered
+ */
+export const formatE164 = ({ country, nationalNumber }: ParsedPhoneNumber): string => {
+  if (!nationalNumber) return '';
+  return country ? `+${getPhoneCountry(country).dialCode}${nationalNumber}` : `+${nationalNumber}`;
+};
+
+/**
+ * Normalize a typed or stored number to E.164
+ */
+export const toE164 = (input: string, defaultCountry: PhoneCountryCode): string =>
+  formatE164(parsePhoneNumber(input, defaultCountry));
+
+/**
+ * Group a national number for display, e.g. "912 345 6789"
+ * Incomplete numbers are grouped as far as they go.
+ */
+export const formatNationalNumber = (nationalNumber: string, country: PhoneCountryCode): string => {
+  const pattern = findPattern(getPhoneCountry(country), nationalNumber);
+  if (!pattern) return nationalNumber;
+
+  const groups: string[] = [];
+  let start = 0;
+  for (const size of pattern.grouping) {
+    if (start >= nationalNumber.length) break;
+    groups.push(nationalNumber.slice(start, start + size));
+    start += size;
+  }
+  if (start < nationalNumber.length) {
+    groups.push(nationalNumber.slice(start));
+  }
+  return groups.join(' ');
+};
+
+/**
+ * Display form of a stored number, e.g. "+98 912 345 6789"
+ */
+export const formatPhoneNumber = (input: string, defaultCountry: PhoneCountryCode): string => {
+  const parsed = parsePhoneNumber(input, defaultCountry);
+  if (!parsed.nationalNumber) return '';
+  if (!parsed.country) return `+${parsed.nationalNumber}`;
+  return `+${getPhoneCountry(parsed.country).dialCode} ${formatNationalNumber(parsed.nationalNumber, parsed.country)}`;
+};
+
+/**
+ * Check an E.164 number against the length and prefix rules of its country
+ */
+export const isValidPhoneNumber = (value: string): boolean => {
+  if (!/^\+[1-9]\d+$/.test(value)) return false;
+
+  const { country, nationalNumber } = parsePhoneNumber(value, 'IR');
+  if (!country) {
+    return value.length - 1 >= MIN_E164_DIGITS && value.length - 1 <= MAX_E164_DIGITS;
+  }
+  // Parsing drops extra digits and a misplaced trunk prefix, only accept numbers it leaves intact
+  if (formatE164({ country, nationalNumber }) !== value) return false;
+
+  return getPhoneCountry(country).patterns.some((pattern) =>
+    nationalNumber.length === pattern.length &&
+    pattern.prefixes.some((prefix) => nationalNumber.startsWith(prefix)));
+};
@@ -0,0 +1,98 @@
+/**
+ * Query cache persistence for offline mode
+ * Inventory and category queries are dehydrated to IndexedDB so the inventory pages still show
+ * the last known data without a connection. Snapshots are scoped to the signed-in user and tenant.
+ */
+
+import { dehydrate, hydrate } from '@tanstack/react-query';
+import type { DehydratedState, Query, QueryClient } from '@tanstack/react-query';
+import { QUERY_CACHE_STORE, deleteOfflineValue, getOfflineValue, putOfflineValue } from '@/lib/offline-storage';
+
+// Query key roots that are kept for offline use
+export const PERSISTED_QUERY_ROOTS = ['inventory-items', 'inventory-item', 'categories'];
+
+const SNAPSHOT_KEY = 'snapshot';
+const MAX_SNAPSHOT_AGE = 24 * 60 * 60 * 1000; // 24 hours
+const PERSIST_THROTTLE = 1000; // milliseconds
+
+interface QueryCacheSnapshot {
+  scope: string;
+  savedAt: number;
+  state: DehydratedState;
+}
+
+const shouldPersistQuery = (query: Query) =>
+  query.state.status === 'success' && PERSISTED_QUERY_ROOTS.includes(String(query.queryKey[0]));
+
+/**
+ * Build the persistence scope for a signed-in user
+ */
+export const getOfflineScope = (tenantId: string, userId: string) => `${tenantId}:${userId}`;
+
+/**
+ * Restore the persisted snapshot into the query client
+ * Snapshots of another user or older than a day are discarded
+ */
+export const restoreQueryCache = async (queryClient: QueryClient, scope: string): Promise<void> => {
+  // Keep persisted queries in memory as long as the snapshot is valid, garbage collection would drop them from it
+  PERSISTED_QUERY_ROOTS.forEach((root) => {
+    queryClient.setQueryDefaults([root], { gcTime: MAX_SNAPSHOT_AGE });
+  });
+
+  try {
+    const snapshot = await getOfflineValue<QueryCacheSnapshot>(QUERY_CACHE_STORE, SNAPSHOT_KEY);
+    if (!snapshot) return;
+
+    if (snapshot.scope !== scope || Date.now() - snapshot.savedAt > MAX_SNAPSHOT_AGE) {
+      await deleteOfflineValue(QUERY_CACHE_STORE, SNAPSHOT_KEY);
+      return;
+    }
+
+    // Hydration never overwrites queries that already hold newer data
+    hydrate(queryClient, snapshot.state);
+  } catch (error) {
+    console.warn('Failed to restore offline query cache:', error);
+  }
+};
+
+/**
+ * Save persisted queries whenever the cache changes, throttled to one write per second
+ * @returns Unsubscribe function
+ */
+export const persistQueryCache = (queryClient: QueryClient, scope: string): (() => void) => {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timeout = null;
+    const snapshot: QueryCacheSnapshot = {
+      scope,
+      savedAt: Date.now(),
+      state: dehydrate(queryClient, { shouldDehydrateQuery: shouldPersistQuery }),
+    };
+    putOfflineValue(QUERY_CACHE_STORE, snapshot, SNAPSHOT_KEY).catch((error) => {
+      console.warn('Failed to persist offline query cache:', error);
+    });
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' && event.type !== 'removed') return;
+    if (!PERSISTED_QUERY_ROOTS.includes(String(event.query.queryKey[0]))) return;
+    if (!timeout) {
+      timeout = setTimeout(save, PERSIST_THROTTLE);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (timeout) {
+      clearTimeout(timeout);
+    }
+  };
+};
+
+/**
+ * Remove the persisted snapshot, tenant data must not stay on the device after logout
+ */
+export const clearPersistedQueryCache = async (): Promise<void> => {
+  await deleteOfflineValue(QUERY_CACHE_STORE, SNAPSHOT_KEY);
+};
@@ -0,0 +1,87 @@
+/**
+ * Rental workflow helpers
+ * Overdue detection and checks that selected inventory can actually be rented
+ */
+
+import { fromWallClock, toZonedIsoDate } from '@/lib/timezone';
+import { AvailabilityStatus, ItemType, RentalStatus } from '@/types';
+import type { InventoryItem, Rental } from '@/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Whether a rental end carries a return time, older rentals only have a day
+ */
+export const hasReturnTime = (endDate: string): boolean => !ISO_DATE.test(endDate);
+
+// Day of a rental bound in the tenant time zone
+const getRentalDay = (date: string, timeZone: string): string =>
+  hasReturnTime(date) ? toZonedIsoDate(new Date(date), timeZone) : date;
+
+/**
+ * Instant a rental is due back: its return time, or the end of `endDate` in the tenant time zone
+ */
+export const getRentalDueAt = (rental: Pick<Rental, 'endDate'>, timeZone: string): Date => {
+  if (hasReturnTime(rental.endDate)) return new Date(rental.endDate);
+
+  const [year, month, day] = rental.endDate.split('-').map(Number);
+  // Midnight starting the next day, Date.UTC rolls the day over into the next month
+  return fromWallClock({ year, month, day: day + 1, hour: 0, minute: 0 }, timeZone);
+};
+
+/**
+ * Check if a checked-out rental has passed its due time
+ */
+export const isRentalOverdue = (
+  rental: Pick<Rental, 'status' | 'endDate'>,
+  timeZone: string,
+  now: Date = new Date()
+): boolean => {
+  return rental.status === RentalStatus.ACTIVE && getRentalDueAt(rental, timeZone).getTime() <= now.getTime();
+};
+
+/**
+ * Number of tenant days a rental is overdue, 0 when it is not
+ */
+export const getOverdueDays = (
+  rental: Pick<Rental, 'status' | 'endDate'>,
+  timeZone: string,
+  now: Date = new Date()
+): number => {
+  if (!isRentalOverdue(rental, timeZone, now)) return 0;
+  return Math.max(1, getRentalDays(rental.endDate, toZonedIsoDate(now, timeZone), timeZone) - 1);
+};
+
+/**
+ * Rental length in tenant days, counting both the start and end day
+ */
+export const getRentalDays = (startDate: string, endDate: string, timeZone: string): number => {
+  if (!startDate || !endDate) return 0;
+  const from = Date.parse(getRentalDay(startDate, timeZone));
+  const to = Date.parse(getRentalDay(endDate, timeZone));
+  return Math.round((to - from) / DAY) + 1;
+};
+
+/**
+ * Check that an inventory item can be added to a rental with the given quantity
+ * @returns Translation key describing the problem, or null when the item can be rented
+ */
+export const getRentalItemError = (item: InventoryItem, quantity: number): string | null => {
+  if (item.availabilityStatus !== AvailabilityStatus.AVAILABLE) {
+    return 'rentals.form.validation.itemUnavailable';
+  }
+
+  if (item.itemType === ItemType.SERIALIZED) {
+    return quantity === 1 ? null : 'rentals.form.validation.serializedQuantity';
+  }
+
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    return 'rentals.form.validation.quantityMin';
+  }
+  if (quantity > (item.quantity ?? 0)) {
+    return 'rentals.form.validation.quantityExceedsStock';
+  }
+
+  return null;
+};
@@ -0,0 +1,48 @@
+/**
+ * Role Permission Diff
+ * Consequences of pending changes to a role's permissions, reviewed before they are saved.
+ * Users hold a single role, so the navigation a role gains or loses is what each of its users gains or loses.
+ */
+
+import { NAVIGATION_ITEM_IDS, canAccessNavigationItem } from '@/lib/dynamic-permission-utils';
+import type { Permission } from '@/types';
+
+export interface RolePermissionDiff {
+  added: Permission[];
+  removed: Permission[];
+  // Navigation item ids opened or closed by the change
+  gainedNavigation: string[];
+  lostNavigation: string[];
+}
+
+export const toPermissionString = (permission: Pick<Permission, 'resource' | 'action'>): string =>
+  `${permission.resource}:${permission.action}`;
+
+/**
+ * Compare the saved grants of a role with its pending changes
+ * Toggling a permission back to its saved state is not a change.
+ */
+export const computeRolePermissionDiff = (
+  permissions: Permission[],
+  savedGrants: Record<string, boolean>,
+  pendingGrants: Record<string, boolean>
+): RolePermissionDiff => {
+  const isGrantedBefore = (permission: Permission) => !!savedGrants[permission.id];
+  const isGrantedAfter = (permission: Permission) =>
+    permission.id in pendingGrants ? pendingGrants[permission.id] : isGrantedBefore(permission);
+
+  const before = permissions.filter(isGrantedBefore).map(toPermissionString);
+  const after = permissions.filter(isGrantedAfter).map(toPermissionString);
+
+  return {
+    added: permissions.filter((permission) => !isGrantedBefore(permission) && isGrantedAfter(permission)),
+    removed: permissions.filter((permission) => isGrantedBefore(permission) && !isGrantedAfter(permission)),
+    gainedNavigation: NAVIGATION_ITEM_IDS.filter((itemId) =>
+      !canAccessNavigationItem(before, itemId) && canAccessNavigationItem(after, itemId)),
+    lostNavigation: NAVIGATION_ITEM_IDS.filter((itemId) =>
+      canAccessNavigationItem(before, itemId) && !canAccessNavigationItem(after, itemId)),
+  };
+};
+
+export const hasRolePermissionChanges = (diff: RolePermissionDiff): boolean =>
+  diff.added.length > 0 || diff.removed.length > 0;
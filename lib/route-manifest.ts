@@ -0,0 +1,138 @@
+/**
+ * Dashboard Route Manifest
+ * Permissions required by every /dashboard page, read by the middleware before a page is served
+ * and by the dashboard layout once the signed-in user is known on the client.
+ * Adding a page means adding its route here; test/route-manifest.test.ts fails for pages without one.
+ */
+
+import { getNavigationPermissions, permissionImplies } from '@/lib/dynamic-permission-utils';
+
+export interface RouteRule {
+  // App router path, dynamic segments in brackets
+  path: string;
+  // Any one of them grants access, an empty list admits every signed-in user
+  permissions: readonly string[];
+}
+
+export const DASHBOARD_ROUTES = [
+  // Landing page after login
+  { path: '/dashboard', permissions: [] },
+  { path: '/dashboard/profile', permissions: [] },
+  { path: '/dashboard/access-denied', permissions: [] },
+  // Section pages open with any permission that shows their navigation item
+  { path: '/dashboard/users', permissions: getNavigationPermissions('users') },
+  { path: '/dashboard/audit', permissions: getNavigationPermissions('audit') },
+  { path: '/dashboard/permissions', permissions: getNavigationPermissions('permissions') },
+  { path: '/dashboard/permissions/matrix', permissions: ['permissions:manage'] },
+  { path: '/dashboard/permissions/analytics', permissions: ['audit:read'] },
+  { path: '/dashboard/categories', permissions: getNavigationPermissions('categories') },
+  { path: '/dashboard/inventory', permissions: getNavigationPermissions('inventory') },
+  { path: '/dashboard/inventory/[itemId]', permissions: ['inventory:read'] },
+  { path: '/dashboard/inventory/[itemId]/edit', permissions: ['inventory:update'] },
+  { path: '/dashboard/customers', permissions: getNavigationPermissions('customers') },
+  { path: '/dashboard/customers/[customerId]', permissions: ['customers:read'] },
+  { path: '/dashboard/customers/[customerId]/edit', permissions: ['customers:update'] },
+  { path: '/dashboard/rentals', permissions: getNavigationPermissions('rentals') },
+  { path: '/dashboard/rentals/[rentalId]', permissions: ['rentals:read'] },
+  { path: '/dashboard/reports', permissions: getNavigationPermissions('reports') },
+  { path: '/dashboard/settings', permissions: getNavigationPermissions('settings') },
+] as const satisfies readonly RouteRule[];
+
+export type DashboardRoutePath = typeof DASHBOARD_ROUTES[number]['path'];
+
+export const LOGIN_PATH = '/login';
+export const ACCESS_DENIED_PATH: DashboardRoutePath = '/dashboard/access-denied';
+export const RETURN_TO_PARAM = 'returnTo';
+
+const splitPath = (path: string): string[] => path.split('/').filter(Boolean);
+
+const isDynamicSegment = (segment: string): boolean => segment.startsWith('[') && segment.endsWith(']');
+
+const matchesRoute = (routeSegments: string[], pathSegments: string[]): boolean =>
+  routeSegments.length <= pathSegments.length &&
+  routeSegments.every((segment, index) => isDynamicSegment(segment) || segment === pathSegments[index]);
+
+/**
+ * Rule of a dashboard path
+ * Paths without an exact entry fall back to the closest parent route, so a page missing from the
+ * manifest is never less protected than its section.
+ */
+export const findRouteRule = (pathname: string): RouteRule | undefined => {
+  const pathSegments = splitPath(pathname);
+  let bestMatch: RouteRule | undefined;
+  let bestLength = -1;
+
+  for (const route of DASHBOARD_ROUTES) {
+    const routeSegments = splitPath(route.path);
+    if (routeSegments.length > bestLength && matchesRoute(routeSegments, pathSegments)) {
+      bestMatch = route;
+      bestLength = routeSegments.length;
+    }
+  }
+
+  return bestMatch;
+};
+
+/**
+ * Check whether permissions open a dashboard path
+ */
+export const canAccessRoute = (userPermissions: string[], pathname: string): boolean => {
+  const rule = findRouteRule(pathname);
+  if (!rule) return false;
+  if (rule.permissions.length === 0) return true;
+
+  return rule.permissions.some((required) =>
+    (userPermissions || []).some((permission) => permissionImplies(permission, required)));
+};
+
+/**
+ * Only accept app-relative paths as a return target, never another origin
+ */
+export const getSafeReturnTo = (returnTo: string | null | undefined): string | null => {
+  if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+    return null;
+  }
+  return returnTo;
+};
+
+/**
+ * Login page URL that comes back to a deep link after signing in
+ */
+export const buildLoginUrl = (returnTo?: string): string => {
+  const safeReturnTo = getSafeReturnTo(returnTo);
+  return safeReturnTo
+    ? `${LOGIN_PATH}?${RETURN_TO_PARAM}=${encodeURIComponent(safeReturnTo)}`
+    : LOGIN_PATH;
+};
+
+/**
+ * Route access cookie
+ * The middleware cannot read web storage, so the client mirrors the permissions and the session
+ * expiry of the stored user into this cookie. It only decides which page to render; the API
+ * still enforces every permission.
+ */
+export const ACCESS_COOKIE_NAME = 'samanin-access';
+
+export interface RouteAccess {
+  permissions: string[];
+  sessionExpiresAt: string;
+}
+
+export const encodeRouteAccess = (access: RouteAccess): string =>
+  encodeURIComponent(JSON.stringify(access));
+
+export const decodeRouteAccess = (value: string | undefined): RouteAccess | null => {
+  if (!value) return null;
+
+  try {
+    // Cookie parsers may already have decoded the value
+    const json = value.startsWith('%7B') ? decodeURIComponent(value) : value;
+    const access = JSON.parse(json) as Partial<RouteAccess>;
+    if (!Array.isArray(access.permissions) || typeof access.sessionExpiresAt !== 'string') {
+      return null;
+    }
+    return { permissions: access.permissions, sessionExpiresAt: access.sessionExpiresAt };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,160 @@
+/**
+ * Cross-tab session synchronization
+ * Persists the signed-in user (sessionStorage, or localStorage for remember-me sessions)
+ * and broadcasts login, logout, user updates and language changes to every open tab.
+ * Uses BroadcastChannel where available and falls back to the storage event.
+ * The permissions and session expiry are mirrored into the route access cookie for the middleware.
+ */
+
+import { ACCESS_COOKIE_NAME, encodeRouteAccess } from '@/lib/route-manifest';
+import { clearViewAsSession } from '@/lib/view-as';
+
+const USER_STORAGE_KEY = 'user';
+const CHANNEL_NAME = 'samanin-session';
+const STORAGE_EVENT_KEY = 'samanin-session-event';
+
+export interface StoredUser {
+  tenantId: string;
+  sessionExpiresAt: string;
+  permissions?: string[];
+  rememberMe?: boolean;
+}
+
+export type SessionSyncEvent<TUser extends StoredUser = StoredUser> =
+  | { type: 'login'; tenantId: string; user: TUser }
+  | { type: 'user-updated'; tenantId: string; user: TUser }
+  | { type: 'logout'; tenantId: string }
+  | { type: 'language-changed'; tenantId?: string; language: string };
+
+type SessionSyncListener<TUser extends StoredUser> = (event: SessionSyncEvent<TUser>) => void;
+
+const isBrowser = () => typeof window !== 'undefined';
+
+/**
+ * Read the stored user, preferring the tab-scoped copy over the remembered one
+ */
+export const readStoredUser = <TUser extends StoredUser>(): TUser | null => {
+  if (!isBrowser()) return null;
+
+  const raw = sessionStorage.getItem(USER_STORAGE_KEY) || localStorage.getItem(USER_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw) as TUser;
+  } catch {
+    return null;
+  }
+};
+
+// Remember-me access cookies outlive the session, so an expired session still reaches the re-login
+// dialog; a reload that finds the session expired clears the cookie with the stored user
+const REMEMBERED_ACCESS_COOKIE_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * Mirror the session into the route access cookie, kept across browser restarts for remember-me sessions
+ */
+const writeAccessCookie = (user: StoredUser): void => {
+  const value = encodeRouteAccess({ permissions: user.permissions ?? [], sessionExpiresAt: user.sessionExpiresAt });
+  const maxAge = user.rememberMe ? `; max-age=${REMEMBERED_ACCESS_COOKIE_MAX_AGE}` : '';
+  document.cookie = `${ACCESS_COOKIE_NAME}=${value}; path=/; SameSite=Lax${maxAge}`;
+};
+
+const clearAccessCookie = (): void => {
+  document.cookie = `${ACCESS_COOKIE_NAME}=; path=/; SameSite=Lax; max-age=0`;
+};
+
+/**
+ * Store the user in sessionStorage, and in localStorage too when remember-me is enabled
+ * so that newly opened tabs restore the session
+ */
+export const writeStoredUser = (user: StoredUser): void => {
+  if (!isBrowser()) return;
+
+  const serialized = JSON.stringify(user);
+  sessionStorage.setItem(USER_STORAGE_KEY, serialized);
+
+  if (user.rememberMe) {
+    localStorage.setItem(USER_STORAGE_KEY, serialized);
+  } else {
+    localStorage.removeItem(USER_STORAGE_KEY);
+  }
+  writeAccessCookie(user);
+};
+
+/**
+ * Remove the user from both storages
+ */
+export const clearStoredUser = (): void => {
+  if (!isBrowser()) return;
+
+  sessionStorage.removeItem(USER_STORAGE_KEY);
+  localStorage.removeItem(USER_STORAGE_KEY);
+  clearAccessCookie();
+  // A "view as" session never outlives the sign-in that started it
+  clearViewAsSession();
+};
+
+let channel: BroadcastChannel | null = null;
+
+const getChannel = (): BroadcastChannel | null => {
+  if (!isBrowser() || typeof BroadcastChannel === 'undefined') return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+};
+
+/**
+ * Notify the other tabs about a session change (the sending tab does not receive it)
+ */
+export const broadcastSessionEvent = <TUser extends StoredUser>(event: SessionSyncEvent<TUser>): void => {
+  if (!isBrowser()) return;
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    broadcastChannel.postMessage(event);
+    return;
+  }
+
+  // Storage events only fire on value changes, so include a timestamp and remove right away
+  localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ event, sentAt: Date.now() }));
+  localStorage.removeItem(STORAGE_EVENT_KEY);
+};
+
+/**
+ * Listen for session changes made in other tabs
+ * @returns Unsubscribe function
+ */
+export const subscribeToSessionEvents = <TUser extends StoredUser = StoredUser>(
+  listener: SessionSyncListener<TUser>
+): (() => void) => {
+  if (!isBrowser()) return () => undefined;
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    const handleMessage = (message: MessageEvent<SessionSyncEvent<TUser>>) => listener(message.data);
+    broadcastChannel.addEventListener('message', handleMessage);
+    return () => broadcastChannel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (storageEvent: StorageEvent) => {
+    if (storageEvent.key !== STORAGE_EVENT_KEY || !storageEvent.newValue) return;
+    try {
+      const { event } = JSON.parse(storageEvent.newValue) as { event: SessionSyncEvent<TUser> };
+      listener(event);
+    } catch {
+      // Ignore malformed payloads written by other code
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+/**
+ * Check whether an event from another tab applies to a tab signed in to `tenantId`
+ * Tabs without a session accept everything so that a login elsewhere signs them in
+ */
+export const isSameTenantEvent = (event: SessionSyncEvent, tenantId?: string | null): boolean => {
+  if (!tenantId || !event.tenantId) return true;
+  return event.tenantId === tenantId;
+};
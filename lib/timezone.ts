@@ -0,0 +1,126 @@
+import { LocaleFormattingResponse } from '@/types';
+import { getLocaleByTenantLocale } from '@/lib/locale-registry';
+
+/**
+ * Time Zones
+ * Conversion between UTC instants and the wall clock of the tenant time zone, using the zone data in Intl.
+ * The API exchanges UTC timestamps; the tenant zone is applied when rendering and when submitting.
+ */
+
+export interface WallClock {
+  year: number;
+  // 1 = January
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// Offered in the tenant settings, none of them observes daylight saving time
+export const SUPPORTED_TIME_ZONES = [
+  'Asia/Tehran',
+  'Asia/Dubai',
+  'Asia/Muscat',
+  'Asia/Riyadh',
+  'Asia/Kuwait',
+  'Asia/Qatar',
+  'Asia/Bahrain',
+  'Asia/Baghdad',
+  'UTC',
+] as const;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Tenant time zone, the locale's default zone when the tenant has not chosen one
+ */
+export const getTimeZone = (config: LocaleFormattingResponse['data']): string =>
+  config.dateFormat.timeZone ?? getLocaleByTenantLocale(config.locale).timeZone;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const toZonedParts = (date: Date, timeZone: string) => {
+  const parts = getPartsFormatter(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((candidate) => candidate.type === type)?.value ?? '0', 10);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  };
+};
+
+/**
+ * Wall clock time of an instant in a time zone
+ */
+export const toWallClock = (date: Date, timeZone: string): WallClock => {
+  const { year, month, day, hour, minute } = toZonedParts(date, timeZone);
+  return { year, month, day, hour, minute };
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Gregorian ISO date (YYYY-MM-DD) of an instant in a time zone, e.g. "today" for the tenant
+ */
+export const toZonedIsoDate = (date: Date, timeZone: string): string => {
+  const { year, month, day } = toWallClock(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Minutes a time zone is ahead of UTC at an instant, e.g. 210 for Tehran
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const { year, month, day, hour, minute, second } = toZonedParts(date, timeZone);
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((Date.UTC(year, month - 1, day, hour, minute, second) - wholeSeconds) / MINUTE);
+};
+
+/**
+ * Instant at which a time zone shows a wall clock time
+ */
+export const fromWallClock = ({ year, month, day, hour, minute }: WallClock, timeZone: string): Date => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const estimate = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone) * MINUTE;
+  // Check the offset again in case the estimate falls on the other side of an offset change
+  return new Date(asUtc - getTimeZoneOffset(new Date(estimate), timeZone) * MINUTE);
+};
+
+/**
+ * Move an instant by the zone offset, so its UTC fields read as the wall clock of the zone
+ * Used to format with libraries that only know UTC and the browser zone
+ */
+export const shiftToTimeZone = (date: Date, timeZone: string): Date =>
+  new Date(date.getTime() + getTimeZoneOffset(date, timeZone) * MINUTE);
+
+/**
+ * UTC offset of a time zone, e.g. "UTC+03:30"
+ */
+export const formatTimeZoneOffset = (timeZone: string, date: Date = new Date()): string => {
+  const offset = getTimeZoneOffset(date, timeZone);
+  const hours = Math.floor(Math.abs(offset) / 60).toString().padStart(2, '0');
+  const minutes = (Math.abs(offset) % 60).toString().padStart(2, '0');
+  return `UTC${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+};
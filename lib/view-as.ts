@@ -0,0 +1,65 @@
+/**
+ * View As
+ * Lets holders of users:manage see the dashboard with the permissions of another user or role,
+ * to reproduce reports like "I can't see inventory". Only the client-side gates change
+ * (useClientPermissions, navigation and the route guard); the API keeps answering as the viewer,
+ * and every request that could change data is rejected before it is sent.
+ * The session is kept per tab in sessionStorage, so a reload stays in the same view.
+ */
+
+const VIEW_AS_STORAGE_KEY = 'samanin-view-as';
+
+export const VIEW_AS_READ_ONLY_CODE = 'permissions.VIEW_AS_READ_ONLY';
+
+export interface ViewAsSession {
+  // Signed-in user who started the view, a different sign-in discards it
+  viewerUserId: string;
+  targetType: 'user' | 'role';
+  // User id or role id
+  targetId: string;
+  targetName: string;
+  roleId: string;
+  roleName: string;
+  permissions: string[];
+  startedAt: string;
+}
+
+const isBrowser = () => typeof window !== 'undefined';
+
+export const readViewAsSession = (): ViewAsSession | null => {
+  if (!isBrowser()) return null;
+
+  const raw = sessionStorage.getItem(VIEW_AS_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const session = JSON.parse(raw) as Partial<ViewAsSession>;
+    if (!session.viewerUserId || !session.targetId || !Array.isArray(session.permissions)) {
+      return null;
+    }
+    return session as ViewAsSession;
+  } catch {
+    return null;
+  }
+};
+
+export const writeViewAsSession = (session: ViewAsSession): void => {
+  if (!isBrowser()) return;
+  sessionStorage.setItem(VIEW_AS_STORAGE_KEY, JSON.stringify(session));
+};
+
+export const clearViewAsSession = (): void => {
+  if (!isBrowser()) return;
+  sessionStorage.removeItem(VIEW_AS_STORAGE_KEY);
+};
+
+const READ_ONLY_METHODS = ['get', 'head', 'options'];
+
+/**
+ * Whether a request may be sent while viewing as someone else
+ * Reads always pass; writes only for the paths the view itself needs (signing out, refreshing
+ * the session and recording its audit entries).
+ */
+export const isAllowedWhileViewingAs = (method: string | undefined, url: string | undefined, allowedPaths: string[]): boolean =>
+  READ_ONLY_METHODS.includes((method || 'get').toLowerCase()) ||
+  allowedPaths.some((path) => url?.startsWith(path));
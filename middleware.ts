@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  ACCESS_COOKIE_NAME,
+  ACCESS_DENIED_PATH,
+  buildLoginUrl,
+  canAccessRoute,
+  decodeRouteAccess,
+} from '@/lib/route-manifest';
+
+/**
+ * Dashboard route guard
+ * Sends visitors without a session to the login page (returning to the requested page afterwards)
+ * and renders the shared access denied page for routes their permissions do not open.
+ * An expired session is let through: the page keeps its state behind the re-login dialog, and the
+ * API answers 401 until the user signs in again.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const access = decodeRouteAccess(request.cookies.get(ACCESS_COOKIE_NAME)?.value);
+
+  if (!access) {
+    return NextResponse.redirect(new URL(buildLoginUrl(`${pathname}${search}`), request.url));
+  }
+
+  if (!canAccessRoute(access.permissions, pathname)) {
+    // Rewrite rather than redirect so the address bar keeps the requested page
+    return NextResponse.rewrite(new URL(ACCESS_DENIED_PATH, request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*'],
+};
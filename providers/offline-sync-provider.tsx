@@ -0,0 +1,208 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { useUser } from '@/hooks/use-user';
+import { inventoryService } from '@/services/api';
+import {
+  addOutboxEntry,
+  applyOutboxOperation,
+  getOutboxEntries,
+  removeOutboxEntry,
+  replayOutboxEntries,
+  saveOutboxReplayResult,
+  subscribeToOutbox,
+  withOutboxLock,
+} from '@/lib/inventory-outbox';
+import type { InventoryOutboxEntry, InventoryOutboxOperation, InventoryOutboxTransport } from '@/lib/inventory-outbox';
+import {
+  clearPersistedQueryCache,
+  getOfflineScope,
+  persistQueryCache,
+  restoreQueryCache,
+} from '@/lib/query-persistence';
+import { readViewAsSession } from '@/lib/view-as';
+import type { GetInventoryItemResponse, InventoryItem, InventoryListResponse } from '@/types';
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  // Entries that could not be applied and need the user's attention
+  problemEntries: InventoryOutboxEntry[];
+  lastSyncedAt: Date | null;
+  queueMutation: (item: InventoryItem, operation: InventoryOutboxOperation) => Promise<void>;
+  syncNow: () => void;
+  discardEntry: (entryId: string) => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | null>(null);
+
+interface OfflineSyncProviderProps {
+  children: React.ReactNode;
+}
+
+const outboxTransport: InventoryOutboxTransport = {
+  getItem: async (itemId) => (await inventoryService.getInventoryItem(itemId)).data,
+  send: async (entry) => {
+    if (entry.type === 'update-quantity') {
+      return (await inventoryService.updateNonSerializedItemQuantity(entry.itemId, entry.payload)).data;
+    }
+    await inventoryService.changeInventoryItemStatus(entry.itemId, entry.payload);
+    return null;
+  },
+};
+
+/**
+ * Offline Sync Provider
+ * Persists the inventory and category caches for the signed-in user and replays inventory
+ * mutations queued while offline once the connection is back
+ */
+export function OfflineSyncProvider({ children }: OfflineSyncProviderProps) {
+  const queryClient = useQueryClient();
+  const { user, isLoading } = useUser();
+  const scope = user ? getOfflineScope(user.tenantId, user.userId) : null;
+
+  const [isOnline, setIsOnline] = useState(() => onlineManager.isOnline());
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [entries, setEntries] = useState<InventoryOutboxEntry[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const isSyncingRef = useRef(false);
+
+  useEffect(() => onlineManager.subscribe(setIsOnline), []);
+
+  // Restore the persisted cache on sign in, drop it on sign out
+  useEffect(() => {
+    // The stored session is read after the first render, the snapshot must survive until then
+    if (isLoading) return;
+
+    if (!scope) {
+      clearPersistedQueryCache().catch((error) => {
+        console.warn('Failed to clear offline query cache:', error);
+      });
+      return;
+    }
+
+    let unsubscribe: (() => void) | null = null;
+    let isCancelled = false;
+    restoreQueryCache(queryClient, scope).then(() => {
+      if (!isCancelled) {
+        unsubscribe = persistQueryCache(queryClient, scope);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      unsubscribe?.();
+    };
+  }, [queryClient, scope, isLoading]);
+
+  const loadEntries = useCallback(async () => {
+    setEntries(scope ? await getOutboxEntries(scope) : []);
+  }, [scope]);
+
+  useEffect(() => {
+    loadEntries();
+    return subscribeToOutbox(loadEntries);
+  }, [loadEntries]);
+
+  const syncNow = useCallback(async () => {
+    if (!scope || !onlineManager.isOnline() || isSyncingRef.current) return;
+    // Writes are refused while viewing as someone else, the view calls this again when it ends
+    if (readViewAsSession()) return;
+
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await withOutboxLock(async () => {
+        const replay = await replayOutboxEntries(await getOutboxEntries(scope), outboxTransport);
+        await saveOutboxReplayResult(replay);
+        return replay;
+      });
+
+      if (result.applied.length > 0 || result.changed.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ['inventory-item'] });
+        queryClient.invalidateQueries({ queryKey: ['inventory-items'] });
+      }
+      if (!result.interrupted) {
+        setLastSyncedAt(new Date());
+      }
+    } catch (error) {
+      console.warn('Inventory outbox replay failed:', error);
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [queryClient, scope]);
+
+  // Replay after sign in and whenever the connection comes back
+  useEffect(() => {
+    if (isOnline) {
+      syncNow();
+    }
+  }, [isOnline, syncNow]);
+
+  const queueMutation = useCallback(
+    async (item: InventoryItem, operation: InventoryOutboxOperation) => {
+      if (!scope) return;
+
+      await addOutboxEntry({
+        ...operation,
+        scope,
+        itemId: item.id,
+        itemName: item.name,
+        expectedVersion: item.version,
+      });
+
+      // Show the change right away, the replay invalidates these queries afterwards
+      queryClient.setQueryData<GetInventoryItemResponse>(['inventory-item', item.id], (current) =>
+        current ? { ...current, data: applyOutboxOperation(current.data, operation) } : current
+      );
+      queryClient.setQueriesData<InventoryListResponse>({ queryKey: ['inventory-items'] }, (current) =>
+        current
+          ? {
+              ...current,
+              data: current.data.map((listed) =>
+                listed.id === item.id ? applyOutboxOperation(listed, operation) : listed
+              ),
+            }
+          : current
+      );
+    },
+    [queryClient, scope]
+  );
+
+  const discardEntry = useCallback(async (entryId: string) => {
+    await removeOutboxEntry(entryId);
+  }, []);
+
+  const contextValue: OfflineSyncContextType = {
+    isOnline,
+    isSyncing,
+    pendingCount: entries.filter((entry) => entry.status === 'pending').length,
+    problemEntries: entries.filter((entry) => entry.status !== 'pending'),
+    lastSyncedAt,
+    queueMutation,
+    syncNow,
+    discardEntry,
+  };
+
+  return (
+    <OfflineSyncContext.Provider value={contextValue}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the offline state and the inventory outbox
+ */
+export function useOfflineSync(): OfflineSyncContextType {
+  const context = useContext(OfflineSyncContext);
+
+  if (!context) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+
+  return context;
+}
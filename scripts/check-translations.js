@@ -0,0 +1,176 @@
+#!/usr/bin/env node
+
+/**
+ * Translation Coverage Checker
+ *
+ * Compares the translation catalogues in i18n/ against the Persian reference catalogue and checks
+ * every t('...') key used in app/ and components/ exists in all locales.
+ * Exits with code 1 when a key is missing, extra or has mismatched {{interpolation}} variables.
+ *
+ * Usage: npm run i18n:check
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const I18N_DIR = path.join(ROOT, 'i18n');
+const SOURCE_DIRS = ['app', 'components'];
+const REFERENCE_LOCALE = 'fa';
+const PLURAL_SUFFIXES = ['_zero', '_one', '_two', '_few', '_many', '_other'];
+
+// Literal keys: t('a.b'), t("a.b"), t(`a.b`) and i18n.t('a.b')
+const LITERAL_KEY_PATTERN = /\bt\(\s*(['"`])([A-Za-z0-9_.-]+\.[A-Za-z0-9_.-]+)\1/g;
+// Dynamic keys: t(`a.b.${value}`), only the static prefix can be checked
+const TEMPLATE_KEY_PATTERN = /\bt\(\s*`([A-Za-z0-9_.-]+)\.\$\{/g;
+const INTERPOLATION_PATTERN = /{{\s*([\w.]+)\s*}}/g;
+
+const loadCatalogues = () => {
+  return fs
+    .readdirSync(I18N_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .reduce((catalogues, file) => {
+      catalogues[path.basename(file, '.json')] = JSON.parse(fs.readFileSync(path.join(I18N_DIR, file), 'utf8'));
+      return catalogues;
+    }, {});
+};
+
+// Flatten nested catalogue objects into dot-separated keys, arrays are kept as leaf values
+const flatten = (catalogue, prefix = '', result = {}) => {
+  Object.entries(catalogue).forEach(([key, value]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      flatten(value, fullKey, result);
+    } else {
+      result[fullKey] = value;
+    }
+  });
+  return result;
+};
+
+const getInterpolations = (value) => {
+  const text = Array.isArray(value) ? value.join(' ') : String(value);
+  return Array.from(text.matchAll(INTERPOLATION_PATTERN), (match) => match[1]).sort();
+};
+
+// Keys are compared flattened, i18next also resolves dots inside catalogue keys ("users.X")
+const hasPrefix = (flatKeys, prefix) => flatKeys.some((key) => key.startsWith(`${prefix}.`));
+
+// A key is present as a value, as an object (returnObjects) or through plural forms
+const hasKey = (flat, flatKeys, key) =>
+  key in flat ||
+  PLURAL_SUFFIXES.some((suffix) => `${key}${suffix}` in flat) ||
+  hasPrefix(flatKeys, key);
+
+const listSourceFiles = (directory) => {
+  if (!fs.existsSync(directory)) return [];
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(entryPath);
+    return /\.(ts|tsx)$/.test(entry.name) ? [entryPath] : [];
+  });
+};
+
+const collectUsedKeys = () => {
+  const literalKeys = new Map();
+  const templatePrefixes = new Map();
+
+  const record = (map, key, location) => {
+    if (!map.has(key)) map.set(key, []);
+    map.get(key).push(location);
+  };
+
+  SOURCE_DIRS.flatMap((directory) => listSourceFiles(path.join(ROOT, directory))).forEach((file) => {
+    const lines = fs.readFileSync(file, 'utf8').split('\n');
+    lines.forEach((line, index) => {
+      const location = `${path.relative(ROOT, file)}:${index + 1}`;
+      for (const match of line.matchAll(LITERAL_KEY_PATTERN)) {
+        record(literalKeys, match[2], location);
+      }
+      for (const match of line.matchAll(TEMPLATE_KEY_PATTERN)) {
+        record(templatePrefixes, match[1], location);
+      }
+    });
+  });
+
+  return { literalKeys, templatePrefixes };
+};
+
+const checkCatalogues = (catalogues) => {
+  const problems = [];
+  const reference = flatten(catalogues[REFERENCE_LOCALE]);
+
+  Object.entries(catalogues)
+    .filter(([locale]) => locale !== REFERENCE_LOCALE)
+    .forEach(([locale, catalogue]) => {
+      const flat = flatten(catalogue);
+
+      Object.keys(reference)
+        .filter((key) => !(key in flat))
+        .forEach((key) => problems.push(`[${locale}] missing key: ${key}`));
+
+      Object.keys(flat)
+        .filter((key) => !(key in reference))
+        .forEach((key) => problems.push(`[${locale}] extra key not in ${REFERENCE_LOCALE}: ${key}`));
+
+      Object.keys(flat)
+        .filter((key) => key in reference)
+        .forEach((key) => {
+          const expected = getInterpolations(reference[key]).join(', ');
+          const actual = getInterpolations(flat[key]).join(', ');
+          if (expected !== actual) {
+            problems.push(`[${locale}] interpolation mismatch in ${key}: expected {${expected}}, found {${actual}}`);
+          }
+        });
+    });
+
+  return problems;
+};
+
+const checkUsedKeys = (catalogues) => {
+  const problems = [];
+  const { literalKeys, templatePrefixes } = collectUsedKeys();
+
+  Object.entries(catalogues).forEach(([locale, catalogue]) => {
+    const flat = flatten(catalogue);
+    const flatKeys = Object.keys(flat);
+
+    literalKeys.forEach((locations, key) => {
+      if (!hasKey(flat, flatKeys, key)) {
+        problems.push(`[${locale}] used key not found: ${key} (${locations.join(', ')})`);
+      }
+    });
+    templatePrefixes.forEach((locations, prefix) => {
+      if (!hasPrefix(flatKeys, prefix)) {
+        problems.push(`[${locale}] dynamic key prefix not found: ${prefix}.* (${locations.join(', ')})`);
+      }
+    });
+  });
+
+  return { problems, usedKeyCount: literalKeys.size };
+};
+
+const run = () => {
+  const catalogues = loadCatalogues();
+  if (!catalogues[REFERENCE_LOCALE]) {
+    console.error(`❌ Reference catalogue i18n/${REFERENCE_LOCALE}.json not found`);
+    process.exit(1);
+  }
+
+  const catalogueProblems = checkCatalogues(catalogues);
+  const { problems: usageProblems, usedKeyCount } = checkUsedKeys(catalogues);
+  const problems = [...catalogueProblems, ...usageProblems];
+
+  const keyCount = Object.keys(flatten(catalogues[REFERENCE_LOCALE])).length;
+  console.log(`🌍 Locales: ${Object.keys(catalogues).join(', ')} (${keyCount} keys, ${usedKeyCount} used in source)`);
+
+  if (problems.length > 0) {
+    problems.forEach((problem) => console.error(`  ${problem}`));
+    console.error(`\n❌ ${problems.length} translation problem(s) found`);
+    process.exit(1);
+  }
+
+  console.log('✅ All translation catalogues are complete');
+};
+
+run();
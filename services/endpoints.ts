@@ -0,0 +1,588 @@
+/**
+ * API endpoint registry
+ * Single source of truth for every backend endpoint used by the dashboard; the services in
+ * './api' are derived from these groups and responses are validated against the listed schemas
+ */
+
+import { z } from 'zod';
+import { defineEndpoint } from '@/lib/endpoint-registry';
+import * as schemas from '@/lib/api-schemas';
+import type {
+  RegisterUserRequest,
+  LoginRequest,
+  PasswordResetRequest,
+  PasswordResetCompleteRequest,
+  ResendVerificationRequest,
+  CreateUserRequest,
+  UsersListParams,
+  EditUserRequest,
+  ResetPasswordRequest,
+  ChangeUserStatusRequest,
+  BulkChangeStatusRequest,
+  UpdateProfileRequest,
+  ChangePasswordRequest,
+  AuditLogsParams,
+  AuditExportRequest,
+  RecordAuditEventRequest,
+  UpdateRolePermissionsRequest,
+  CreateRoleRequest,
+  UpdateRoleRequest,
+  CloneRoleRequest,
+  PermissionCheckRequest,
+  PermissionAuditParams,
+  CreateCategoryRequest,
+  UpdateCategoryRequest,
+  CategoriesListParams,
+  CreateInventoryItemRequest,
+  UpdateInventoryItemRequest,
+  UpdateSerializedItemRequest,
+  UpdateNonSerializedItemQuantityRequest,
+  ChangeInventoryItemStatusRequest,
+  InventoryListParams,
+  ValidateSerialNumberRequest,
+  InventoryExportRequest,
+  CustomersListParams,
+  CreateCustomerRequest,
+  UpdateCustomerRequest,
+  RentalsListParams,
+  CreateRentalRequest,
+  CheckoutRentalRequest,
+  ReturnRentalRequest,
+  InventoryUtilizationParams,
+  MaintenanceOverdueParams,
+  UserLoginsParams,
+  ReportExportRequest,
+  UpdateTenantSettingsRequest,
+} from '@/types';
+
+// Server-side maximum page size for the categories list
+const CATEGORIES_MAX_LIMIT = 50;
+
+// Empty filter values are left out of the query string
+const withoutEmptyValues = (params: object): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+
+export const authEndpoints = {
+  /** Register a new user according to ? API contract */
+  register: defineEndpoint({
+    method: 'post',
+    path: '/auth/register',
+    input: z.custom<RegisterUserRequest>(),
+    response: schemas.registerUserResponseSchema,
+  }),
+  /** Login user according to ? API contract */
+  login: defineEndpoint({
+    method: 'post',
+    path: '/auth/login',
+    input: z.custom<LoginRequest>(),
+    response: schemas.loginResponseSchema,
+  }),
+  /** Logout user according to ? API contract */
+  logout: defineEndpoint({
+    method: 'post',
+    path: '/auth/logout',
+    response: schemas.logoutResponseSchema,
+  }),
+  /** Extend the current session before it expires */
+  refreshSession: defineEndpoint({
+    method: 'post',
+    path: '/auth/session/refresh',
+    response: schemas.refreshSessionResponseSchema,
+  }),
+  /** Request password reset according to ? API contract */
+  requestPasswordReset: defineEndpoint({
+    method: 'post',
+    path: '/auth/password-reset-request',
+    input: z.custom<PasswordResetRequest>(),
+    response: schemas.passwordResetRequestResponseSchema,
+  }),
+  /** Complete password reset according to ? API contract */
+  completePasswordReset: defineEndpoint({
+    method: 'post',
+    path: '/auth/password-reset-complete',
+    input: z.custom<PasswordResetCompleteRequest>(),
+    response: schemas.passwordResetCompleteResponseSchema,
+  }),
+  /** Verify email with token according to ?-ALT-2 API contract */
+  verifyEmail: defineEndpoint({
+    method: 'get',
+    path: '/auth/verify-email',
+    input: z.custom<{ token: string; lang?: string }>(),
+    response: schemas.emailVerificationResponseSchema,
+  }),
+  /** Resend verification email according to ?-ALT-2 API contract */
+  resendVerificationEmail: defineEndpoint({
+    method: 'post',
+    path: '/auth/resend-verification',
+    input: z.custom<ResendVerificationRequest>(),
+    response: schemas.resendVerificationResponseSchema,
+  }),
+};
+
+export const dashboardEndpoints = {
+  /** Get dashboard data according to ? API contract */
+  getDashboardData: defineEndpoint({
+    method: 'get',
+    path: '/dashboard',
+    response: schemas.dashboardResponseSchema,
+  }),
+};
+
+export const localeEndpoints = {
+  /** Get locale formatting configuration according to ? ? API contract */
+  getFormattingConfig: defineEndpoint({
+    method: 'get',
+    path: '/locale/formatting',
+    response: schemas.localeFormattingResponseSchema,
+  }),
+};
+
+export const userEndpoints = {
+  /** Create a new user according to ? API contract */
+  createUser: defineEndpoint({
+    method: 'post',
+    path: '/users',
+    input: z.custom<CreateUserRequest>(),
+    response: schemas.createUserResponseSchema,
+  }),
+  /** Get list of users in the tenant according to ? API contract */
+  getUsers: defineEndpoint({
+    method: 'get',
+    path: '/users',
+    input: z.custom<UsersListParams>().optional(),
+    query: (params = {}) => withoutEmptyValues({
+      ...params,
+      page: params.page || 1,
+      limit: params.limit || 25,
+    }),
+    response: schemas.usersListResponseSchema,
+  }),
+  /** Get available roles for user assignment according to ? API contract */
+  getRoles: defineEndpoint({
+    method: 'get',
+    path: '/roles',
+    response: schemas.rolesListResponseSchema,
+  }),
+  /** Edit user profile according to ? API contract */
+  editUser: defineEndpoint({
+    method: 'put',
+    path: '/users/:userId',
+    input: z.custom<EditUserRequest>(),
+    response: schemas.editUserResponseSchema,
+  }),
+  /** Reset user password according to ? API contract */
+  resetPassword: defineEndpoint({
+    method: 'post',
+    path: '/users/:userId/reset-password',
+    input: z.custom<ResetPasswordRequest>(),
+    response: schemas.resetPasswordResponseSchema,
+  }),
+  /** Change user account status according to ? API contract */
+  changeStatus: defineEndpoint({
+    method: 'patch',
+    path: '/users/:userId/status',
+    input: z.custom<ChangeUserStatusRequest>(),
+    response: schemas.changeUserStatusResponseSchema,
+  }),
+  /** Bulk change user account status according to ? API contract */
+  bulkChangeStatus: defineEndpoint({
+    method: 'patch',
+    path: '/users/bulk-status',
+    input: z.custom<BulkChangeStatusRequest>(),
+    response: schemas.bulkChangeStatusResponseSchema,
+  }),
+};
+
+// ? - Self-Service Profile Management API
+export const profileEndpoints = {
+  /** Get current user profile according to ? API contract */
+  getProfile: defineEndpoint({
+    method: 'get',
+    path: '/users/profile',
+    response: schemas.userProfileResponseSchema,
+  }),
+  /** Update current user profile according to ? API contract */
+  updateProfile: defineEndpoint({
+    method: 'put',
+    path: '/users/profile',
+    input: z.custom<UpdateProfileRequest>(),
+    response: schemas.updateProfileResponseSchema,
+  }),
+  /** Change current user password according to ? API contract */
+  changePassword: defineEndpoint({
+    method: 'post',
+    path: '/users/profile/change-password',
+    input: z.custom<ChangePasswordRequest>(),
+    response: schemas.changePasswordResponseSchema,
+  }),
+  /** Get active sessions according to ? API contract */
+  getSessions: defineEndpoint({
+    method: 'get',
+    path: '/users/profile/sessions',
+    response: schemas.userSessionsResponseSchema,
+  }),
+  /** Terminate session according to ? API contract */
+  terminateSession: defineEndpoint({
+    method: 'delete',
+    path: '/users/profile/sessions/:sessionId',
+    response: schemas.terminateSessionResponseSchema,
+  }),
+  /** Get account activity according to ? API contract */
+  getActivity: defineEndpoint({
+    method: 'get',
+    path: '/users/profile/activity',
+    input: z.custom<{ limit?: number; page?: number }>().optional(),
+    response: schemas.userActivityResponseSchema,
+  }),
+};
+
+// ? - Audit Trail Management
+export const auditEndpoints = {
+  /** Get audit logs according to ? API contract */
+  getLogs: defineEndpoint({
+    method: 'get',
+    path: '/audit/logs',
+    input: z.custom<AuditLogsParams>().optional(),
+    response: schemas.auditLogsResponseSchema,
+  }),
+  /** Export audit data according to ? API contract */
+  exportLogs: defineEndpoint({
+    method: 'post',
+    path: '/audit/export',
+    input: z.custom<AuditExportRequest>(),
+    response: schemas.auditExportResponseSchema,
+  }),
+  /** Record an audit entry for an action only the client sees, such as viewing the app as another user */
+  recordEvent: defineEndpoint({
+    method: 'post',
+    path: '/audit/events',
+    input: z.custom<RecordAuditEventRequest>(),
+    response: schemas.recordAuditEventResponseSchema,
+  }),
+  /** Check export status (for async exports) */
+  getExportStatus: defineEndpoint({
+    method: 'get',
+    path: '/audit/export/:exportId/status',
+    response: schemas.auditExportResponseSchema,
+  }),
+  /** Download export file directly (alternative to downloadUrl) */
+  downloadExport: defineEndpoint({
+    method: 'get',
+    path: '/audit/export/:exportId/download',
+    responseType: 'blob',
+    response: schemas.blobSchema,
+  }),
+};
+
+// ? - Role-Based Permission Enforcement
+export const permissionEndpoints = {
+  /** List available system permissions according to ? API contract */
+  getPermissions: defineEndpoint({
+    method: 'get',
+    path: '/permissions',
+    response: schemas.permissionsListResponseSchema,
+  }),
+  /** Get permissions assigned to specific role according to ? API contract */
+  getRolePermissions: defineEndpoint({
+    method: 'get',
+    path: '/roles/:roleId/permissions',
+    response: schemas.rolePermissionsResponseSchema,
+  }),
+  /** Update permissions for specific role according to ? API contract */
+  updateRolePermissions: defineEndpoint({
+    method: 'put',
+    path: '/roles/:roleId/permissions',
+    input: z.custom<UpdateRolePermissionsRequest>(),
+    response: schemas.updateRolePermissionsResponseSchema,
+  }),
+  /** Count the users and active sessions a permission change would reach, without applying it */
+  previewRolePermissions: defineEndpoint({
+    method: 'post',
+    path: '/roles/:roleId/permissions/preview',
+    input: z.custom<UpdateRolePermissionsRequest>(),
+    response: schemas.rolePermissionsImpactResponseSchema,
+  }),
+  /** Create a custom role with its initial permissions */
+  createRole: defineEndpoint({
+    method: 'post',
+    path: '/roles',
+    input: z.custom<CreateRoleRequest>(),
+    response: schemas.roleResponseSchema,
+  }),
+  /** Rename a custom role, built-in roles are rejected by the API */
+  renameRole: defineEndpoint({
+    method: 'patch',
+    path: '/roles/:roleId',
+    input: z.custom<UpdateRoleRequest>(),
+    response: schemas.roleResponseSchema,
+  }),
+  /** Delete a custom role, fails with roles.ROLE_IN_USE while users are still assigned to it */
+  deleteRole: defineEndpoint({
+    method: 'delete',
+    path: '/roles/:roleId',
+    response: schemas.deleteRoleResponseSchema,
+  }),
+  /** Create a custom role with the permissions of an existing (built-in or custom) role */
+  cloneRole: defineEndpoint({
+    method: 'post',
+    path: '/roles/:roleId/clone',
+    input: z.custom<CloneRoleRequest>(),
+    response: schemas.roleResponseSchema,
+  }),
+  /** Check if current user has specific permission according to ? API contract */
+  checkPermission: defineEndpoint({
+    method: 'post',
+    path: '/permissions/check',
+    input: z.custom<PermissionCheckRequest>(),
+    response: schemas.permissionCheckResponseSchema,
+  }),
+  /** Get permission check audit logs according to ? API contract */
+  getPermissionAudit: defineEndpoint({
+    method: 'get',
+    path: '/permissions/audit',
+    input: z.custom<PermissionAuditParams>().optional(),
+    response: schemas.permissionAuditResponseSchema,
+  }),
+};
+
+// ?, ? & ? - Category Management API
+export const categoriesEndpoints = {
+  /** Get all categories for current tenant, supports pagination and search */
+  getCategories: defineEndpoint({
+    method: 'get',
+    path: '/categories',
+    input: z.custom<CategoriesListParams>().optional(),
+    query: (params = {}) => withoutEmptyValues({
+      page: params.page || undefined,
+      limit: params.limit ? Math.min(params.limit, CATEGORIES_MAX_LIMIT) : undefined,
+      // The API rejects search terms shorter than 2 characters
+      search: params.search && params.search.length >= 2 ? params.search : undefined,
+    }),
+    response: schemas.categoriesListResponseSchema,
+  }),
+  /** Create a new category according to ? API contract */
+  createCategory: defineEndpoint({
+    method: 'post',
+    path: '/categories',
+    input: z.custom<CreateCategoryRequest>(),
+    response: schemas.createCategoryResponseSchema,
+  }),
+  /** Update an existing category according to ? API contract */
+  updateCategory: defineEndpoint({
+    method: 'put',
+    path: '/categories/:categoryId',
+    input: z.custom<UpdateCategoryRequest>(),
+    response: schemas.updateCategoryResponseSchema,
+  }),
+  /** Get category items count for deletion validation according to ? API contract */
+  getCategoryItemsCount: defineEndpoint({
+    method: 'get',
+    path: '/categories/:categoryId/items-count',
+    response: schemas.categoryItemsCountResponseSchema,
+  }),
+  /** Delete a category according to ? API contract */
+  deleteCategory: defineEndpoint({
+    method: 'delete',
+    path: '/categories/:categoryId',
+    response: schemas.deleteCategoryResponseSchema,
+  }),
+};
+
+// ?: Inventory Management
+export const inventoryEndpoints = {
+  /** List inventory items according to ? API contract */
+  getInventoryItems: defineEndpoint({
+    method: 'get',
+    path: '/inventory',
+    input: z.custom<InventoryListParams>().optional(),
+    response: schemas.inventoryListResponseSchema,
+  }),
+  /** Create inventory item according to ? & ? API contract */
+  createInventoryItem: defineEndpoint({
+    method: 'post',
+    path: '/inventory',
+    input: z.custom<CreateInventoryItemRequest>(),
+    response: schemas.createInventoryItemResponseSchema,
+  }),
+  /** Get inventory item details according to ? API contract */
+  getInventoryItem: defineEndpoint({
+    method: 'get',
+    path: '/inventory/:itemId',
+    response: schemas.getInventoryItemResponseSchema,
+  }),
+  /** Validate serial number uniqueness according to ? API contract */
+  validateSerialNumber: defineEndpoint({
+    method: 'post',
+    path: '/inventory/serial-number/validate',
+    input: z.custom<ValidateSerialNumberRequest>(),
+    response: schemas.validateSerialNumberResponseSchema,
+  }),
+  /** Generate serial number according to ? API contract */
+  generateSerialNumber: defineEndpoint({
+    method: 'post',
+    path: '/inventory/serial-number/generate',
+    response: schemas.generateSerialNumberResponseSchema,
+  }),
+  /** Export inventory items according to ? API contract */
+  exportInventoryItems: defineEndpoint({
+    method: 'post',
+    path: '/inventory/export',
+    input: z.custom<InventoryExportRequest>(),
+    response: schemas.inventoryExportResponseSchema,
+  }),
+  /** Update inventory item according to ? API contract */
+  updateInventoryItem: defineEndpoint({
+    method: 'put',
+    path: '/inventory/:itemId',
+    input: z.custom<UpdateInventoryItemRequest>(),
+    response: schemas.updateInventoryItemResponseSchema,
+  }),
+  /** Update serialized item information according to ? API contract */
+  updateSerializedItem: defineEndpoint({
+    method: 'put',
+    path: '/inventory/:itemId/serialized',
+    input: z.custom<UpdateSerializedItemRequest>(),
+    response: schemas.updateSerializedItemResponseSchema,
+  }),
+  /** Update non-serialized item quantity according to ? API contract */
+  updateNonSerializedItemQuantity: defineEndpoint({
+    method: 'put',
+    path: '/inventory/:itemId/quantity',
+    input: z.custom<UpdateNonSerializedItemQuantityRequest>(),
+    response: schemas.updateNonSerializedItemQuantityResponseSchema,
+  }),
+  /** Change inventory item status according to ? API contract */
+  changeInventoryItemStatus: defineEndpoint({
+    method: 'patch',
+    path: '/inventory/:itemId/status',
+    input: z.custom<ChangeInventoryItemStatusRequest>(),
+    response: schemas.changeInventoryItemStatusResponseSchema,
+  }),
+};
+
+// Customer Management
+export const customersEndpoints = {
+  /** List customers with search, status filter and pagination */
+  getCustomers: defineEndpoint({
+    method: 'get',
+    path: '/customers',
+    input: z.custom<CustomersListParams>().optional(),
+    response: schemas.customersListResponseSchema,
+  }),
+  /** Create a customer, the national ID is validated against the tenant locale */
+  createCustomer: defineEndpoint({
+    method: 'post',
+    path: '/customers',
+    input: z.custom<CreateCustomerRequest>(),
+    response: schemas.createCustomerResponseSchema,
+  }),
+  /** Get customer details */
+  getCustomer: defineEndpoint({
+    method: 'get',
+    path: '/customers/:customerId',
+    response: schemas.getCustomerResponseSchema,
+  }),
+  /** Update customer information, `version` guards against concurrent edits */
+  updateCustomer: defineEndpoint({
+    method: 'put',
+    path: '/customers/:customerId',
+    input: z.custom<UpdateCustomerRequest>(),
+    response: schemas.updateCustomerResponseSchema,
+  }),
+  /** Delete a customer without active rentals */
+  deleteCustomer: defineEndpoint({
+    method: 'delete',
+    path: '/customers/:customerId',
+    response: schemas.deleteCustomerResponseSchema,
+  }),
+};
+
+// Rental Management
+export const rentalsEndpoints = {
+  /** List rentals with status, customer and overdue filters */
+  getRentals: defineEndpoint({
+    method: 'get',
+    path: '/rentals',
+    input: z.custom<RentalsListParams>().optional(),
+    response: schemas.rentalsListResponseSchema,
+  }),
+  /** Create a reserved rental, item availability is checked for the requested period */
+  createRental: defineEndpoint({
+    method: 'post',
+    path: '/rentals',
+    input: z.custom<CreateRentalRequest>(),
+    response: schemas.createRentalResponseSchema,
+  }),
+  /** Get rental details */
+  getRental: defineEndpoint({
+    method: 'get',
+    path: '/rentals/:rentalId',
+    response: schemas.getRentalResponseSchema,
+  }),
+  /**
+   * Check out a reserved rental: serialized items become `rented`
+   * and non-serialized quantities are decremented
+   */
+  checkoutRental: defineEndpoint({
+    method: 'post',
+    path: '/rentals/:rentalId/checkout',
+    input: z.custom<CheckoutRentalRequest>(),
+    response: schemas.checkoutRentalResponseSchema,
+  }),
+  /** Return an active rental, each item goes back with its recorded condition */
+  returnRental: defineEndpoint({
+    method: 'post',
+    path: '/rentals/:rentalId/return',
+    input: z.custom<ReturnRentalRequest>(),
+    response: schemas.returnRentalResponseSchema,
+  }),
+};
+
+// Reports
+export const reportsEndpoints = {
+  /** Inventory item counts per category, broken down by availability status */
+  getInventoryUtilization: defineEndpoint({
+    method: 'get',
+    path: '/reports/inventory-utilization',
+    input: z.custom<InventoryUtilizationParams>().optional(),
+    response: schemas.inventoryUtilizationResponseSchema,
+  }),
+  /** Items still in maintenance after their expected resolution date */
+  getMaintenanceOverdue: defineEndpoint({
+    method: 'get',
+    path: '/reports/maintenance-overdue',
+    input: z.custom<MaintenanceOverdueParams>().optional(),
+    response: schemas.maintenanceOverdueResponseSchema,
+  }),
+  /** Successful and failed logins per period, aggregated from audit logs */
+  getUserLogins: defineEndpoint({
+    method: 'get',
+    path: '/reports/user-logins',
+    input: z.custom<UserLoginsParams>(),
+    response: schemas.userLoginsResponseSchema,
+  }),
+  /** Export a report with the given parameters */
+  exportReport: defineEndpoint({
+    method: 'post',
+    path: '/reports/export',
+    input: z.custom<ReportExportRequest>(),
+    response: schemas.reportExportResponseSchema,
+  }),
+};
+
+// Tenant Settings
+export const settingsEndpoints = {
+  /** Get tenant settings (company name and locale formatting preferences) */
+  getSettings: defineEndpoint({
+    method: 'get',
+    path: '/settings',
+    response: schemas.getTenantSettingsResponseSchema,
+  }),
+  /** Update tenant settings, `version` guards against concurrent edits */
+  updateSettings: defineEndpoint({
+    method: 'put',
+    path: '/settings',
+    input: z.custom<UpdateTenantSettingsRequest>(),
+    response: schemas.updateTenantSettingsResponseSchema,
+  }),
+};
@@ -0,0 +1,61 @@
+/**
+ * Test file to validate date formatting
+ * Relative times, durations and ranges follow the tenant calendar and digit set
+ */
+
+import { defaultLocaleConfig, getLanguageFormattingConfig } from '../lib/locale-formatting';
+import { formatDate, formatDateRange, formatDualDate, formatDuration, formatRelativeTime, parseDate } from '../lib/date-formatting';
+import type { LocaleFormattingResponse } from '../types';
+
+const persianConfig = defaultLocaleConfig;
+const arabicConfig: LocaleFormattingResponse['data'] = getLanguageFormattingConfig(defaultLocaleConfig, 'ar');
+const latinDigitsConfig: LocaleFormattingResponse['data'] = {
+  ...defaultLocaleConfig,
+  numberFormat: { ...defaultLocaleConfig.numberFormat, digits: 'latin' },
+};
+const hijriConfig: LocaleFormattingResponse['data'] = {
+  ...arabicConfig,
+  dateFormat: { ...arabicConfig.dateFormat, calendar: 'hijri' },
+};
+
+const now = Date.parse('2024-04-03T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+
+const run = () => {
+  console.log('=== Date Formatting Tests ===');
+
+  // Test absolute dates in the tenant calendar
+  console.log('1. Absolute dates:');
+  console.log('Jalali date (should be true):', formatDate('2024-04-03T12:00:00Z', persianConfig) === '۱۵ فروردین ۱۴۰۳');
+  console.log('Tenant digits are honoured (should be true):', formatDate('2024-04-03T12:00:00Z', latinDigitsConfig) === '15 فروردین 1403');
+
+  // Test relative times
+  console.log('\n2. Relative times:');
+  console.log('Persian hours ago (should be true):', formatRelativeTime(hoursAgo(3), persianConfig, now) === '۳ ساعت پیش');
+  console.log('Arabic digits (should be true):', /[٠-٩]/.test(formatRelativeTime(hoursAgo(120), arabicConfig, now)));
+  console.log('Future dates (should be true):', formatRelativeTime(hoursAgo(-2), latinDigitsConfig, now).includes('2'));
+  console.log('Invalid date is returned as is (should be true):', formatRelativeTime('not a date', persianConfig, now) === 'not a date');
+
+  // Test durations
+  console.log('\n3. Durations:');
+  console.log('Countdown clock (should be true):', formatDuration(125 * 1000, persianConfig, 'clock') === '۲:۰۵');
+  console.log('Countdown clock with hours (should be true):', formatDuration(3725 * 1000, latinDigitsConfig, 'clock') === '1:02:05');
+  console.log('Two largest units (should be true):', formatDuration(8100 * 1000, persianConfig) === '۲ ساعت ۱۵ دقیقه');
+
+  // Test ranges
+  console.log('\n4. Ranges:');
+  console.log('Same day is shown once (should be true):', formatDateRange(hoursAgo(1), hoursAgo(0), persianConfig) === formatDate(hoursAgo(0), persianConfig));
+  console.log('Different days are joined (should be true):', formatDateRange(hoursAgo(48), hoursAgo(0), persianConfig).includes(' – '));
+
+  // Test the Umm al-Qura Hijri calendar
+  console.log('\n5. Hijri calendar:');
+  console.log('Hijri date (should be true):', formatDate('2024-04-03T12:00:00Z', hijriConfig).includes('٢٤ رمضان ١٤٤٥'));
+  console.log('Dual display adds the Gregorian date (should be true):', formatDualDate('2024-04-03T12:00:00Z', hijriConfig).includes('أبريل'));
+  console.log('Iran locale falls back to Gregorian (should be true):', formatDate('2024-04-03T12:00:00Z', { ...persianConfig, dateFormat: { ...persianConfig.dateFormat, calendar: 'hijri' } }).includes('۲۰۲۴'));
+  console.log('Hijri date parsing (should be true):', parseDate('١٤٤٥/٠٩/٢٤', hijriConfig) === '2024-04-03');
+  console.log('Hijri day that does not exist (should be true):', parseDate('1445/10/30', hijriConfig) === null);
+
+  console.log('\n=== All Date Formatting Tests Complete ===');
+};
+
+run();
@@ -0,0 +1,57 @@
+/**
+ * Test file to validate date range presets
+ * Months and fiscal years follow the tenant calendar, the end of a range may not precede its start
+ */
+
+import { findPreset, getPresetRange, isValidDateRange } from '../lib/date-ranges';
+
+// 15 Farvardin 1403 / 24 Ramadan 1445, 10:00 in Tehran
+const today = new Date('2024-04-03T06:30:00Z');
+// 00:30 on 1 Farvardin 1403 in Tehran, still 19 March in UTC
+const tehranNewYear = new Date('2024-03-19T21:00:00Z');
+// 01:00 on 1 May in Dubai, still 30 April in UTC
+const dubaiMayFirst = new Date('2024-04-30T21:00:00Z');
+
+const run = () => {
+  console.log('=== Date Range Tests ===');
+
+  console.log('1. Presets:');
+  const todayRange = getPresetRange('today', 'persian', 'Asia/Tehran', today);
+  console.log('Today (should be true):', todayRange.from === '2024-04-03' && todayRange.to === '2024-04-03');
+  const lastWeek = getPresetRange('last7Days', 'gregorian', 'Asia/Tehran', today);
+  console.log('Last 7 days includes today (should be true):', lastWeek.from === '2024-03-28' && lastWeek.to === '2024-04-03');
+
+  const persianMonth = getPresetRange('thisMonth', 'persian', 'Asia/Tehran', today);
+  console.log('Farvardin 1403 (should be true):', persianMonth.from === '2024-03-20' && persianMonth.to === '2024-04-19');
+  const gregorianMonth = getPresetRange('thisMonth', 'gregorian', 'Asia/Tehran', today);
+  console.log('April 2024 (should be true):', gregorianMonth.from === '2024-04-01' && gregorianMonth.to === '2024-04-30');
+  const hijriMonth = getPresetRange('thisMonth', 'hijri', 'Asia/Tehran', today);
+  console.log('Ramadan 1445 (should be true):', hijriMonth.from === '2024-03-11' && hijriMonth.to === '2024-04-09');
+
+  console.log('\n2. Fiscal years:');
+  const persianYear = getPresetRange('thisFiscalYear', 'persian', 'Asia/Tehran', today);
+  console.log('Starts on Farvardin 1 (should be true):', persianYear.from === '2024-03-20' && persianYear.to === '2025-03-20');
+  const gregorianYear = getPresetRange('thisFiscalYear', 'gregorian', 'Asia/Tehran', today);
+  console.log('Starts on January 1 (should be true):', gregorianYear.from === '2024-01-01' && gregorianYear.to === '2024-12-31');
+
+  console.log('\n3. Tenant time zone:');
+  const tehranToday = getPresetRange('today', 'persian', 'Asia/Tehran', tehranNewYear);
+  console.log('Tehran today after midnight (should be true):', tehranToday.from === '2024-03-20' && tehranToday.to === '2024-03-20');
+  console.log('Tehran fiscal year already changed (should be true):',
+    getPresetRange('thisFiscalYear', 'persian', 'Asia/Tehran', tehranNewYear).from === '2024-03-20');
+  console.log('UTC is still the day before (should be true):', getPresetRange('today', 'persian', 'UTC', tehranNewYear).from === '2024-03-19');
+  const dubaiMonth = getPresetRange('thisMonth', 'gregorian', 'Asia/Dubai', dubaiMayFirst);
+  console.log('Dubai month after midnight (should be true):', dubaiMonth.from === '2024-05-01' && dubaiMonth.to === '2024-05-31');
+  console.log('UTC month is still April (should be true):', getPresetRange('thisMonth', 'gregorian', 'UTC', dubaiMayFirst).from === '2024-04-01');
+  console.log('Preset found in the tenant zone (should be true):',
+    findPreset({ from: '2024-05-01', to: '2024-05-01' }, 'gregorian', 'Asia/Dubai', dubaiMayFirst) === 'today');
+
+  console.log('\n4. Validation:');
+  console.log('End before start is rejected (should be true):', !isValidDateRange({ from: '2024-04-03', to: '2024-04-02' }));
+  console.log('Same day is accepted (should be true):', isValidDateRange({ from: '2024-04-03', to: '2024-04-03' }));
+  console.log('Open range is accepted (should be true):', isValidDateRange({ from: '2024-04-03', to: '' }));
+
+  console.log('\n=== All Date Range Tests Complete ===');
+};
+
+run();
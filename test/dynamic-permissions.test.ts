@@ -73,4 +73,14 @@ console.log('Can access permissions:', canAccessNavigationItem(testPermissions,
 console.log('Can access inventory (should be false):', canAccessNavigationItem(testPermissions, 'inventory'));
 console.log('Can access profile (should be true):', canAccessNavigationItem(testPermissions, 'profile'));
 
+// Test manage and wildcard implication
+console.log('\n5. Implied Permissions:');
+console.log('users:manage implies users:delete (should be true):', hasDynamicPermission(['users:manage'], 'users', PermissionAction.DELETE));
+console.log('users:manage does not imply audit:read (should be true):', !hasDynamicPermission(['users:manage'], 'audit', PermissionAction.READ));
+console.log('inventory:* implies inventory:import (should be true):', hasDynamicPermission(['inventory:*'], 'inventory', PermissionAction.IMPORT));
+console.log('* implies settings:update (should be true):', hasDynamicPermission(['*'], 'settings', PermissionAction.UPDATE));
+console.log('users:read does not imply users:update (should be true):', !hasDynamicPermission(['users:read'], 'users', PermissionAction.UPDATE));
+console.log('rentals:manage opens rentals (should be true):', canAccessNavigationItem(['rentals:manage'], 'rentals'));
+console.log('rentals:manage allows every action (should be true):', getDynamicAllowedActions(['rentals:manage'], 'rentals').length === Object.values(PermissionAction).length);
+
 export { testPermissions };
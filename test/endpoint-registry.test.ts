@@ -0,0 +1,120 @@
+/**
+ * Test file to validate the endpoint registry
+ * Calls registry endpoints against a local mock adapter and checks request building and response validation
+ */
+
+import axios from 'axios';
+import type { AxiosAdapter, InternalAxiosRequestConfig } from 'axios';
+import { z } from 'zod';
+import {
+  callEndpoint,
+  createService,
+  defineEndpoint,
+  isContractViolation,
+  onContractViolation,
+  CONTRACT_VIOLATION_CODE,
+} from '../lib/endpoint-registry';
+import type { ContractViolation } from '../lib/endpoint-registry';
+
+// Mock adapter that records the last request and answers with the given body
+const createMockClient = (body: unknown) => {
+  let lastConfig: InternalAxiosRequestConfig | undefined;
+  const adapter: AxiosAdapter = async (config) => {
+    lastConfig = config;
+    return { data: body, status: 200, statusText: 'OK', headers: {}, config };
+  };
+  return { client: axios.create({ adapter }), getLastConfig: () => lastConfig };
+};
+
+const itemResponseSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  data: z.object({ id: z.string(), quantity: z.number() }).passthrough(),
+});
+
+const endpoints = {
+  updateQuantity: defineEndpoint({
+    method: 'put',
+    path: '/inventory/:itemId/quantity',
+    input: z.custom<{ quantity: number }>(),
+    response: itemResponseSchema,
+  }),
+  listItems: defineEndpoint({
+    method: 'get',
+    path: '/inventory',
+    input: z.custom<{ page?: number; limit?: number }>().optional(),
+    query: (params = {}) => ({ page: params.page || 1, limit: Math.min(params.limit || 25, 50) }),
+    response: itemResponseSchema,
+  }),
+  getItem: defineEndpoint({
+    method: 'get',
+    path: '/inventory/:itemId',
+    response: itemResponseSchema,
+  }),
+};
+
+const validBody = { code: 'inventory.OK', message: 'OK', data: { id: 'item-1', quantity: 3, extra: true } };
+
+const run = async () => {
+  console.log('=== Endpoint Registry Tests ===');
+
+  // Test path parameters and request body
+  console.log('1. Path parameters and body:');
+  const bodyMock = createMockClient(validBody);
+  await callEndpoint(bodyMock.client, endpoints.updateQuantity, 'item 1', { quantity: 3 });
+  const bodyConfig = bodyMock.getLastConfig();
+  console.log('URL encoded (should be true):', bodyConfig?.url === '/inventory/item%201/quantity');
+  console.log('Body sent (should be true):', JSON.parse(bodyConfig?.data).quantity === 3);
+
+  // Test query mapping with defaults and limits
+  console.log('\n2. Query mapping:');
+  const queryMock = createMockClient(validBody);
+  const service = createService(queryMock.client, endpoints);
+  await service.listItems({ limit: 100 });
+  console.log('Limit capped (should be true):', queryMock.getLastConfig()?.params.limit === 50);
+  await service.listItems();
+  console.log('Defaults applied (should be true):', queryMock.getLastConfig()?.params.page === 1);
+
+  // Test unknown arguments (e.g. the React Query context) are not sent
+  console.log('\n3. Undeclared arguments ignored:');
+  const contextMock = createMockClient(validBody);
+  await (createService(contextMock.client, endpoints).getItem as (...args: unknown[]) => Promise<unknown>)(
+    'item-1',
+    { queryKey: ['inventory-item'] }
+  );
+  console.log('No params sent (should be true):', contextMock.getLastConfig()?.params === undefined);
+
+  // Test unknown response fields are preserved
+  console.log('\n4. Valid response:');
+  const validMock = createMockClient(validBody);
+  const response = await callEndpoint(validMock.client, endpoints.getItem, 'item-1');
+  console.log('Extra fields kept (should be true):', (response.data as Record<string, unknown>).extra === true);
+
+  // Test contract drift rejects with a typed error
+  console.log('\n5. Contract violation:');
+  const driftMock = createMockClient({ code: 'inventory.OK', message: 'OK', data: { id: 'item-1', qty: 3 } });
+  try {
+    await callEndpoint(driftMock.client, endpoints.getItem, 'item-1');
+    console.log('Rejected (should be true): false');
+  } catch (error) {
+    console.log('Rejected (should be true):', isContractViolation(error));
+    console.log('Error code matches (should be true):', (error as { code: string }).code === CONTRACT_VIOLATION_CODE);
+    console.log('Field reported (should be true):',
+      (error as { errors: Array<{ field: string }> }).errors.some((issue) => issue.field === 'data.quantity'));
+  }
+
+  // Test violations are reported to subscribers (the development overlay)
+  console.log('\n6. Violation reported:');
+  const reported: ContractViolation[] = [];
+  const unsubscribe = onContractViolation((violation) => reported.push(violation));
+  await callEndpoint(driftMock.client, endpoints.getItem, 'item-1').catch(() => undefined);
+  unsubscribe();
+  await callEndpoint(driftMock.client, endpoints.getItem, 'item-1').catch(() => undefined);
+  console.log('Reported once (should be true):', reported.length === 1 && reported[0].path === '/inventory/:itemId');
+
+  console.log('\n=== All Endpoint Registry Tests Complete ===');
+};
+
+run();
+
+export { createMockClient };
@@ -0,0 +1,96 @@
+/**
+ * Test file to validate the inventory outbox replay
+ * Replays queued entries against an in-memory transport and checks ordering, version conflicts and rebasing
+ */
+
+import { replayOutboxEntries } from '../lib/inventory-outbox';
+import { VIEW_AS_READ_ONLY_CODE } from '../lib/view-as';
+import type { InventoryOutboxEntry, InventoryOutboxTransport } from '../lib/inventory-outbox';
+import type { InventoryItem } from '../types';
+
+// In-memory server holding item versions, every accepted change bumps the version
+const createMockTransport = (versions: Record<string, number>, failWith?: { code: string; message: string }) => {
+  const sent: string[] = [];
+  const transport: InventoryOutboxTransport = {
+    getItem: async (itemId) => ({ id: itemId, version: versions[itemId] } as InventoryItem),
+    send: async (entry) => {
+      if (failWith) throw failWith;
+      sent.push(entry.id);
+      versions[entry.itemId] += 1;
+      return entry.type === 'update-quantity' ? ({ id: entry.itemId, version: versions[entry.itemId] } as InventoryItem) : null;
+    },
+  };
+  return { transport, sent };
+};
+
+const createEntry = (id: string, itemId: string, expectedVersion: number, minute: number): InventoryOutboxEntry => ({
+  id,
+  scope: 'tenant-1:user-1',
+  itemId,
+  itemName: itemId,
+  expectedVersion,
+  createdAt: `2024-01-01T10:${String(minute).padStart(2, '0')}:00.000Z`,
+  status: 'pending',
+  type: 'update-quantity',
+  payload: { quantity: minute },
+});
+
+const run = async () => {
+  console.log('=== Inventory Outbox Tests ===');
+
+  // Test entries are replayed oldest first
+  console.log('1. Replay order:');
+  const orderMock = createMockTransport({ a: 1, b: 1 });
+  const ordered = await replayOutboxEntries(
+    [createEntry('second', 'b', 1, 2), createEntry('first', 'a', 1, 1)],
+    orderMock.transport
+  );
+  console.log('Oldest first (should be true):', orderMock.sent.join(',') === 'first,second');
+  console.log('All applied (should be true):', ordered.applied.length === 2 && !ordered.interrupted);
+
+  // Test an item changed on the server is reported as a conflict and not sent
+  console.log('\n2. Version conflict:');
+  const conflictMock = createMockTransport({ a: 3 });
+  const conflicted = await replayOutboxEntries([createEntry('stale', 'a', 2, 1)], conflictMock.transport);
+  console.log('Not sent (should be true):', conflictMock.sent.length === 0);
+  console.log('Marked conflict (should be true):', conflicted.changed[0]?.status === 'conflict');
+
+  // Test consecutive changes to one item are rebased on the version written by the previous one
+  console.log('\n3. Rebase follow-up changes:');
+  const rebaseMock = createMockTransport({ a: 5 });
+  const rebased = await replayOutboxEntries(
+    [createEntry('one', 'a', 5, 1), createEntry('two', 'a', 5, 2)],
+    rebaseMock.transport
+  );
+  console.log('Both applied (should be true):', rebased.applied.length === 2);
+  console.log('Server version bumped twice (should be true):', (await rebaseMock.transport.getItem('a')).version === 7);
+
+  // Test a network error stops the replay and keeps entries pending
+  console.log('\n4. Interrupted replay:');
+  const networkMock = createMockTransport({ a: 1 }, { code: 'errors.NETWORK_ERROR', message: 'errors.NETWORK_ERROR' });
+  const interrupted = await replayOutboxEntries([createEntry('queued', 'a', 1, 1)], networkMock.transport);
+  console.log('Interrupted (should be true):', interrupted.interrupted && interrupted.changed.length === 0);
+
+  // Test a write refused during view-as stops the replay and keeps entries pending
+  console.log('\n5. View-as read-only replay:');
+  const viewAsMock = createMockTransport({ a: 1 }, { code: VIEW_AS_READ_ONLY_CODE, message: VIEW_AS_READ_ONLY_CODE });
+  const viewAs = await replayOutboxEntries(
+    [createEntry('held-one', 'a', 1, 1), createEntry('held-two', 'a', 1, 2)],
+    viewAsMock.transport
+  );
+  console.log('Interrupted (should be true):', viewAs.interrupted);
+  console.log('Nothing marked failed (should be true):', viewAs.changed.length === 0 && viewAs.applied.length === 0);
+
+  // Test a rejected change is marked failed with the error code
+  console.log('\n6. Rejected change:');
+  const rejectMock = createMockTransport({ a: 1 }, { code: 'inventory.QUANTITY_BELOW_ALLOCATED', message: 'rejected' });
+  const rejected = await replayOutboxEntries([createEntry('rejected', 'a', 1, 1)], rejectMock.transport);
+  console.log('Marked failed (should be true):',
+    rejected.changed[0]?.status === 'failed' && rejected.changed[0]?.errorCode === 'inventory.QUANTITY_BELOW_ALLOCATED');
+
+  console.log('\n=== All Inventory Outbox Tests Complete ===');
+};
+
+run();
+
+export { createMockTransport };
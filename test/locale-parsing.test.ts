@@ -0,0 +1,52 @@
+/**
+ * Test file to validate locale-aware input parsing
+ * Parses numbers, currency amounts and dates typed with Persian, Arabic-Indic and Latin digits
+ */
+
+import { defaultLocaleConfig, getLanguageFormattingConfig, normalizeDigits, parseCurrency, parseNumber } from '../lib/locale-formatting';
+import { parseDate } from '../lib/date-formatting';
+import type { LocaleFormattingResponse } from '../types';
+
+const persianConfig = defaultLocaleConfig;
+const arabicConfig: LocaleFormattingResponse['data'] = {
+  ...getLanguageFormattingConfig(defaultLocaleConfig, 'ar'),
+  numberFormat: { digits: 'arabic', decimal: '٫', thousands: '٬', example: '١٢٣٬٤٥٦٫٧٨' },
+  currencyFormat: { code: 'AED', symbol: 'د.إ', position: 'after', example: '١٢٣٬٤٥٦ د.إ' },
+};
+
+const run = () => {
+  console.log('=== Locale Parsing Tests ===');
+
+  // Test digit normalization
+  console.log('1. Digit normalization:');
+  console.log('Persian digits (should be true):', normalizeDigits('۱۲۳۴') === '1234');
+  console.log('Arabic-Indic digits (should be true):', normalizeDigits('٠٩٨٧') === '0987');
+
+  // Test numbers with locale separators
+  console.log('\n2. Numbers:');
+  console.log('Persian quantity (should be true):', parseNumber('۱۲', persianConfig) === 12);
+  console.log('Arabic grouped quantity (should be true):', parseNumber('١٬٥٠٠', arabicConfig) === 1500);
+  console.log('Persian decimal separator (should be true):', parseNumber('۱۲۳،۴۵۶/۷۸', persianConfig) === 123456.78);
+  console.log('Arabic decimal separator (should be true):', parseNumber('٣٫٥', arabicConfig) === 3.5);
+  console.log('Latin digits and minus sign (should be true):', parseNumber('−1,250.5', persianConfig) === -1250.5);
+  console.log('Text is rejected (should be true):', parseNumber('۱۲abc', persianConfig) === null);
+  console.log('Empty input is rejected (should be true):', parseNumber('  ', persianConfig) === null);
+
+  // Test currency amounts with the symbol or code typed
+  console.log('\n3. Currency:');
+  console.log('Rial symbol (should be true):', parseCurrency('۱۲۳،۴۵۶ ریال', persianConfig) === 123456);
+  console.log('Dirham symbol (should be true):', parseCurrency('١٬٢٠٠ د.إ', arabicConfig) === 1200);
+  console.log('Currency code (should be true):', parseCurrency('AED 75', arabicConfig) === 75);
+
+  // Test dates in the tenant calendar
+  console.log('\n4. Dates:');
+  console.log('Jalali date (should be true):', parseDate('۱۴۰۳/۰۱/۱۵', persianConfig) === '2024-04-03');
+  console.log('Jalali leap day (should be true):', parseDate('1403/12/30', persianConfig) === '2025-03-20');
+  console.log('Jalali day that does not exist (should be true):', parseDate('1402/12/30', persianConfig) === null);
+  console.log('Gregorian date with dashes (should be true):', parseDate('٢٠٢٤-٠٢-٢٩', arabicConfig) === '2024-02-29');
+  console.log('Gregorian day that does not exist (should be true):', parseDate('2023/02/29', arabicConfig) === null);
+
+  console.log('\n=== All Locale Parsing Tests Complete ===');
+};
+
+run();
@@ -0,0 +1,88 @@
+/**
+ * Test file to validate the permission audit analytics
+ * Denial rates per permission, top denied users and denials per day in the tenant time zone
+ */
+
+import {
+  getDenialTimeSeries,
+  getDenialsByPermission,
+  getRecentDaysRange,
+  getTopDeniedUsers,
+  summarizePermissionChecks,
+} from '../lib/permission-audit-analytics';
+import { CheckResult, PermissionAction } from '../types';
+import type { PermissionCheck } from '../types';
+
+let nextId = 1;
+const check = (
+  userId: string,
+  resource: string,
+  action: PermissionAction,
+  checkResult: CheckResult,
+  checkedAt: string
+): PermissionCheck => ({
+  id: String(nextId++),
+  userId,
+  permissionId: `${resource}:${action}`,
+  resource,
+  action,
+  checkResult,
+  ipAddress: '127.0.0.1',
+  userAgent: 'test',
+  checkedAt,
+  user: { id: userId, fullName: `User ${userId}`, email: `${userId}@example.com` },
+});
+
+const CHECKS: PermissionCheck[] = [
+  check('u1', 'inventory', PermissionAction.READ, CheckResult.DENIED, '2025-03-01T08:00:00Z'),
+  check('u1', 'inventory', PermissionAction.READ, CheckResult.DENIED, '2025-03-01T09:00:00Z'),
+  check('u2', 'inventory', PermissionAction.READ, CheckResult.GRANTED, '2025-03-01T10:00:00Z'),
+  check('u2', 'customers', PermissionAction.UPDATE, CheckResult.DENIED, '2025-03-02T10:00:00Z'),
+  check('u2', 'customers', PermissionAction.READ, CheckResult.GRANTED, '2025-03-02T11:00:00Z'),
+  // 22:00 UTC is already March 3 in Tehran (+03:30)
+  check('u3', 'reports', PermissionAction.READ, CheckResult.GRANTED, '2025-03-02T22:00:00Z'),
+];
+
+const run = () => {
+  console.log('=== Permission Audit Analytics Tests ===');
+
+  console.log('1. Summary:');
+  const summary = summarizePermissionChecks(CHECKS);
+  console.log('Counts checks and denials (should be true):', summary.total === 6 && summary.denied === 3);
+  console.log('Denial rate (should be true):', summary.denialRate === 0.5);
+  console.log('No checks, no rate (should be true):', summarizePermissionChecks([]).denialRate === 0);
+
+  console.log('\n2. Denials by permission:');
+  const byPermission = getDenialsByPermission(CHECKS);
+  console.log('Most denied first (should be true):',
+    byPermission[0].resource === 'inventory' && byPermission[0].denied === 2 && byPermission[0].total === 3);
+  console.log('Only permissions with denials (should be true):',
+    byPermission.length === 2 && byPermission[1].resource === 'customers' && byPermission[1].denialRate === 1);
+
+  console.log('\n3. Top denied users:');
+  const users = getTopDeniedUsers(CHECKS);
+  console.log('Ordered by denials (should be true):', users.map((user) => user.userId).join() === 'u1,u2');
+  console.log('Limit is applied (should be true):', getTopDeniedUsers(CHECKS, 1).length === 1);
+
+  console.log('\n4. Time series:');
+  const series = getDenialTimeSeries(CHECKS, 'Asia/Tehran', { from: '2025-02-28', to: '2025-03-03' });
+  console.log('Every day of the range (should be true):',
+    series.map((row) => row.date).join() === '2025-02-28,2025-03-01,2025-03-02,2025-03-03');
+  console.log('Counts per day (should be true):', series[1].denied === 2 && series[1].granted === 1);
+  console.log('Days follow the time zone (should be true):', series[3].granted === 1 && series[2].granted === 1);
+  const open = getDenialTimeSeries(CHECKS, 'UTC', { from: '', to: '' });
+  console.log('Open range follows the checks (should be true):',
+    open[0].date === '2025-03-01' && open[open.length - 1].date === '2025-03-02');
+
+  console.log('\n5. Default range:');
+  // 22:00 UTC on 2 March is already 3 March in Tehran
+  const lateEvening = new Date('2025-03-02T22:00:00Z');
+  const tehranRange = getRecentDaysRange(30, 'Asia/Tehran', lateEvening);
+  console.log('Today in the tenant time zone (should be true):', tehranRange.to === '2025-03-03');
+  console.log('Range covers the days (should be true):', tehranRange.from === '2025-02-02');
+  console.log('UTC is still the day before (should be true):', getRecentDaysRange(1, 'UTC', lateEvening).from === '2025-03-02');
+
+  console.log('\n=== All Permission Audit Analytics Tests Complete ===');
+};
+
+run();
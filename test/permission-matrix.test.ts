@@ -0,0 +1,54 @@
+/**
+ * Test file to validate the permission matrix helpers
+ * Grants without the read permission they depend on, and the CSV export
+ */
+
+import { findPermissionInconsistencies, toCsv } from '../lib/permission-matrix';
+import { PermissionAction } from '../types';
+import type { Permission } from '../types';
+
+const permission = (id: string, resource: string, action: PermissionAction): Permission => ({
+  id,
+  resource,
+  action,
+  description: `${resource}:${action}`,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const PERMISSIONS: Permission[] = [
+  permission('p1', 'customers', PermissionAction.READ),
+  permission('p2', 'customers', PermissionAction.UPDATE),
+  permission('p3', 'customers', PermissionAction.MANAGE),
+  permission('p4', 'reports', PermissionAction.EXPORT),
+];
+
+const run = () => {
+  console.log('=== Permission Matrix Tests ===');
+
+  console.log('1. Inconsistencies:');
+  const inconsistencies = findPermissionInconsistencies(PERMISSIONS, {
+    clerk: { p2: true },
+    lead: { p1: true, p2: true },
+    manager: { p2: true, p3: true },
+  });
+  console.log('Update without read is reported (should be true):',
+    inconsistencies.length === 1 && inconsistencies[0].roleId === 'clerk' && inconsistencies[0].missing === 'customers:read');
+  console.log('Update with read is fine (should be true):', !inconsistencies.some((i) => i.roleId === 'lead'));
+  console.log('Manage covers read (should be true):', !inconsistencies.some((i) => i.roleId === 'manager'));
+  console.log('No read in the catalogue, nothing to report (should be true):',
+    findPermissionInconsistencies(PERMISSIONS, { analyst: { p4: true } }).length === 0);
+
+  console.log('\n2. CSV:');
+  const csv = toCsv([['Role', 'Note'], ['Lead, North', 'Says "hi"'], ['مدیر', 'ok']]);
+  console.log('Starts with a byte order mark (should be true):', csv.charCodeAt(0) === 0xfeff);
+  console.log('Commas and quotes are escaped (should be true):',
+    csv.slice(1).split('\r\n')[1] === '"Lead, North","Says ""hi"""');
+  console.log('Plain cells are left as is (should be true):', csv.endsWith('مدیر,ok'));
+  const formulas = toCsv([['=HYPERLINK("http://evil.example")', '+cmd', '-1', '@SUM(A1)', '\tTab', 'a=b']]).slice(1);
+  console.log('Formula cells open as text (should be true):',
+    formulas === `"'=HYPERLINK(""http://evil.example"")",'+cmd,'-1,'@SUM(A1),'\tTab,a=b`);
+
+  console.log('\n=== All Permission Matrix Tests Complete ===');
+};
+
+run();
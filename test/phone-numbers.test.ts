@@ -0,0 +1,39 @@
+/**
+ * Test file to validate phone number parsing
+ * Numbers are grouped and validated by the rules of their country and submitted in E.164 form
+ */
+
+import { formatPhoneNumber, getDefaultPhoneCountry, isValidPhoneNumber, toE164 } from '../lib/phone-numbers';
+
+const run = () => {
+  console.log('=== Phone Number Tests ===');
+
+  console.log('1. Normalization:');
+  console.log('Default country of Iranian tenants (should be true):', getDefaultPhoneCountry('iran') === 'IR');
+  console.log('Default country of UAE tenants (should be true):', getDefaultPhoneCountry('uae') === 'AE');
+  console.log('National number with trunk prefix (should be true):', toE164('0912 345 6789', 'IR') === '+989123456789');
+  console.log('Persian digits (should be true):', toE164('۰۹۱۲۳۴۵۶۷۸۹', 'IR') === '+989123456789');
+  console.log('Arabic digits (should be true):', toE164('٠٥٠١٢٣٤٥٦٧', 'AE') === '+971501234567');
+  console.log('00 prefix picks the country (should be true):', toE164('00971 50 123 4567', 'IR') === '+971501234567');
+  console.log('Empty input (should be true):', toE164('', 'IR') === '');
+
+  console.log('\n2. Grouping:');
+  console.log('Iranian mobile (should be true):', formatPhoneNumber('+989123456789', 'IR') === '+98 912 345 6789');
+  console.log('UAE mobile (should be true):', formatPhoneNumber('+971501234567', 'IR') === '+971 50 123 4567');
+  console.log('UAE landline (should be true):', formatPhoneNumber('+97142345678', 'AE') === '+971 4 234 5678');
+  console.log('Other countries are kept (should be true):', formatPhoneNumber('+447911123456', 'IR') === '+447911123456');
+
+  console.log('\n3. Validation:');
+  console.log('Iranian mobile is valid (should be true):', isValidPhoneNumber('+989123456789'));
+  console.log('Short Iranian number is rejected (should be true):', !isValidPhoneNumber('+98912345678'));
+  console.log('UAE mobile is valid (should be true):', isValidPhoneNumber('+971501234567'));
+  console.log('UAE mobile prefix 51 is rejected (should be true):', !isValidPhoneNumber('+971511234567'));
+  console.log('Trunk prefix after the country code is rejected (should be true):', !isValidPhoneNumber('+9809123456789'));
+  console.log('Number without country code is rejected (should be true):', !isValidPhoneNumber('09123456789'));
+  console.log('Stored national number is valid once normalized (should be true):', isValidPhoneNumber(toE164('0912 345 6789', 'IR')));
+  console.log('Other countries use the E.164 limits (should be true):', isValidPhoneNumber('+447911123456'));
+
+  console.log('\n=== All Phone Number Tests Complete ===');
+};
+
+run();
@@ -0,0 +1,57 @@
+/**
+ * Test file to validate rental due times
+ * Rentals are due at their return time, or by the end of their last day in the tenant time zone
+ */
+
+import { getOverdueDays, getRentalDays, getRentalDueAt, isRentalOverdue } from '../lib/rental-utils';
+import { RentalStatus } from '../types';
+
+const active = (endDate: string) => ({ status: RentalStatus.ACTIVE, endDate });
+
+const run = () => {
+  console.log('=== Rental Utils Tests ===');
+
+  // Test a day-only rental ends at midnight in Tehran (+03:30)
+  console.log('1. Tehran day boundary:');
+  const tehranRental = active('2024-03-19');
+  console.log('Due at Tehran midnight (should be true):',
+    getRentalDueAt(tehranRental, 'Asia/Tehran').toISOString() === '2024-03-19T20:30:00.000Z');
+  console.log('Not overdue before midnight (should be true):',
+    !isRentalOverdue(tehranRental, 'Asia/Tehran', new Date('2024-03-19T20:29:00Z')));
+  console.log('Overdue after midnight (should be true):',
+    isRentalOverdue(tehranRental, 'Asia/Tehran', new Date('2024-03-19T20:31:00Z')));
+  console.log('Still on time in UTC (should be true):',
+    !isRentalOverdue(tehranRental, 'UTC', new Date('2024-03-19T20:31:00Z')));
+
+  // Test a day-only rental ends at midnight in Dubai (+04:00)
+  console.log('\n2. Dubai day boundary:');
+  const dubaiRental = active('2024-04-30');
+  console.log('Due at Dubai midnight (should be true):',
+    getRentalDueAt(dubaiRental, 'Asia/Dubai').toISOString() === '2024-04-30T20:00:00.000Z');
+  console.log('Overdue at 01:00 on 1 May (should be true):',
+    getOverdueDays(dubaiRental, 'Asia/Dubai', new Date('2024-04-30T21:00:00Z')) === 1);
+  console.log('Days counted in Dubai (should be true):',
+    getOverdueDays(dubaiRental, 'Asia/Dubai', new Date('2024-05-02T21:00:00Z')) === 3);
+
+  // Test a return time is due at that instant
+  console.log('\n3. Return time:');
+  const timedRental = active('2024-04-30T14:00:00Z');
+  console.log('Not overdue before the return time (should be true):',
+    !isRentalOverdue(timedRental, 'Asia/Dubai', new Date('2024-04-30T13:59:00Z')));
+  console.log('Overdue after the return time (should be true):',
+    getOverdueDays(timedRental, 'Asia/Dubai', new Date('2024-04-30T14:01:00Z')) === 1);
+  console.log('Returned rentals are never overdue (should be true):',
+    !isRentalOverdue({ ...timedRental, status: RentalStatus.RETURNED }, 'Asia/Dubai', new Date('2024-05-10T00:00:00Z')));
+
+  // Test the rental length uses the tenant day of the return time
+  console.log('\n4. Rental days:');
+  console.log('Return after Tehran midnight adds a day (should be true):',
+    getRentalDays('2024-03-19', '2024-03-19T21:00:00Z', 'Asia/Tehran') === 2);
+  console.log('Same day in UTC (should be true):', getRentalDays('2024-03-19', '2024-03-19T21:00:00Z', 'UTC') === 1);
+  console.log('Return before the start is negative (should be true):',
+    getRentalDays('2024-03-20', '2024-03-19T10:00:00Z', 'Asia/Dubai') < 1);
+
+  console.log('\n=== All Rental Utils Tests Complete ===');
+};
+
+run();
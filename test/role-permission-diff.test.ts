@@ -0,0 +1,54 @@
+/**
+ * Test file to validate the role permission diff shown before saving a role
+ * Added and revoked permissions, reverted toggles, and navigation gained or lost
+ */
+
+import { computeRolePermissionDiff, hasRolePermissionChanges } from '../lib/role-permission-diff';
+import { PermissionAction } from '../types';
+import type { Permission } from '../types';
+
+const permission = (id: string, resource: string, action: PermissionAction): Permission => ({
+  id,
+  resource,
+  action,
+  description: `${resource}:${action}`,
+  createdAt: '2024-01-01T00:00:00Z',
+});
+
+const PERMISSIONS: Permission[] = [
+  permission('p1', 'dashboard', PermissionAction.READ),
+  permission('p2', 'customers', PermissionAction.READ),
+  permission('p3', 'customers', PermissionAction.UPDATE),
+  permission('p4', 'reports', PermissionAction.READ),
+  permission('p5', 'audit', PermissionAction.READ),
+];
+
+// Warehouse lead: dashboard, customers read/update and reports
+const SAVED = { p1: true, p2: true, p3: true, p4: true, p5: false };
+
+const run = () => {
+  console.log('=== Role Permission Diff Tests ===');
+
+  console.log('1. Added and removed:');
+  const diff = computeRolePermissionDiff(PERMISSIONS, SAVED, { p4: false, p5: true });
+  console.log('Audit is added (should be true):', diff.added.map((p) => p.id).join() === 'p5');
+  console.log('Reports is removed (should be true):', diff.removed.map((p) => p.id).join() === 'p4');
+  console.log('Has changes (should be true):', hasRolePermissionChanges(diff));
+
+  console.log('\n2. Reverted toggles:');
+  const reverted = computeRolePermissionDiff(PERMISSIONS, SAVED, { p4: true, p5: false });
+  console.log('Toggling back is no change (should be true):', !hasRolePermissionChanges(reverted));
+  console.log('No navigation change (should be true):', reverted.gainedNavigation.length === 0 && reverted.lostNavigation.length === 0);
+
+  console.log('\n3. Navigation:');
+  console.log('Gains audit (should be true):', diff.gainedNavigation.join() === 'audit');
+  console.log('Loses reports (should be true):', diff.lostNavigation.join() === 'reports');
+  const partial = computeRolePermissionDiff(PERMISSIONS, SAVED, { p3: false });
+  console.log('Customers stays open with read only (should be true):', !partial.lostNavigation.includes('customers'));
+  const closed = computeRolePermissionDiff(PERMISSIONS, SAVED, { p2: false, p3: false });
+  console.log('Customers closes without read and update (should be true):', closed.lostNavigation.join() === 'customers');
+
+  console.log('\n=== All Role Permission Diff Tests Complete ===');
+};
+
+run();
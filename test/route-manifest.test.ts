@@ -0,0 +1,82 @@
+/**
+ * Test file to validate the dashboard route manifest
+ * Every dashboard page has a rule, dynamic segments and implied permissions are honoured,
+ * every visible navigation item opens its page, and the login return target never leaves the app
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DASHBOARD_ROUTES,
+  buildLoginUrl,
+  canAccessRoute,
+  decodeRouteAccess,
+  encodeRouteAccess,
+  findRouteRule,
+  getSafeReturnTo,
+} from '../lib/route-manifest';
+import { NAVIGATION_ITEM_IDS, canAccessNavigationItem, getNavigationPermissions } from '../lib/dynamic-permission-utils';
+
+const DASHBOARD_DIR = path.join(__dirname, '..', 'app', 'dashboard');
+
+// App router paths of every page.tsx under app/dashboard
+const findPagePaths = (dir: string, route: string): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    if (entry.isDirectory()) return findPagePaths(path.join(dir, entry.name), `${route}/${entry.name}`);
+    return entry.name === 'page.tsx' ? [route] : [];
+  });
+
+const run = () => {
+  console.log('=== Route Manifest Tests ===');
+
+  console.log('1. Coverage:');
+  const declaredPaths: string[] = DASHBOARD_ROUTES.map((route) => route.path);
+  const missing = findPagePaths(DASHBOARD_DIR, '/dashboard').filter((page) => !declaredPaths.includes(page));
+  console.log('Every page has a rule (should be true):', missing.length === 0, missing.length ? missing : '');
+  console.log('No duplicate rules (should be true):', new Set(declaredPaths).size === declaredPaths.length);
+
+  console.log('\n2. Matching:');
+  console.log('Dynamic segment (should be true):', findRouteRule('/dashboard/customers/42')?.path === '/dashboard/customers/[customerId]');
+  console.log('Nested dynamic segment (should be true):', findRouteRule('/dashboard/inventory/7/edit')?.path === '/dashboard/inventory/[itemId]/edit');
+  console.log('Unlisted subpage inherits its section (should be true):', findRouteRule('/dashboard/reports/export')?.path === '/dashboard/reports');
+  console.log('Outside the dashboard (should be true):', findRouteRule('/login') === undefined);
+
+  console.log('\n3. Access:');
+  console.log('Landing page for any signed-in user (should be true):', canAccessRoute([], '/dashboard'));
+  console.log('Audit with audit:read (should be true):', canAccessRoute(['audit:read'], '/dashboard/audit'));
+  console.log('Audit without audit:read (should be true):', !canAccessRoute(['users:read'], '/dashboard/audit'));
+  console.log('Edit page needs update (should be true):', !canAccessRoute(['customers:read'], '/dashboard/customers/42/edit'));
+  console.log('customers:manage implies update (should be true):', canAccessRoute(['customers:manage'], '/dashboard/customers/42/edit'));
+  console.log('Settings through the system resource (should be true):', canAccessRoute(['system:read'], '/dashboard/settings'));
+  console.log('Permission analytics with audit:read (should be true):', canAccessRoute(['audit:read'], '/dashboard/permissions/analytics'));
+
+  console.log('\n4. Return to:');
+  console.log('Deep link is kept (should be true):', buildLoginUrl('/dashboard/customers/42?tab=rentals') === '/login?returnTo=%2Fdashboard%2Fcustomers%2F42%3Ftab%3Drentals');
+  console.log('Protocol-relative URL is rejected (should be true):', getSafeReturnTo('//evil.example/dashboard') === null);
+  console.log('Absolute URL is rejected (should be true):', getSafeReturnTo('https://evil.example') === null);
+  console.log('Backslash URL is rejected (should be true):', getSafeReturnTo('/\\evil.example') === null);
+
+  console.log('\n5. Access cookie:');
+  const access = { permissions: ['audit:read', 'users:manage'], sessionExpiresAt: '2024-04-03T10:00:00Z' };
+  const encoded = encodeRouteAccess(access);
+  console.log('Round trip (should be true):', JSON.stringify(decodeRouteAccess(encoded)) === JSON.stringify(access));
+  console.log('Already decoded value (should be true):', decodeRouteAccess(decodeURIComponent(encoded))?.permissions.length === 2);
+  console.log('Malformed value (should be true):', decodeRouteAccess('{"permissions":"all"}') === null);
+
+  console.log('\n6. Navigation:');
+  // Every single permission that shows a navigation item, plus the manage permission implying it
+  const unreachable = NAVIGATION_ITEM_IDS.flatMap((itemId) => {
+    const href = itemId === 'dashboard' ? '/dashboard' : `/dashboard/${itemId}`;
+    const candidates = getNavigationPermissions(itemId).flatMap((permission) => [permission, `${permission.split(':')[0]}:manage`]);
+    return candidates
+      .filter((permission) => canAccessNavigationItem([permission], itemId) && !canAccessRoute([permission], href))
+      .map((permission) => `${href} (${permission})`);
+  });
+  console.log('Every visible navigation item is reachable (should be true):', unreachable.length === 0, unreachable.length ? unreachable : '');
+  console.log('Users opens with users:create (should be true):', canAccessRoute(['users:create'], '/dashboard/users'));
+  console.log('Settings opens with system:update (should be true):', canAccessRoute(['system:update'], '/dashboard/settings'));
+
+  console.log('\n=== All Route Manifest Tests Complete ===');
+};
+
+run();
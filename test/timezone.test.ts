@@ -0,0 +1,59 @@
+/**
+ * Test file to validate time zone conversion
+ * Timestamps are rendered and submitted in the tenant time zone (Tehran +03:30, Dubai +04:00)
+ */
+
+import { defaultLocaleConfig, getLanguageFormattingConfig } from '../lib/locale-formatting';
+import { formatDate, formatDateTime } from '../lib/date-formatting';
+import { formatTimeZoneOffset, fromWallClock, getTimeZone, getTimeZoneOffset, toWallClock } from '../lib/timezone';
+import type { LocaleFormattingResponse } from '../types';
+
+const tehranConfig = defaultLocaleConfig;
+const utcConfig: LocaleFormattingResponse['data'] = {
+  ...defaultLocaleConfig,
+  dateFormat: { ...defaultLocaleConfig.dateFormat, timeZone: 'UTC' },
+};
+const dubaiConfig: LocaleFormattingResponse['data'] = {
+  ...defaultLocaleConfig,
+  locale: 'uae',
+  language: 'arabic',
+  dateFormat: { ...defaultLocaleConfig.dateFormat, calendar: 'gregorian' },
+  numberFormat: { ...defaultLocaleConfig.numberFormat, digits: 'arabic' },
+};
+
+// 23:00 UTC on 19 March 2024 is already 1 Farvardin 1403 in Tehran
+const newYearInTehran = '2024-03-19T23:00:00Z';
+
+const run = () => {
+  console.log('=== Time Zone Tests ===');
+
+  // Test offsets of zones without daylight saving time
+  console.log('1. Offsets:');
+  console.log('Tehran default zone (should be true):', getTimeZone(tehranConfig) === 'Asia/Tehran');
+  console.log('Dubai default zone (should be true):', getTimeZone(dubaiConfig) === 'Asia/Dubai');
+  console.log('Tehran in winter (should be true):', getTimeZoneOffset(new Date('2024-01-15T12:00:00Z'), 'Asia/Tehran') === 210);
+  console.log('Tehran in summer, no DST (should be true):', getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Tehran') === 210);
+  console.log('Dubai in summer (should be true):', getTimeZoneOffset(new Date('2024-07-15T12:00:00Z'), 'Asia/Dubai') === 240);
+  console.log('Tenant zone is kept in another UI language (should be true):', getTimeZone(getLanguageFormattingConfig(tehranConfig, 'ar')) === 'Asia/Tehran');
+  console.log('Offset label (should be true):', formatTimeZoneOffset('Asia/Tehran') === 'UTC+03:30');
+
+  // Test rendering across Jalali month and year boundaries
+  console.log('\n2. Rendering:');
+  console.log('Tehran is in the new Jalali year (should be true):', formatDate(newYearInTehran, tehranConfig) === '۱ فروردین ۱۴۰۳');
+  console.log('UTC is still in Esfand (should be true):', formatDate(newYearInTehran, utcConfig) === '۲۹ اسفند ۱۴۰۲');
+  console.log('Tehran time of day (should be true):', formatDateTime(newYearInTehran, tehranConfig) === '۱ فروردین ۱۴۰۳ ۰۲:۳۰');
+  console.log('Dubai time of day (should be true):', formatDateTime('2024-03-31T21:15:00Z', dubaiConfig).includes('٠١:١٥'));
+
+  // Test submitted values
+  console.log('\n3. Submitting:');
+  const tehranMidnight = fromWallClock({ year: 2024, month: 3, day: 20, hour: 0, minute: 0 }, 'Asia/Tehran');
+  console.log('Tehran wall clock to UTC (should be true):', tehranMidnight.toISOString() === '2024-03-19T20:30:00.000Z');
+  const dubaiEvening = fromWallClock({ year: 2024, month: 4, day: 30, hour: 23, minute: 45 }, 'Asia/Dubai');
+  console.log('Dubai month end to UTC (should be true):', dubaiEvening.toISOString() === '2024-04-30T19:45:00.000Z');
+  const roundTrip = toWallClock(tehranMidnight, 'Asia/Tehran');
+  console.log('Round trip (should be true):', roundTrip.day === 20 && roundTrip.hour === 0 && roundTrip.minute === 0);
+
+  console.log('\n=== All Time Zone Tests Complete ===');
+};
+
+run();
@@ -0,0 +1,70 @@
+/**
+ * Test file to validate the read-only "view as" mode
+ * Only reads and the writes the view itself needs pass, and a malformed stored view is ignored
+ */
+
+import { authEndpoints, auditEndpoints } from '../services/endpoints';
+import { isAllowedWhileViewingAs, readViewAsSession, writeViewAsSession } from '../lib/view-as';
+
+// Same paths the apiClient interceptor allows
+const ALLOWED_PATHS = [
+  authEndpoints.login.path,
+  authEndpoints.logout.path,
+  authEndpoints.refreshSession.path,
+  auditEndpoints.recordEvent.path,
+];
+
+// In-memory sessionStorage, the view is stored per tab
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  window: globalThis,
+  sessionStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+});
+
+const run = () => {
+  console.log('=== View As Tests ===');
+
+  console.log('1. Reads:');
+  console.log('GET is allowed (should be true):', isAllowedWhileViewingAs('get', '/inventory', ALLOWED_PATHS));
+  console.log('HEAD is allowed (should be true):', isAllowedWhileViewingAs('HEAD', '/inventory', ALLOWED_PATHS));
+  console.log('Missing method defaults to GET (should be true):', isAllowedWhileViewingAs(undefined, '/customers', ALLOWED_PATHS));
+
+  console.log('\n2. Writes:');
+  console.log('POST is refused (should be true):', !isAllowedWhileViewingAs('post', '/rentals', ALLOWED_PATHS));
+  console.log('PUT is refused (should be true):', !isAllowedWhileViewingAs('put', '/inventory/1/quantity', ALLOWED_PATHS));
+  console.log('DELETE is refused (should be true):', !isAllowedWhileViewingAs('delete', '/customers/1', ALLOWED_PATHS));
+  console.log('PATCH is refused (should be true):', !isAllowedWhileViewingAs('patch', '/users/1', ALLOWED_PATHS));
+
+  console.log('\n3. Writes the view needs:');
+  console.log('Logout is allowed (should be true):', isAllowedWhileViewingAs('post', '/auth/logout', ALLOWED_PATHS));
+  console.log('Session refresh is allowed (should be true):', isAllowedWhileViewingAs('post', '/auth/session/refresh', ALLOWED_PATHS));
+  console.log('Audit events are allowed (should be true):', isAllowedWhileViewingAs('post', '/audit/events', ALLOWED_PATHS));
+  console.log('Other audit writes are refused (should be true):', !isAllowedWhileViewingAs('post', '/audit/logs', ALLOWED_PATHS));
+
+  console.log('\n4. Stored session:');
+  writeViewAsSession({
+    viewerUserId: 'viewer',
+    targetType: 'role',
+    targetId: 'role-1',
+    targetName: 'Cashier',
+    roleId: 'role-1',
+    roleName: 'cashier',
+    permissions: ['inventory:read'],
+    startedAt: '2024-04-03T10:00:00Z',
+  });
+  console.log('Valid session is read (should be true):', readViewAsSession()?.targetId === 'role-1');
+  storage.set('samanin-view-as', '{not json');
+  console.log('Invalid JSON is ignored (should be true):', readViewAsSession() === null);
+  storage.set('samanin-view-as', JSON.stringify({ viewerUserId: 'viewer', targetId: 'role-1', permissions: 'all' }));
+  console.log('Permissions must be a list (should be true):', readViewAsSession() === null);
+  storage.set('samanin-view-as', JSON.stringify({ targetId: 'role-1', permissions: [] }));
+  console.log('Viewer is required (should be true):', readViewAsSession() === null);
+
+  console.log('\n=== All View As Tests Complete ===');
+};
+
+run();
@@ -1,7 +1,17 @@
-// Language types
-export type Language = 'fa' | 'ar';
-export type TenantLanguage = 'persian' | 'arabic';
-export type TenantLocale = 'iran' | 'uae';
+import type {
+  CalendarSystem,
+  CurrencyPlacement,
+  DigitSet,
+  LocaleCode,
+  RegisteredCurrencyCode,
+  RegisteredTenantLanguage,
+  RegisteredTenantLocale,
+} from '@/lib/locale-registry';
+
+// Language types, derived from the locale registry
+export type Language = LocaleCode;
+export type TenantLanguage = RegisteredTenantLanguage;
+export type TenantLocale = RegisteredTenantLocale;
 
 // ? - Locale Formatting types
 export interface LocaleFormattingResponse {
@@ -11,20 +21,22 @@ export interface LocaleFormattingResponse {
     locale: TenantLocale;
     language: TenantLanguage;
     dateFormat: {
-      calendar: 'persian' | 'gregorian';
+      calendar: CalendarSystem;
       format: string;
       example: string;
+      // IANA time zone timestamps are shown in, the locale default when absent
+      timeZone?: string;
     };
     numberFormat: {
-      digits: 'persian' | 'arabic' | 'latin';
+      digits: DigitSet;
       decimal: string;
       thousands: string;
       example: string;
     };
     currencyFormat: {
-      code: 'IRR' | 'AED';
+      code: RegisteredCurrencyCode;
       symbol: string;
-      position: 'before' | 'after';
+      position: CurrencyPlacement;
       example: string;
     };
   };
@@ -110,7 +122,8 @@ export interface LoginResponse {
     tenantId: string;
     email: string;
     fullName: string;
-    roleName: 'tenant_owner' | 'admin' | 'manager' | 'employee' | 'staff';
+    // Built-in RoleName or the name of a custom role
+    roleName: string;
     permissions: string[];
     redirectUrl: string;
     sessionExpiresAt: string;
@@ -124,6 +137,15 @@ export interface LogoutResponse {
   message: string;
 }
 
+// Session refresh for the session-expiry watchdog
+export interface RefreshSessionResponse {
+  code: string;
+  message: string;
+  data: {
+    sessionExpiresAt: string;
+  };
+}
+
 export interface PasswordResetRequest {
   email: string;
 }
@@ -227,13 +249,19 @@ export interface DashboardResponse {
 
 // ? User Management interfaces
 export type UserStatus = 'active' | 'inactive' | 'pending_verification' | 'suspended';
+// Built-in roles every tenant starts with
 export type RoleName = 'tenant_owner' | 'admin' | 'manager' | 'employee' | 'staff';
 
 export interface Role {
   id: string;
-  name: RoleName;
+  // RoleName for built-in roles, a tenant-chosen name for custom roles
+  name: string;
   displayName: string;
   canAssign: boolean;
+  description?: string;
+  // Custom roles can be renamed and deleted, built-in roles can only be cloned
+  isCustom?: boolean;
+  userCount?: number;
 }
 
 export interface CreateUserRequest {
@@ -362,7 +390,7 @@ export interface UserProfileResponse {
     email: string;
     phoneNumber?: string;
     status: UserStatus;
-    roleName: RoleName;
+    roleName: string;
     lastLoginAt?: string;
     lastLoginIp?: string;
     createdAt: string;
@@ -463,7 +491,9 @@ export enum AuditAction {
   SESSION_TERMINATED = 'session_terminated',
   PROFILE_UPDATED = 'profile_updated',
   EMAIL_VERIFIED = 'email_verified',
-  SYSTEM_CONFIGURATION_CHANGED = 'system_configuration_changed'
+  SYSTEM_CONFIGURATION_CHANGED = 'system_configuration_changed',
+  VIEW_AS_STARTED = 'view_as_started',
+  VIEW_AS_ENDED = 'view_as_ended'
 }
 
 export enum AuditStatus {
@@ -491,7 +521,7 @@ export interface AuditLog {
   actorUserId: string;
   targetUserId?: string;
   actionType: string; // Translated text from backend
-  rawActionType?: string; // Raw enum value for filtering (optional for backward compatibility)
+  rawActionType: string; // Raw enum value for filtering, older APIs without it fall back to actionType
   description: string;
   ipAddress: string;
   userAgent: string;
@@ -510,6 +540,19 @@ export interface AuditLog {
   };
 }
 
+// Audit entries written by the client for actions the API does not see
+export interface RecordAuditEventRequest {
+  action: AuditAction;
+  targetUserId?: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RecordAuditEventResponse {
+  code: string;
+  message: string;
+}
+
 export interface AuditLogsParams {
   page?: number;
   limit?: number;
@@ -578,8 +621,7 @@ export interface AuditExportResponse {
     exportId: string;
     exportFormat: ExportFormat;
     status: ExportStatus;
-    estimatedRecordCount?: number;
-    estimatedRecords?: number; // Alternative field name
+    estimatedRecordCount?: number; // Older APIs sent `estimatedRecords`, normalized by the response schema
     filtersApplied?: Record<string, any>;
     expiresAt?: string;
     downloadUrl?: string;
@@ -642,6 +684,21 @@ export interface UpdateRolePermissionsRequest {
     permissionId: string;
     isGranted: boolean;
   }>;
+  // UTC timestamp to apply the change at instead of immediately
+  effectiveAt?: string;
+  // Sign out the role's users so their sessions pick up the change
+  terminateSessions?: boolean;
+}
+
+// Who a pending role permission change would reach, without applying it
+export interface RolePermissionsImpactResponse {
+  code: string;
+  message: string;
+  data: {
+    roleId: string;
+    affectedUserCount: number;
+    activeSessionCount: number;
+  };
 }
 
 export interface UpdateRolePermissionsResponse {
@@ -653,9 +710,42 @@ export interface UpdateRolePermissionsResponse {
     modifiedCount: number;
     modifiedBy: string;
     modifiedAt: string;
+    // Set when the change was scheduled rather than applied
+    scheduledFor?: string;
+    sessionsInvalidated?: number;
   };
 }
 
+// Custom roles
+export interface CreateRoleRequest {
+  displayName: string;
+  description?: string;
+  // Permissions granted to the new role
+  permissionIds: string[];
+}
+
+export interface UpdateRoleRequest {
+  displayName: string;
+  description?: string;
+}
+
+// The clone starts with every permission of the source role
+export interface CloneRoleRequest {
+  displayName: string;
+  description?: string;
+}
+
+export interface RoleResponse {
+  code: string;
+  message: string;
+  data: Role;
+}
+
+export interface DeleteRoleResponse {
+  code: string;
+  message: string;
+}
+
 export interface PermissionCheckRequest {
   resource: string;
   action: PermissionAction;
@@ -1073,3 +1163,354 @@ export interface UpdateNonSerializedItemQuantityResponse {
   message: string;
   data: InventoryItem;
 }
+
+// Customer Management Types
+
+export enum CustomerStatus {
+  ACTIVE = 'active',
+  INACTIVE = 'inactive',
+  BLOCKED = 'blocked',
+}
+
+// Customer DTO
+export interface Customer {
+  id: string;
+  fullName: string;
+  nationalId: string;
+  phoneNumber: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  status: CustomerStatus;
+  version: number;
+  activeRentalsCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create customer request
+export interface CreateCustomerRequest {
+  fullName: string;
+  nationalId: string;
+  phoneNumber: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+}
+
+// Create customer response
+export interface CreateCustomerResponse {
+  code: string;
+  message: string;
+  data: Customer;
+}
+
+// List customers query parameters
+export interface CustomersListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: CustomerStatus;
+  sortBy?: 'fullName' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+// List customers response
+export interface CustomersListResponse {
+  code: string;
+  message: string;
+  data: Customer[];
+  meta: PaginationMeta;
+}
+
+// Get customer response
+export interface GetCustomerResponse {
+  code: string;
+  message: string;
+  data: Customer;
+}
+
+// Update customer request
+export interface UpdateCustomerRequest {
+  fullName: string;
+  nationalId: string;
+  phoneNumber: string;
+  email?: string;
+  address?: string;
+  notes?: string;
+  status: CustomerStatus;
+  version: number;
+}
+
+// Update customer response
+export interface UpdateCustomerResponse {
+  code: string;
+  message: string;
+  data: Customer;
+}
+
+// Delete customer response
+export interface DeleteCustomerResponse {
+  code: string;
+  message: string;
+}
+
+// Rental Management Types
+
+export enum RentalStatus {
+  RESERVED = 'reserved',
+  ACTIVE = 'active',
+  RETURNED = 'returned',
+  CANCELLED = 'cancelled',
+}
+
+// Condition recorded for each item on return, becomes the item's new availability status
+export type RentalReturnCondition =
+  | AvailabilityStatus.AVAILABLE
+  | AvailabilityStatus.DAMAGED
+  | AvailabilityStatus.MAINTENANCE;
+
+// Rented item line
+export interface RentalItem {
+  id: string;
+  inventoryItemId: string;
+  itemName: string;
+  itemType: ItemType;
+  serialNumber?: string;
+  quantity: number;
+  quantityUnit?: string;
+  returnCondition?: RentalReturnCondition;
+  returnNotes?: string;
+}
+
+// Rental DTO
+export interface Rental {
+  id: string;
+  rentalNumber: string;
+  customerId: string;
+  customerName: string;
+  items: RentalItem[];
+  startDate: string;
+  endDate: string;
+  status: RentalStatus;
+  notes?: string;
+  checkedOutAt?: string;
+  returnedAt?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create rental request
+export interface CreateRentalRequest {
+  customerId: string;
+  startDate: string;
+  endDate: string;
+  items: Array<{
+    inventoryItemId: string;
+    quantity: number;
+  }>;
+  notes?: string;
+}
+
+// Create rental response
+export interface CreateRentalResponse {
+  code: string;
+  message: string;
+  data: Rental;
+}
+
+// List rentals query parameters
+export interface RentalsListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  status?: RentalStatus;
+  customerId?: string;
+  overdue?: boolean;
+  sortBy?: 'startDate' | 'endDate' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+// List rentals response
+export interface RentalsListResponse {
+  code: string;
+  message: string;
+  data: Rental[];
+  meta: PaginationMeta;
+}
+
+// Get rental response
+export interface GetRentalResponse {
+  code: string;
+  message: string;
+  data: Rental;
+}
+
+// Check out rental request, items leave the inventory
+export interface CheckoutRentalRequest {
+  version: number;
+}
+
+// Check out rental response
+export interface CheckoutRentalResponse {
+  code: string;
+  message: string;
+  data: Rental;
+}
+
+// Return rental request with the condition of every item
+export interface ReturnRentalRequest {
+  items: Array<{
+    rentalItemId: string;
+    condition: RentalReturnCondition;
+    notes?: string;
+  }>;
+  version: number;
+}
+
+// Return rental response
+export interface ReturnRentalResponse {
+  code: string;
+  message: string;
+  data: Rental;
+}
+
+// Reports Types
+
+export enum ReportType {
+  INVENTORY_UTILIZATION = 'inventory_utilization',
+  MAINTENANCE_OVERDUE = 'maintenance_overdue',
+  USER_LOGINS = 'user_logins',
+}
+
+export type ReportPeriod = 'day' | 'week' | 'month';
+
+// Inventory by category and availability status
+export interface InventoryUtilizationParams {
+  categoryId?: string;
+  itemType?: ItemType;
+}
+
+export interface InventoryUtilizationRow {
+  categoryId: string;
+  categoryName: string;
+  statusCounts: Record<AvailabilityStatus, number>;
+  total: number;
+}
+
+export interface InventoryUtilizationResponse {
+  code: string;
+  message: string;
+  data: {
+    rows: InventoryUtilizationRow[];
+    totals: Record<AvailabilityStatus, number>;
+    generatedAt: string;
+  };
+}
+
+// Items in maintenance past their expected resolution date
+export interface MaintenanceOverdueParams {
+  categoryId?: string;
+  minOverdueDays?: number;
+}
+
+export interface MaintenanceOverdueRow {
+  itemId: string;
+  itemName: string;
+  categoryName: string;
+  serialNumber?: string;
+  changeReason?: string;
+  maintenanceSince: string;
+  expectedResolutionDate: string;
+  overdueDays: number;
+}
+
+export interface MaintenanceOverdueResponse {
+  code: string;
+  message: string;
+  data: {
+    rows: MaintenanceOverdueRow[];
+    generatedAt: string;
+  };
+}
+
+// User logins per period, aggregated from audit logs
+export interface UserLoginsParams {
+  dateFrom: string;
+  dateTo: string;
+  period: ReportPeriod;
+}
+
+export interface UserLoginsRow {
+  periodStart: string;
+  successCount: number;
+  failedCount: number;
+  uniqueUsers: number;
+}
+
+export interface UserLoginsResponse {
+  code: string;
+  message: string;
+  data: {
+    rows: UserLoginsRow[];
+    generatedAt: string;
+  };
+}
+
+export interface ReportExportRequest {
+  reportType: ReportType;
+  exportFormat: ExportFormat;
+  parameters: InventoryUtilizationParams | MaintenanceOverdueParams | UserLoginsParams;
+}
+
+export interface ReportExportResponse {
+  code: string;
+  message: string;
+  data: {
+    exportId: string;
+    status: ExportStatus;
+    recordCount: number;
+    downloadUrl?: string;
+    expiresAt: string;
+  };
+}
+
+// Tenant Settings Types
+
+export type CalendarType = LocaleFormattingResponse['data']['dateFormat']['calendar'];
+export type DigitStyle = LocaleFormattingResponse['data']['numberFormat']['digits'];
+export type CurrencyPosition = LocaleFormattingResponse['data']['currencyFormat']['position'];
+
+export interface TenantSettings {
+  companyName: string;
+  locale: TenantLocale;
+  language: TenantLanguage;
+  calendar: CalendarType;
+  digits: DigitStyle;
+  currencyPosition: CurrencyPosition;
+  timeZone?: string;
+  version: number;
+  updatedAt: string;
+}
+
+export interface GetTenantSettingsResponse {
+  code: string;
+  message: string;
+  data: TenantSettings;
+}
+
+export interface UpdateTenantSettingsRequest {
+  companyName: string;
+  calendar: CalendarType;
+  digits: DigitStyle;
+  currencyPosition: CurrencyPosition;
+  timeZone: string;
+  version: number;
+}
+
+export interface UpdateTenantSettingsResponse {
+  code: string;
+  message: string;
+  data: TenantSettings;
+}